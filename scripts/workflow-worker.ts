@@ -0,0 +1,45 @@
+// scripts/workflow-worker.ts
+//
+// Standalone worker that executes queued research workflows and starts
+// scheduled ones when they are due.
+// Run alongside the Next.js server:  npm run worker
+//
+// Env: DATABASE_URL (required), WORKFLOW_WORKER_ID, WORKFLOW_LEASE_MS,
+//      WORKFLOW_POLL_INTERVAL_MS, SCHEDULE_POLL_INTERVAL_MS,
+//      WORKFLOW_SCHEDULER=off, plus the search/AI keys the engine uses.
+
+import { config } from "dotenv";
+
+// Load env before anything imports the Prisma client
+config({ path: ".env.local" });
+config();
+
+async function main() {
+  const { runWorker } = await import("@/lib/workflow-queue");
+  const { runScheduler } = await import("@/lib/workflow-schedule");
+
+  const controller = new AbortController();
+  const shutdown = (signal: string) => {
+    console.log(`${signal} received, finishing current job before exit...`);
+    controller.abort();
+  };
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+  await Promise.all([
+    runWorker({
+      workerId: process.env.WORKFLOW_WORKER_ID || undefined,
+      leaseMs: Number(process.env.WORKFLOW_LEASE_MS) || undefined,
+      pollIntervalMs: Number(process.env.WORKFLOW_POLL_INTERVAL_MS) || undefined,
+      signal: controller.signal,
+    }),
+    runScheduler({ signal: controller.signal }),
+  ]);
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Workflow worker crashed:", error);
+  process.exit(1);
+});
@@ -4,6 +4,10 @@ import { prisma } from "@/lib/prisma";
 import { createClient } from "@/lib/supabase/server";
 import { ensureUserExists } from "@/lib/utils/sync-user";
 import { synthesizeReport } from "@/lib/workflow-engine";
+import {
+  DEFAULT_PROMPT_VERSION,
+  workflowPromptVersion,
+} from "@/lib/workflow-prompts";
 
 // POST /api/reports/generate — Generate report from workflow results or collection
 export async function POST(request: NextRequest) {
@@ -29,6 +33,9 @@ export async function POST(request: NextRequest) {
 
     let reportData: any;
     let sourceData: any = {};
+    // Workflow reports use the workflow's prompt version
+    let promptVersion = DEFAULT_PROMPT_VERSION;
+    const prompts: string[] = [];
 
     // ── Generate from workflow results ──
     if (workflowId) {
@@ -70,17 +77,22 @@ export async function POST(request: NextRequest) {
       }
 
       // Synthesize report from workflow results
+      promptVersion = workflowPromptVersion(workflow.promptVersion);
       reportData = await synthesizeReport({
         goal: workflow.query,
         results: workflow.results as any[],
         outputFormat: reportType || workflow.outputFormat,
         customTitle: title,
+        promptVersion,
+        prompts,
       });
 
       sourceData = {
         workflowQuery: workflow.query,
         workflowId: workflow.id,
         sources: workflow.sources.map((s) => ({ type: s })),
+        coverage: reportData.coverage,
+        bibliography: reportData.sources,
       };
     }
 
@@ -111,12 +123,16 @@ export async function POST(request: NextRequest) {
         ],
         outputFormat: reportType,
         customTitle: title || `${collection.name} — ${reportType} Report`,
+        promptVersion,
+        prompts,
       });
 
       sourceData = {
         collectionId: collection.id,
         collectionName: collection.name,
         itemCount: items.length,
+        coverage: reportData.coverage,
+        bibliography: reportData.sources,
       };
     }
 
@@ -128,6 +144,8 @@ export async function POST(request: NextRequest) {
         summary: reportData.summary,
         sections: reportData.sections,
         format: reportType,
+        promptVersion,
+        prompts,
         sourceData,
         workflowId: workflowId || null,
         sourceCollectionId: collectionId || null,
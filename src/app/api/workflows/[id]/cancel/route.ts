@@ -3,6 +3,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { createClient } from "@/lib/supabase/server";
 import { ensureUserExists } from "@/lib/utils/sync-user";
+import { cancelQueuedJobs } from "@/lib/workflow-queue";
+import { emitWorkflowEvent } from "@/lib/workflow-events";
+import { Prisma } from "@/generated/prisma/client";
 
 // POST /api/workflows/[id]/cancel — Cancel a running workflow
 export async function POST(
@@ -23,7 +26,7 @@ export async function POST(
 
     const workflow = await prisma.workflow.findUnique({
       where: { id },
-      select: { userId: true, status: true, currentStep: true },
+      select: { userId: true, status: true },
     });
 
     if (!workflow) {
@@ -37,35 +40,49 @@ export async function POST(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    if (workflow.status !== "running" && workflow.status !== "pending") {
+    if (
+      !["running", "pending", "paused", "awaiting_input"].includes(
+        workflow.status
+      )
+    ) {
       return NextResponse.json(
         { error: `Cannot cancel workflow with status: ${workflow.status}` },
         { status: 400 }
       );
     }
 
-    // Mark workflow as failed with cancellation reason
+    // The worker polls for this status and aborts in-flight calls
     await prisma.workflow.update({
       where: { id },
       data: {
-        status: "failed",
+        status: "cancelled",
         errorMessage: "Cancelled by user",
-        failedStep: workflow.currentStep,
+        cancelledAt: new Date(),
+        activeSteps: [],
+        review: Prisma.DbNull,
       },
     });
 
-    // Mark any pending/running executions as failed
+    // Drop the job if no worker has claimed it yet
+    await cancelQueuedJobs(id);
+
+    // Mark any pending/running/unanswered executions as cancelled
     await prisma.workflowExecution.updateMany({
       where: {
         workflowId: id,
-        status: { in: ["pending", "running"] },
+        status: { in: ["pending", "running", "awaiting_input"] },
       },
       data: {
-        status: "failed",
+        status: "cancelled",
         error: "Cancelled by user",
       },
     });
 
+    await emitWorkflowEvent(id, "workflow.status", {
+      status: "cancelled",
+      final: true,
+    });
+
     return NextResponse.json({
       success: true,
       message: "Workflow cancelled",
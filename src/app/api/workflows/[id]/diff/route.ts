@@ -0,0 +1,63 @@
+// app/api/workflows/[id]/diff/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import { diffRuns, loadRunSnapshot } from "@/lib/workflow-diff";
+
+// GET /api/workflows/[id]/diff — Compare a run with the run it re-ran
+// (or with ?against=<workflow id>): new and removed results, metric
+// changes and changed report sections
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+
+    const current = await loadRunSnapshot(id);
+    if (!current) {
+      return NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (current.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const againstId =
+      request.nextUrl.searchParams.get("against") ?? current.rerunOfId;
+    if (!againstId) {
+      return NextResponse.json(
+        { error: "Workflow is not a re-run; pass ?against=<workflow id>" },
+        { status: 400 }
+      );
+    }
+
+    const previous = await loadRunSnapshot(againstId);
+    if (!previous || previous.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Previous run not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diffRuns(previous, current));
+  } catch (error) {
+    console.error("Failed to diff workflow runs:", error);
+    return NextResponse.json(
+      { error: "Failed to diff workflow runs" },
+      { status: 500 }
+    );
+  }
+}
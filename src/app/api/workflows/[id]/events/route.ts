@@ -0,0 +1,144 @@
+// app/api/workflows/[id]/events/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import {
+  latestWorkflowEventId,
+  readWorkflowEvents,
+  waitForWorkflowEvent,
+  type WorkflowEventRecord,
+} from "@/lib/workflow-events";
+
+export const dynamic = "force-dynamic";
+
+/** Comment line sent while idle so proxies keep the connection open */
+const HEARTBEAT_MS = 15_000;
+
+/** Streams end after this long; EventSource reconnects with Last-Event-ID */
+const MAX_STREAM_MS = 5 * 60_000;
+
+/** Statuses with nothing left to stream once their events are sent */
+function isSettled(status: string, hasReport: boolean): boolean {
+  if (status === "completed") return hasReport;
+  return ["failed", "cancelled", "draft"].includes(status);
+}
+
+// GET /api/workflows/[id]/events — Live progress as Server-Sent Events
+// Resumes after the Last-Event-ID header or ?after=<event id>; ?after=latest
+// skips the history and only streams what happens from now on.
+// Each event is `event: <type>` with the JSON payload as data; the stream
+// sends `event: end` and closes once the workflow has finished.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+
+    const workflow = await prisma.workflow.findUnique({
+      where: { id },
+      select: { userId: true, status: true, report: { select: { id: true } } },
+    });
+
+    if (!workflow) {
+      return NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (workflow.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const cursor =
+      request.headers.get("last-event-id") ??
+      request.nextUrl.searchParams.get("after");
+    let lastId =
+      cursor === "latest" ? await latestWorkflowEventId(id) : Number(cursor) || 0;
+    const settled = isSettled(workflow.status, !!workflow.report);
+
+    const encoder = new TextEncoder();
+    const signal = request.signal;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+        const sendEvent = (event: WorkflowEventRecord) => {
+          send(
+            `id: ${event.id}\nevent: ${event.type}\n` +
+              `data: ${JSON.stringify({ ...event.data, createdAt: event.createdAt })}\n\n`
+          );
+        };
+
+        const openedAt = Date.now();
+        let lastWrite = Date.now();
+        // Whether the last event sent ended the run; a retry can follow one
+        let finished = false;
+        send("retry: 3000\n\n");
+
+        try {
+          while (!signal.aborted && Date.now() - openedAt < MAX_STREAM_MS) {
+            const events = await readWorkflowEvents(id, lastId);
+            for (const event of events) {
+              sendEvent(event);
+              lastId = event.id;
+              finished = !!event.data?.final;
+            }
+            if (events.length > 0) {
+              lastWrite = Date.now();
+              continue;
+            }
+
+            // Everything the client missed has been sent
+            if (finished || settled) {
+              send("event: end\ndata: {}\n\n");
+              break;
+            }
+
+            if (Date.now() - lastWrite >= HEARTBEAT_MS) {
+              send(": heartbeat\n\n");
+              lastWrite = Date.now();
+            }
+            await waitForWorkflowEvent(id, signal);
+          }
+        } catch (error: any) {
+          if (!signal.aborted) {
+            console.error(`Workflow event stream for ${id} failed:`, error.message);
+          }
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to open workflow event stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open workflow event stream" },
+      { status: 500 }
+    );
+  }
+}
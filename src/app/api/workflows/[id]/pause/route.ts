@@ -0,0 +1,71 @@
+// app/api/workflows/[id]/pause/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import { cancelQueuedJobs } from "@/lib/workflow-queue";
+import { emitWorkflowEvent } from "@/lib/workflow-events";
+
+// POST /api/workflows/[id]/pause — Hold a workflow between steps
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+
+    const workflow = await prisma.workflow.findUnique({
+      where: { id },
+      select: { userId: true, status: true },
+    });
+
+    if (!workflow) {
+      return NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (workflow.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (workflow.status !== "running" && workflow.status !== "pending") {
+      return NextResponse.json(
+        { error: `Cannot pause workflow with status: ${workflow.status}` },
+        { status: 400 }
+      );
+    }
+
+    // The engine stops launching steps once it sees this status;
+    // steps already in flight finish and keep their results
+    await prisma.workflow.update({
+      where: { id },
+      data: { status: "paused", pausedAt: new Date() },
+    });
+
+    // A queued job would just exit immediately; resume enqueues a new one
+    await cancelQueuedJobs(id);
+    await emitWorkflowEvent(id, "workflow.status", { status: "paused" });
+
+    return NextResponse.json({
+      success: true,
+      message: "Workflow paused",
+    });
+  } catch (error) {
+    console.error("Failed to pause workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to pause workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+// app/api/workflows/[id]/rerun/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import { enqueueWorkflow } from "@/lib/workflow-queue";
+import { PROMPT_VERSIONS, isPromptVersion } from "@/lib/workflow-prompts";
+
+// POST /api/workflows/[id]/rerun — Run a finished workflow's steps again
+// as a new workflow linked to it, for GET /api/workflows/[new id]/diff.
+// Body (optional): { draft: true } — store the clone without running it;
+// { promptVersion: "v1" } — run it with other prompts to compare their output
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const draft = body?.draft === true;
+    const promptVersion = body?.promptVersion;
+
+    if (promptVersion != null && !isPromptVersion(promptVersion)) {
+      return NextResponse.json(
+        {
+          error: `Unknown prompt version: ${promptVersion}. Available: ${PROMPT_VERSIONS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const original = await prisma.workflow.findUnique({ where: { id } });
+
+    if (!original) {
+      return NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (original.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (!["completed", "failed", "cancelled"].includes(original.status)) {
+      return NextResponse.json(
+        { error: `Cannot re-run workflow with status: ${original.status}` },
+        { status: 400 }
+      );
+    }
+
+    const steps = (original.steps as unknown as any[]) || [];
+
+    const workflow = await prisma.workflow.create({
+      data: {
+        userId: user.id,
+        rerunOfId: original.id,
+        title: original.title,
+        description: original.description,
+        query: original.query,
+        status: draft ? "draft" : "pending",
+        currentStep: 0,
+        totalSteps: steps.length,
+        steps: JSON.parse(JSON.stringify(steps)),
+        results: [],
+        sources: original.sources,
+        depth: original.depth,
+        outputFormat: original.outputFormat,
+        llmProvider: original.llmProvider,
+        llmModel: original.llmModel,
+        promptVersion: promptVersion ?? original.promptVersion,
+        ...(original.budget != null && { budget: original.budget }),
+      },
+    });
+
+    if (!draft) {
+      await enqueueWorkflow(workflow.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      workflowId: workflow.id,
+      rerunOf: original.id,
+      title: workflow.title,
+      status: workflow.status,
+      promptVersion: workflow.promptVersion,
+      totalSteps: steps.length,
+      steps: steps.map((s: any) => ({
+        index: s.index,
+        type: s.type,
+        title: s.title,
+        description: s.description,
+        status: "pending",
+      })),
+      message: draft
+        ? `Re-run saved as a draft with ${steps.length} steps.`
+        : `Re-running ${steps.length} steps. Compare with the previous run once it completes.`,
+    });
+  } catch (error) {
+    console.error("Failed to re-run workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to re-run workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+// app/api/workflows/[id]/resume/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import { enqueueWorkflow } from "@/lib/workflow-queue";
+
+// POST /api/workflows/[id]/resume — Continue a paused workflow
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+
+    const workflow = await prisma.workflow.findUnique({
+      where: { id },
+      select: { userId: true, status: true, currentStep: true },
+    });
+
+    if (!workflow) {
+      return NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (workflow.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (workflow.status !== "paused") {
+      return NextResponse.json(
+        { error: "Only paused workflows can be resumed" },
+        { status: 400 }
+      );
+    }
+
+    // Pausing lets in-flight steps finish, so the paused run may still be
+    // going; resuming now would start a second run next to it. A crashed
+    // worker leaves activeSteps behind with no job holding them.
+    const { count } = await prisma.workflow.updateMany({
+      where: {
+        id,
+        status: "paused",
+        jobs: { none: { status: "running", lockedUntil: { gt: new Date() } } },
+        OR: [
+          { activeSteps: { isEmpty: true } },
+          { jobs: { none: { status: "running" } } },
+        ],
+      },
+      // Reset status; the worker flips it to running
+      data: { status: "pending", pausedAt: null },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          error:
+            "The workflow is still finishing its running steps; resume it once it has stopped",
+        },
+        { status: 409 }
+      );
+    }
+
+    // executeWorkflow skips every step that already has a stored result,
+    // so the run continues from the first incomplete step
+    await enqueueWorkflow(id);
+
+    return NextResponse.json({
+      success: true,
+      message: `Resuming workflow from step ${workflow.currentStep + 1}`,
+      resumeFromStep: workflow.currentStep,
+    });
+  } catch (error) {
+    console.error("Failed to resume workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to resume workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { createClient } from "@/lib/supabase/server";
 import { ensureUserExists } from "@/lib/utils/sync-user";
+import { enqueueWorkflow } from "@/lib/workflow-queue";
+import { carryOverUsage } from "@/lib/workflow-usage";
 
 // POST /api/workflows/[id]/retry — Retry from the failed step
 export async function POST(
@@ -42,40 +44,40 @@ export async function POST(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    if (workflow.status !== "failed") {
+    if (workflow.status !== "failed" && workflow.status !== "cancelled") {
       return NextResponse.json(
-        { error: "Only failed workflows can be retried" },
+        { error: "Only failed or cancelled workflows can be retried" },
         { status: 400 }
       );
     }
 
+    // Cancelled runs resume from the start; steps with results are skipped
     const retryFromStep = workflow.failedStep ?? 0;
 
-    // Reset workflow status to running
+    // Reset workflow status; the worker flips it to running
     await prisma.workflow.update({
       where: { id },
       data: {
-        status: "running",
+        status: "pending",
         currentStep: retryFromStep,
         errorMessage: null,
         failedStep: null,
+        cancelledAt: null,
       },
     });
 
-    // Delete failed execution records for the failed step (will be recreated)
-    await prisma.workflowExecution.deleteMany({
-      where: {
-        workflowId: id,
-        stepIndex: { gte: retryFromStep },
-        status: "failed",
-      },
-    });
+    // Delete failed/cancelled execution records (will be recreated),
+    // keeping what they cost in the workflow's usage totals. Steps run in
+    // parallel, so these can sit below the failed step too.
+    const retired = {
+      workflowId: id,
+      status: { in: ["failed", "cancelled"] },
+    };
+    await carryOverUsage(id, retired);
+    await prisma.workflowExecution.deleteMany({ where: retired });
 
-    // Restart execution from the failed step
-    const { executeWorkflow } = await import("@/lib/workflow-engine");
-    executeWorkflow(id, retryFromStep).catch((err) => {
-      console.error(`Workflow ${id} retry error:`, err);
-    });
+    // Queue execution from the failed step
+    await enqueueWorkflow(id, { startFromStep: retryFromStep });
 
     return NextResponse.json({
       success: true,
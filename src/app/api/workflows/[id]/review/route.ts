@@ -0,0 +1,154 @@
+// app/api/workflows/[id]/review/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import { enqueueWorkflow } from "@/lib/workflow-queue";
+import { emitWorkflowEvent } from "@/lib/workflow-events";
+import {
+  resolveReview,
+  type ReviewRequest,
+  type ReviewResponse,
+} from "@/lib/workflow-review";
+import { Prisma } from "@/generated/prisma/client";
+
+// POST /api/workflows/[id]/review — Answer the open review step
+// Body: { action: "accept", selected?: string[], values?: {...} }
+//     | { action: "decline" } — continue with every item
+//     | { action: "cancel" }  — cancel the workflow
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+
+    const workflow = await prisma.workflow.findUnique({
+      where: { id },
+      select: { userId: true, status: true, review: true, results: true },
+    });
+
+    if (!workflow) {
+      return NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (workflow.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const review = workflow.review as unknown as ReviewRequest | null;
+    if (workflow.status !== "awaiting_input" || !review) {
+      return NextResponse.json(
+        { error: "Workflow is not waiting for input" },
+        { status: 400 }
+      );
+    }
+
+    const body = (await request.json()) as ReviewResponse;
+    if (!["accept", "decline", "cancel"].includes(body?.action)) {
+      return NextResponse.json(
+        { error: "action must be accept, decline or cancel" },
+        { status: 400 }
+      );
+    }
+
+    const execution = await prisma.workflowExecution.findFirst({
+      where: {
+        workflowId: id,
+        stepIndex: review.stepIndex,
+        status: "awaiting_input",
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    if (body.action === "cancel") {
+      await prisma.workflow.update({
+        where: { id },
+        data: {
+          status: "cancelled",
+          errorMessage: "Cancelled at review",
+          cancelledAt: new Date(),
+          review: Prisma.DbNull,
+        },
+      });
+      if (execution) {
+        await prisma.workflowExecution.update({
+          where: { id: execution.id },
+          data: { status: "cancelled", error: "Cancelled by user" },
+        });
+      }
+      await emitWorkflowEvent(id, "workflow.status", {
+        status: "cancelled",
+        final: true,
+      });
+      return NextResponse.json({ success: true, message: "Workflow cancelled" });
+    }
+
+    const results = (workflow.results as unknown as any[]) || [];
+
+    let output: any;
+    try {
+      output = resolveReview(review, results, body);
+    } catch (err: any) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+
+    // The answer becomes the step result; the engine skips stored results
+    results[review.stepIndex] = { stepIndex: review.stepIndex, data: output };
+
+    const { count } = await prisma.workflow.updateMany({
+      where: { id, status: "awaiting_input" },
+      data: {
+        status: "pending",
+        review: Prisma.DbNull,
+        results: JSON.parse(JSON.stringify(results)),
+      },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Review was already answered" },
+        { status: 409 }
+      );
+    }
+
+    if (execution) {
+      await prisma.workflowExecution.update({
+        where: { id: execution.id },
+        data: {
+          status: "completed",
+          output,
+          completedAt: new Date(),
+          durationMs: Date.now() - execution.createdAt.getTime(),
+        },
+      });
+    }
+
+    await enqueueWorkflow(id);
+
+    return NextResponse.json({
+      success: true,
+      message:
+        review.mode === "select"
+          ? `Continuing with ${output.review.selectedCount} of ${output.review.totalCount} items`
+          : "Continuing with your answers",
+    });
+  } catch (error) {
+    console.error("Failed to submit review:", error);
+    return NextResponse.json(
+      { error: "Failed to submit review" },
+      { status: 500 }
+    );
+  }
+}
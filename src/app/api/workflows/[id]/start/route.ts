@@ -0,0 +1,91 @@
+// app/api/workflows/[id]/start/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import { enqueueWorkflow } from "@/lib/workflow-queue";
+import type { WorkflowStep } from "@/lib/workflow-engine";
+import { validatePlan } from "@/lib/workflow-validation";
+
+// POST /api/workflows/[id]/start — Validate a draft plan and run it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+
+    const workflow = await prisma.workflow.findUnique({
+      where: { id },
+      select: { userId: true, status: true, steps: true, sources: true },
+    });
+
+    if (!workflow) {
+      return NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (workflow.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (workflow.status !== "draft") {
+      return NextResponse.json(
+        { error: "Only draft workflows can be started" },
+        { status: 400 }
+      );
+    }
+
+    const steps = workflow.steps as unknown as WorkflowStep[];
+    const { errors, warnings } = validatePlan(steps, {
+      sources: workflow.sources,
+    });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: "The plan has problems that must be fixed first",
+          errors,
+          warnings,
+        },
+        { status: 422 }
+      );
+    }
+
+    // Guard against a double click starting the draft twice
+    const { count } = await prisma.workflow.updateMany({
+      where: { id, status: "draft" },
+      data: { status: "pending", totalSteps: steps.length },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Workflow was already started" },
+        { status: 409 }
+      );
+    }
+
+    await enqueueWorkflow(id);
+
+    return NextResponse.json({
+      success: true,
+      message: `Workflow started with ${steps.length} steps`,
+      warnings,
+    });
+  } catch (error) {
+    console.error("Failed to start workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to start workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { createClient } from "@/lib/supabase/server";
 import { ensureUserExists } from "@/lib/utils/sync-user";
+import { addUsage, emptyUsage } from "@/lib/workflow-usage";
+import { resolveBudget } from "@/lib/workflow-budget";
+import { latestWorkflowEventId, previewOutput } from "@/lib/workflow-events";
 
 // GET /api/workflows/[id]/status — Get real-time workflow status
 export async function GET(
@@ -25,15 +28,27 @@ export async function GET(
       where: { id },
       include: {
         executions: {
-          orderBy: { stepIndex: "asc" },
+          orderBy: [{ stepIndex: "asc" }, { createdAt: "asc" }],
           select: {
             id: true,
             stepIndex: true,
+            itemIndex: true,
+            subStepIndex: true,
             stepType: true,
             stepTitle: true,
             status: true,
+            attempt: true,
+            maxAttempts: true,
             error: true,
             durationMs: true,
+            cacheHit: true,
+            provider: true,
+            model: true,
+            llmCalls: true,
+            inputTokens: true,
+            outputTokens: true,
+            costUsd: true,
+            searchCalls: true,
             output: true,
             createdAt: true,
             completedAt: true,
@@ -60,29 +75,52 @@ export async function GET(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // for_each sub-step rows are listed under their parent step
+    const stepExecutions = workflow.executions.filter(
+      (e) => e.itemIndex === null
+    );
+
     // Calculate progress percentage
-    const completedSteps = workflow.executions.filter(
-      (e) => e.status === "completed"
+    const completedSteps = stepExecutions.filter(
+      (e) => e.status === "completed" || e.status === "skipped"
     ).length;
     const progress =
       workflow.totalSteps > 0
         ? Math.round((completedSteps / workflow.totalSteps) * 100)
         : 0;
 
-    // Build step status array from workflow definition + execution records
+    // Build step status array from workflow definition + execution records.
+    // Each retry attempt has its own execution; the latest one wins.
     const steps = (workflow.steps as any[]).map((stepDef: any) => {
-      const execution = workflow.executions.find(
+      const attempts = stepExecutions.filter(
         (e) => e.stepIndex === stepDef.index
       );
+      const execution = attempts[attempts.length - 1];
+      // A failed attempt waiting on backoff is still an active step
+      const isRetrying =
+        execution?.status === "failed" &&
+        workflow.activeSteps.includes(stepDef.index);
       return {
         index: stepDef.index,
         type: stepDef.type,
         title: stepDef.title,
         description: stepDef.description,
-        status: execution?.status || "pending",
+        params: stepDef.params || {},
+        dependsOn: stepDef.dependsOn || [],
+        status: isRetrying ? "running" : execution?.status || "pending",
         error: execution?.error || null,
         durationMs: execution?.durationMs || null,
         hasOutput: !!execution?.output,
+        preview:
+          execution?.status === "completed" ? previewOutput(execution.output) : null,
+        cached: execution?.cacheHit ?? false,
+        attempts: attempts.length,
+        maxAttempts: execution?.maxAttempts ?? null,
+        retrying: isRetrying,
+        usage: stepUsage(workflow.executions, stepDef.index),
+        ...(stepDef.type === "for_each"
+          ? { subSteps: latestSubSteps(workflow.executions, stepDef.index) }
+          : {}),
       };
     });
 
@@ -91,8 +129,10 @@ export async function GET(
       title: workflow.title,
       description: workflow.description,
       query: workflow.query,
+      rerunOfId: workflow.rerunOfId,
       status: workflow.status,
       currentStep: workflow.currentStep,
+      activeSteps: workflow.activeSteps,
       totalSteps: workflow.totalSteps,
       progress,
       steps,
@@ -104,6 +144,21 @@ export async function GET(
       reportTitle: workflow.report?.title || null,
       createdAt: workflow.createdAt,
       completedAt: workflow.completedAt,
+      cancelledAt: workflow.cancelledAt,
+      pausedAt: workflow.pausedAt,
+      review: workflow.status === "awaiting_input" ? workflow.review : null,
+      usage: {
+        llmCalls: workflow.llmCalls,
+        inputTokens: workflow.inputTokens,
+        outputTokens: workflow.outputTokens,
+        costUsd: workflow.costUsd,
+        searchCalls: workflow.searchCalls ?? {},
+      },
+      budget: resolveBudget(workflow),
+      budgetExceeded: workflow.budgetExceeded,
+      runtimeMs: workflow.runtimeMs,
+      // Resume point for GET /api/workflows/[id]/events
+      lastEventId: await latestWorkflowEventId(workflow.id),
     });
   } catch (error) {
     console.error("Failed to get workflow status:", error);
@@ -113,3 +168,62 @@ export async function GET(
     );
   }
 }
+
+type ExecutionRow = {
+  stepIndex: number;
+  itemIndex: number | null;
+  subStepIndex: number | null;
+  stepType: string;
+  stepTitle: string;
+  status: string;
+  attempt: number;
+  error: string | null;
+  durationMs: number | null;
+  cacheHit: boolean;
+  provider: string | null;
+  model: string | null;
+  llmCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  searchCalls: unknown;
+};
+
+/** Usage over every attempt of a step, for_each sub-steps included */
+function stepUsage(executions: ExecutionRow[], stepIndex: number) {
+  const rows = executions.filter((e) => e.stepIndex === stepIndex);
+  const usage = emptyUsage();
+  rows.forEach((e) =>
+    addUsage(usage, {
+      ...e,
+      searchCalls: (e.searchCalls as Record<string, number>) ?? {},
+    })
+  );
+  const last = rows.filter((e) => e.provider).pop();
+  return { ...usage, provider: last?.provider ?? null, model: last?.model ?? null };
+}
+
+/** Latest attempt of each for_each sub-step, ordered by item then sub-step */
+function latestSubSteps(executions: ExecutionRow[], stepIndex: number) {
+  const latest = new Map<string, ExecutionRow>();
+  executions
+    .filter((e) => e.stepIndex === stepIndex && e.itemIndex !== null)
+    .forEach((e) => latest.set(`${e.itemIndex}:${e.subStepIndex}`, e));
+
+  return [...latest.values()]
+    .sort(
+      (a, b) =>
+        a.itemIndex! - b.itemIndex! || (a.subStepIndex ?? 0) - (b.subStepIndex ?? 0)
+    )
+    .map((e) => ({
+      itemIndex: e.itemIndex,
+      subStepIndex: e.subStepIndex,
+      type: e.stepType,
+      title: e.stepTitle,
+      status: e.status,
+      attempts: e.attempt,
+      error: e.error,
+      durationMs: e.durationMs,
+      cached: e.cacheHit,
+    }));
+}
@@ -0,0 +1,167 @@
+// app/api/workflows/[id]/steps/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import type { WorkflowStep } from "@/lib/workflow-engine";
+import { applyPlanEdit, parsePlan, type PlanEdit } from "@/lib/workflow-plan";
+import { validatePlan } from "@/lib/workflow-validation";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Auth + ownership; returns the workflow or an error response */
+async function loadWorkflow(id: string) {
+  const supabase = await createClient();
+  const {
+    data: { user: supabaseUser },
+  } = await supabase.auth.getUser();
+  if (!supabaseUser) {
+    return {
+      error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+  const user = await ensureUserExists(supabaseUser);
+
+  const workflow = await prisma.workflow.findUnique({
+    where: { id },
+    select: {
+      userId: true,
+      status: true,
+      steps: true,
+      sources: true,
+      outputFormat: true,
+    },
+  });
+
+  if (!workflow) {
+    return {
+      error: NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (workflow.userId !== user.id) {
+    return {
+      error: NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+    };
+  }
+
+  return { workflow };
+}
+
+async function saveSteps(
+  id: string,
+  steps: WorkflowStep[],
+  sources: string[]
+) {
+  const { errors, warnings } = validatePlan(steps, { sources });
+
+  await prisma.workflow.update({
+    where: { id },
+    data: {
+      steps: JSON.parse(JSON.stringify(steps)),
+      totalSteps: steps.length,
+    },
+  });
+
+  return NextResponse.json({ success: true, steps, errors, warnings });
+}
+
+const notDraft = (status: string) =>
+  NextResponse.json(
+    { error: `Only draft workflows can be edited (status: ${status})` },
+    { status: 400 }
+  );
+
+// GET /api/workflows/[id]/steps — The planned steps and their problems
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { workflow, error } = await loadWorkflow(id);
+    if (error) return error;
+
+    const steps = workflow.steps as unknown as WorkflowStep[];
+    const { errors, warnings } = validatePlan(steps, {
+      sources: workflow.sources,
+    });
+    return NextResponse.json({
+      status: workflow.status,
+      steps,
+      errors,
+      warnings,
+    });
+  } catch (error) {
+    console.error("Failed to get workflow steps:", error);
+    return NextResponse.json(
+      { error: "Failed to get workflow steps" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/workflows/[id]/steps — Replace the whole plan of a draft
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { workflow, error } = await loadWorkflow(id);
+    if (error) return error;
+    if (workflow.status !== "draft") return notDraft(workflow.status);
+
+    const body = await request.json();
+
+    let steps: WorkflowStep[];
+    try {
+      steps = parsePlan(body.steps);
+    } catch (err: any) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+
+    return await saveSteps(id, steps, workflow.sources);
+  } catch (error) {
+    console.error("Failed to replace workflow steps:", error);
+    return NextResponse.json(
+      { error: "Failed to replace workflow steps" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/workflows/[id]/steps — Add, remove, move or update one step
+// Body: { action: "add", step, at? } | { action: "remove", index }
+//     | { action: "move", from, to } | { action: "update", index, changes }
+//     | { action: "repair" } — apply the validator's automatic fixes
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const { workflow, error } = await loadWorkflow(id);
+    if (error) return error;
+    if (workflow.status !== "draft") return notDraft(workflow.status);
+
+    const edit = (await request.json()) as PlanEdit | { action: "repair" };
+    const current = workflow.steps as unknown as WorkflowStep[];
+
+    let steps: WorkflowStep[];
+    try {
+      steps =
+        edit.action === "repair"
+          ? validatePlan(current, {
+              sources: workflow.sources,
+              outputFormat: workflow.outputFormat,
+              repair: true,
+            }).steps
+          : applyPlanEdit(current, edit);
+    } catch (err: any) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+
+    return await saveSteps(id, steps, workflow.sources);
+  } catch (error) {
+    console.error("Failed to edit workflow steps:", error);
+    return NextResponse.json(
+      { error: "Failed to edit workflow steps" },
+      { status: 500 }
+    );
+  }
+}
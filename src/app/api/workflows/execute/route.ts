@@ -4,9 +4,26 @@ import { prisma } from "@/lib/prisma";
 import { createClient } from "@/lib/supabase/server";
 import { ensureUserExists } from "@/lib/utils/sync-user";
 import { planWorkflowSteps } from "@/lib/workflow-engine";
-import { matchTemplate, buildFromTemplate } from "@/lib/workflow-templates";
+import {
+  WORKFLOW_TEMPLATES,
+  rankTemplates,
+  buildFromTemplate,
+  summarizeMatch,
+  type TemplateMatch,
+} from "@/lib/workflow-templates";
+import {
+  findTemplate,
+  loadUserTemplates,
+  templateTopic,
+} from "@/lib/workflow-user-templates";
+import { enqueueWorkflow } from "@/lib/workflow-queue";
+import { LLM_PROVIDER_IDS } from "@/lib/llm-providers";
+import { emptyUsage, type StepUsage } from "@/lib/workflow-usage";
+import { validateBudget } from "@/lib/workflow-budget";
+import { PROMPT_VERSIONS, isPromptVersion } from "@/lib/workflow-prompts";
 
 // POST /api/workflows/execute — Create and start a workflow
+// (or, with `draft: true`, store the plan for review without running it)
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
@@ -24,7 +41,13 @@ export async function POST(request: NextRequest) {
       sources = ["google"],
       depth = "standard",
       outputFormat = "summary",
-      templateId, // Optional: force a specific template
+      templateId, // Optional: force a specific template (built-in or saved)
+      templateParams, // Optional: { num: 5, ... } for a saved template's placeholders
+      useTemplates = true, // Optional: false skips template matching and always plans with AI
+      llm, // Optional: { provider, model } used for every AI step
+      promptVersion, // Optional: prompt registry version, e.g. "v1" (default: newest)
+      draft = false, // Optional: store the plan without running it
+      budget, // Optional: { maxTokens, maxSearchCalls, maxDurationMs } over the depth defaults
     } = body;
 
     if (!goal || typeof goal !== "string") {
@@ -34,67 +57,120 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (llm?.provider && !LLM_PROVIDER_IDS.includes(llm.provider)) {
+      return NextResponse.json(
+        {
+          error: `Unknown LLM provider: ${llm.provider}. Available: ${LLM_PROVIDER_IDS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (promptVersion != null && !isPromptVersion(promptVersion)) {
+      return NextResponse.json(
+        {
+          error: `Unknown prompt version: ${promptVersion}. Available: ${PROMPT_VERSIONS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const budgetError = validateBudget(budget);
+    if (budgetError) {
+      return NextResponse.json({ error: budgetError }, { status: 400 });
+    }
+
     let title: string = "";
     let description: string = "";
     let steps: any[] = [];
     let usedTemplate = false;
+    let planUsage: StepUsage | null = null;
+    // Auto-matching: the template used, if any, and the other candidates
+    let templateMatch: TemplateMatch | null = null;
+    let candidates: TemplateMatch[] = [];
 
     // ── Step 1: Try template matching first (instant, no AI call) ──
     if (templateId) {
       // Forced template by ID
-      const { WORKFLOW_TEMPLATES } = await import("@/lib/workflow-templates");
-      const template = WORKFLOW_TEMPLATES.find((t) => t.id === templateId);
+      const template = await findTemplate(templateId, user.id, templateParams);
       if (template) {
-        const result = buildFromTemplate(
-          template,
-          goal,
-          depth,
-          sources,
-          outputFormat
-        );
-        title = result.title;
-        description = result.description;
-        steps = result.steps;
-        usedTemplate = true;
-        console.log(`⚡ Using forced template: ${template.name}`);
+        try {
+          const result = buildFromTemplate(
+            template,
+            templateTopic(template, goal),
+            depth,
+            sources,
+            outputFormat
+          );
+          title = result.title;
+          description = result.description;
+          steps = result.steps;
+          usedTemplate = true;
+          console.log(`⚡ Using forced template: ${template.name}`);
+        } catch (error: any) {
+          // e.g. none of the template's sources are enabled
+          console.warn(`⚠️ Template ${template.id} unusable: ${error.message}`);
+        }
       }
     }
 
-    if (!usedTemplate) {
-      // Try auto-matching
-      const match = matchTemplate(goal);
+    if (!usedTemplate && useTemplates !== false) {
+      // Try auto-matching; the user's saved templates win ties
+      const userTemplates = await loadUserTemplates(user.id, templateParams);
+      candidates = rankTemplates(goal, [...userTemplates, ...WORKFLOW_TEMPLATES]);
 
-      if (match && match.confidence >= 0.5) {
-        // High-confidence template match — use it
-        const result = buildFromTemplate(
-          match.template,
-          match.topic,
-          depth,
-          sources,
-          outputFormat
-        );
-        title = result.title;
-        description = result.description;
-        steps = result.steps;
-        usedTemplate = true;
-        console.log(
-          `⚡ Template matched: ${
-            match.template.name
-          } (confidence: ${match.confidence.toFixed(2)}, topic: "${
-            match.topic
-          }")`
-        );
+      // High-confidence template match — use the best one that builds
+      for (const match of candidates.filter((m) => m.confidence >= 0.5)) {
+        try {
+          const result = buildFromTemplate(
+            match.template,
+            match.topic,
+            depth,
+            sources,
+            outputFormat
+          );
+          title = result.title;
+          description = result.description;
+          steps = result.steps;
+          usedTemplate = true;
+          templateMatch = match;
+          console.log(
+            `⚡ Template matched: ${
+              match.template.name
+            } (confidence: ${match.confidence.toFixed(2)}, topic: "${
+              match.topic
+            }")`
+          );
+          break;
+        } catch (error: any) {
+          console.warn(
+            `⚠️ Template ${match.template.id} unusable: ${error.message}`
+          );
+        }
       }
     }
+    const alternatives = candidates
+      .filter((m) => m !== templateMatch)
+      .map(summarizeMatch);
+    // A runner-up close to the chosen template; worth asking the user
+    const ambiguous =
+      !!templateMatch &&
+      candidates.some(
+        (m) => m !== templateMatch && templateMatch!.confidence - m.confidence < 0.1
+      );
 
     if (!usedTemplate) {
       // ── Step 1b: Fall back to AI planning ──
       console.log(`🤖 No template match, using AI planner for: "${goal}"`);
+      planUsage = emptyUsage();
       const plan = await planWorkflowSteps({
         goal,
         sources,
         depth,
         outputFormat,
+        llm,
+        usage: planUsage,
+        promptVersion: promptVersion ?? undefined,
       });
       title = plan.title;
       description = plan.description;
@@ -108,7 +184,7 @@ export async function POST(request: NextRequest) {
         title,
         description,
         query: goal,
-        status: "pending",
+        status: draft ? "draft" : "pending",
         currentStep: 0,
         totalSteps: steps.length,
         steps: JSON.parse(JSON.stringify(steps)),
@@ -116,34 +192,59 @@ export async function POST(request: NextRequest) {
         sources,
         depth,
         outputFormat,
+        llmProvider: llm?.provider || null,
+        llmModel: llm?.model || null,
+        promptVersion: promptVersion ?? null,
+        ...(budget && { budget }),
+        // The planner call is the first cost of the run
+        ...(planUsage && {
+          baseUsage: { ...planUsage },
+          llmCalls: planUsage.llmCalls,
+          inputTokens: planUsage.inputTokens,
+          outputTokens: planUsage.outputTokens,
+          costUsd: planUsage.costUsd,
+        }),
       },
     });
 
-    // ── Step 3: Start execution asynchronously (fire-and-forget) ──
-    const { executeWorkflow } = await import("@/lib/workflow-engine");
+    // ── Step 3: Queue execution (picked up by the workflow worker) ──
+    // Drafts wait for POST /api/workflows/[id]/start
+    if (!draft) {
+      await enqueueWorkflow(workflow.id);
+    }
 
-    executeWorkflow(workflow.id).catch((err) => {
-      console.error(`Workflow ${workflow.id} execution error:`, err);
-    });
+    const planned = usedTemplate
+      ? `Workflow created from template with ${steps.length} steps.`
+      : `Workflow created with ${steps.length} AI-planned steps.`;
+    const otherOptions = alternatives.length
+      ? ` Other templates that could fit: ${alternatives
+          .map((a) => `${a.name} (${a.confidence})`)
+          .join(", ")}.`
+      : "";
 
     // ── Step 4: Return workflow info immediately ──
     return NextResponse.json({
       success: true,
       workflowId: workflow.id,
       title: workflow.title,
-      status: "pending",
+      status: workflow.status,
       totalSteps: steps.length,
       usedTemplate,
+      templateMatch: templateMatch && summarizeMatch(templateMatch),
+      alternatives,
+      ambiguous,
       steps: steps.map((s: any) => ({
         index: s.index,
         type: s.type,
         title: s.title,
         description: s.description,
+        params: s.params,
+        dependsOn: s.dependsOn,
         status: "pending",
       })),
-      message: usedTemplate
-        ? `Workflow created from template with ${steps.length} steps. Execution starting...`
-        : `Workflow created with ${steps.length} AI-planned steps. Execution starting...`,
+      message: draft
+        ? `${planned} Saved as a draft — review the plan, then start it.${otherOptions}`
+        : `${planned} Execution starting...${otherOptions}`,
     });
   } catch (error: any) {
     console.error("Failed to create workflow:", error);
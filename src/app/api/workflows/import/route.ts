@@ -0,0 +1,123 @@
+// app/api/workflows/import/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import { enqueueWorkflow } from "@/lib/workflow-queue";
+import { readDefinition } from "@/lib/workflow-definition";
+import { serializeUserTemplate } from "@/lib/workflow-user-templates";
+
+// POST /api/workflows/import — Load a definition exported by
+// GET /api/workflows/[id]/export or /api/workflows/templates/[id]/export
+// Body: the JSON or YAML document itself, or { definition, start? } where
+// definition is the document as a string or object.
+// A workflow definition becomes a draft (started right away with
+// start: true); a template definition becomes one of the user's templates.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const text = await request.text();
+    let input: string | object = text;
+    let start = false;
+    if ((request.headers.get("content-type") || "").includes("application/json")) {
+      try {
+        const body = JSON.parse(text);
+        if (body && typeof body === "object" && "definition" in body) {
+          input = body.definition;
+          start = body.start === true;
+        }
+      } catch {
+        // Not JSON after all; readDefinition reports it
+      }
+    }
+
+    const { definition, errors, warnings } = readDefinition(input);
+    if (!definition) {
+      return NextResponse.json(
+        { error: "The definition could not be imported", errors },
+        { status: 422 }
+      );
+    }
+
+    if (definition.kind === "template") {
+      const template = await prisma.userTemplate.create({
+        data: {
+          userId: user.id,
+          name: definition.name,
+          description: definition.description ?? null,
+          titleTemplate: definition.template!.title,
+          steps: JSON.parse(JSON.stringify(definition.steps)),
+          parameters: definition.template!.parameters.map((p) => ({
+            name: p.name,
+            default: p.default ?? null,
+          })),
+          patterns: definition.template!.patterns,
+          keywords: definition.template!.keywords,
+          examples: definition.template!.examples,
+          defaultSources: definition.sources,
+          defaultFormat: definition.outputFormat,
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        kind: "template",
+        template: serializeUserTemplate(template),
+        warnings,
+        message: `Imported template "${template.name}".`,
+      });
+    }
+
+    const workflow = await prisma.workflow.create({
+      data: {
+        userId: user.id,
+        title: definition.name,
+        description: definition.description ?? null,
+        query: definition.goal || definition.name,
+        status: start ? "pending" : "draft",
+        currentStep: 0,
+        totalSteps: definition.steps.length,
+        steps: JSON.parse(JSON.stringify(definition.steps)),
+        results: JSON.parse(JSON.stringify([])),
+        sources: definition.sources,
+        depth: definition.depth,
+        outputFormat: definition.outputFormat,
+        llmProvider: definition.llm?.provider || null,
+        llmModel: definition.llm?.model || null,
+        promptVersion: definition.promptVersion || null,
+        ...(definition.budget && { budget: definition.budget }),
+      },
+    });
+
+    if (start) {
+      await enqueueWorkflow(workflow.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      kind: "workflow",
+      workflowId: workflow.id,
+      title: workflow.title,
+      status: workflow.status,
+      totalSteps: definition.steps.length,
+      warnings,
+      message: start
+        ? `Imported "${workflow.title}" with ${definition.steps.length} steps. Execution starting...`
+        : `Imported "${workflow.title}" as a draft with ${definition.steps.length} steps — review the plan, then start it.`,
+    });
+  } catch (error) {
+    console.error("Failed to import workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to import workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,8 +3,9 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { createClient } from "@/lib/supabase/server";
 import { ensureUserExists } from "@/lib/utils/sync-user";
+import { getUserUsage } from "@/lib/workflow-usage";
 
-// GET /api/workflows — List all workflows for the user
+// GET /api/workflows — List all workflows for the user, with usage totals
 export async function GET() {
   try {
     const supabase = await createClient();
@@ -26,14 +27,26 @@ export async function GET() {
         query: true,
         status: true,
         currentStep: true,
+        activeSteps: true,
         totalSteps: true,
         sources: true,
         depth: true,
         outputFormat: true,
+        promptVersion: true,
         errorMessage: true,
         failedStep: true,
         createdAt: true,
         completedAt: true,
+        cancelledAt: true,
+        pausedAt: true,
+        llmCalls: true,
+        inputTokens: true,
+        outputTokens: true,
+        costUsd: true,
+        searchCalls: true,
+        budgetExceeded: true,
+        rerunOfId: true,
+        scheduleId: true,
         report: {
           select: {
             id: true,
@@ -43,7 +56,9 @@ export async function GET() {
       },
     });
 
-    return NextResponse.json({ workflows });
+    const usage = await getUserUsage(user.id);
+
+    return NextResponse.json({ workflows, usage });
   } catch (error) {
     console.error("Failed to fetch workflows:", error);
     return NextResponse.json(
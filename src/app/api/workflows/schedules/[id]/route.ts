@@ -0,0 +1,126 @@
+// app/api/workflows/schedules/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import {
+  nextCronRun,
+  scheduleToCron,
+  serializeSchedule,
+  SCHEDULE_RUNS_INCLUDE,
+} from "@/lib/workflow-schedule";
+
+// PATCH /api/workflows/schedules/[id] — Rename, pause/resume or reschedule
+// Body: { name?, enabled?, schedule?: { cron } | { frequency, time?, ... } }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const schedule = await prisma.workflowSchedule.findUnique({
+      where: { id },
+    });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (schedule.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    let cron = schedule.cron;
+    if (body.schedule !== undefined) {
+      try {
+        cron = scheduleToCron(body.schedule ?? {});
+      } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+    const enabled =
+      typeof body.enabled === "boolean" ? body.enabled : schedule.enabled;
+
+    // Re-enabling or rescheduling starts counting from now
+    const reschedule = cron !== schedule.cron || enabled !== schedule.enabled;
+
+    const updated = await prisma.workflowSchedule.update({
+      where: { id },
+      data: {
+        ...(typeof body.name === "string" && body.name.trim() && { name: body.name.trim() }),
+        cron,
+        enabled,
+        ...(reschedule && { nextRunAt: enabled ? nextCronRun(cron) : null }),
+      },
+      include: SCHEDULE_RUNS_INCLUDE,
+    });
+
+    return NextResponse.json({ success: true, schedule: serializeSchedule(updated) });
+  } catch (error) {
+    console.error("Failed to update schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to update schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workflows/schedules/[id] — Delete a schedule; its past runs
+// and their reports are kept as ordinary workflows
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+
+    const schedule = await prisma.workflowSchedule.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (schedule.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    await prisma.workflowSchedule.delete({ where: { id } });
+
+    return NextResponse.json({ success: true, message: "Schedule deleted" });
+  } catch (error) {
+    console.error("Failed to delete schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+// app/api/workflows/schedules/[id]/run/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import { startScheduledRun } from "@/lib/workflow-schedule";
+
+// POST /api/workflows/schedules/[id]/run — Start a run now, outside the
+// schedule (the next scheduled run is unchanged)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+
+    const schedule = await prisma.workflowSchedule.findUnique({
+      where: { id },
+    });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (schedule.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const run = await startScheduledRun(schedule);
+    if (!run) {
+      return NextResponse.json(
+        { error: "The previous run of this schedule is still in progress" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      workflowId: run.workflowId,
+      message: `Started a run of "${schedule.name}"`,
+    });
+  } catch (error) {
+    console.error("Failed to run schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to run schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,209 @@
+// app/api/workflows/schedules/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import { buildFromTemplate } from "@/lib/workflow-templates";
+import { findTemplate, templateTopic } from "@/lib/workflow-user-templates";
+import { LLM_PROVIDER_IDS } from "@/lib/llm-providers";
+import { validateBudget } from "@/lib/workflow-budget";
+import {
+  nextCronRun,
+  scheduleToCron,
+  serializeSchedule,
+  SCHEDULE_RUNS_INCLUDE,
+} from "@/lib/workflow-schedule";
+
+// GET /api/workflows/schedules — List the user's schedules with recent runs
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const schedules = await prisma.workflowSchedule.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: "desc" },
+      include: SCHEDULE_RUNS_INCLUDE,
+    });
+
+    return NextResponse.json({ schedules: schedules.map(serializeSchedule) });
+  } catch (error) {
+    console.error("Failed to fetch schedules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch schedules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workflows/schedules — Schedule a workflow or template
+// Body: { workflowId } — repeat the steps of an existing workflow
+//     | { templateId, goal, templateParams?, sources?, depth?, outputFormat?, llm?, budget? }
+// plus schedule: { cron } | { frequency: "daily" | "weekly" | "monthly",
+//   time?: "HH:MM", dayOfWeek?, dayOfMonth? } (UTC), name?, enabled?
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const body = await request.json();
+    const { workflowId, templateId, name, enabled = true } = body;
+
+    let cron: string;
+    try {
+      cron = scheduleToCron(body.schedule ?? {});
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    let snapshot: {
+      title: string;
+      description: string | null;
+      query: string;
+      steps: any[];
+      sources: string[];
+      depth: string;
+      outputFormat: string;
+      llmProvider: string | null;
+      llmModel: string | null;
+      promptVersion: string | null;
+      budget?: any;
+    };
+
+    if (workflowId) {
+      const workflow = await prisma.workflow.findUnique({
+        where: { id: workflowId },
+      });
+      if (!workflow) {
+        return NextResponse.json(
+          { error: "Workflow not found" },
+          { status: 404 }
+        );
+      }
+      if (workflow.userId !== user.id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      snapshot = {
+        title: workflow.title,
+        description: workflow.description,
+        query: workflow.query,
+        steps: (workflow.steps as unknown as any[]) || [],
+        sources: workflow.sources,
+        depth: workflow.depth,
+        outputFormat: workflow.outputFormat,
+        llmProvider: workflow.llmProvider,
+        llmModel: workflow.llmModel,
+        promptVersion: workflow.promptVersion,
+        ...(workflow.budget != null && { budget: workflow.budget }),
+      };
+    } else if (templateId) {
+      const template = await findTemplate(templateId, user.id, body.templateParams);
+      if (!template) {
+        return NextResponse.json(
+          { error: `Unknown template: ${templateId}` },
+          { status: 400 }
+        );
+      }
+      const { goal, depth = "standard", llm, budget } = body;
+      const sources = body.sources ?? template.defaultSources;
+      const outputFormat = body.outputFormat ?? template.defaultFormat;
+      if (!goal || typeof goal !== "string") {
+        return NextResponse.json(
+          { error: "Missing required field: goal" },
+          { status: 400 }
+        );
+      }
+      if (llm?.provider && !LLM_PROVIDER_IDS.includes(llm.provider)) {
+        return NextResponse.json(
+          {
+            error: `Unknown LLM provider: ${llm.provider}. Available: ${LLM_PROVIDER_IDS.join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+      const budgetError = validateBudget(budget);
+      if (budgetError) {
+        return NextResponse.json({ error: budgetError }, { status: 400 });
+      }
+
+      let built: ReturnType<typeof buildFromTemplate>;
+      try {
+        built = buildFromTemplate(
+          template,
+          templateTopic(template, goal),
+          depth,
+          sources,
+          outputFormat
+        );
+      } catch (error: any) {
+        // e.g. none of the template's sources are enabled
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      snapshot = {
+        title: built.title,
+        description: built.description,
+        query: goal,
+        steps: built.steps,
+        sources,
+        depth,
+        outputFormat,
+        llmProvider: llm?.provider || null,
+        llmModel: llm?.model || null,
+        promptVersion: null,
+        ...(budget && { budget }),
+      };
+    } else {
+      return NextResponse.json(
+        { error: "Provide a workflowId or a templateId and goal" },
+        { status: 400 }
+      );
+    }
+
+    if (snapshot.steps.length === 0) {
+      return NextResponse.json(
+        { error: "The workflow has no steps to schedule" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await prisma.workflowSchedule.create({
+      data: {
+        userId: user.id,
+        name: typeof name === "string" && name.trim() ? name.trim() : snapshot.title,
+        cron,
+        enabled: enabled !== false,
+        nextRunAt: enabled !== false ? nextCronRun(cron) : null,
+        sourceWorkflowId: workflowId || null,
+        templateId: workflowId ? null : templateId,
+        ...snapshot,
+        steps: JSON.parse(JSON.stringify(snapshot.steps)),
+      },
+      include: SCHEDULE_RUNS_INCLUDE,
+    });
+
+    const serialized = serializeSchedule(schedule);
+    return NextResponse.json({
+      success: true,
+      schedule: serialized,
+      message: `Scheduled "${serialized.name}": ${serialized.description}`,
+    });
+  } catch (error) {
+    console.error("Failed to create schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to create schedule" },
+      { status: 500 }
+    );
+  }
+}
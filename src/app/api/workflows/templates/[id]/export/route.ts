@@ -0,0 +1,64 @@
+// app/api/workflows/templates/[id]/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import {
+  definitionFilename,
+  serializeDefinition,
+  templateToDefinition,
+} from "@/lib/workflow-definition";
+
+// GET /api/workflows/templates/[id]/export — Download a saved template
+// with its placeholders as a portable definition (?format=yaml, default
+// json) for POST /api/workflows/import
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { id } = await params;
+
+    const template = await prisma.userTemplate.findUnique({ where: { id } });
+
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    if (template.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const format =
+      request.nextUrl.searchParams.get("format") === "yaml" ? "yaml" : "json";
+    const definition = templateToDefinition(template);
+
+    return new Response(serializeDefinition(definition, format), {
+      headers: {
+        "Content-Type":
+          format === "yaml"
+            ? "application/yaml; charset=utf-8"
+            : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${definitionFilename(definition, format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export template:", error);
+    return NextResponse.json(
+      { error: "Failed to export template" },
+      { status: 500 }
+    );
+  }
+}
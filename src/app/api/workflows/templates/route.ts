@@ -0,0 +1,145 @@
+// app/api/workflows/templates/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { createClient } from "@/lib/supabase/server";
+import { ensureUserExists } from "@/lib/utils/sync-user";
+import { WORKFLOW_TEMPLATES } from "@/lib/workflow-templates";
+import {
+  buildUserTemplate,
+  serializeUserTemplate,
+} from "@/lib/workflow-user-templates";
+
+// GET /api/workflows/templates — Built-in templates plus the user's saved ones
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const saved = await prisma.userTemplate.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      templates: [
+        ...saved.map(serializeUserTemplate),
+        ...WORKFLOW_TEMPLATES.map((template) => ({
+          id: template.id,
+          name: template.name,
+          description: template.description,
+          defaultSources: template.defaultSources,
+          defaultFormat: template.defaultFormat,
+          custom: false,
+        })),
+      ],
+    });
+  } catch (error) {
+    console.error("Failed to fetch templates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch templates" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workflows/templates — Save a draft or completed workflow as a
+// reusable template
+// Body: { workflowId, name?, description?, keywords?,
+//   parameters?: { topic: "Rust web frameworks", num: 10, ... } }
+// Each parameter's value in the workflow becomes a {{name}} placeholder;
+// without `parameters` the topic and result count are detected.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user: supabaseUser },
+    } = await supabase.auth.getUser();
+    if (!supabaseUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const user = await ensureUserExists(supabaseUser);
+
+    const { workflowId, name, description, keywords, parameters } =
+      await request.json();
+
+    if (!workflowId) {
+      return NextResponse.json(
+        { error: "Missing required field: workflowId" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      parameters != null &&
+      (typeof parameters !== "object" ||
+        Array.isArray(parameters) ||
+        Object.entries(parameters).some(
+          ([key, value]) =>
+            !/^[a-zA-Z_]\w*$/.test(key) ||
+            (typeof value !== "string" && typeof value !== "number")
+        ))
+    ) {
+      return NextResponse.json(
+        { error: "parameters must map placeholder names to string or number values" },
+        { status: 400 }
+      );
+    }
+
+    const workflow = await prisma.workflow.findUnique({
+      where: { id: workflowId },
+    });
+
+    if (!workflow) {
+      return NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      );
+    }
+
+    if (workflow.userId !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (workflow.status !== "completed" && workflow.status !== "draft") {
+      return NextResponse.json(
+        { error: `Only draft or completed workflows can be saved as templates (status: ${workflow.status})` },
+        { status: 400 }
+      );
+    }
+
+    const template = await prisma.userTemplate.create({
+      data: {
+        userId: user.id,
+        sourceWorkflowId: workflow.id,
+        ...buildUserTemplate(workflow, {
+          name,
+          description,
+          parameters: parameters ?? undefined,
+          keywords: Array.isArray(keywords) ? keywords.map(String) : undefined,
+        }),
+      },
+    });
+
+    const serialized = serializeUserTemplate(template);
+    const placeholders = serialized.parameters.map((p) => `{{${p.name}}}`);
+    return NextResponse.json({
+      success: true,
+      template: serialized,
+      message: placeholders.length
+        ? `Saved template "${serialized.name}" with ${placeholders.join(", ")}.`
+        : `Saved template "${serialized.name}". No placeholders were found, so every use repeats the same steps.`,
+    });
+  } catch (error) {
+    console.error("Failed to save template:", error);
+    return NextResponse.json(
+      { error: "Failed to save template" },
+      { status: 500 }
+    );
+  }
+}
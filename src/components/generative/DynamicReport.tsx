@@ -7,7 +7,7 @@ import { useState, useEffect } from 'react'
 import { useTamboStreamStatus } from '@tambo-ai/react'
 import {
   FileText, Loader, Bookmark, ChevronDown, ChevronUp, BarChart3,
-  Table2, List, Type, Calendar, ExternalLink, Copy, CheckCircle2, Sparkles,
+  Table2, List, Type, Calendar, ExternalLink, Copy, CheckCircle2, Sparkles, BookOpen,
 } from 'lucide-react'
 
 export const DynamicReportPropsSchema = z.preprocess(
@@ -19,12 +19,15 @@ export const DynamicReportPropsSchema = z.preprocess(
 
 type DynamicReportProps = z.infer<typeof DynamicReportPropsSchema>
 
-interface TextSection { id: string; type: 'text'; title: string; content: string }
-interface TableSection { id: string; type: 'table'; title: string; content: { headers: string[]; rows: string[][] } }
-interface ChartSection { id: string; type: 'chart'; title: string; content: { chartType: 'bar' | 'line' | 'pie'; labels: string[]; datasets: Array<{ label: string; data: number[]; backgroundColor?: string }> } }
-interface ListSection { id: string; type: 'list'; title: string; content: { items: string[] } }
+// citations, rowCitations and itemCitations are footnote numbers into sourceData.bibliography
+interface TextSection { id: string; type: 'text'; title: string; citations?: number[]; content: string }
+interface TableSection { id: string; type: 'table'; title: string; citations?: number[]; content: { headers: string[]; rows: string[][]; rowCitations?: number[][] } }
+interface ChartSection { id: string; type: 'chart'; title: string; citations?: number[]; content: { chartType: 'bar' | 'line' | 'pie'; labels: string[]; datasets: Array<{ label: string; data: number[]; backgroundColor?: string }> } }
+interface ListSection { id: string; type: 'list'; title: string; citations?: number[]; content: { items: string[]; itemCitations?: number[][] } }
 type ReportSection = TextSection | TableSection | ChartSection | ListSection
 
+interface ReportSource { id: number; url: string; title: string; stepIndex: number; site: string; cited: boolean }
+
 interface ReportData {
   id: string; title: string; summary: string; format: string; sections: ReportSection[];
   sourceData: any; createdAt: string; updatedAt: string; workflowId?: string; sourceCollectionId?: string;
@@ -75,19 +78,23 @@ export function DynamicReport({ reportId }: DynamicReportProps) {
     setCollapsedSections((prev) => { const next = new Set(prev); next.has(sectionId) ? next.delete(sectionId) : next.add(sectionId); return next })
   }
 
+  const sources: ReportSource[] = (Array.isArray(report?.sourceData?.bibliography) ? report.sourceData.bibliography : []).filter((source: ReportSource) => source.cited)
+  const markers = (ids?: number[]) => (ids?.length ? ' ' + ids.map((n) => `[${n}]`).join('') : '')
+
   const handleCopyReport = async () => {
     if (!report) return
     const textContent = [`# ${report.title}`, '', report.summary, '',
       ...report.sections.map((section) => {
-        let content = `## ${section.title}\n`
+        let content = `## ${section.title}${markers(section.citations)}\n`
         switch (section.type) {
           case 'text': content += section.content; break
-          case 'table': { const { headers, rows } = section.content; content += `| ${headers.join(' | ')} |\n| ${headers.map(() => '---').join(' | ')} |\n`; rows.forEach((row) => { content += `| ${row.join(' | ')} |\n` }); break }
-          case 'list': section.content.items.forEach((item) => { content += `- ${item}\n` }); break
+          case 'table': { const { headers, rows, rowCitations } = section.content; content += `| ${headers.join(' | ')} |\n| ${headers.map(() => '---').join(' | ')} |\n`; rows.forEach((row, i) => { content += `| ${row.join(' | ')} |${markers(rowCitations?.[i])}\n` }); break }
+          case 'list': section.content.items.forEach((item, i) => { content += `- ${item}${markers(section.content.itemCitations?.[i])}\n` }); break
           case 'chart': content += `[Chart: ${section.content.chartType}]\n`; section.content.labels.forEach((label, i) => { const values = section.content.datasets.map((ds) => `${ds.label}: ${ds.data[i]}`).join(', '); content += `${label}: ${values}\n` }); break
         }
         return content
       }),
+      ...(sources.length > 0 ? ['## Sources', ...sources.map((source) => `${source.id}. ${source.title} — ${source.url}`)] : []),
     ].join('\n')
     await navigator.clipboard.writeText(textContent)
     setCopied(true); setTimeout(() => setCopied(false), 2000)
@@ -183,7 +190,7 @@ export function DynamicReport({ reportId }: DynamicReportProps) {
               <button onClick={() => toggleSection(section.id)} className="w-full flex items-center justify-between group">
                 <div className="flex items-center gap-2.5">
                   <SectionIcon size={15} strokeWidth={1.8} style={{ color: 'var(--fs-sage-500)' }} />
-                  <h3 className="font-semibold text-base" style={{ color: 'var(--fs-text-primary)' }}>{section.title}</h3>
+                  <h3 className="font-semibold text-base" style={{ color: 'var(--fs-text-primary)' }}>{section.title}<Cite ids={section.citations} reportId={report.id} /></h3>
                   <span className="text-[10px] font-semibold uppercase tracking-wider px-1.5 py-0.5 rounded" style={{ background: 'var(--fs-cream-200)', color: 'var(--fs-text-muted)' }}>{section.type}</span>
                 </div>
                 <div className="transition-colors" style={{ color: 'var(--fs-text-muted)', transitionDuration: 'var(--fs-duration-fast)' }}>
@@ -193,9 +200,9 @@ export function DynamicReport({ reportId }: DynamicReportProps) {
               {!isCollapsed && (
                 <div className="mt-4">
                   {section.type === 'text' && <TextContent content={section.content} />}
-                  {section.type === 'table' && <TableContent content={section.content} />}
+                  {section.type === 'table' && <TableContent content={section.content} reportId={report.id} />}
                   {section.type === 'chart' && <ChartContent content={section.content} />}
-                  {section.type === 'list' && <ListContent content={section.content} />}
+                  {section.type === 'list' && <ListContent content={section.content} reportId={report.id} />}
                 </div>
               )}
             </div>
@@ -203,6 +210,30 @@ export function DynamicReport({ reportId }: DynamicReportProps) {
         })}
       </div>
 
+      {/* ── Sources ── */}
+      {sources.length > 0 && (
+        <div className="px-6 py-5" style={{ borderTop: '1px solid var(--fs-border-light)' }}>
+          <div className="flex items-center gap-2.5 mb-3">
+            <BookOpen size={15} strokeWidth={1.8} style={{ color: 'var(--fs-sage-500)' }} />
+            <h3 className="font-semibold text-base" style={{ color: 'var(--fs-text-primary)' }}>Sources</h3>
+          </div>
+          <ol className="space-y-1.5">
+            {sources.map((source) => (
+              <li key={source.id} id={footnoteId(report.id, source.id)} className="flex items-start gap-2 text-xs scroll-mt-4">
+                <span className="font-mono shrink-0" style={{ color: 'var(--fs-text-muted)' }}>[{source.id}]</span>
+                <a href={source.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 transition-colors min-w-0"
+                  style={{ color: 'var(--fs-sage-600)' }}
+                  onMouseEnter={(e) => { e.currentTarget.style.color = 'var(--fs-sage-700)' }}
+                  onMouseLeave={(e) => { e.currentTarget.style.color = 'var(--fs-sage-600)' }}>
+                  <span className="truncate">{source.title}</span> <ExternalLink size={10} className="shrink-0" />
+                </a>
+                <span className="shrink-0" style={{ color: 'var(--fs-text-muted)' }}>{source.site} · step {source.stepIndex + 1}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       {/* ── Footer ── */}
       <div className="px-6 py-4" style={{ background: 'var(--fs-cream-100)', borderTop: '1px solid var(--fs-border-light)' }}>
         <div className="flex items-center justify-between">
@@ -219,6 +250,19 @@ export function DynamicReport({ reportId }: DynamicReportProps) {
 
 /* ═══════════ Section Renderers ═══════════ */
 
+const footnoteId = (reportId: string, n: number) => `report-${reportId}-source-${n}`
+
+function Cite({ ids, reportId }: { ids?: number[]; reportId: string }) {
+  if (!ids?.length) return null
+  return (
+    <sup className="ml-0.5 text-[10px] font-medium">
+      {ids.map((n) => (
+        <a key={n} href={`#${footnoteId(reportId, n)}`} onClick={(e) => e.stopPropagation()} style={{ color: 'var(--fs-sage-600)' }}>[{n}]</a>
+      ))}
+    </sup>
+  )
+}
+
 function TextContent({ content }: { content: string }) {
   return (
     <div className="space-y-3">
@@ -229,7 +273,7 @@ function TextContent({ content }: { content: string }) {
   )
 }
 
-function TableContent({ content }: { content: { headers: string[]; rows: string[][] } }) {
+function TableContent({ content, reportId }: { content: { headers: string[]; rows: string[][]; rowCitations?: number[][] }; reportId: string }) {
   if (!content?.headers || !content?.rows) return <p className="text-sm italic" style={{ color: 'var(--fs-text-muted)' }}>No table data available</p>
   return (
     <div className="overflow-x-auto rounded-xl" style={{ border: '1px solid var(--fs-border-light)' }}>
@@ -257,6 +301,7 @@ function TableContent({ content }: { content: { headers: string[]; rows: string[
                       Link <ExternalLink size={10} />
                     </a>
                   ) : cell}
+                  {cellIdx === 0 && <Cite ids={content.rowCitations?.[rowIdx]} reportId={reportId} />}
                 </td>
               ))}
             </tr>
@@ -337,7 +382,7 @@ function ChartContent({ content }: { content: { chartType: string; labels: strin
   )
 }
 
-function ListContent({ content }: { content: { items: string[] } }) {
+function ListContent({ content, reportId }: { content: { items: string[]; itemCitations?: number[][] }; reportId: string }) {
   if (!content?.items || content.items.length === 0) return <p className="text-sm italic" style={{ color: 'var(--fs-text-muted)' }}>No items available</p>
   return (
     <ul className="space-y-2.5">
@@ -346,7 +391,7 @@ function ListContent({ content }: { content: { items: string[] } }) {
           <div className="w-6 h-6 rounded-lg flex items-center justify-center shrink-0 mt-0.5" style={{ background: 'var(--fs-sage-100)', color: 'var(--fs-sage-700)' }}>
             <span className="text-[10px] font-bold">{i + 1}</span>
           </div>
-          <p className="leading-relaxed" style={{ color: 'var(--fs-text-secondary)' }}>{item}</p>
+          <p className="leading-relaxed" style={{ color: 'var(--fs-text-secondary)' }}>{item}<Cite ids={content.itemCitations?.[i]} reportId={reportId} /></p>
         </li>
       ))}
     </ul>
@@ -6,9 +6,12 @@ import { z } from 'zod'
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { useTamboStreamStatus } from '@tambo-ai/react'
 import {
-  Search, Filter, Brain, Layers, FileText, Loader, CheckCircle2, XCircle,
-  Clock, Zap, RotateCcw, StopCircle, ChevronDown, ChevronUp, BarChart3, Sparkles,
+  Search, Globe, Filter, Brain, Layers, FileText, Loader, CheckCircle2, XCircle,
+  Clock, Zap, RotateCcw, StopCircle, ChevronDown, ChevronUp, BarChart3, Sparkles, Pause, Play,
+  Pencil, Plus, Trash2, ArrowUp, ArrowDown, AlertTriangle, UserCheck, GitBranch, Repeat, SkipForward, GitCompare, ShieldCheck,
 } from 'lucide-react'
+import { WorkflowReview, type ReviewRequest } from '@/components/generative/WorkflowReview'
+import { WorkflowRunDiff } from '@/components/generative/WorkflowRunDiff'
 
 export const WorkflowExecutorPropsSchema = z.preprocess(
   (v) => v ?? {},
@@ -23,46 +26,100 @@ export const WorkflowExecutorPropsSchema = z.preprocess(
 
 type WorkflowExecutorProps = z.infer<typeof WorkflowExecutorPropsSchema>
 
+interface SubStepStatus {
+  itemIndex: number; subStepIndex: number; type: string; title: string;
+  status: string; attempts: number; error?: string | null; durationMs?: number | null; cached?: boolean;
+}
+
 interface StepStatus {
   index: number; type: string; title: string; description?: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  params?: Record<string, any>; dependsOn?: number[];
+  status: 'pending' | 'running' | 'awaiting_input' | 'completed' | 'skipped' | 'failed' | 'cancelled';
   error?: string | null; durationMs?: number | null; hasOutput?: boolean;
+  attempts?: number; maxAttempts?: number | null; retrying?: boolean; cached?: boolean;
+  preview?: StepPreview | null; subSteps?: SubStepStatus[];
 }
 
+interface StepPreview { count?: number; items?: string[]; summary?: string }
+
 interface WorkflowStatus {
   workflowId: string; title: string; description?: string; query: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
-  currentStep: number; totalSteps: number; progress: number; steps: StepStatus[];
+  status: 'draft' | 'pending' | 'running' | 'paused' | 'awaiting_input' | 'completed' | 'failed' | 'cancelled';
+  currentStep: number; activeSteps?: number[]; totalSteps: number; progress: number; steps: StepStatus[];
   outputFormat?: string; errorMessage?: string | null; failedStep?: number | null;
-  reportId?: string | null; reportTitle?: string | null; createdAt: string; completedAt?: string | null;
+  reportId?: string | null; reportTitle?: string | null; createdAt: string; completedAt?: string | null; cancelledAt?: string | null; pausedAt?: string | null;
+  review?: ReviewRequest | null;
+  budgetExceeded?: { message: string; skippedSteps: number[] } | null;
+  lastEventId?: number; rerunOfId?: string | null;
 }
 
-const stepIcons: Record<string, any> = { search: Search, extract: Filter, analyze: Brain, aggregate: Layers, generate_report: FileText }
+const stepIcons: Record<string, any> = { search: Search, fetch_page: Globe, extract: Filter, analyze: Brain, aggregate: Layers, verify: ShieldCheck, review: UserCheck, branch: GitBranch, for_each: Repeat, generate_report: FileText }
 
 // Sage-tinted step type badges (differentiated by intensity)
 const stepTypeBadges: Record<string, { bg: string; color: string }> = {
   search:          { bg: 'var(--fs-sage-100)', color: 'var(--fs-sage-700)' },
+  fetch_page:      { bg: 'var(--fs-sage-100)', color: 'var(--fs-sage-700)' },
   extract:         { bg: 'var(--fs-cream-300)', color: 'var(--fs-text-primary)' },
   analyze:         { bg: 'var(--fs-sage-50)',  color: 'var(--fs-sage-600)' },
   aggregate:       { bg: 'var(--fs-cream-200)', color: 'var(--fs-text-secondary)' },
+  verify:          { bg: 'var(--fs-sage-50)',  color: 'var(--fs-sage-800)' },
+  review:          { bg: 'var(--fs-sage-100)', color: 'var(--fs-sage-800)' },
+  branch:          { bg: 'var(--fs-cream-200)', color: 'var(--fs-sage-700)' },
+  for_each:        { bg: 'var(--fs-cream-300)', color: 'var(--fs-sage-700)' },
   generate_report: { bg: 'var(--fs-sage-200)', color: 'var(--fs-sage-800)' },
 }
 
 const statusStyles: Record<string, { bg: string; border: string; iconColor: string; animate?: string }> = {
   pending:   { bg: 'var(--fs-cream-100)', border: 'var(--fs-border-light)', iconColor: 'var(--fs-text-muted)' },
   running:   { bg: 'var(--fs-sage-50)',   border: 'var(--fs-sage-300)',     iconColor: 'var(--fs-sage-600)', animate: 'animate-spin' },
+  awaiting_input: { bg: '#FFFBEB',       border: '#FDE68A',                iconColor: '#B45309' },
   completed: { bg: 'var(--fs-sage-50)',   border: 'var(--fs-sage-400)',     iconColor: 'var(--fs-sage-600)' },
+  skipped:   { bg: 'var(--fs-cream-100)', border: 'var(--fs-border-light)', iconColor: 'var(--fs-text-muted)' },
   failed:    { bg: '#FEF2F2',            border: '#FECACA',                iconColor: '#DC2626' },
+  cancelled: { bg: 'var(--fs-cream-200)', border: 'var(--fs-border-light)', iconColor: 'var(--fs-text-secondary)' },
 }
 
-const statusIcons: Record<string, any> = { pending: Clock, running: Loader, completed: CheckCircle2, failed: XCircle }
+const STEP_TYPES = ['search', 'fetch_page', 'extract', 'analyze', 'aggregate', 'verify', 'review', 'branch', 'for_each', 'generate_report']
+
+const statusIcons: Record<string, any> = { pending: Clock, running: Loader, awaiting_input: UserCheck, completed: CheckCircle2, skipped: SkipForward, failed: XCircle, cancelled: StopCircle }
+
+const STEP_EVENTS = ['step.started', 'step.completed', 'step.failed', 'step.skipped']
+const REFRESH_EVENTS = ['workflow.status', 'review.requested', 'item.completed', 'item.failed', 'report.ready', 'report.failed']
+
+/** Patch a step from a live event; the status fetch that follows fills in the rest */
+function applyStepEvent(prev: WorkflowStatus, type: string, data: any): WorkflowStatus {
+  const status: StepStatus['status'] =
+    type === 'step.started' ? 'running'
+    : type === 'step.completed' ? 'completed'
+    : type === 'step.skipped' ? 'skipped'
+    : data.willRetry ? 'running' : 'failed'
+  return {
+    ...prev,
+    steps: prev.steps.map((s) => s.index !== data.stepIndex ? s : {
+      ...s, status,
+      ...(type === 'step.started' && { attempts: data.attempt, maxAttempts: data.maxAttempts, retrying: data.attempt > 1 }),
+      ...(type === 'step.completed' && { durationMs: data.durationMs, cached: data.cached, preview: data.preview, hasOutput: true, error: null, retrying: false }),
+      ...(type === 'step.failed' && { error: data.error, retrying: !!data.willRetry }),
+      ...(type === 'step.skipped' && { error: data.reason }),
+    }),
+  }
+}
 
-export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowExecutorProps) {
+export function WorkflowExecutor({ workflowId: initialWorkflowId, steps: initialSteps }: WorkflowExecutorProps) {
+  // Re-running switches the view to the new run
+  const [workflowId, setWorkflowId] = useState(initialWorkflowId)
+  useEffect(() => { setWorkflowId(initialWorkflowId) }, [initialWorkflowId])
+  const [showDiff, setShowDiff] = useState(false)
   const [workflowStatus, setWorkflowStatus] = useState<WorkflowStatus | null>(null)
   const [expandedStep, setExpandedStep] = useState<number | null>(null)
-  const [polling, setPolling] = useState(true)
+  // Whether the run can still change; live updates stop once it settles
+  const [tracking, setTracking] = useState(true)
+  // Set when the event stream is unavailable; status polling takes over
+  const [streamFailed, setStreamFailed] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  // Failure of a cancel/resume request, shown in the header
+  const [actionError, setActionError] = useState<string | null>(null)
+  const lastEventIdRef = useRef(0)
 
   const { streamStatus } = useTamboStreamStatus()
   const isStreaming = !streamStatus.isSuccess && !streamStatus.isError
@@ -73,19 +130,89 @@ export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowEx
       if (!response.ok) throw new Error('Failed to fetch status')
       const data: WorkflowStatus = await response.json()
       setWorkflowStatus(data); setError(null)
-      if (data.status === 'completed' || data.status === 'failed') setPolling(false)
+      lastEventIdRef.current = Math.max(lastEventIdRef.current, data.lastEventId ?? 0)
     } catch (err: any) { setError(err.message) }
   }, [workflowId])
 
+  useEffect(() => {
+    if (!workflowStatus) return
+    const { status, activeSteps, reportId } = workflowStatus
+    // A paused or waiting run stays live until its in-flight steps have
+    // finished; drafts don't change until the user edits or starts them.
+    // The stream also waits for the report that follows completion.
+    const settled = ((status === 'paused' || status === 'awaiting_input') && !(activeSteps?.length)) || status === 'draft'
+    if ((status === 'completed' && (reportId || streamFailed)) || status === 'failed' || status === 'cancelled' || settled) setTracking(false)
+  }, [workflowStatus, streamFailed])
+
   useEffect(() => {
     if (isStreaming || !workflowId) return
     fetchStatus()
-    if (polling) intervalRef.current = setInterval(fetchStatus, 2500)
-    return () => { if (intervalRef.current) clearInterval(intervalRef.current) }
-  }, [isStreaming, workflowId, polling, fetchStatus])
+    if (!tracking) return
 
-  const handleCancel = async () => { if (!workflowId) return; try { await fetch(`/api/workflows/${workflowId}/cancel`, { method: 'POST' }); fetchStatus() } catch {} }
-  const handleRetry = async () => { if (!workflowId) return; try { await fetch(`/api/workflows/${workflowId}/retry`, { method: 'POST' }); setPolling(true); fetchStatus() } catch {} }
+    if (streamFailed || typeof EventSource === 'undefined') {
+      const interval = setInterval(fetchStatus, 2500)
+      return () => clearInterval(interval)
+    }
+
+    // Events patch the steps right away; a debounced status fetch follows
+    // for everything they don't carry (progress, sub-steps, usage)
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null
+    const refresh = () => { if (refreshTimer) clearTimeout(refreshTimer); refreshTimer = setTimeout(fetchStatus, 250) }
+    const source = new EventSource(`/api/workflows/${workflowId}/events?after=${lastEventIdRef.current}`)
+    let errors = 0
+    const onEvent = (e: MessageEvent) => {
+      errors = 0
+      lastEventIdRef.current = Math.max(lastEventIdRef.current, Number(e.lastEventId) || 0)
+      if (STEP_EVENTS.includes(e.type)) {
+        const data = JSON.parse(e.data)
+        setWorkflowStatus((prev) => prev && applyStepEvent(prev, e.type, data))
+      }
+      refresh()
+    }
+    ;[...STEP_EVENTS, ...REFRESH_EVENTS].forEach((type) => source.addEventListener(type, onEvent))
+    source.addEventListener('end', () => { source.close(); setTracking(false); fetchStatus() })
+    source.onerror = () => {
+      // EventSource reconnects by itself; give up after repeated failures
+      if (source.readyState === EventSource.CLOSED || ++errors >= 3) { source.close(); setStreamFailed(true) }
+    }
+    return () => { source.close(); if (refreshTimer) clearTimeout(refreshTimer) }
+  }, [isStreaming, workflowId, tracking, streamFailed, fetchStatus])
+
+  const handleCancel = async () => {
+    if (!workflowId) return
+    setActionError(null)
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/cancel`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to cancel workflow')
+      fetchStatus()
+    } catch (err: any) { setActionError(err.message) }
+  }
+  const handlePause = async () => { if (!workflowId) return; try { await fetch(`/api/workflows/${workflowId}/pause`, { method: 'POST' }); fetchStatus() } catch {} }
+  const handleResume = async () => {
+    if (!workflowId) return
+    setActionError(null)
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/resume`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to resume workflow')
+      setTracking(true); fetchStatus()
+    } catch (err: any) { setActionError(err.message) }
+  }
+  const handleRetry = async () => { if (!workflowId) return; try { await fetch(`/api/workflows/${workflowId}/retry`, { method: 'POST' }); setTracking(true); fetchStatus() } catch {} }
+  const handleRerun = async () => {
+    if (!workflowId) return
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/rerun`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to re-run workflow')
+      lastEventIdRef.current = 0
+      setWorkflowStatus(null); setShowDiff(false); setStreamFailed(false); setTracking(true)
+      setWorkflowId(data.workflowId)
+    } catch (err: any) { setError(err.message) }
+  }
+  const handleStarted = () => { setTracking(true); fetchStatus() }
+  const handleReviewed = () => { setTracking(true); fetchStatus() }
 
   const steps: StepStatus[] = workflowStatus?.steps || initialSteps?.map((s) => ({ index: s.index ?? 0, type: s.type ?? '', title: s.title ?? '', description: s.description, status: (s.status as StepStatus['status']) || 'pending' })) || []
   const status = workflowStatus?.status || 'pending'
@@ -93,6 +220,8 @@ export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowEx
   const title = workflowStatus?.title || 'Research Workflow'
   const completedCount = steps.filter((s) => s.status === 'completed').length
   const totalSteps = steps.length
+  // Independent steps run in parallel, so several can be "running" at once
+  const runningSteps = steps.filter((s) => s.status === 'running')
 
   /* ── Streaming ── */
   if (isStreaming) {
@@ -144,6 +273,22 @@ export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowEx
           </div>
           <div className="flex items-center gap-3">
             {status === 'running' && (
+              <button onClick={handlePause} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-sm font-medium text-white transition-all"
+                style={{ background: 'rgba(255,255,255,0.15)', backdropFilter: 'blur(4px)' }}
+                onMouseEnter={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.25)' }}
+                onMouseLeave={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.15)' }}>
+                <Pause size={14} /> Pause
+              </button>
+            )}
+            {status === 'paused' && (
+              <button onClick={handleResume} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-sm font-medium text-white transition-all"
+                style={{ background: 'rgba(255,255,255,0.15)', backdropFilter: 'blur(4px)' }}
+                onMouseEnter={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.25)' }}
+                onMouseLeave={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.15)' }}>
+                <Play size={14} /> Resume
+              </button>
+            )}
+            {(status === 'running' || status === 'pending' || status === 'paused' || status === 'awaiting_input') && (
               <button onClick={handleCancel} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-sm font-medium text-white transition-all"
                 style={{ background: 'rgba(255,255,255,0.15)', backdropFilter: 'blur(4px)' }}
                 onMouseEnter={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.25)' }}
@@ -151,7 +296,15 @@ export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowEx
                 <StopCircle size={14} /> Cancel
               </button>
             )}
-            {status === 'failed' && (
+            {status === 'completed' && (
+              <button onClick={handleRerun} title="Run the same steps again and compare with this run" className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-sm font-medium text-white transition-all"
+                style={{ background: 'rgba(255,255,255,0.15)', backdropFilter: 'blur(4px)' }}
+                onMouseEnter={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.25)' }}
+                onMouseLeave={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.15)' }}>
+                <RotateCcw size={14} /> Re-run
+              </button>
+            )}
+            {(status === 'failed' || status === 'cancelled') && (
               <button onClick={handleRetry} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-sm font-medium text-white transition-all"
                 style={{ background: 'rgba(255,255,255,0.15)', backdropFilter: 'blur(4px)' }}
                 onMouseEnter={(e) => { e.currentTarget.style.background = 'rgba(255,255,255,0.25)' }}
@@ -162,26 +315,41 @@ export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowEx
             <StatusBadge status={status} />
           </div>
         </div>
+        {actionError && <p className="mt-3 text-sm" style={{ color: '#FECACA' }}>{actionError}</p>}
 
         {/* Progress bar */}
-        <div className="mt-4">
+        {status !== 'draft' && <div className="mt-4">
           <div className="flex items-center justify-between text-sm mb-2" style={{ color: 'rgba(255,255,255,0.7)' }}>
-            <span>Step {Math.min(completedCount + 1, totalSteps)} of {totalSteps}</span>
+            <span>
+              {runningSteps.length > 1
+                ? `Steps ${runningSteps.map((s) => s.index + 1).join(', ')} of ${totalSteps} running`
+                : `Step ${Math.min(completedCount + 1, totalSteps)} of ${totalSteps}`}
+            </span>
             <span>{progress}% complete</span>
           </div>
           <div className="w-full h-2 rounded-full" style={{ background: 'rgba(255,255,255,0.2)' }}>
             <div className="h-2 rounded-full transition-all"
               style={{
                 width: `${Math.max(progress, status === 'running' ? 5 : 0)}%`,
-                background: status === 'failed' ? '#FCA5A5' : status === 'completed' ? 'rgba(255,255,255,0.9)' : 'white',
+                background: status === 'failed' ? '#FCA5A5' : status === 'cancelled' ? 'rgba(255,255,255,0.5)' : status === 'completed' ? 'rgba(255,255,255,0.9)' : 'white',
                 transitionDuration: '700ms', transitionTimingFunction: 'ease-out',
               }} />
           </div>
-        </div>
+        </div>}
       </div>
 
+      {/* ── Draft plan editor ── */}
+      {status === 'draft' && workflowId && (
+        <PlanEditor workflowId={workflowId} steps={steps} onChanged={fetchStatus} onStarted={handleStarted} />
+      )}
+
+      {/* ── Review (human-in-the-loop step) ── */}
+      {status === 'awaiting_input' && workflowId && workflowStatus?.review && (
+        <WorkflowReview key={workflowStatus.review.stepIndex} workflowId={workflowId} review={workflowStatus.review} onAnswered={handleReviewed} />
+      )}
+
       {/* ── Steps ── */}
-      <div>
+      {status !== 'draft' && <div>
         {steps.map((step, idx) => {
           const StepIcon = stepIcons[step.type] || FileText
           const StatusIcon = statusIcons[step.status] || statusIcons.pending
@@ -207,11 +375,28 @@ export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowEx
                 {/* Step info */}
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2">
-                    <h4 className="font-semibold text-sm" style={{ color: step.status === 'pending' ? 'var(--fs-text-muted)' : 'var(--fs-text-primary)' }}>{step.title}</h4>
+                    <h4 className={`font-semibold text-sm ${step.status === 'skipped' ? 'line-through' : ''}`} style={{ color: step.status === 'pending' || step.status === 'skipped' ? 'var(--fs-text-muted)' : 'var(--fs-text-primary)' }}>{step.title}</h4>
                     <span className="inline-flex items-center gap-1 text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-lg"
                       style={{ background: badge.bg, color: badge.color }}>
                       <StepIcon size={9} /> {step.type}
                     </span>
+                    {(step.attempts || 0) > 1 && (
+                      <span className="inline-flex items-center gap-1 text-[10px] font-semibold px-2 py-0.5 rounded-lg"
+                        style={{ background: step.retrying ? '#FEF3C7' : 'var(--fs-cream-200)', color: step.retrying ? '#B45309' : 'var(--fs-text-secondary)' }}>
+                        <RotateCcw size={9} /> Attempt {step.attempts}{step.maxAttempts ? `/${step.maxAttempts}` : ''}
+                      </span>
+                    )}
+                    {step.cached && step.status === 'completed' && (
+                      <span className="inline-flex items-center gap-1 text-[10px] font-semibold px-2 py-0.5 rounded-lg" title="Reused a recent result for the same inputs"
+                        style={{ background: 'var(--fs-sage-50)', color: 'var(--fs-sage-600)' }}>
+                        <Zap size={9} /> Cached
+                      </span>
+                    )}
+                    {step.subSteps && step.subSteps.length > 0 && (
+                      <span className="text-[10px] font-semibold px-2 py-0.5 rounded-lg" style={{ background: 'var(--fs-cream-200)', color: 'var(--fs-text-secondary)' }}>
+                        {new Set(step.subSteps.map((sub) => sub.itemIndex)).size} items
+                      </span>
+                    )}
                   </div>
                   {step.description && <p className="text-xs mt-0.5 truncate" style={{ color: 'var(--fs-text-muted)' }}>{step.description}</p>}
                 </div>
@@ -232,15 +417,39 @@ export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowEx
               {isExpanded && (
                 <div className="mt-3 ml-14 space-y-2">
                   {step.description && <p className="text-sm" style={{ color: 'var(--fs-text-secondary)' }}>{step.description}</p>}
-                  {step.error && (
+                  {step.status === 'skipped' && step.error && (
+                    <p className="text-xs flex items-center gap-1.5" style={{ color: 'var(--fs-text-muted)' }}><SkipForward size={12} /> {step.error}</p>
+                  )}
+                  {step.error && step.status !== 'skipped' && (
                     <div className="rounded-xl p-3" style={{ background: '#FEF2F2', border: '1px solid #FECACA' }}>
-                      <p className="text-sm font-medium" style={{ color: '#B91C1C' }}>Error:</p>
+                      <p className="text-sm font-medium" style={{ color: '#B91C1C' }}>{step.retrying ? 'Last attempt failed, retrying:' : 'Error:'}</p>
                       <p className="text-sm mt-1" style={{ color: '#DC2626' }}>{step.error}</p>
                     </div>
                   )}
                   {step.hasOutput && step.status === 'completed' && (
                     <div className="flex items-center gap-1.5 text-xs" style={{ color: 'var(--fs-sage-600)' }}>
-                      <CheckCircle2 size={12} /> Data collected successfully
+                      <CheckCircle2 size={12} /> {step.preview?.count != null ? `${step.preview.count} item${step.preview.count === 1 ? '' : 's'} collected` : 'Data collected successfully'}
+                    </div>
+                  )}
+                  {step.status === 'completed' && step.preview && <StepPreviewView preview={step.preview} />}
+                  {step.subSteps && step.subSteps.length > 0 && (
+                    <div className="rounded-xl overflow-hidden" style={{ border: '1px solid var(--fs-border-light)' }}>
+                      {step.subSteps.map((sub, subIdx) => {
+                        const SubIcon = statusIcons[sub.status] || statusIcons.pending
+                        const subStyle = statusStyles[sub.status] || statusStyles.pending
+                        return (
+                          <div key={`${sub.itemIndex}:${sub.subStepIndex}`} className="flex items-center gap-2 px-3 py-1.5 text-xs"
+                            style={{ borderBottom: subIdx < step.subSteps!.length - 1 ? '1px solid var(--fs-border-light)' : 'none' }}>
+                            <SubIcon size={12} className={subStyle.animate || ''} style={{ color: subStyle.iconColor }} />
+                            <span className="flex-1 truncate" style={{ color: 'var(--fs-text-secondary)' }} title={sub.error || undefined}>{sub.title}</span>
+                            {sub.attempts > 1 && <span style={{ color: 'var(--fs-text-muted)' }}>×{sub.attempts}</span>}
+                            {sub.cached && <Zap size={10} style={{ color: 'var(--fs-sage-600)' }} />}
+                            {sub.durationMs != null && sub.status === 'completed' && (
+                              <span className="font-mono" style={{ color: 'var(--fs-text-muted)' }}>{sub.durationMs < 1000 ? `${sub.durationMs}ms` : `${(sub.durationMs / 1000).toFixed(1)}s`}</span>
+                            )}
+                          </div>
+                        )
+                      })}
                     </div>
                   )}
                 </div>
@@ -248,14 +457,22 @@ export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowEx
             </div>
           )
         })}
-      </div>
+      </div>}
 
       {/* ── Footer ── */}
-      <div className="px-6 py-4" style={{ background: 'var(--fs-cream-100)', borderTop: '1px solid var(--fs-border-light)' }}>
+      {status !== 'draft' && <div className="px-6 py-4" style={{ background: 'var(--fs-cream-100)', borderTop: '1px solid var(--fs-border-light)' }}>
+        {status === 'completed' && workflowStatus?.budgetExceeded && (
+          <div className="flex items-center gap-2 mb-3" style={{ color: '#B45309' }}>
+            <AlertTriangle size={15} />
+            <span className="text-sm font-medium">
+              Stopped early: {workflowStatus.budgetExceeded.message}. {workflowStatus.budgetExceeded.skippedSteps.length} step{workflowStatus.budgetExceeded.skippedSteps.length === 1 ? '' : 's'} did not run.
+            </span>
+          </div>
+        )}
         {status === 'completed' && workflowStatus?.reportId && (
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2" style={{ color: 'var(--fs-sage-700)' }}>
-              <CheckCircle2 size={16} /> <span className="font-medium text-sm">Research complete! Report generated.</span>
+              <CheckCircle2 size={16} /> <span className="font-medium text-sm">{workflowStatus.budgetExceeded ? 'Partial report generated from the steps that ran.' : 'Research complete! Report generated.'}</span>
             </div>
             <div className="flex items-center gap-2">
               <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>{workflowStatus.reportTitle || 'View Report'}</span>
@@ -268,10 +485,41 @@ export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowEx
             <CheckCircle2 size={16} /> <span className="font-medium text-sm">All steps completed successfully!</span>
           </div>
         )}
+        {status === 'completed' && workflowStatus?.rerunOfId && (
+          <button onClick={() => setShowDiff(!showDiff)}
+            className="mt-3 flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-xl transition-all"
+            style={{ background: 'var(--fs-sage-100)', color: 'var(--fs-sage-700)' }}
+            onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-sage-200)' }}
+            onMouseLeave={(e) => { e.currentTarget.style.background = 'var(--fs-sage-100)' }}>
+            <GitCompare size={11} /> {showDiff ? 'Hide changes' : 'Compare with previous run'}
+          </button>
+        )}
         {status === 'running' && (
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2" style={{ color: 'var(--fs-sage-600)' }}>
-              <Loader size={15} className="animate-spin" /> <span className="text-sm font-medium">Executing research steps...</span>
+              <Loader size={15} className="animate-spin" />
+              <span className="text-sm font-medium">
+                {runningSteps.length > 1 ? `Executing ${runningSteps.length} steps in parallel...` : 'Executing research steps...'}
+              </span>
+            </div>
+            <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>{completedCount}/{totalSteps} steps done</span>
+          </div>
+        )}
+        {status === 'paused' && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2" style={{ color: 'var(--fs-text-secondary)' }}>
+              <Pause size={15} />
+              <span className="text-sm font-medium">
+                {runningSteps.length > 0 ? `Pausing after ${runningSteps.length} running step${runningSteps.length > 1 ? 's' : ''} finish...` : 'Workflow paused'}
+              </span>
+            </div>
+            <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>{completedCount}/{totalSteps} steps done</span>
+          </div>
+        )}
+        {status === 'awaiting_input' && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2" style={{ color: '#B45309' }}>
+              <UserCheck size={15} /> <span className="text-sm font-medium">Waiting for your review to continue</span>
             </div>
             <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>{completedCount}/{totalSteps} steps done</span>
           </div>
@@ -295,17 +543,56 @@ export function WorkflowExecutor({ workflowId, steps: initialSteps }: WorkflowEx
             </button>
           </div>
         )}
-      </div>
+        {status === 'cancelled' && (
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2" style={{ color: 'var(--fs-text-secondary)' }}>
+              <StopCircle size={15} /> <span className="text-sm font-medium">Workflow cancelled after {completedCount}/{totalSteps} steps</span>
+            </div>
+            <button onClick={handleRetry}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-xl transition-all"
+              style={{ background: 'var(--fs-sage-100)', color: 'var(--fs-sage-700)' }}
+              onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-sage-200)' }}
+              onMouseLeave={(e) => { e.currentTarget.style.background = 'var(--fs-sage-100)' }}>
+              <RotateCcw size={11} /> Resume
+            </button>
+          </div>
+        )}
+      </div>}
+
+      {/* ── Diff against the run this one re-ran ── */}
+      {showDiff && status === 'completed' && workflowId && (
+        <div className="p-4" style={{ borderTop: '1px solid var(--fs-border-light)' }}>
+          <WorkflowRunDiff workflowId={workflowId} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StepPreviewView({ preview }: { preview: StepPreview }) {
+  return (
+    <div className="rounded-xl p-3 space-y-1" style={{ background: 'var(--fs-cream-100)', border: '1px solid var(--fs-border-light)' }}>
+      {preview.summary && <p className="text-xs" style={{ color: 'var(--fs-text-secondary)' }}>{preview.summary}</p>}
+      {preview.items?.map((item, i) => (
+        <p key={i} className="text-xs truncate" style={{ color: 'var(--fs-text-secondary)' }}>• {item}</p>
+      ))}
+      {preview.count != null && preview.items && preview.count > preview.items.length && (
+        <p className="text-[10px]" style={{ color: 'var(--fs-text-muted)' }}>+{preview.count - preview.items.length} more</p>
+      )}
     </div>
   )
 }
 
 function StatusBadge({ status }: { status: string }) {
   const configs: Record<string, { bg: string; label: string }> = {
+    draft:     { bg: 'rgba(255,255,255,0.15)', label: '📝 Draft' },
     running:   { bg: 'rgba(255,255,255,0.2)', label: '🔄 Running' },
     completed: { bg: 'rgba(255,255,255,0.25)', label: '✅ Completed' },
     pending:   { bg: 'rgba(255,255,255,0.15)', label: '⏳ Starting' },
+    paused:    { bg: 'rgba(255,255,255,0.15)', label: '⏸️ Paused' },
+    awaiting_input: { bg: 'rgba(251,191,36,0.35)', label: '✋ Needs input' },
     failed:    { bg: 'rgba(220,38,38,0.3)',    label: '❌ Failed' },
+    cancelled: { bg: 'rgba(255,255,255,0.15)', label: '⏹️ Cancelled' },
   }
   const cfg = configs[status] || configs.pending
   return (
@@ -316,9 +603,172 @@ function StatusBadge({ status }: { status: string }) {
   )
 }
 
+/* ── Draft plan editor ── */
+
+interface PlanIssue { code: string; message: string; step?: number; repaired?: boolean }
+
+interface StepForm { type: string; title: string; description: string; params: string; dependsOn: string }
+
+const toForm = (step?: StepStatus): StepForm => ({
+  type: step?.type || 'search', title: step?.title || '', description: step?.description || '',
+  params: JSON.stringify(step?.params || {}, null, 2), dependsOn: (step?.dependsOn || []).map((i) => i + 1).join(', '),
+})
+
+function PlanEditor({ workflowId, steps, onChanged, onStarted }: {
+  workflowId: string; steps: StepStatus[]; onChanged: () => void; onStarted: () => void
+}) {
+  // index being edited; -1 = new step
+  const [editing, setEditing] = useState<number | null>(null)
+  const [form, setForm] = useState<StepForm>(toForm())
+  const [issues, setIssues] = useState<{ errors: PlanIssue[]; warnings: PlanIssue[] }>({ errors: [], warnings: [] })
+  const [formError, setFormError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/workflows/${workflowId}/steps`).then((r) => r.ok ? r.json() : null).then((data) => { if (data) setIssues({ errors: data.errors || [], warnings: data.warnings || [] }) }).catch(() => {})
+  }, [workflowId])
+
+  const edit = async (body: Record<string, any>) => {
+    setBusy(true); setFormError(null)
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/steps`, {
+        method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) { setFormError(data.error || 'Failed to update plan'); return false }
+      setIssues({ errors: data.errors || [], warnings: data.warnings || [] }); onChanged()
+      return true
+    } catch (err: any) { setFormError(err.message); return false } finally { setBusy(false) }
+  }
+
+  const openEditor = (index: number) => { setEditing(index); setFormError(null); setForm(index === -1 ? toForm() : toForm(steps.find((s) => s.index === index))) }
+
+  const saveForm = async () => {
+    let params: Record<string, any>
+    try { params = JSON.parse(form.params || '{}') } catch { setFormError('Params must be valid JSON'); return }
+    const dependsOn = form.dependsOn.split(',').map((v) => v.trim()).filter(Boolean).map((v) => Number(v) - 1)
+    if (dependsOn.some((n) => !Number.isInteger(n) || n < 0)) { setFormError('Depends on must be a comma-separated list of step numbers'); return }
+    const step = { type: form.type, title: form.title, description: form.description, params, dependsOn }
+    const ok = editing === -1 ? await edit({ action: 'add', step }) : await edit({ action: 'update', index: editing, changes: step })
+    if (ok) setEditing(null)
+  }
+
+  const handleStart = async () => {
+    setBusy(true); setFormError(null)
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/start`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) { setIssues({ errors: data.errors || [], warnings: data.warnings || [] }); setFormError(data.error || 'Failed to start workflow'); return }
+      onStarted()
+    } catch (err: any) { setFormError(err.message) } finally { setBusy(false) }
+  }
+
+  const inputStyle = { background: 'white', border: '1px solid var(--fs-border-light)', color: 'var(--fs-text-primary)' }
+  const iconButton = 'p-1.5 rounded-lg transition-all disabled:opacity-40'
+
+  const renderForm = () => (
+    <div className="mt-3 space-y-2 rounded-xl p-3" style={{ background: 'var(--fs-cream-100)', border: '1px solid var(--fs-border-light)' }}>
+      <div className="flex gap-2">
+        <select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value })} className="text-sm rounded-lg px-2 py-1.5" style={inputStyle}>
+          {STEP_TYPES.map((t) => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <input value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} placeholder="Step title" className="flex-1 text-sm rounded-lg px-2 py-1.5" style={inputStyle} />
+      </div>
+      <input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} placeholder="Description" className="w-full text-sm rounded-lg px-2 py-1.5" style={inputStyle} />
+      <textarea value={form.params} onChange={(e) => setForm({ ...form, params: e.target.value })} rows={5} spellCheck={false} className="w-full text-xs font-mono rounded-lg px-2 py-1.5" style={inputStyle} />
+      <div className="flex items-center gap-2">
+        <label className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>Depends on (step numbers)</label>
+        <input value={form.dependsOn} onChange={(e) => setForm({ ...form, dependsOn: e.target.value })} placeholder="1, 2" className="flex-1 text-sm rounded-lg px-2 py-1" style={inputStyle} />
+      </div>
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setEditing(null)} className="px-3 py-1.5 text-xs font-medium rounded-xl" style={{ color: 'var(--fs-text-secondary)' }}>Cancel</button>
+        <button onClick={saveForm} disabled={busy || !form.title.trim()} className="px-3 py-1.5 text-xs font-medium rounded-xl text-white disabled:opacity-50" style={{ background: 'var(--fs-sage-600)' }}>
+          {editing === -1 ? 'Add step' : 'Save'}
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div>
+      {steps.map((step, idx) => {
+        const StepIcon = stepIcons[step.type] || FileText
+        const badge = stepTypeBadges[step.type] || stepTypeBadges.search
+        const query = step.params?.query
+        return (
+          <div key={step.index} className="px-6 py-3" style={{ borderBottom: '1px solid var(--fs-border-light)' }}>
+            <div className="flex items-center gap-3">
+              <span className="w-6 text-xs font-mono text-right" style={{ color: 'var(--fs-text-muted)' }}>{step.index + 1}</span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold text-sm" style={{ color: 'var(--fs-text-primary)' }}>{step.title}</h4>
+                  <span className="inline-flex items-center gap-1 text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-lg"
+                    style={{ background: badge.bg, color: badge.color }}>
+                    <StepIcon size={9} /> {step.type}
+                  </span>
+                </div>
+                {query && <p className="text-xs mt-0.5 truncate" style={{ color: 'var(--fs-text-secondary)' }}>“{query}”</p>}
+              </div>
+              <button onClick={() => edit({ action: 'move', from: idx, to: idx - 1 })} disabled={busy || idx === 0} className={iconButton} style={{ color: 'var(--fs-text-muted)' }} title="Move up"><ArrowUp size={14} /></button>
+              <button onClick={() => edit({ action: 'move', from: idx, to: idx + 1 })} disabled={busy || idx === steps.length - 1} className={iconButton} style={{ color: 'var(--fs-text-muted)' }} title="Move down"><ArrowDown size={14} /></button>
+              <button onClick={() => openEditor(step.index)} disabled={busy} className={iconButton} style={{ color: 'var(--fs-sage-600)' }} title="Edit"><Pencil size={14} /></button>
+              <button onClick={() => edit({ action: 'remove', index: step.index })} disabled={busy || steps.length <= 1} className={iconButton} style={{ color: '#DC2626' }} title="Remove"><Trash2 size={14} /></button>
+            </div>
+            {editing === step.index && renderForm()}
+          </div>
+        )
+      })}
+
+      <div className="px-6 py-3" style={{ borderBottom: '1px solid var(--fs-border-light)' }}>
+        {editing === -1 ? renderForm() : (
+          <button onClick={() => openEditor(-1)} disabled={busy} className="flex items-center gap-1.5 text-sm font-medium" style={{ color: 'var(--fs-sage-600)' }}>
+            <Plus size={14} /> Add step
+          </button>
+        )}
+      </div>
+
+      {/* Footer: validation + start */}
+      <div className="px-6 py-4 space-y-3" style={{ background: 'var(--fs-cream-100)' }}>
+        {(issues.errors.length > 0 || formError) && (
+          <div className="rounded-xl p-3" style={{ background: '#FEF2F2', border: '1px solid #FECACA' }}>
+            {formError && <p className="text-sm font-medium" style={{ color: '#B91C1C' }}>{formError}</p>}
+            {issues.errors.map((issue, i) => (
+              <p key={i} className="flex items-start gap-1.5 text-xs mt-1" style={{ color: '#DC2626' }}><AlertTriangle size={12} className="mt-0.5 shrink-0" /> {issue.message}</p>
+            ))}
+            {issues.errors.length > 0 && (
+              <button onClick={() => edit({ action: 'repair' })} disabled={busy}
+                className="mt-2 px-3 py-1.5 text-xs font-medium rounded-xl transition-all disabled:opacity-50"
+                style={{ background: '#FEE2E2', color: '#B91C1C' }}>
+                Fix automatically
+              </button>
+            )}
+          </div>
+        )}
+        {issues.warnings.length > 0 && (
+          <div className="rounded-xl p-3" style={{ background: '#FFFBEB', border: '1px solid #FDE68A' }}>
+            {issues.warnings.map((issue, i) => (
+              <p key={i} className="flex items-start gap-1.5 text-xs mt-1 first:mt-0" style={{ color: '#B45309' }}><AlertTriangle size={12} className="mt-0.5 shrink-0" /> {issue.message}</p>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <span className="text-sm" style={{ color: 'var(--fs-text-secondary)' }}>Review the plan, then start the workflow.</span>
+          <button onClick={handleStart} disabled={busy || editing !== null}
+            className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium rounded-xl text-white transition-all disabled:opacity-50"
+            style={{ background: 'var(--fs-sage-600)' }}
+            onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-sage-700)' }}
+            onMouseLeave={(e) => { e.currentTarget.style.background = 'var(--fs-sage-600)' }}>
+            <Play size={14} /> Start
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
 export const workflowExecutorComponent = {
   name: 'WorkflowExecutor',
-  description: 'Displays real-time progress of an AI research workflow with step-by-step status updates, progress bar, and action buttons. Shows live polling updates as each step executes.',
+  description: 'Displays real-time progress of an AI research workflow with step-by-step status updates, progress bar, and action buttons. Streams live updates as each step starts and finishes. Draft workflows show an editable plan with a Start button; review steps show a selection form the user answers to continue.',
   component: WorkflowExecutor,
   propsSchema: WorkflowExecutorPropsSchema,
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+// components/generative/WorkflowReview.tsx
+// Answer form for a workflow "review" step: a selectable list of the previous
+// step's items plus optional form fields rendered with the elicitation UI fields
+'use client'
+
+import { useState } from 'react'
+import { CheckSquare, Square, ExternalLink, Loader, Send, SkipForward, StopCircle, UserCheck } from 'lucide-react'
+import { Field, getValidationError, type FieldSchema } from '@/components/tambo/elicitation-ui'
+
+export interface ReviewRequest {
+  stepIndex: number; stepTitle: string; message: string; mode: 'select' | 'form'
+  items: { id: string; label: string; description?: string; url?: string }[]
+  minSelect: number; maxSelect?: number
+  fields: Record<string, FieldSchema>; required: string[]
+}
+
+export function WorkflowReview({ workflowId, review, onAnswered }: { workflowId: string; review: ReviewRequest; onAnswered: () => void }) {
+  // Everything starts selected unless the step caps the selection
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(review.maxSelect ? [] : review.items.map((item) => item.id)))
+  const [values, setValues] = useState<Record<string, unknown>>(() => {
+    const initial: Record<string, unknown> = {}
+    Object.entries(review.fields).forEach(([name, schema]) => { if (schema.default !== undefined) initial[name] = schema.default })
+    return initial
+  })
+  const [touched, setTouched] = useState<Set<string>>(new Set())
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fields = Object.entries(review.fields)
+  const fieldsValid = fields.every(([name, schema]) => !getValidationError(values[name], schema, review.required.includes(name)))
+  const tooFew = review.mode === 'select' && selected.size < review.minSelect
+  const tooMany = review.mode === 'select' && !!review.maxSelect && selected.size > review.maxSelect
+
+  const toggle = (id: string) => setSelected((prev) => { const next = new Set(prev); if (next.has(id)) next.delete(id); else next.add(id); return next })
+
+  const submit = async (action: 'accept' | 'decline' | 'cancel') => {
+    if (action === 'accept' && (!fieldsValid || tooFew || tooMany)) { setTouched(new Set(fields.map(([name]) => name))); return }
+    setBusy(true); setError(null)
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/review`, {
+        method: 'POST', headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, selected: [...selected], values }),
+      })
+      const data = await response.json()
+      if (!response.ok) { setError(data.error || 'Failed to submit review'); return }
+      onAnswered()
+    } catch (err: any) { setError(err.message) } finally { setBusy(false) }
+  }
+
+  return (
+    <div className="px-6 py-5 space-y-4" style={{ background: 'var(--fs-sage-50)', borderBottom: '1px solid var(--fs-border-light)' }}>
+      <div className="flex items-start gap-3">
+        <div className="w-9 h-9 rounded-xl flex items-center justify-center shrink-0" style={{ background: 'var(--fs-sage-100)' }}>
+          <UserCheck size={17} style={{ color: 'var(--fs-sage-700)' }} />
+        </div>
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--fs-sage-600)' }}>Step {review.stepIndex + 1} · Your input needed</p>
+          <p className="font-semibold text-sm mt-0.5" style={{ color: 'var(--fs-text-primary)' }}>{review.message}</p>
+        </div>
+      </div>
+
+      {review.mode === 'select' && (
+        <div>
+          <div className="flex items-center justify-between mb-2 text-xs" style={{ color: 'var(--fs-text-muted)' }}>
+            <span>
+              {selected.size} of {review.items.length} selected
+              {review.maxSelect ? ` · pick up to ${review.maxSelect}` : ''}
+            </span>
+            <div className="flex gap-3">
+              <button onClick={() => setSelected(new Set(review.items.map((item) => item.id)))} style={{ color: 'var(--fs-sage-600)' }}>All</button>
+              <button onClick={() => setSelected(new Set())} style={{ color: 'var(--fs-sage-600)' }}>None</button>
+            </div>
+          </div>
+          <div className="rounded-xl overflow-hidden max-h-80 overflow-y-auto fs-scrollbar" style={{ border: '1px solid var(--fs-border-light)', background: 'white' }}>
+            {review.items.map((item, idx) => {
+              const isSelected = selected.has(item.id)
+              return (
+                <div key={item.id} onClick={() => toggle(item.id)} className="flex items-start gap-3 px-3 py-2.5 cursor-pointer transition-colors"
+                  style={{ background: isSelected ? 'var(--fs-sage-50)' : 'transparent', borderBottom: idx < review.items.length - 1 ? '1px solid var(--fs-border-light)' : 'none' }}>
+                  {isSelected ? <CheckSquare size={16} className="mt-0.5 shrink-0" style={{ color: 'var(--fs-sage-600)' }} /> : <Square size={16} className="mt-0.5 shrink-0" style={{ color: 'var(--fs-text-muted)' }} />}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate" style={{ color: 'var(--fs-text-primary)' }}>{item.label}</p>
+                    {item.description && <p className="text-xs mt-0.5 line-clamp-2" style={{ color: 'var(--fs-text-muted)' }}>{item.description}</p>}
+                  </div>
+                  {item.url && (
+                    <a href={item.url} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()} style={{ color: 'var(--fs-text-muted)' }}>
+                      <ExternalLink size={13} />
+                    </a>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+          {(tooFew || tooMany) && (
+            <p className="text-xs mt-1.5" style={{ color: '#DC2626' }}>
+              {tooFew ? `Select at least ${review.minSelect} item${review.minSelect > 1 ? 's' : ''}` : `Select at most ${review.maxSelect} items`}
+            </p>
+          )}
+        </div>
+      )}
+
+      {fields.length > 0 && (
+        <div className="space-y-3">
+          {fields.map(([name, schema], index) => (
+            <Field key={name} name={name} schema={schema} value={values[name]}
+              onChange={(value) => { setValues((prev) => ({ ...prev, [name]: value })); setTouched((prev) => new Set(prev).add(name)) }}
+              required={review.required.includes(name)} autoFocus={index === 0 && review.mode === 'form'}
+              validationError={touched.has(name) ? getValidationError(values[name], schema, review.required.includes(name)) : null} />
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm" style={{ color: '#DC2626' }}>{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        <button onClick={() => submit('cancel')} disabled={busy} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-xl transition-all disabled:opacity-50" style={{ color: '#DC2626' }}>
+          <StopCircle size={12} /> Cancel workflow
+        </button>
+        {review.mode === 'select' && (
+          <button onClick={() => submit('decline')} disabled={busy} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-xl transition-all disabled:opacity-50"
+            style={{ background: 'var(--fs-cream-200)', color: 'var(--fs-text-secondary)' }}>
+            <SkipForward size={12} /> Skip, keep all
+          </button>
+        )}
+        <button onClick={() => submit('accept')} disabled={busy || tooFew || tooMany}
+          className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium rounded-xl text-white transition-all disabled:opacity-50"
+          style={{ background: 'var(--fs-sage-600)' }}
+          onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-sage-700)' }}
+          onMouseLeave={(e) => { e.currentTarget.style.background = 'var(--fs-sage-600)' }}>
+          {busy ? <Loader size={14} className="animate-spin" /> : <Send size={14} />} Continue
+        </button>
+      </div>
+    </div>
+  )
+}
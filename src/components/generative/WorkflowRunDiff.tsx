@@ -0,0 +1,208 @@
+// components/generative/WorkflowRunDiff.tsx
+// What changed between a workflow re-run and the run it cloned: new and
+// removed results, metric changes (stars, forks...) and changed report sections
+'use client'
+
+import { z } from 'zod'
+import { useState, useEffect } from 'react'
+import { GitCompare, Plus, Minus, TrendingUp, TrendingDown, FileText, Loader, XCircle, ChevronDown, ChevronUp } from 'lucide-react'
+
+export const WorkflowRunDiffPropsSchema = z.preprocess(
+  (v) => v ?? {},
+  z.object({
+    workflowId: z.string().nullable().optional().default('').describe('ID of the newer run (a re-run)'),
+    againstId: z.string().nullable().optional().describe('ID of the run to compare with; defaults to the run it re-ran'),
+  })
+)
+
+type WorkflowRunDiffProps = z.infer<typeof WorkflowRunDiffPropsSchema>
+
+interface TextChange { before: string; after: string }
+interface MetricChange { field: string; before: number; after: number; delta: number }
+
+interface StepDiff {
+  stepIndex: number; type: string; title: string; missing?: 'before' | 'after'
+  added: string[]; removed: string[]; changed: { label: string; metrics: MetricChange[] }[]
+  unchanged: number; summary: TextChange | null
+}
+
+interface SectionDiff {
+  title: string; type: string; change: 'added' | 'removed' | 'changed'
+  text?: TextChange; added?: string[]; removed?: string[]
+}
+
+interface RunRef { id: string; title: string; status: string; createdAt: string; completedAt?: string | null }
+
+interface RunDiff {
+  previous: RunRef; current: RunRef; steps: StepDiff[]
+  report: { title: TextChange | null; summary: TextChange | null; sections: SectionDiff[] } | null
+  totals: { added: number; removed: number; changed: number; sections: number }
+}
+
+const ADDED = { bg: 'var(--fs-sage-50)', color: 'var(--fs-sage-700)' }
+const REMOVED = { bg: '#FEF2F2', color: '#B91C1C' }
+
+export function WorkflowRunDiff({ workflowId, againstId }: WorkflowRunDiffProps) {
+  const [diff, setDiff] = useState<RunDiff | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedStep, setExpandedStep] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (!workflowId) return
+    const query = againstId ? `?against=${encodeURIComponent(againstId)}` : ''
+    fetch(`/api/workflows/${workflowId}/diff${query}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to compare runs')
+        setDiff(data); setError(null)
+      })
+      .catch((err) => setError(err.message))
+  }, [workflowId, againstId])
+
+  if (error) {
+    return (
+      <div className="rounded-2xl p-4 flex items-center gap-2 text-sm" style={{ background: '#FEF2F2', border: '1px solid #FECACA', color: '#B91C1C' }}>
+        <XCircle size={16} /> {error}
+      </div>
+    )
+  }
+
+  if (!diff) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm" style={{ color: 'var(--fs-text-muted)' }}>
+        <Loader size={14} className="animate-spin" /> Comparing runs...
+      </div>
+    )
+  }
+
+  const changedSteps = diff.steps.filter((s) => s.missing || s.added.length || s.removed.length || s.changed.length || s.summary)
+  const nothingChanged = changedSteps.length === 0 && !diff.report?.summary && !diff.report?.sections.length
+
+  return (
+    <div className="rounded-2xl overflow-hidden fs-animate-in" style={{ background: 'var(--fs-cream-50)', border: '2px solid var(--fs-border-light)' }}>
+      {/* Header */}
+      <div className="px-6 py-4" style={{ background: 'var(--fs-cream-100)', borderBottom: '1px solid var(--fs-border-light)' }}>
+        <div className="flex items-center gap-2">
+          <GitCompare size={18} style={{ color: 'var(--fs-sage-600)' }} />
+          <h3 className="font-bold" style={{ color: 'var(--fs-text-primary)' }}>What changed: {diff.current.title}</h3>
+        </div>
+        <p className="text-xs mt-1" style={{ color: 'var(--fs-text-muted)' }}>
+          {formatDate(diff.previous.completedAt || diff.previous.createdAt)} → {formatDate(diff.current.completedAt || diff.current.createdAt)}
+        </p>
+        <div className="flex flex-wrap gap-2 mt-3">
+          <Tag style={ADDED}><Plus size={10} /> {diff.totals.added} new</Tag>
+          <Tag style={REMOVED}><Minus size={10} /> {diff.totals.removed} removed</Tag>
+          <Tag style={{ bg: 'var(--fs-cream-200)', color: 'var(--fs-text-secondary)' }}><TrendingUp size={10} /> {diff.totals.changed} changed</Tag>
+          {diff.report && <Tag style={{ bg: 'var(--fs-cream-200)', color: 'var(--fs-text-secondary)' }}><FileText size={10} /> {diff.totals.sections} report sections</Tag>}
+        </div>
+      </div>
+
+      {nothingChanged && (
+        <p className="px-6 py-4 text-sm" style={{ color: 'var(--fs-text-secondary)' }}>No differences between the two runs.</p>
+      )}
+
+      {/* Report */}
+      {diff.report && (diff.report.summary || diff.report.sections.length > 0) && (
+        <div className="px-6 py-4 space-y-3" style={{ borderBottom: '1px solid var(--fs-border-light)' }}>
+          <h4 className="text-xs font-semibold uppercase tracking-wider" style={{ color: 'var(--fs-text-muted)' }}>Report</h4>
+          {diff.report.summary && <TextDiff label="Summary" change={diff.report.summary} />}
+          {diff.report.sections.map((section) => (
+            <div key={`${section.change}:${section.title}`} className="space-y-1">
+              <p className="text-sm font-medium" style={{ color: 'var(--fs-text-primary)' }}>
+                {section.title} <span className="text-xs font-normal" style={{ color: section.change === 'removed' ? REMOVED.color : 'var(--fs-text-muted)' }}>({section.change})</span>
+              </p>
+              {section.text && <TextDiff change={section.text} />}
+              {section.added?.map((entry, i) => <Entry key={`a${i}`} kind="added" text={entry} />)}
+              {section.removed?.map((entry, i) => <Entry key={`r${i}`} kind="removed" text={entry} />)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Steps */}
+      {changedSteps.map((step, idx) => {
+        const isExpanded = expandedStep === step.stepIndex
+        return (
+          <div key={step.stepIndex} className="px-6 py-3" style={{ borderBottom: idx < changedSteps.length - 1 ? '1px solid var(--fs-border-light)' : 'none' }}>
+            <div className="flex items-center gap-3 cursor-pointer" onClick={() => setExpandedStep(isExpanded ? null : step.stepIndex)}>
+              <span className="text-sm font-semibold flex-1" style={{ color: 'var(--fs-text-primary)' }}>{step.stepIndex + 1}. {step.title}</span>
+              {step.missing ? (
+                <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>{step.missing === 'before' ? 'No output in the previous run' : 'No output in this run'}</span>
+              ) : (
+                <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>+{step.added.length} −{step.removed.length} ~{step.changed.length}</span>
+              )}
+              <span style={{ color: 'var(--fs-text-muted)' }}>{isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}</span>
+            </div>
+            {isExpanded && (
+              <div className="mt-2 space-y-1">
+                {step.summary && <TextDiff label="Summary" change={step.summary} />}
+                {step.changed.map((item, i) => (
+                  <div key={`c${i}`} className="flex flex-wrap items-center gap-2 text-xs px-2 py-1 rounded-lg" style={{ background: 'var(--fs-cream-100)' }}>
+                    <span className="font-medium" style={{ color: 'var(--fs-text-primary)' }}>{item.label}</span>
+                    {item.metrics.map((m) => (
+                      <span key={m.field} className="inline-flex items-center gap-1" style={{ color: m.delta > 0 ? ADDED.color : REMOVED.color }}>
+                        {m.delta > 0 ? <TrendingUp size={10} /> : <TrendingDown size={10} />}
+                        {m.field} {formatNumber(m.before)} → {formatNumber(m.after)} ({m.delta > 0 ? '+' : ''}{formatNumber(m.delta)})
+                      </span>
+                    ))}
+                  </div>
+                ))}
+                {step.added.map((label, i) => <Entry key={`a${i}`} kind="added" text={label} />)}
+                {step.removed.map((label, i) => <Entry key={`r${i}`} kind="removed" text={label} />)}
+                {step.unchanged > 0 && <p className="text-[10px]" style={{ color: 'var(--fs-text-muted)' }}>{step.unchanged} unchanged</p>}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function Tag({ style, children }: { style: { bg: string; color: string }; children: React.ReactNode }) {
+  return (
+    <span className="inline-flex items-center gap-1 text-[10px] font-semibold px-2 py-0.5 rounded-lg" style={{ background: style.bg, color: style.color }}>
+      {children}
+    </span>
+  )
+}
+
+function Entry({ kind, text }: { kind: 'added' | 'removed'; text: string }) {
+  const style = kind === 'added' ? ADDED : REMOVED
+  return (
+    <p className="flex items-start gap-1.5 text-xs px-2 py-1 rounded-lg" style={{ background: style.bg, color: style.color }}>
+      {kind === 'added' ? <Plus size={11} className="mt-0.5 shrink-0" /> : <Minus size={11} className="mt-0.5 shrink-0" />}
+      <span className="break-words">{text}</span>
+    </p>
+  )
+}
+
+function TextDiff({ label, change }: { label?: string; change: TextChange }) {
+  return (
+    <div className="grid grid-cols-2 gap-2 text-xs">
+      <div className="rounded-lg p-2" style={{ background: REMOVED.bg, color: REMOVED.color }}>
+        {label && <p className="font-semibold mb-0.5">{label} before</p>}
+        <p className="whitespace-pre-wrap">{change.before}</p>
+      </div>
+      <div className="rounded-lg p-2" style={{ background: ADDED.bg, color: ADDED.color }}>
+        {label && <p className="font-semibold mb-0.5">{label} now</p>}
+        <p className="whitespace-pre-wrap">{change.after}</p>
+      </div>
+    </div>
+  )
+}
+
+function formatNumber(n: number): string {
+  return Number.isInteger(n) ? n.toLocaleString() : n.toFixed(2)
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+export const workflowRunDiffComponent = {
+  name: 'WorkflowRunDiff',
+  description: 'Compares a re-run of a research workflow with the previous run: new and removed results, metric changes such as GitHub stars, and changed report conclusions. Render it with the workflowId of the newer run.',
+  component: WorkflowRunDiff,
+  propsSchema: WorkflowRunDiffPropsSchema,
+}
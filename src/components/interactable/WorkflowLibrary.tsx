@@ -6,7 +6,7 @@ import { withInteractable, useTamboComponentState } from '@tambo-ai/react'
 import { z } from 'zod'
 import {
   Zap, Trash2, RefreshCw, Play, Clock, CheckCircle2, XCircle, Loader,
-  FileText, BarChart3, Search, GitBranch, Image, ArrowRight, RotateCcw, Sparkles,
+  FileText, BarChart3, Search, GitBranch, Image, ArrowRight, RotateCcw, Sparkles, StopCircle, Pause, Pencil, Coins, CalendarClock, BookmarkPlus, LayoutTemplate, Upload, Download,
 } from 'lucide-react'
 import { useState, useEffect, useRef } from 'react'
 import { ConfirmDialog } from '@/components/dialog/ConfirmDialog'
@@ -19,14 +19,25 @@ export const WorkflowLibraryPropsSchema = z.object({
         title: z.string().nullable().default('').describe('Workflow title'),
         description: z.string().optional().describe('Brief description'),
         query: z.string().nullable().default('').describe('Original research query'),
-        status: z.string().nullable().default('pending').describe('pending | running | completed | failed'),
+        status: z.string().nullable().default('pending').describe('draft | pending | running | paused | awaiting_input | completed | failed | cancelled'),
         currentStep: z.number().nullable().default(0).describe('Current step index'),
+        activeSteps: z.array(z.number()).nullable().optional().describe('Indices of steps running in parallel'),
         totalSteps: z.number().nullable().default(0).describe('Total number of steps'),
         sources: z.array(z.string()).nullable().default([]).describe('Search sources used'),
         outputFormat: z.string().nullable().default('summary').describe('Report output format'),
+        promptVersion: z.string().optional().nullable().describe('Prompt version the run used (null = default)'),
         errorMessage: z.string().optional().nullable(),
         createdAt: z.string().nullable().default('').describe('ISO datetime'),
         completedAt: z.string().optional().nullable(),
+        cancelledAt: z.string().optional().nullable(),
+        pausedAt: z.string().optional().nullable(),
+        costUsd: z.number().optional().nullable().describe('Estimated LLM cost in USD'),
+        inputTokens: z.number().optional().nullable(),
+        outputTokens: z.number().optional().nullable(),
+        searchCalls: z.record(z.string(), z.number()).optional().nullable().describe('Search API calls by source'),
+        rerunOfId: z.string().optional().nullable().describe('Workflow this run re-ran, if any'),
+        scheduleId: z.string().optional().nullable().describe('Schedule that started this run, if any'),
+        budgetExceeded: z.object({ message: z.string() }).passthrough().optional().nullable().describe('Set when a budget cap stopped the run early'),
         report: z.object({ id: z.string().nullable().default(''), title: z.string().nullable().default('') }).optional().nullable(),
       })
     ).nullable().optional(),
@@ -46,12 +57,27 @@ const workflowTemplates = [
   { id: 'image-research', name: 'Visual Research', description: 'Find and organize images with analysis', icon: Image, prompt: 'Find high-quality images of {topic}, categorize them, and create a visual research summary.', defaultSources: ['google', 'pexels'], defaultFormat: 'summary' },
 ]
 
+/** Event streams open at once; browsers allow ~6 connections per host */
+const MAX_STREAMS = 3
+
 function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps) {
   const [workflows, setWorkflows] = useTamboComponentState('workflows', initialWorkflows || [], initialWorkflows || [])
   const [loading, setLoading] = useState(false)
   const hasLoadedRef = useRef(false)
   const isLoadingRef = useRef(false)
   const [confirmDialog, setConfirmDialog] = useState<{ isOpen: boolean; workflowId: string; workflowTitle: string } | null>(null)
+  const [usage, setUsage] = useState<UsageTotals | null>(null)
+  // Set when a progress stream is unavailable; the list polls instead
+  const [streamFailed, setStreamFailed] = useState(false)
+  const [schedules, setSchedules] = useState<Schedule[]>([])
+  const [expandedSchedule, setExpandedSchedule] = useState<string | null>(null)
+  const [schedulingId, setSchedulingId] = useState<string | null>(null)
+  const [scheduleToDelete, setScheduleToDelete] = useState<Schedule | null>(null)
+  const [savedTemplates, setSavedTemplates] = useState<SavedTemplate[]>([])
+  const [savedTemplateIds, setSavedTemplateIds] = useState<string[]>([])
+  const [importing, setImporting] = useState(false)
+  const [importResult, setImportResult] = useState<{ ok: boolean; message: string; errors?: string[] } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => { if (!hasLoadedRef.current && !isLoadingRef.current) loadWorkflows() }, [])
 
@@ -59,8 +85,10 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
     if (isLoadingRef.current) return
     try {
       isLoadingRef.current = true; setLoading(true)
-      const response = await fetch('/api/workflows')
-      if (response.ok) { const data = await response.json(); setWorkflows(data.workflows || []); hasLoadedRef.current = true }
+      const [response, schedulesResponse, templatesResponse] = await Promise.all([fetch('/api/workflows'), fetch('/api/workflows/schedules'), fetch('/api/workflows/templates')])
+      if (response.ok) { const data = await response.json(); setWorkflows(data.workflows || []); setUsage(data.usage || null); hasLoadedRef.current = true }
+      if (schedulesResponse.ok) { const data = await schedulesResponse.json(); setSchedules(data.schedules || []) }
+      if (templatesResponse.ok) { const data = await templatesResponse.json(); setSavedTemplates((data.templates || []).filter((t: SavedTemplate) => t.custom)) }
     } catch (error) { console.error('Failed to load workflows:', error) }
     finally { setLoading(false); isLoadingRef.current = false }
   }
@@ -76,14 +104,122 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
     try { await fetch(`/api/workflows/${workflowId}/cancel`, { method: 'POST' }); handleRefresh() } catch (error) { console.error('Cancel workflow error:', error) }
   }
 
+  const handlePauseWorkflow = async (workflowId: string) => {
+    try { await fetch(`/api/workflows/${workflowId}/pause`, { method: 'POST' }); handleRefresh() } catch (error) { console.error('Pause workflow error:', error) }
+  }
+
+  const handleResumeWorkflow = async (workflowId: string) => {
+    try { await fetch(`/api/workflows/${workflowId}/resume`, { method: 'POST' }); handleRefresh() } catch (error) { console.error('Resume workflow error:', error) }
+  }
+
+  const handleStartWorkflow = async (workflowId: string) => {
+    try {
+      const response = await fetch(`/api/workflows/${workflowId}/start`, { method: 'POST' })
+      if (!response.ok) { const data = await response.json(); console.error('Start workflow error:', data.error, data.errors || []) }
+      handleRefresh()
+    } catch (error) { console.error('Start workflow error:', error) }
+  }
+
+  const handleRerunWorkflow = async (workflowId: string) => {
+    try { await fetch(`/api/workflows/${workflowId}/rerun`, { method: 'POST' }); handleRefresh() } catch (error) { console.error('Re-run workflow error:', error) }
+  }
+
+  const handleScheduleWorkflow = async (workflowId: string, frequency: 'daily' | 'weekly' | 'monthly') => {
+    setSchedulingId(null)
+    try {
+      const response = await fetch('/api/workflows/schedules', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ workflowId, schedule: { frequency } }) })
+      if (!response.ok) { const data = await response.json(); console.error('Schedule workflow error:', data.error) }
+      handleRefresh()
+    } catch (error) { console.error('Schedule workflow error:', error) }
+  }
+
+  const handleToggleSchedule = async (schedule: Schedule) => {
+    try {
+      const response = await fetch(`/api/workflows/schedules/${schedule.id}`, { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ enabled: !schedule.enabled }) })
+      if (response.ok) { const data = await response.json(); setSchedules(schedules.map((s) => (s.id === schedule.id ? data.schedule : s))) }
+    } catch (error) { console.error('Update schedule error:', error) }
+  }
+
+  const handleRunScheduleNow = async (scheduleId: string) => {
+    try {
+      const response = await fetch(`/api/workflows/schedules/${scheduleId}/run`, { method: 'POST' })
+      if (!response.ok) { const data = await response.json(); console.error('Run schedule error:', data.error) }
+      handleRefresh()
+    } catch (error) { console.error('Run schedule error:', error) }
+  }
+
+  const handleDeleteSchedule = async (scheduleId: string) => {
+    try { const response = await fetch(`/api/workflows/schedules/${scheduleId}`, { method: 'DELETE' }); if (response.ok) setSchedules(schedules.filter((s) => s.id !== scheduleId)) }
+    catch (error) { console.error('Delete schedule error:', error) }
+  }
+
+  const handleSaveAsTemplate = async (workflowId: string) => {
+    try {
+      const response = await fetch('/api/workflows/templates', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ workflowId }) })
+      const data = await response.json()
+      if (!response.ok) { console.error('Save template error:', data.error); return }
+      setSavedTemplates([data.template, ...savedTemplates]); setSavedTemplateIds([...savedTemplateIds, workflowId])
+    } catch (error) { console.error('Save template error:', error) }
+  }
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    try { const response = await fetch(`/api/workflows/templates/${templateId}`, { method: 'DELETE' }); if (response.ok) setSavedTemplates(savedTemplates.filter((t) => t.id !== templateId)) }
+    catch (error) { console.error('Delete template error:', error) }
+  }
+
+  const handleImportFile = async (file: File) => {
+    setImporting(true); setImportResult(null)
+    try {
+      const response = await fetch('/api/workflows/import', { method: 'POST', headers: { 'Content-Type': /\.ya?ml$/i.test(file.name) ? 'application/yaml' : 'text/plain' }, body: await file.text() })
+      const data = await response.json()
+      if (!response.ok) { setImportResult({ ok: false, message: data.error || 'Import failed', errors: data.errors }); return }
+      setImportResult({ ok: true, message: data.message }); handleRefresh()
+    } catch (error) { console.error('Import workflow error:', error); setImportResult({ ok: false, message: 'Import failed' }) }
+    finally { setImporting(false); if (importInputRef.current) importInputRef.current.value = '' }
+  }
+
   const handleRetryWorkflow = async (workflowId: string) => {
     try { await fetch(`/api/workflows/${workflowId}/retry`, { method: 'POST' }); handleRefresh() } catch (error) { console.error('Retry workflow error:', error) }
   }
 
   const safeWorkflows = workflows ?? []
-  const activeWorkflows = safeWorkflows.filter((w) => w.status === 'running' || w.status === 'pending')
+  const draftWorkflows = safeWorkflows.filter((w) => w.status === 'draft')
+  const activeWorkflows = safeWorkflows.filter((w) => w.status === 'running' || w.status === 'pending' || w.status === 'paused' || w.status === 'awaiting_input')
   const completedWorkflows = safeWorkflows.filter((w) => w.status === 'completed')
   const failedWorkflows = safeWorkflows.filter((w) => w.status === 'failed')
+  const cancelledWorkflows = safeWorkflows.filter((w) => w.status === 'cancelled')
+
+  // Follow running workflows over their event streams, reloading the list
+  // when a status or step changes. Each stream holds a connection open, so
+  // only a few are streamed; the rest of the active list (queued, paused,
+  // awaiting input, running beyond the cap) is polled instead.
+  const streamable = streamFailed || typeof EventSource === 'undefined' ? [] : activeWorkflows.filter((w) => w.status === 'running' && w.id).slice(0, MAX_STREAMS)
+  const streamedIds = streamable.map((w) => w.id).join(',')
+  const pollsOthers = activeWorkflows.length > streamable.length
+  useEffect(() => {
+    if (!pollsOthers) return
+    const interval = setInterval(loadWorkflows, streamable.length > 0 ? 10000 : 5000)
+    return () => clearInterval(interval)
+  }, [pollsOthers, streamable.length])
+
+  useEffect(() => {
+    if (!streamedIds) return
+
+    let reloadTimer: ReturnType<typeof setTimeout> | null = null
+    const reload = () => { if (reloadTimer) clearTimeout(reloadTimer); reloadTimer = setTimeout(loadWorkflows, 500) }
+    const sources = streamedIds.split(',').map((id) => {
+      const source = new EventSource(`/api/workflows/${id}/events?after=latest`)
+      let errors = 0
+      const onEvent = () => { errors = 0; reload() }
+      ;['workflow.status', 'step.completed', 'step.failed', 'step.skipped', 'report.ready', 'report.failed'].forEach((type) => source.addEventListener(type, onEvent))
+      source.addEventListener('end', () => { source.close(); reload() })
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED || ++errors >= 3) { source.close(); setStreamFailed(true) }
+      }
+      return source
+    })
+    return () => { sources.forEach((source) => source.close()); if (reloadTimer) clearTimeout(reloadTimer) }
+  }, [streamedIds])
 
   if (loading && safeWorkflows.length === 0) {
     return (
@@ -104,9 +240,23 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
           <div>
             <h2 className="text-2xl font-bold tracking-tight" style={{ color: 'var(--fs-text-primary)', fontFamily: "'Fraunces', serif" }}>Research Workflows</h2>
             <p className="text-sm mt-1" style={{ color: 'var(--fs-text-muted)' }}>Automate multi-step research with AI</p>
+            {usage && usage.workflows > 0 && (
+              <p className="text-xs mt-1 flex items-center gap-1" style={{ color: 'var(--fs-text-muted)' }}>
+                <Coins size={11} /> {formatCost(usage.costUsd)} est. · {formatTokens(usage.inputTokens + usage.outputTokens)} tokens · {countSearches(usage.searchCalls)} searches across {usage.workflows} workflows
+              </p>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <EditWithTamboButton tooltip="Manage workflows with AI" description="Start new workflows, check status, or manage existing ones using natural language" />
+            <input ref={importInputRef} type="file" accept=".json,.yaml,.yml,application/json,application/yaml" className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) handleImportFile(file) }} />
+            <button onClick={() => importInputRef.current?.click()} disabled={importing} title="Import a workflow or template (JSON or YAML)"
+              className="flex items-center gap-1.5 text-xs font-medium px-2.5 py-2 rounded-xl transition-all disabled:opacity-50"
+              style={{ color: 'var(--fs-text-secondary)', transitionDuration: 'var(--fs-duration-fast)' }}
+              onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-cream-200)' }}
+              onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent' }}>
+              {importing ? <Loader size={14} className="animate-spin" /> : <Upload size={14} strokeWidth={1.8} />} Import
+            </button>
             <button onClick={handleRefresh} disabled={loading}
               className="p-2 rounded-xl transition-all disabled:opacity-50"
               style={{ transitionDuration: 'var(--fs-duration-fast)' }}
@@ -117,6 +267,61 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
           </div>
         </div>
 
+        {importResult && (
+          <div className="rounded-2xl px-4 py-3 text-sm flex items-start gap-2 fs-animate-in"
+            style={importResult.ok ? { background: 'var(--fs-sage-50)', color: 'var(--fs-sage-700)', border: '1px solid var(--fs-sage-200)' } : { background: '#FEF2F2', color: '#B91C1C', border: '1px solid #FECACA' }}>
+            {importResult.ok ? <CheckCircle2 size={16} className="mt-0.5 shrink-0" /> : <XCircle size={16} className="mt-0.5 shrink-0" />}
+            <div className="flex-1 min-w-0">
+              <p>{importResult.message}</p>
+              {importResult.errors?.map((error, i) => <p key={i} className="text-xs mt-1 break-words">{error}</p>)}
+            </div>
+            <button onClick={() => setImportResult(null)} className="text-xs font-medium opacity-70 hover:opacity-100">Dismiss</button>
+          </div>
+        )}
+
+        {/* ── Drafts ── */}
+        {draftWorkflows.length > 0 && (
+          <div className="fs-animate-in">
+            <SectionHeader icon={Pencil} label={`Drafts (${draftWorkflows.length})`} iconColor="var(--fs-sage-600)" />
+            <div className="space-y-3">
+              {draftWorkflows.map((workflow, idx) => (
+                <div key={workflow.id || idx} className="rounded-2xl p-4" style={{ background: 'var(--fs-cream-50)', border: '1px dashed var(--fs-sage-300)' }}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                      <div className="w-8 h-8 rounded-xl flex items-center justify-center shrink-0" style={{ background: 'var(--fs-sage-50)' }}>
+                        <Pencil size={15} style={{ color: 'var(--fs-sage-600)' }} />
+                      </div>
+                      <div className="min-w-0">
+                        <h4 className="font-semibold text-sm truncate" style={{ color: 'var(--fs-text-primary)' }}>{workflow.title || 'Untitled'}</h4>
+                        <p className="text-xs truncate mt-0.5" style={{ color: 'var(--fs-text-muted)' }}>
+                          Draft plan with {workflow.totalSteps || 0} steps — not started
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => handleStartWorkflow(workflow.id || '')}
+                        className="flex items-center gap-1 text-xs font-medium px-2.5 py-1.5 rounded-xl transition-all"
+                        style={{ background: 'var(--fs-sage-50)', color: 'var(--fs-sage-700)', transitionDuration: 'var(--fs-duration-fast)' }}
+                        onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-sage-100)' }}
+                        onMouseLeave={(e) => { e.currentTarget.style.background = 'var(--fs-sage-50)' }}>
+                        <Play size={11} /> Start
+                      </button>
+                      <SaveTemplateButton saved={savedTemplateIds.includes(workflow.id || '')} onClick={() => handleSaveAsTemplate(workflow.id || '')} />
+                      <ExportLink href={`/api/workflows/${workflow.id}/export?format=yaml`} />
+                      <button onClick={() => setConfirmDialog({ isOpen: true, workflowId: workflow.id || '', workflowTitle: workflow.title || '' })}
+                        className="p-1 rounded-lg transition-all"
+                        onMouseEnter={(e) => { e.currentTarget.style.background = '#FEF2F2' }}
+                        onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent' }}>
+                        <Trash2 size={14} style={{ color: '#DC2626' }} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* ── Active Workflows ── */}
         {activeWorkflows.length > 0 && (
           <div className="fs-animate-in">
@@ -136,11 +341,24 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
                           </div>
                           <div>
                             <h4 className="font-semibold text-sm" style={{ color: 'var(--fs-text-primary)' }}>{workflow.title || 'Untitled'}</h4>
-                            <p className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>Step {(workflow.currentStep || 0) + 1} of {workflow.totalSteps || 0}</p>
+                            <p className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>
+                              {workflow.status === 'paused' ? `Paused at step ${(workflow.currentStep || 0) + 1} of ${workflow.totalSteps || 0}` : workflow.status === 'awaiting_input' ? `Waiting for your review at step ${(workflow.currentStep || 0) + 1}` : (workflow.activeSteps?.length || 0) > 1
+                                ? `Steps ${workflow.activeSteps!.map((i) => i + 1).join(', ')} of ${workflow.totalSteps || 0} in parallel`
+                                : `Step ${(workflow.currentStep || 0) + 1} of ${workflow.totalSteps || 0}`}
+                            </p>
                           </div>
                         </div>
-                        <button onClick={() => handleCancelWorkflow(workflow.id || '')} className="text-xs font-medium transition-colors" style={{ color: '#DC2626' }}
-                          onMouseEnter={(e) => { e.currentTarget.style.color = '#B91C1C' }} onMouseLeave={(e) => { e.currentTarget.style.color = '#DC2626' }}>Cancel</button>
+                        <div className="flex items-center gap-3">
+                          {workflow.status === 'paused' ? (
+                            <button onClick={() => handleResumeWorkflow(workflow.id || '')} className="flex items-center gap-1 text-xs font-medium transition-colors" style={{ color: 'var(--fs-sage-600)' }}
+                              onMouseEnter={(e) => { e.currentTarget.style.color = 'var(--fs-sage-800)' }} onMouseLeave={(e) => { e.currentTarget.style.color = 'var(--fs-sage-600)' }}><Play size={11} /> Resume</button>
+                          ) : workflow.status === 'running' && (
+                            <button onClick={() => handlePauseWorkflow(workflow.id || '')} className="flex items-center gap-1 text-xs font-medium transition-colors" style={{ color: 'var(--fs-text-secondary)' }}
+                              onMouseEnter={(e) => { e.currentTarget.style.color = 'var(--fs-text-primary)' }} onMouseLeave={(e) => { e.currentTarget.style.color = 'var(--fs-text-secondary)' }}><Pause size={11} /> Pause</button>
+                          )}
+                          <button onClick={() => handleCancelWorkflow(workflow.id || '')} className="text-xs font-medium transition-colors" style={{ color: '#DC2626' }}
+                            onMouseEnter={(e) => { e.currentTarget.style.color = '#B91C1C' }} onMouseLeave={(e) => { e.currentTarget.style.color = '#DC2626' }}>Cancel</button>
+                        </div>
                       </div>
                       <div className="w-full h-1.5 rounded-full" style={{ background: 'var(--fs-cream-300)' }}>
                         <div className="h-1.5 rounded-full transition-all" style={{ width: `${progress}%`, background: 'var(--fs-sage-500)', transitionDuration: '500ms' }} />
@@ -154,6 +372,86 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
           </div>
         )}
 
+        {/* ── Scheduled ── */}
+        {schedules.length > 0 && (
+          <div className="fs-animate-in">
+            <SectionHeader icon={CalendarClock} label={`Scheduled (${schedules.length})`} />
+            <div className="space-y-3">
+              {schedules.map((schedule) => {
+                const isExpanded = expandedSchedule === schedule.id
+                const running = schedule.runs.some((run) => ['pending', 'running', 'paused', 'awaiting_input'].includes(run.status))
+                return (
+                  <div key={schedule.id} className="rounded-2xl p-4 transition-all group"
+                    style={{ background: 'var(--fs-cream-50)', border: `1px solid ${schedule.enabled ? 'var(--fs-sage-200)' : 'var(--fs-border-light)'}`, opacity: schedule.enabled ? 1 : 0.75 }}>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3 flex-1 min-w-0 cursor-pointer" onClick={() => setExpandedSchedule(isExpanded ? null : schedule.id)}>
+                        <div className="w-8 h-8 rounded-xl flex items-center justify-center shrink-0" style={{ background: schedule.enabled ? 'var(--fs-sage-100)' : 'var(--fs-cream-200)' }}>
+                          <CalendarClock size={15} style={{ color: schedule.enabled ? 'var(--fs-sage-600)' : 'var(--fs-text-muted)' }} />
+                        </div>
+                        <div className="min-w-0">
+                          <h4 className="font-semibold text-sm truncate" style={{ color: 'var(--fs-text-primary)' }}>{schedule.name}</h4>
+                          <div className="flex items-center gap-2 mt-0.5">
+                            <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>{schedule.description}</span>
+                            <span style={{ color: 'var(--fs-border-light)' }}>·</span>
+                            <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>
+                              {running ? 'Running now' : schedule.enabled && schedule.nextRunAt ? `Next ${new Date(schedule.nextRunAt).toLocaleString()}` : 'Paused'}
+                            </span>
+                            {schedule.runs.length > 0 && (
+                              <>
+                                <span style={{ color: 'var(--fs-border-light)' }}>·</span>
+                                <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>{schedule.runs.length === 10 ? '10+' : schedule.runs.length} runs</span>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => handleRunScheduleNow(schedule.id)} disabled={running} title="Run now"
+                          className="flex items-center gap-1 text-xs font-medium px-2.5 py-1.5 rounded-xl transition-all disabled:opacity-50"
+                          style={{ background: 'var(--fs-sage-50)', color: 'var(--fs-sage-700)', transitionDuration: 'var(--fs-duration-fast)' }}
+                          onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-sage-100)' }}
+                          onMouseLeave={(e) => { e.currentTarget.style.background = 'var(--fs-sage-50)' }}>
+                          <Play size={11} /> Run now
+                        </button>
+                        <button onClick={() => handleToggleSchedule(schedule)} className="flex items-center gap-1 text-xs font-medium transition-colors" style={{ color: 'var(--fs-text-secondary)' }}
+                          onMouseEnter={(e) => { e.currentTarget.style.color = 'var(--fs-text-primary)' }} onMouseLeave={(e) => { e.currentTarget.style.color = 'var(--fs-text-secondary)' }}>
+                          {schedule.enabled ? <><Pause size={11} /> Pause</> : <><Play size={11} /> Resume</>}
+                        </button>
+                        <button onClick={() => setScheduleToDelete(schedule)}
+                          className="p-1 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
+                          style={{ transitionDuration: 'var(--fs-duration-fast)' }}
+                          onMouseEnter={(e) => { e.currentTarget.style.background = '#FEF2F2' }}
+                          onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent' }}>
+                          <Trash2 size={14} style={{ color: '#DC2626' }} />
+                        </button>
+                      </div>
+                    </div>
+                    {isExpanded && (
+                      <div className="mt-3 pt-3 space-y-1.5" style={{ borderTop: '1px solid var(--fs-border-light)' }}>
+                        {schedule.runs.length === 0 && <p className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>No runs yet</p>}
+                        {schedule.runs.map((run) => (
+                          <div key={run.id} className="flex items-center gap-2 text-xs">
+                            {run.status === 'completed' ? <CheckCircle2 size={12} style={{ color: 'var(--fs-sage-600)' }} />
+                              : run.status === 'failed' ? <XCircle size={12} style={{ color: '#DC2626' }} />
+                              : run.status === 'cancelled' ? <StopCircle size={12} style={{ color: 'var(--fs-text-muted)' }} />
+                              : <Loader size={12} className="animate-spin" style={{ color: 'var(--fs-sage-500)' }} />}
+                            <span style={{ color: 'var(--fs-text-secondary)' }}>{new Date(run.createdAt).toLocaleString()}</span>
+                            {run.report ? (
+                              <span className="flex items-center gap-1 truncate" style={{ color: 'var(--fs-sage-600)' }}><FileText size={10} /> {run.report.title}</span>
+                            ) : (
+                              <span style={{ color: 'var(--fs-text-muted)' }}>{run.status}</span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
         {/* ── Templates ── */}
         <div className="fs-animate-in" style={{ animationDelay: '50ms' }}>
           <SectionHeader icon={Sparkles} label="Quick Start Templates" />
@@ -190,6 +488,38 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
               )
             })}
           </div>
+          {savedTemplates.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <h4 className="text-xs font-semibold" style={{ color: 'var(--fs-text-muted)' }}>Your templates ({savedTemplates.length})</h4>
+              {savedTemplates.map((template) => (
+                <div key={template.id} className="rounded-2xl px-4 py-3 flex items-center gap-3 group" style={{ background: 'var(--fs-cream-50)', border: '1px solid var(--fs-border-light)' }}>
+                  <div className="w-8 h-8 rounded-xl flex items-center justify-center shrink-0" style={{ background: 'var(--fs-sage-50)' }}>
+                    <LayoutTemplate size={15} style={{ color: 'var(--fs-sage-600)' }} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-semibold text-sm truncate" style={{ color: 'var(--fs-text-primary)' }}>{template.name}</h4>
+                    <p className="text-xs truncate mt-0.5" style={{ color: 'var(--fs-text-muted)' }}>
+                      {template.totalSteps} steps{template.parameters.length > 0 && <> · {template.parameters.map((p) => `{{${p.name}}}`).join(' ')}</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    {template.defaultSources.map((source) => (
+                      <span key={source} className="text-[10px] font-semibold uppercase tracking-wider px-1.5 py-0.5 rounded-lg"
+                        style={{ background: 'var(--fs-cream-200)', color: 'var(--fs-text-muted)' }}>{source}</span>
+                    ))}
+                  </div>
+                  <ExportLink hover href={`/api/workflows/templates/${template.id}/export?format=yaml`} />
+                  <button onClick={() => handleDeleteTemplate(template.id)}
+                    className="p-1 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
+                    style={{ transitionDuration: 'var(--fs-duration-fast)' }}
+                    onMouseEnter={(e) => { e.currentTarget.style.background = '#FEF2F2' }}
+                    onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent' }}>
+                    <Trash2 size={14} style={{ color: '#DC2626' }} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* ── Completed ── */}
@@ -213,6 +543,30 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
                           <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>{workflow.totalSteps || 0} steps</span>
                           <span style={{ color: 'var(--fs-border-light)' }}>·</span>
                           <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }}>{new Date(workflow.createdAt || '').toLocaleDateString()}</span>
+                          <WorkflowUsage workflow={workflow} />
+                          {workflow.scheduleId ? (
+                            <>
+                              <span style={{ color: 'var(--fs-border-light)' }}>·</span>
+                              <span className="text-xs flex items-center gap-1" style={{ color: 'var(--fs-text-muted)' }} title="Started by a schedule"><CalendarClock size={10} /> Scheduled</span>
+                            </>
+                          ) : workflow.rerunOfId && (
+                            <>
+                              <span style={{ color: 'var(--fs-border-light)' }}>·</span>
+                              <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }} title="Ask to compare it with the previous run">Re-run</span>
+                            </>
+                          )}
+                          {workflow.budgetExceeded && (
+                            <>
+                              <span style={{ color: 'var(--fs-border-light)' }}>·</span>
+                              <span className="text-xs" style={{ color: '#B45309' }} title={workflow.budgetExceeded.message}>Stopped early</span>
+                            </>
+                          )}
+                          {workflow.promptVersion && (
+                            <>
+                              <span style={{ color: 'var(--fs-border-light)' }}>·</span>
+                              <span className="text-xs" style={{ color: 'var(--fs-text-muted)' }} title="Prompt version this run used">Prompts {workflow.promptVersion}</span>
+                            </>
+                          )}
                           {workflow.report && (
                             <>
                               <span style={{ color: 'var(--fs-border-light)' }}>·</span>
@@ -231,6 +585,38 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
                             style={{ background: 'var(--fs-cream-200)', color: 'var(--fs-text-muted)' }}>{source}</span>
                         ))}
                       </div>
+                      <button onClick={() => handleRerunWorkflow(workflow.id || '')} title="Run again and compare with this run"
+                        className="p-1 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
+                        style={{ transitionDuration: 'var(--fs-duration-fast)' }}
+                        onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-sage-50)' }}
+                        onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent' }}>
+                        <RotateCcw size={14} style={{ color: 'var(--fs-sage-600)' }} />
+                      </button>
+                      {!workflow.scheduleId && (
+                        <div className="relative">
+                          <button onClick={() => setSchedulingId(schedulingId === workflow.id ? null : workflow.id || null)} title="Run this automatically"
+                            className={`p-1 rounded-lg ${schedulingId === workflow.id ? '' : 'opacity-0'} group-hover:opacity-100 transition-all`}
+                            style={{ transitionDuration: 'var(--fs-duration-fast)' }}
+                            onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-sage-50)' }}
+                            onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent' }}>
+                            <CalendarClock size={14} style={{ color: 'var(--fs-sage-600)' }} />
+                          </button>
+                          {schedulingId === workflow.id && (
+                            <div className="absolute right-0 top-full mt-1 z-10 rounded-xl py-1 min-w-[120px]" style={{ background: 'var(--fs-cream-50)', border: '1px solid var(--fs-border-light)', boxShadow: 'var(--fs-shadow-md)' }}>
+                              {(['daily', 'weekly', 'monthly'] as const).map((frequency) => (
+                                <button key={frequency} onClick={() => handleScheduleWorkflow(workflow.id || '', frequency)}
+                                  className="block w-full text-left text-xs px-3 py-1.5 capitalize transition-colors" style={{ color: 'var(--fs-text-secondary)' }}
+                                  onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-sage-50)' }}
+                                  onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent' }}>
+                                  {frequency}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      <SaveTemplateButton hover saved={savedTemplateIds.includes(workflow.id || '')} onClick={() => handleSaveAsTemplate(workflow.id || '')} />
+                      <ExportLink hover href={`/api/workflows/${workflow.id}/export?format=yaml`} />
                       <button onClick={() => setConfirmDialog({ isOpen: true, workflowId: workflow.id || '', workflowTitle: workflow.title || '' })}
                         className="p-1 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
                         style={{ transitionDuration: 'var(--fs-duration-fast)' }}
@@ -261,6 +647,7 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
                       <div className="min-w-0">
                         <h4 className="font-semibold text-sm truncate" style={{ color: 'var(--fs-text-primary)' }}>{workflow.title || 'Untitled'}</h4>
                         <p className="text-xs truncate mt-0.5" style={{ color: '#DC2626' }}>{workflow.errorMessage || 'Execution failed'}</p>
+                        <div className="flex items-center gap-2 mt-0.5"><WorkflowUsage workflow={workflow} first /></div>
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
@@ -285,6 +672,47 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
           </div>
         )}
 
+        {/* ── Cancelled ── */}
+        {cancelledWorkflows.length > 0 && (
+          <div className="fs-animate-in" style={{ animationDelay: '200ms' }}>
+            <SectionHeader icon={StopCircle} label={`Cancelled (${cancelledWorkflows.length})`} iconColor="var(--fs-text-muted)" />
+            <div className="space-y-3">
+              {cancelledWorkflows.map((workflow, idx) => (
+                <div key={workflow.id || idx} className="rounded-2xl p-4" style={{ background: 'var(--fs-cream-50)', border: '1px solid var(--fs-border-light)' }}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                      <div className="w-8 h-8 rounded-xl flex items-center justify-center shrink-0" style={{ background: 'var(--fs-cream-200)' }}>
+                        <StopCircle size={15} style={{ color: 'var(--fs-text-secondary)' }} />
+                      </div>
+                      <div className="min-w-0">
+                        <h4 className="font-semibold text-sm truncate" style={{ color: 'var(--fs-text-primary)' }}>{workflow.title || 'Untitled'}</h4>
+                        <p className="text-xs truncate mt-0.5" style={{ color: 'var(--fs-text-muted)' }}>
+                          Cancelled{workflow.cancelledAt ? ` on ${new Date(workflow.cancelledAt).toLocaleDateString()}` : ''}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => handleRetryWorkflow(workflow.id || '')}
+                        className="flex items-center gap-1 text-xs font-medium px-2.5 py-1.5 rounded-xl transition-all"
+                        style={{ background: 'var(--fs-sage-50)', color: 'var(--fs-sage-700)', transitionDuration: 'var(--fs-duration-fast)' }}
+                        onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-sage-100)' }}
+                        onMouseLeave={(e) => { e.currentTarget.style.background = 'var(--fs-sage-50)' }}>
+                        <RotateCcw size={11} /> Resume
+                      </button>
+                      <button onClick={() => setConfirmDialog({ isOpen: true, workflowId: workflow.id || '', workflowTitle: workflow.title || '' })}
+                        className="p-1 rounded-lg transition-all"
+                        onMouseEnter={(e) => { e.currentTarget.style.background = '#FEF2F2' }}
+                        onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent' }}>
+                        <Trash2 size={14} style={{ color: '#DC2626' }} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* ── Empty ── */}
         {safeWorkflows.length === 0 && !loading && (
           <div className="flex items-center justify-center py-12 fs-animate-in">
@@ -321,11 +749,82 @@ function WorkflowLibrary({ workflows: initialWorkflows }: WorkflowLibraryProps)
           title="Delete Workflow" message={`Are you sure you want to delete "${confirmDialog.workflowTitle}"? This will remove all execution data and any linked reports. This action cannot be undone.`}
           confirmText="Delete" confirmStyle="danger" />
       )}
+      {scheduleToDelete && (
+        <ConfirmDialog isOpen onClose={() => setScheduleToDelete(null)} onConfirm={() => handleDeleteSchedule(scheduleToDelete.id)}
+          title="Delete Schedule" message={`Stop running "${scheduleToDelete.name}" automatically? Past runs and their reports are kept.`}
+          confirmText="Delete" confirmStyle="danger" />
+      )}
     </>
   )
 }
 
 /* ── Shared ── */
+type Schedule = {
+  id: string; name: string; cron: string; description: string; enabled: boolean
+  nextRunAt: string | null; lastRunAt: string | null; title: string; totalSteps: number
+  runs: { id: string; status: string; createdAt: string; completedAt: string | null; report: { id: string; title: string } | null }[]
+}
+
+type SavedTemplate = {
+  id: string; name: string; description: string | null; custom: boolean; totalSteps: number
+  parameters: { name: string; default: string | number | null }[]; defaultSources: string[]; defaultFormat: string
+}
+
+type UsageTotals = { llmCalls: number; inputTokens: number; outputTokens: number; costUsd: number; searchCalls: Record<string, number>; workflows: number }
+
+function formatCost(usd: number) {
+  return usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`
+}
+
+function formatTokens(tokens: number) {
+  return tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+}
+
+function countSearches(searchCalls?: Record<string, number> | null) {
+  return Object.values(searchCalls || {}).reduce((sum, n) => sum + n, 0)
+}
+
+/** "· $0.04 · 12.3k tokens · 3 searches" for one workflow; nothing before it ran */
+function WorkflowUsage({ workflow, first }: { workflow: NonNullable<WorkflowLibraryProps['workflows']>[number]; first?: boolean }) {
+  const tokens = (workflow.inputTokens || 0) + (workflow.outputTokens || 0)
+  const searches = countSearches(workflow.searchCalls)
+  if (!tokens && !searches) return null
+  const searchBreakdown = Object.entries(workflow.searchCalls || {}).map(([source, n]) => `${source}: ${n}`).join(', ')
+  return (
+    <>
+      {!first && <span style={{ color: 'var(--fs-border-light)' }}>·</span>}
+      <span className="text-xs flex items-center gap-1" style={{ color: 'var(--fs-text-muted)' }} title={searchBreakdown ? `Search calls — ${searchBreakdown}` : undefined}>
+        <Coins size={10} /> {formatCost(workflow.costUsd || 0)} · {formatTokens(tokens)} tokens{searches > 0 ? ` · ${searches} searches` : ''}
+      </span>
+    </>
+  )
+}
+
+function SaveTemplateButton({ saved, hover, onClick }: { saved: boolean; hover?: boolean; onClick: () => void }) {
+  return (
+    <button onClick={onClick} disabled={saved} title={saved ? 'Saved as a template' : 'Save as a reusable template'}
+      className={`p-1 rounded-lg ${hover && !saved ? 'opacity-0' : ''} group-hover:opacity-100 transition-all disabled:cursor-default`}
+      style={{ transitionDuration: 'var(--fs-duration-fast)' }}
+      onMouseEnter={(e) => { if (!saved) e.currentTarget.style.background = 'var(--fs-sage-50)' }}
+      onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent' }}>
+      {saved ? <CheckCircle2 size={14} style={{ color: 'var(--fs-sage-500)' }} /> : <BookmarkPlus size={14} style={{ color: 'var(--fs-sage-600)' }} />}
+    </button>
+  )
+}
+
+/** Downloads the definition as YAML for POST /api/workflows/import */
+function ExportLink({ href, hover }: { href: string; hover?: boolean }) {
+  return (
+    <a href={href} download title="Export as YAML"
+      className={`p-1 rounded-lg ${hover ? 'opacity-0' : ''} group-hover:opacity-100 transition-all`}
+      style={{ transitionDuration: 'var(--fs-duration-fast)' }}
+      onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--fs-cream-200)' }}
+      onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent' }}>
+      <Download size={14} style={{ color: 'var(--fs-text-muted)' }} />
+    </a>
+  )
+}
+
 function SectionHeader({ icon: Icon, label, iconClass, iconColor }: { icon: any; label: string; iconClass?: string; iconColor?: string }) {
   return (
     <h3 className="text-xs font-semibold uppercase tracking-wider mb-3 flex items-center gap-2"
@@ -8,13 +8,13 @@ import {
 import * as React from "react";
 import { useId, useMemo, useState } from "react";
 
-type FieldSchema =
+export type FieldSchema =
   TamboElicitationRequest["requestedSchema"]["properties"][string];
 
 /**
  * Props for individual field components
  */
-interface FieldProps {
+export interface FieldProps {
   name: string;
   schema: FieldSchema;
   value: unknown;
@@ -260,7 +260,7 @@ const NumberField: React.FC<FieldProps> = ({
 /**
  * Generic field component that renders the appropriate input based on schema type
  */
-const Field: React.FC<FieldProps> = (props) => {
+export const Field: React.FC<FieldProps> = (props) => {
   const { schema } = props;
 
   if (schema.type === "boolean") {
@@ -420,7 +420,7 @@ function validateField(
 }
 
 // Backwards-compatible helpers that delegate to the unified validator
-function getValidationError(
+export function getValidationError(
   value: unknown,
   schema: FieldSchema,
   required: boolean,
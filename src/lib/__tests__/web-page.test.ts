@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchPage, isPrivateAddress } from "@/lib/apis/web-page";
+
+function htmlResponse(html: BodyInit, init: ResponseInit = {}) {
+  return new Response(html, {
+    status: 200,
+    headers: { "content-type": "text/html; charset=utf-8" },
+    ...init,
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("isPrivateAddress", () => {
+  it("flags loopback, private and link-local IPv4 addresses", () => {
+    const internal = ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254"];
+    for (const ip of [...internal, "0.0.0.0"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+    expect(isPrivateAddress("172.32.0.1")).toBe(false);
+  });
+
+  it("flags loopback, unique-local, link-local and mapped IPv6 addresses", () => {
+    const internal = ["::1", "::", "fc00::1", "fd12:3456::1", "fe80::1"];
+    const mapped = ["::ffff:127.0.0.1", "::ffff:7f00:1", "::ffff:a9fe:a9fe"];
+    for (const ip of [...internal, ...mapped]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+    expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+    expect(isPrivateAddress("::ffff:93.184.216.34")).toBe(false);
+  });
+});
+
+describe("fetchPage", () => {
+  it("refuses internal hosts without fetching them", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const urls = [
+      "http://localhost/",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+      "http://2130706433/",
+    ];
+    for (const url of urls) {
+      await expect(fetchPage(url)).rejects.toThrow("Refusing to fetch internal host");
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("checks every redirect hop against the guard", async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(
+      new Response(null, {
+        status: 302,
+        headers: { location: "http://169.254.169.254/latest/meta-data/" },
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(fetchPage("http://93.184.216.34/")).rejects.toThrow(
+      "Refusing to fetch internal host"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].redirect).toBe("manual");
+  });
+
+  it("follows public redirects and reports the final URL", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: "/article" } }))
+      .mockResolvedValueOnce(htmlResponse("<title>Post</title><p>Hello world</p>"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const page = await fetchPage("http://93.184.216.34/");
+    expect(page.finalUrl).toBe("http://93.184.216.34/article");
+    expect(page.title).toBe("Post");
+    expect(fetchMock.mock.calls[1][0]).toBe("http://93.184.216.34/article");
+  });
+
+  it("stops reading the body at the size cap", async () => {
+    let pulled = 0;
+    const chunk = new TextEncoder().encode(`<p>${"a".repeat(100_000)}</p>`);
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(chunk);
+      },
+    });
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(htmlResponse(body)));
+
+    await fetchPage("http://93.184.216.34/");
+    expect(pulled).toBeLessThan(30);
+  });
+
+  it("leaves out-of-range numeric entities as they are", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(htmlResponse("<p>A &#99999999; B &#x41;</p>"))
+    );
+
+    const page = await fetchPage("http://93.184.216.34/");
+    expect(page.text).toContain("&#99999999;");
+    expect(page.text).toContain("B A");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  chunkItems,
+  estimateTokens,
+  flattenStepData,
+  reduceInGroups,
+} from "@/lib/workflow-chunking";
+
+/** An item of roughly `tokens` tokens once serialized */
+function item(id: number, tokens: number) {
+  return { id, text: "x".repeat(tokens * 4) };
+}
+
+describe("chunkItems", () => {
+  it("packs items into budgeted chunks in order", () => {
+    const items = Array.from({ length: 10 }, (_, i) => item(i, 100));
+    const { chunks, coverage } = chunkItems(items, { chunkTokens: 350 });
+
+    expect(chunks.map((chunk) => chunk.length)).toEqual([3, 3, 3, 1]);
+    expect(chunks.flat()).toEqual(items);
+    for (const chunk of chunks) {
+      expect(estimateTokens(JSON.stringify(chunk))).toBeLessThan(400);
+    }
+    expect(coverage).toMatchObject({
+      totalItems: 10,
+      coveredItems: 10,
+      skippedItems: 0,
+      splitItems: 0,
+      chunks: 4,
+      complete: true,
+    });
+  });
+
+  it("processes every chunk unless maxChunks is set", () => {
+    const items = Array.from({ length: 40 }, (_, i) => item(i, 300));
+
+    const all = chunkItems(items, { chunkTokens: 350 });
+    expect(all.chunks).toHaveLength(40);
+    expect(all.coverage.complete).toBe(true);
+
+    const capped = chunkItems(items, { chunkTokens: 350, maxChunks: 12 });
+    expect(capped.chunks).toHaveLength(12);
+    expect(capped.coverage).toMatchObject({
+      coveredItems: 12,
+      skippedItems: 28,
+      complete: false,
+    });
+    expect(capped.coverage.coveredTokens).toBeLessThan(capped.coverage.inputTokens);
+  });
+
+  it("splits an oversized item on its largest text field", () => {
+    const page = { url: "https://example.com", text: "A sentence. ".repeat(2_000) };
+    const { chunks, coverage } = chunkItems([page], { chunkTokens: 1_000 });
+
+    const parts = chunks.flat() as { url: string; text: string; part: string }[];
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every((part) => part.url === page.url)).toBe(true);
+    expect(parts[0].part).toBe(`1/${parts.length}`);
+    expect(coverage).toMatchObject({ totalItems: 1, splitItems: 1, coveredItems: 1 });
+  });
+
+  it("counts an item split across the cut-off as skipped", () => {
+    const page = { url: "https://example.com", text: "A sentence. ".repeat(2_000) };
+    const { coverage } = chunkItems([item(0, 100), page], {
+      chunkTokens: 1_000,
+      maxChunks: 2,
+    });
+
+    expect(coverage).toMatchObject({ totalItems: 2, coveredItems: 1, skippedItems: 1 });
+  });
+});
+
+describe("flattenStepData", () => {
+  it("puts the other fields before the list items as context", () => {
+    const data = { query: "rust", results: [{ title: "a" }, { title: "b" }] };
+    expect(flattenStepData(data)).toEqual([{ query: "rust" }, { title: "a" }, { title: "b" }]);
+    expect(flattenStepData({ summary: "only" })).toEqual([{ summary: "only" }]);
+    expect(flattenStepData(null)).toEqual([]);
+  });
+});
+
+describe("reduceInGroups", () => {
+  it("merges groups level by level until one output remains", async () => {
+    const calls: { size: number; level: number }[] = [];
+    const [total] = await reduceInGroups(
+      Array.from({ length: 20 }, (_, i) => i + 1),
+      async (group, level) => {
+        calls.push({ size: group.length, level });
+        return group.reduce((sum, n) => sum + n, 0);
+      },
+      { groupSize: 4 }
+    );
+
+    expect(total).toBe(210);
+    // 20 → 5 → 2 → 1
+    expect(calls.filter((c) => c.level === 1)).toHaveLength(5);
+    expect(calls.filter((c) => c.level === 2).map((c) => c.size)).toEqual([4]);
+    expect(calls.filter((c) => c.level === 3).map((c) => c.size)).toEqual([2]);
+  });
+
+  it("stops at the target and leaves small inputs alone", async () => {
+    const merge = async (group: number[]) => group.reduce((sum, n) => sum + n, 0);
+
+    const reduced = await reduceInGroups([1, 2, 3, 4, 5, 6, 7, 8, 9], merge, {
+      groupSize: 3,
+      target: 3,
+    });
+    expect(reduced).toEqual([6, 15, 24]);
+    await expect(reduceInGroups([1, 2], merge, { target: 3 })).resolves.toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  annotateSources,
+  applyCitations,
+  collectSources,
+  sourceRef,
+} from "@/lib/workflow-citations";
+import type { ReportSection } from "@/lib/workflow-schemas";
+
+const results = [
+  {
+    stepIndex: 0,
+    data: {
+      query: "rust web frameworks",
+      results: [
+        { title: "Axum", link: "https://github.com/tokio-rs/axum" },
+        { title: "Actix", link: "https://actix.rs/" },
+        { title: "Axum again", link: "https://github.com/tokio-rs/axum/#readme" },
+      ],
+    },
+  },
+  { stepIndex: 1, skipped: true, data: null },
+  {
+    stepIndex: 2,
+    data: { pages: [{ url: "https://www.rocket.rs/guide", text: "..." }, { text: "no url" }] },
+  },
+];
+
+describe("collectSources", () => {
+  it("numbers each distinct URL once, in step order", () => {
+    const sources = collectSources(results);
+
+    expect(sources.map((s) => [s.id, s.url, s.stepIndex])).toEqual([
+      [1, "https://github.com/tokio-rs/axum", 0],
+      [2, "https://actix.rs/", 0],
+      [3, "https://www.rocket.rs/guide", 2],
+    ]);
+    expect(sources[2]).toMatchObject({
+      site: "rocket.rs",
+      title: "https://www.rocket.rs/guide",
+    });
+    expect(sourceRef(sources, "https://actix.rs")).toBe(2);
+  });
+
+  it("marks the matching items with their ref", () => {
+    const sources = collectSources(results);
+    const annotated = annotateSources(results, sources);
+
+    expect((annotated[0].data as any).results.map((r: any) => r.ref)).toEqual([1, 2, 1]);
+    expect((annotated[2].data as any).pages[1].ref).toBeUndefined();
+    expect((results[0].data as any).results[0].ref).toBeUndefined();
+  });
+});
+
+describe("applyCitations", () => {
+  const sources = collectSources(results);
+
+  it("renumbers citations in order of first use and drops unknown refs", () => {
+    const sections: ReportSection[] = [
+      {
+        id: "s1",
+        type: "text",
+        title: "Summary",
+        content: "Rocket is fast.",
+        citations: [3, 99],
+      },
+      {
+        id: "s2",
+        type: "list",
+        title: "Highlights",
+        content: {
+          items: ["Axum is popular", "Actix is mature"],
+          itemCitations: [[1], [2, 3]],
+        },
+      },
+    ];
+    const { sections: cited, bibliography } = applyCitations(sections, sources);
+
+    expect(cited[0].citations).toEqual([1]);
+    expect(cited[1].type === "list" && cited[1].content.itemCitations).toEqual([[2], [1, 3]]);
+    expect(bibliography.map((s) => [s.id, s.url, s.cited])).toEqual([
+      [1, "https://www.rocket.rs/guide", true],
+      [2, "https://github.com/tokio-rs/axum", true],
+      [3, "https://actix.rs/", true],
+    ]);
+  });
+
+  it("moves inline markers into citations", () => {
+    const sections: ReportSection[] = [
+      { id: "s1", type: "text", title: "Summary", content: "Axum leads [2, 1]. See [7]." },
+    ];
+    const { sections: cited } = applyCitations(sections, sources);
+
+    expect(cited[0].content).toBe("Axum leads. See [7].");
+    expect(cited[0].citations).toEqual([1, 2]);
+  });
+
+  it("aligns table row citations and lists uncited sources last", () => {
+    const sections: ReportSection[] = [
+      {
+        id: "t",
+        type: "table",
+        title: "Frameworks",
+        content: {
+          headers: ["Name"],
+          rows: [["Axum"], ["Actix"]],
+          rowCitations: [[], [2]],
+        },
+      },
+    ];
+    const { sections: cited, bibliography } = applyCitations(sections, sources);
+
+    expect(cited[0].type === "table" && cited[0].content.rowCitations).toEqual([[], [1]]);
+    expect(bibliography.map((s) => [s.id, s.url, s.cited])).toEqual([
+      [1, "https://actix.rs/", true],
+      [2, "https://github.com/tokio-rs/axum", false],
+      [3, "https://www.rocket.rs/guide", false],
+    ]);
+  });
+
+  it("leaves sections without citations untouched", () => {
+    const sections: ReportSection[] = [
+      { id: "s1", type: "text", title: "Summary", content: "Nothing cited." },
+    ];
+    const { sections: cited, bibliography } = applyCitations(sections, sources);
+
+    expect(cited[0]).toEqual({ ...sections[0], citations: undefined });
+    expect(bibliography.every((s) => !s.cited)).toBe(true);
+  });
+});
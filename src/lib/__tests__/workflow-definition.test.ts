@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import type { UserTemplate, Workflow } from "@/generated/prisma/client";
+import {
+  DEFINITION_VERSION,
+  definitionFilename,
+  readDefinition,
+  serializeDefinition,
+  templateToDefinition,
+  workflowToDefinition,
+} from "@/lib/workflow-definition";
+
+const steps = [
+  {
+    index: 0,
+    type: "search",
+    title: "Search GitHub for Rust web frameworks",
+    description: "",
+    params: { source: "github", query: "Rust web frameworks", num: 10 },
+    dependsOn: [],
+    status: "completed",
+  },
+  {
+    index: 1,
+    type: "generate_report",
+    title: "Write the report",
+    description: "",
+    params: { reportFormat: "comparison" },
+    dependsOn: [0],
+    retry: { maxAttempts: 2 },
+  },
+];
+
+const workflow = {
+  id: "wf-1",
+  userId: "user-1",
+  title: "Rust web frameworks Comparison",
+  description: null,
+  query: "Compare the top Rust web frameworks",
+  sources: ["google", "github"],
+  depth: "standard",
+  outputFormat: "comparison",
+  llmProvider: "mock",
+  llmModel: null,
+  promptVersion: "v2",
+  budget: { maxTokens: 50_000 },
+  steps,
+  results: [{ stepIndex: 0, data: { results: [] } }],
+} as unknown as Workflow;
+
+describe("readDefinition", () => {
+  it.each(["json", "yaml"] as const)("reads back an exported workflow as %s", (format) => {
+    const exported = workflowToDefinition(workflow);
+    const { definition, errors } = readDefinition(serializeDefinition(exported, format));
+
+    expect(errors).toEqual([]);
+    expect(definition).toEqual(exported);
+    expect(definition!.steps[1].retry).toEqual({ maxAttempts: 2 });
+  });
+
+  it("exports the plan, not runtime state", () => {
+    const text = serializeDefinition(workflowToDefinition(workflow), "json");
+
+    expect(text).not.toContain("wf-1");
+    expect(text).not.toContain("user-1");
+    expect(text).not.toContain('"results"');
+    expect(text).not.toContain('"status"');
+  });
+
+  it("round-trips a template with its placeholders", () => {
+    const template = {
+      name: "Framework comparison",
+      description: "Compare frameworks",
+      titleTemplate: "{{topic}} Comparison",
+      steps: [
+        { ...steps[0], params: { source: "github", query: "{{topic}}", num: "{{num}}" } },
+        steps[1],
+      ],
+      parameters: [{ name: "topic" }, { name: "num", default: 10 }],
+      patterns: [],
+      keywords: ["compare"],
+      examples: ["Compare the top 5 {topic}"],
+      defaultSources: ["github"],
+      defaultFormat: "comparison",
+    } as unknown as UserTemplate;
+
+    const exported = templateToDefinition(template);
+    const { definition, errors } = readDefinition(serializeDefinition(exported, "yaml"));
+
+    expect(errors).toEqual([]);
+    expect(definition!.template).toEqual(exported.template);
+    expect(definition!.steps[0].params.query).toBe("{{topic}}");
+    expect(definitionFilename(definition!, "yaml")).toBe("framework-comparison.template.yaml");
+  });
+
+  it("numbers steps by position", () => {
+    const { definition } = readDefinition(`
+version: 1
+name: Numbered
+steps:
+  - type: search
+    title: Search
+    params: { query: rust }
+  - type: generate_report
+    title: Report
+    params: { reportFormat: summary }
+    dependsOn: [0]
+`);
+
+    expect(definition!.steps.map((s) => s.index)).toEqual([0, 1]);
+  });
+
+  it("rejects newer versions, broken documents and invalid plans", () => {
+    const exported = workflowToDefinition(workflow);
+
+    expect(readDefinition({ ...exported, version: DEFINITION_VERSION + 1 }).errors[0]).toMatch(
+      /Unsupported definition version/
+    );
+    expect(readDefinition("steps: [").errors[0]).toMatch(/Not valid JSON or YAML/);
+    expect(readDefinition({ ...exported, steps: [] }).errors).toEqual([
+      "steps: steps must not be empty",
+    ]);
+    expect(readDefinition({ ...exported, llm: { provider: "nope" } }).errors[0]).toMatch(
+      /unknown provider nope/
+    );
+
+    const noReport = readDefinition({ ...exported, steps: [exported.steps[0]] });
+    expect(noReport.definition).toBeNull();
+    expect(noReport.errors[0]).toMatch(/^Invalid plan: .*generate_report/);
+  });
+});
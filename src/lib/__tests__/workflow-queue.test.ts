@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const prisma = vi.hoisted(() => ({
+  $queryRaw: vi.fn(),
+  workflowJob: { findMany: vi.fn(), updateMany: vi.fn() },
+  workflow: { updateMany: vi.fn() },
+}));
+const emitWorkflowEvent = vi.hoisted(() => vi.fn());
+
+vi.mock("@/lib/prisma", () => ({ prisma }));
+vi.mock("@/lib/workflow-engine", () => ({
+  executeWorkflow: vi.fn(),
+  recoverInterruptedRun: vi.fn(),
+}));
+vi.mock("@/lib/workflow-cache", () => ({ purgeExpiredStepCache: vi.fn() }));
+vi.mock("@/lib/workflow-events", () => ({
+  emitWorkflowEvent,
+  purgeOldWorkflowEvents: vi.fn(),
+}));
+
+import { claimNextJob, failExhaustedJobs } from "@/lib/workflow-queue";
+
+const expired = (id: string, attempts: number, maxAttempts = 3) => ({
+  id,
+  workflowId: `wf-${id}`,
+  attempts,
+  maxAttempts,
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("claimNextJob", () => {
+  it("only reclaims expired leases with attempts left", async () => {
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    expect(await claimNextJob("worker-1")).toBeNull();
+    const sql = (prisma.$queryRaw.mock.calls[0][0] as string[]).join("?");
+    expect(sql).toMatch(/"lockedUntil" < NOW\(\)\s+AND "attempts" < "maxAttempts"/);
+  });
+});
+
+describe("failExhaustedJobs", () => {
+  it("fails jobs that expired on their last attempt, and their workflow", async () => {
+    prisma.workflowJob.findMany.mockResolvedValue([expired("a", 3), expired("b", 1)]);
+    prisma.workflowJob.updateMany.mockResolvedValue({ count: 1 });
+    prisma.workflow.updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await failExhaustedJobs()).toBe(1);
+
+    expect(prisma.workflowJob.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.workflowJob.updateMany.mock.calls[0][0]).toMatchObject({
+      where: { id: "a", status: "running" },
+      data: { status: "failed", lockedBy: null, lockedUntil: null },
+    });
+    expect(prisma.workflow.updateMany).toHaveBeenCalledWith({
+      where: { id: "wf-a", status: { in: ["pending", "running"] } },
+      data: {
+        status: "failed",
+        errorMessage: expect.stringContaining("after 3 attempts"),
+        activeSteps: [],
+      },
+    });
+    expect(emitWorkflowEvent).toHaveBeenCalledWith("wf-a", "workflow.status", {
+      status: "failed",
+      error: expect.stringContaining("after 3 attempts"),
+      final: true,
+    });
+  });
+
+  it("leaves jobs another worker already handled", async () => {
+    prisma.workflowJob.findMany.mockResolvedValue([expired("a", 3)]);
+    prisma.workflowJob.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await failExhaustedJobs()).toBe(0);
+    expect(prisma.workflow.updateMany).not.toHaveBeenCalled();
+    expect(emitWorkflowEvent).not.toHaveBeenCalled();
+  });
+
+  it("does not emit when the workflow already finished", async () => {
+    prisma.workflowJob.findMany.mockResolvedValue([expired("a", 3)]);
+    prisma.workflowJob.updateMany.mockResolvedValue({ count: 1 });
+    prisma.workflow.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await failExhaustedJobs()).toBe(1);
+    expect(emitWorkflowEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RETRY_POLICY,
+  StepTimeoutError,
+  backoffDelayMs,
+  classifyError,
+  shouldRetry,
+  withTimeout,
+} from "@/lib/workflow-retry";
+
+describe("classifyError", () => {
+  it("classifies timeouts, HTTP statuses and network failures", () => {
+    expect(classifyError(new StepTimeoutError(100))).toBe("timeout");
+    expect(classifyError({ status: 429, message: "Too Many Requests" })).toBe("rate_limit");
+    expect(classifyError({ response: { status: 503 } })).toBe("server_error");
+    expect(classifyError(new Error("SerpAPI error: 502 Bad Gateway"))).toBe("server_error");
+    expect(classifyError(new TypeError("fetch failed"))).toBe("network");
+    expect(
+      classifyError(Object.assign(new Error("boom"), { cause: { code: "ECONNRESET" } }))
+    ).toBe("network");
+    expect(classifyError(new Error("AI returned invalid JSON after 2 repairs"))).toBe(
+      "invalid_output"
+    );
+  });
+
+  it("leaves client errors and unknown failures unclassified", () => {
+    expect(classifyError({ status: 404, message: "Not Found" })).toBeNull();
+    expect(classifyError(new Error("No data from step 2 to extract from"))).toBeNull();
+    expect(classifyError(undefined)).toBeNull();
+  });
+});
+
+describe("shouldRetry", () => {
+  it("retries listed classes until the attempts run out", () => {
+    const error = { status: 500 };
+    expect(shouldRetry(error, DEFAULT_RETRY_POLICY, 1)).toBe(true);
+    expect(shouldRetry(error, DEFAULT_RETRY_POLICY, 3)).toBe(false);
+    expect(shouldRetry(new Error("AI returned invalid"), DEFAULT_RETRY_POLICY, 1)).toBe(false);
+  });
+});
+
+describe("backoffDelayMs", () => {
+  it("grows exponentially and stops at maxDelayMs", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 1_000, maxDelayMs: 5_000 };
+    expect(backoffDelayMs(policy, 1)).toBe(1_000);
+    expect(backoffDelayMs(policy, 2)).toBe(2_000);
+    expect(backoffDelayMs(policy, 3)).toBe(4_000);
+    expect(backoffDelayMs(policy, 4)).toBe(5_000);
+  });
+});
+
+describe("withTimeout", () => {
+  it("returns the work's result in time", async () => {
+    await expect(withTimeout(async () => 42, 1_000)).resolves.toBe(42);
+  });
+
+  it("aborts the work's signal when the attempt times out", async () => {
+    let seen: AbortSignal | undefined;
+    const work = (signal: AbortSignal) => {
+      seen = signal;
+      return new Promise<never>(() => {});
+    };
+
+    await expect(withTimeout(work, 20)).rejects.toBeInstanceOf(StepTimeoutError);
+    expect(seen?.aborted).toBe(true);
+    expect(seen?.reason).toBeInstanceOf(StepTimeoutError);
+  });
+
+  it("passes the workflow signal's abort on to the attempt", async () => {
+    const workflow = new AbortController();
+    let seen: AbortSignal | undefined;
+    const pending = withTimeout(
+      (signal) => {
+        seen = signal;
+        return new Promise<never>(() => {});
+      },
+      1_000,
+      workflow.signal
+    );
+    workflow.abort(new Error("Cancelled by user"));
+
+    await expect(pending).rejects.toThrow("Cancelled by user");
+    expect(seen?.aborted).toBe(true);
+  });
+
+  it("does not start work once the workflow signal has aborted", async () => {
+    const workflow = new AbortController();
+    workflow.abort(new Error("Cancelled by user"));
+    let started = false;
+
+    await expect(
+      withTimeout(
+        async () => {
+          started = true;
+        },
+        1_000,
+        workflow.signal
+      )
+    ).rejects.toThrow("Cancelled by user");
+    expect(started).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+vi.mock("@/lib/workflow-queue", () => ({ enqueueWorkflow: vi.fn() }));
+
+import {
+  describeCron,
+  nextCronRun,
+  parseCron,
+  scheduleToCron,
+} from "@/lib/workflow-schedule";
+
+const at = (iso: string) => new Date(iso);
+
+describe("nextCronRun", () => {
+  it("finds the next daily run, today or tomorrow", () => {
+    expect(nextCronRun("0 9 * * *", at("2026-03-10T08:30:00Z"))).toEqual(
+      at("2026-03-10T09:00:00Z")
+    );
+    expect(nextCronRun("0 9 * * *", at("2026-03-10T09:00:00Z"))).toEqual(
+      at("2026-03-11T09:00:00Z")
+    );
+  });
+
+  it("is strictly after the given time, in whole minutes", () => {
+    expect(nextCronRun("* * * * *", at("2026-03-10T08:30:45.500Z"))).toEqual(
+      at("2026-03-10T08:31:00Z")
+    );
+  });
+
+  it("handles weekdays, with Sunday as 0 or 7", () => {
+    // 2026-03-10 is a Tuesday
+    expect(nextCronRun("30 7 * * 1", at("2026-03-10T00:00:00Z"))).toEqual(
+      at("2026-03-16T07:30:00Z")
+    );
+    expect(nextCronRun("0 0 * * 7", at("2026-03-10T00:00:00Z"))).toEqual(
+      at("2026-03-15T00:00:00Z")
+    );
+    expect(nextCronRun("0 12 * * 1-5", at("2026-03-13T13:00:00Z"))).toEqual(
+      at("2026-03-16T12:00:00Z")
+    );
+  });
+
+  it("rolls over months and years", () => {
+    expect(nextCronRun("0 0 1 * *", at("2026-12-15T00:00:00Z"))).toEqual(
+      at("2027-01-01T00:00:00Z")
+    );
+    expect(nextCronRun("0 0 31 * *", at("2026-04-01T00:00:00Z"))).toEqual(
+      at("2026-05-31T00:00:00Z")
+    );
+    expect(nextCronRun("0 0 29 2 *", at("2026-03-01T00:00:00Z"))).toEqual(
+      at("2028-02-29T00:00:00Z")
+    );
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 20th, or any Monday; 2026-03-10 is a Tuesday
+    expect(nextCronRun("0 0 20 * 1", at("2026-03-10T00:00:00Z"))).toEqual(
+      at("2026-03-16T00:00:00Z")
+    );
+  });
+
+  it("supports steps and lists", () => {
+    expect(nextCronRun("*/15 * * * *", at("2026-03-10T08:31:00Z"))).toEqual(
+      at("2026-03-10T08:45:00Z")
+    );
+    expect(nextCronRun("0 8,20 * * *", at("2026-03-10T09:00:00Z"))).toEqual(
+      at("2026-03-10T20:00:00Z")
+    );
+  });
+
+  it("throws for expressions that never match", () => {
+    expect(() => nextCronRun("0 0 31 2 *")).toThrow("never matches");
+  });
+});
+
+describe("parseCron", () => {
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("0 9 * *")).toThrow("5 fields");
+    expect(() => parseCron("60 9 * * *")).toThrow("Invalid cron minute");
+    expect(() => parseCron("*/0 * * * *")).toThrow("Invalid step");
+  });
+});
+
+describe("scheduleToCron", () => {
+  it("turns simple frequencies into cron", () => {
+    expect(scheduleToCron({ frequency: "daily", time: "07:05" })).toBe("5 7 * * *");
+    expect(scheduleToCron({ frequency: "weekly", dayOfWeek: 5 })).toBe("0 9 * * 5");
+    expect(scheduleToCron({ frequency: "monthly", dayOfMonth: 15, time: "18:30" })).toBe(
+      "30 18 15 * *"
+    );
+    expect(() => scheduleToCron({ frequency: "monthly", dayOfMonth: 31 })).toThrow();
+    expect(() => scheduleToCron({ frequency: "daily", time: "25:00" })).toThrow("Invalid time");
+  });
+
+  it("round-trips through describeCron", () => {
+    expect(describeCron(scheduleToCron({ frequency: "weekly", dayOfWeek: 1 }))).toBe(
+      "Weekly on Monday at 09:00 UTC"
+    );
+    expect(describeCron("*/5 * * * *")).toBe('Cron "*/5 * * * *" (UTC)');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  WORKFLOW_TEMPLATES,
+  matchTemplate,
+  rankTemplates,
+  type WorkflowTemplate,
+} from "@/lib/workflow-templates";
+
+const ids = (goal: string, templates?: WorkflowTemplate[]) =>
+  rankTemplates(goal, templates).map((match) => match.template.id);
+
+function custom(overrides: Partial<WorkflowTemplate>): WorkflowTemplate {
+  return {
+    ...WORKFLOW_TEMPLATES[0],
+    id: "custom",
+    name: "Custom",
+    description: "",
+    patterns: [],
+    keywords: [],
+    examples: [],
+    ...overrides,
+  };
+}
+
+describe("rankTemplates", () => {
+  it("picks the template whose pattern matches, with its topic", () => {
+    const [best] = rankTemplates("Compare React vs Vue");
+    expect(best.template.id).toBe("tech-comparison");
+    expect(best.topic).toBe("React vs Vue");
+    expect(best.reasons).toContain("pattern");
+
+    expect(ids("Find images of brutalist architecture")[0]).toBe("image-research");
+    expect(ids("Research the electric scooter market and competitors")[0]).toBe(
+      "market-research"
+    );
+  });
+
+  it("ranks by confidence and lists weaker alternatives", () => {
+    const goal = "History and evolution of JavaScript frameworks";
+    const matches = rankTemplates(goal);
+
+    expect(matches[0]).toMatchObject({
+      template: { id: "trend-timeline" },
+      topic: "JavaScript frameworks",
+    });
+    expect(matches.length).toBeGreaterThan(1);
+    matches.slice(1).forEach((match, i) => {
+      expect(match.confidence).toBeLessThanOrEqual(matches[i].confidence);
+    });
+    expect(rankTemplates(goal, undefined, 1)).toHaveLength(1);
+  });
+
+  it("matches on keywords and similarity without a pattern", () => {
+    const [best] = rankTemplates("Deep dive into the tokio GitHub repository");
+
+    expect(best.template.id).toBe("github-deep-dive");
+    expect(best.reasons).not.toContain("pattern");
+    expect(best.reasons).toContain("keywords");
+    expect(best.topic).toBe("tokio");
+  });
+
+  it("returns nothing for unrelated goals", () => {
+    expect(rankTemplates("what should I cook tonight")).toEqual([]);
+    expect(matchTemplate("what should I cook tonight")).toBeNull();
+  });
+
+  it("matches example goals of user templates", () => {
+    const template = custom({
+      examples: ["Weekly security digest for {topic}"],
+      description: "Collect security advisories and CVEs",
+    });
+    const [best] = rankTemplates("Weekly security digest for OpenSSL", [
+      ...WORKFLOW_TEMPLATES,
+      template,
+    ]);
+
+    expect(best.template.id).toBe("custom");
+    expect(best.topic).toBe("OpenSSL");
+    expect(best.reasons).toContain("example");
+  });
+
+  it("keeps template order among equal scores", () => {
+    const a = custom({ id: "a", keywords: ["digest"] });
+    const b = custom({ id: "b", keywords: ["digest"] });
+
+    expect(ids("security digest", [a, b])).toEqual(["a", "b"]);
+    expect(ids("security digest", [b, a])).toEqual(["b", "a"]);
+  });
+});
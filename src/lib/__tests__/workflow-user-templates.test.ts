@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import {
+  buildUserTemplate,
+  fillPlaceholders,
+  goalPattern,
+  templatize,
+} from "@/lib/workflow-user-templates";
+
+describe("templatize", () => {
+  it("replaces parameter values only as whole words", () => {
+    const step = {
+      title: "Compare bun and Node bundle sizes",
+      params: { query: "Bun benchmarks 2025 vs 120250 requests", num: 10 },
+    };
+
+    expect(templatize(step, { topic: "Bun", year: "2025", num: 10 })).toEqual({
+      title: "Compare {{topic}} and Node bundle sizes",
+      params: { query: "{{topic}} benchmarks {{year}} vs 120250 requests", num: "{{num}}" },
+    });
+  });
+
+  it("round-trips through fillPlaceholders", () => {
+    const text = "Bun bundler (Bun) in 2025";
+    const templated = templatize(text, { topic: "Bun", year: "2025" });
+
+    expect(templated).toBe("{{topic}} bundler ({{topic}}) in {{year}}");
+    expect(fillPlaceholders(templated, { topic: "Deno", year: 2026 })).toBe(
+      "Deno bundler (Deno) in 2026"
+    );
+  });
+});
+
+describe("goalPattern", () => {
+  it("anchors on the topic as a word, not inside another word", () => {
+    const pattern = goalPattern("Track bundle sizes of Bun", "Bun");
+
+    expect(pattern).not.toBeNull();
+    expect(new RegExp(pattern!, "i").exec("Track bundle sizes of Deno")?.[1]).toBe("Deno");
+    expect(goalPattern("Track bundle sizes", "Bun")).toBeNull();
+  });
+});
+
+describe("buildUserTemplate", () => {
+  it("keeps words that contain the topic in the example goal", () => {
+    const template = buildUserTemplate(
+      {
+        title: "Bun bundle sizes",
+        description: null,
+        query: "Track bundle sizes of Bun",
+        steps: [],
+        sources: ["google"],
+        outputFormat: "summary",
+      },
+      { parameters: { topic: "Bun" } }
+    );
+
+    expect(template.titleTemplate).toBe("{{topic}} bundle sizes");
+    expect(template.examples).toEqual(["Track bundle sizes of {topic}"]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import type { WorkflowStep } from "@/lib/workflow-engine";
+import { validatePlan } from "@/lib/workflow-validation";
+
+function step(
+  index: number,
+  type: WorkflowStep["type"],
+  params: Record<string, any> = {},
+  dependsOn: number[] = []
+): WorkflowStep {
+  const title = `${type} ${index + 1}`;
+  return { index, type, title, description: "", params, dependsOn };
+}
+
+const search = (index: number) => step(index, "search", { query: "rust web frameworks" });
+const report = (index: number, dependsOn: number[] = []) =>
+  step(index, "generate_report", { reportFormat: "summary" }, dependsOn);
+
+describe("validatePlan", () => {
+  it("accepts a well-formed plan", () => {
+    const plan = [
+      search(0),
+      step(1, "extract", { fromStep: 0, extractionGoal: "names", fields: ["name"] }, [0]),
+      report(2, [1]),
+    ];
+    const result = validatePlan(plan);
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("reports a missing report step and adds one on repair", () => {
+    const plan = [search(0)];
+
+    const checked = validatePlan(plan);
+    expect(checked.valid).toBe(false);
+    expect(checked.errors.map((e) => e.code)).toContain("missing_report");
+
+    const repaired = validatePlan(plan, { repair: true, outputFormat: "comparison" });
+    expect(repaired.valid).toBe(true);
+    expect(repaired.steps).toHaveLength(2);
+    expect(repaired.steps[1]).toMatchObject({
+      index: 1,
+      type: "generate_report",
+      params: { reportFormat: "comparison" },
+      dependsOn: [0],
+    });
+    expect(repaired.warnings).toContainEqual(
+      expect.objectContaining({ code: "missing_report", repaired: true })
+    );
+  });
+
+  it("repairs 1-based indices together with their references", () => {
+    const plan = [
+      { ...search(0), index: 1 },
+      { ...step(1, "analyze", { fromSteps: ["1"], analysisType: "general" }), index: 2 },
+      { ...report(2, [2]), index: 3 },
+    ];
+    const result = validatePlan(plan, { repair: true });
+
+    expect(result.valid).toBe(true);
+    expect(result.steps.map((s) => s.index)).toEqual([0, 1, 2]);
+    expect(result.steps[1].params.fromSteps).toEqual([0]);
+    expect(result.steps[2].dependsOn).toEqual([1]);
+  });
+
+  it("does not modify the input plan", () => {
+    const plan = [search(0)];
+    validatePlan(plan, { repair: true });
+    expect(plan).toHaveLength(1);
+  });
+
+  it("reports each dependency cycle once", () => {
+    // Step 2 reads step 3 through both dependsOn and fromSteps
+    const plan = [
+      search(0),
+      step(1, "analyze", { fromSteps: [2] }, [2]),
+      step(2, "aggregate", { fromSteps: [1], mergeStrategy: "combine" }, [1]),
+      report(3, [2]),
+    ];
+    const { errors } = validatePlan(plan);
+    const cycles = errors.filter((e) => e.code === "dependency_cycle");
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].message).toBe("Steps 2 → 3 → 2 depend on each other");
+  });
+
+  it("reports separate cycles separately", () => {
+    const plan = [
+      step(0, "search", { query: "a" }, [1]),
+      step(1, "search", { query: "b" }, [0]),
+      step(2, "search", { query: "c" }, [3]),
+      step(3, "search", { query: "d" }, [2]),
+      report(4),
+    ];
+    const messages = validatePlan(plan)
+      .errors.filter((e) => e.code === "dependency_cycle")
+      .map((e) => e.message);
+
+    expect(messages).toEqual([
+      "Steps 1 → 2 → 1 depend on each other",
+      "Steps 3 → 4 → 3 depend on each other",
+    ]);
+  });
+
+  it("breaks cycles on repair by dropping forward references", () => {
+    const plan = [
+      search(0),
+      step(1, "analyze", { fromSteps: [0, 2] }, [2]),
+      step(2, "aggregate", { fromSteps: [1], mergeStrategy: "combine" }, [1]),
+      report(3, [2]),
+    ];
+    const result = validatePlan(plan, { repair: true });
+
+    expect(result.valid).toBe(true);
+    expect(result.steps[1].dependsOn).toEqual([]);
+    expect(result.steps[1].params.fromSteps).toEqual([0]);
+    expect(result.warnings.filter((w) => w.code === "dependency_cycle")).toHaveLength(1);
+  });
+
+  it("fills in a missing fromStep from the nearest matching step", () => {
+    const plan = [search(0), step(1, "fetch_page", {}, [0]), report(2, [1])];
+    const result = validatePlan(plan, { repair: true });
+
+    expect(result.valid).toBe(true);
+    expect(result.steps[1].params.fromStep).toBe(0);
+  });
+
+  it("rejects search sources the workflow does not allow", () => {
+    const plan = [step(0, "search", { query: "x", source: "github" }), report(1, [0])];
+    const result = validatePlan(plan, { sources: ["google"] });
+
+    expect(result.errors.map((e) => e.code)).toContain("source_not_allowed");
+  });
+});
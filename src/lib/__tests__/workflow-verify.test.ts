@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import type { ReportSource } from "@/lib/workflow-citations";
+import {
+  applyJudgments,
+  claimVerdict,
+  collectClaims,
+  contestedClaimsSection,
+  countVerdicts,
+  unverifiedClaims,
+  type ClaimEvidence,
+} from "@/lib/workflow-verify";
+
+function source(id: number, url: string): ReportSource {
+  const site = new URL(url).hostname;
+  return { id, url, title: `Source ${id}`, stepIndex: 0, site, cited: false };
+}
+
+const sources = [
+  source(1, "https://a.example/post"),
+  source(2, "https://b.example/review"),
+  source(3, "https://c.example/benchmarks"),
+];
+
+function evidence(stance: ClaimEvidence["stance"]): ClaimEvidence {
+  const url = "https://a.example";
+  return { url, title: "A", site: "a.example", stepIndex: 0, stance, quote: "" };
+}
+
+const previousResults = [
+  { stepIndex: 0, data: { results: [] } },
+  {
+    stepIndex: 1,
+    data: {
+      findings: [
+        { insight: "Axum is the most starred framework", confidence: "high" },
+        { insight: "Actix is the fastest" },
+      ],
+    },
+  },
+  {
+    stepIndex: 2,
+    data: { extracted: [{ name: "Rocket", stars: 24000, url: "https://rocket.rs" }] },
+  },
+];
+
+describe("claimVerdict", () => {
+  it("follows the evidence", () => {
+    expect(claimVerdict([])).toBe("unsupported");
+    expect(claimVerdict([evidence("supports")])).toBe("supported");
+    expect(claimVerdict([evidence("supports"), evidence("contradicts")])).toBe("contested");
+  });
+});
+
+describe("collectClaims", () => {
+  it("takes findings and extracted rows from the listed steps", () => {
+    const claims = collectClaims([1, 2], previousResults);
+
+    expect(claims).toEqual([
+      {
+        id: 1,
+        claim: "Axum is the most starred framework",
+        fromStep: 1,
+        confidence: "high",
+      },
+      { id: 2, claim: "Actix is the fastest", fromStep: 1 },
+      { id: 3, claim: "name: Rocket; stars: 24000", fromStep: 2 },
+    ]);
+    expect(collectClaims([1, 2], previousResults, 2)).toHaveLength(2);
+    expect(collectClaims([0], previousResults)).toEqual([]);
+  });
+});
+
+describe("applyJudgments", () => {
+  const claims = unverifiedClaims(collectClaims([1, 2], previousResults));
+
+  it("turns judged refs into evidence and verdicts", () => {
+    const verified = applyJudgments(
+      claims,
+      [
+        {
+          id: 1,
+          evidence: [
+            { ref: 1, stance: "supports", quote: "most stars" },
+            { ref: 2, stance: "neutral", quote: "" },
+          ],
+          note: "",
+        },
+        {
+          id: 2,
+          evidence: [
+            { ref: 3, stance: "supports", quote: "fastest in round 1" },
+            { ref: 2, stance: "contradicts", quote: "slower than Axum" },
+          ],
+          note: "Benchmarks disagree",
+        },
+      ],
+      sources
+    );
+
+    expect(verified.map((c) => c.verdict)).toEqual(["supported", "contested", "unsupported"]);
+    expect(verified[0].evidence).toEqual([
+      {
+        url: "https://a.example/post",
+        title: "Source 1",
+        site: "a.example",
+        stepIndex: 0,
+        stance: "supports",
+        quote: "most stars",
+      },
+    ]);
+    // Contradicting evidence is listed first
+    expect(verified[1].evidence.map((e) => e.stance)).toEqual(["contradicts", "supports"]);
+    expect(verified[1].note).toBe("Benchmarks disagree");
+    expect(countVerdicts(verified)).toEqual({ supported: 1, contested: 1, unsupported: 1 });
+  });
+
+  it("ignores unknown refs and evidence already recorded", () => {
+    const judgment = {
+      id: 3,
+      evidence: [
+        { ref: 9, stance: "contradicts" as const, quote: "" },
+        { ref: 1, stance: "supports" as const, quote: "" },
+      ],
+      note: "",
+    };
+    const once = applyJudgments(claims, [judgment], sources);
+    const twice = applyJudgments(once, [judgment], sources);
+
+    expect(twice[2].evidence).toHaveLength(1);
+    expect(twice[2].verdict).toBe("supported");
+  });
+
+  it("feeds the contested claims section of the report", () => {
+    const verified = applyJudgments(
+      claims,
+      [
+        {
+          id: 2,
+          evidence: [{ ref: 2, stance: "contradicts", quote: "" }],
+          note: "Disputed",
+        },
+      ],
+      sources
+    );
+    const section = contestedClaimsSection(
+      [{ stepIndex: 3, data: { claims: verified } }],
+      sources,
+      "contested"
+    );
+
+    expect(section).toMatchObject({
+      type: "list",
+      title: "Contested Claims",
+      content: { items: ["Actix is the fastest — Disputed"], itemCitations: [[2]] },
+    });
+    expect(contestedClaimsSection([{ data: { claims } }], sources, "contested")).toBeNull();
+  });
+});
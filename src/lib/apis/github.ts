@@ -48,6 +48,7 @@ export async function searchRepositories(
     stars?: number;
     sort?: "stars" | "forks" | "updated";
     limit?: number;
+    signal?: AbortSignal;
   }
 ): Promise<GitHubRepo[]> {
   try {
@@ -64,6 +65,7 @@ export async function searchRepositories(
       q: searchQuery,
       sort: options?.sort || "stars",
       per_page: options?.limit || 10,
+      request: { signal: options?.signal },
     });
 
     // Fix: Filter out repos with null owners
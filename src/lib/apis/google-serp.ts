@@ -28,6 +28,7 @@ export async function searchWeb(
   options?: {
     num?: number;
     freshness?: "day" | "week" | "month";
+    signal?: AbortSignal;
   }
 ): Promise<WebSearchResult[]> {
   try {
@@ -43,7 +44,8 @@ export async function searchWeb(
     }
 
     const response = await fetch(
-      `https://serpapi.com/search?${params.toString()}`
+      `https://serpapi.com/search?${params.toString()}`,
+      { signal: options?.signal }
     );
 
     if (!response.ok) {
@@ -20,6 +20,7 @@ export async function searchPexels(
   options?: {
     perPage?: number;
     page?: number;
+    signal?: AbortSignal;
   }
 ): Promise<PexelsPhoto[]> {
   if (!PEXELS_API_KEY) {
@@ -42,6 +43,7 @@ export async function searchPexels(
         headers: {
           Authorization: PEXELS_API_KEY,
         },
+        signal: options?.signal,
       }
     );
 
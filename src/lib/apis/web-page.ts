@@ -0,0 +1,390 @@
+// lib/apis/web-page.ts
+
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+export interface FetchedPage {
+  url: string;
+  finalUrl: string;
+  title: string;
+  author?: string;
+  publishedAt?: string;
+  siteName?: string;
+  description?: string;
+  text: string;
+  wordCount: number;
+  truncated: boolean;
+}
+
+const USER_AGENT =
+  "Mozilla/5.0 (compatible; FlowSearchBot/1.0; +https://tambo.co)";
+
+const MAX_HTML_BYTES = 2_000_000;
+
+const MAX_REDIRECTS = 5;
+
+export async function fetchPage(
+  url: string,
+  options?: {
+    maxChars?: number;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+  }
+): Promise<FetchedPage> {
+  try {
+    const signal = AbortSignal.any([
+      AbortSignal.timeout(options?.timeoutMs || 15_000),
+      ...(options?.signal ? [options.signal] : []),
+    ]);
+
+    // Redirects are followed by hand so every hop passes the SSRF guard
+    let finalUrl = url;
+    let response: Response;
+    for (let hops = 0; ; hops++) {
+      await assertPublicHttpUrl(finalUrl);
+      response = await fetch(finalUrl, {
+        headers: { "User-Agent": USER_AGENT, Accept: "text/html,*/*;q=0.8" },
+        redirect: "manual",
+        signal,
+      });
+
+      const location = response.headers.get("location");
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      await response.body?.cancel();
+      if (hops >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+      }
+      finalUrl = new URL(location, finalUrl).toString();
+    }
+
+    if (!response.ok) {
+      throw new Error(`Page fetch error: ${response.status}`);
+    }
+
+    const contentType = response.headers.get("content-type") || "";
+    if (!/html|text\/plain/i.test(contentType)) {
+      throw new Error(`Unsupported content type: ${contentType || "unknown"}`);
+    }
+
+    const html = await readCapped(response, MAX_HTML_BYTES);
+    const maxChars = options?.maxChars || 8000;
+    const fullText = /text\/plain/i.test(contentType)
+      ? normalizeWhitespace(html)
+      : extractReadableText(html);
+
+    return {
+      url,
+      finalUrl,
+      ...extractMetadata(html),
+      text: fullText.slice(0, maxChars),
+      wordCount: fullText.split(/\s+/).filter(Boolean).length,
+      truncated: fullText.length > maxChars,
+    };
+  } catch (error) {
+    console.error("Page fetch error:", url, error);
+    throw error;
+  }
+}
+
+/** The body as text, reading no more than `maxBytes` of it */
+async function readCapped(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let bytes = 0;
+  try {
+    while (bytes < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, maxBytes - bytes);
+      bytes += chunk.length;
+      text += decoder.decode(chunk, { stream: true });
+    }
+    return text + decoder.decode();
+  } finally {
+    // Stops the download when the cap was reached first
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Reject non-http(s) URLs and hosts that are or resolve to loopback,
+ * private, link-local or otherwise internal addresses (SSRF guard).
+ * fetch() resolves the name again, so a DNS answer that changes between
+ * the two lookups is not caught.
+ */
+async function assertPublicHttpUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(`Unsupported URL protocol: ${parsed.protocol}`);
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const refuse = () => new Error(`Refusing to fetch internal host: ${host}`);
+
+  if (isIP(host)) {
+    if (isPrivateAddress(host)) throw refuse();
+    return;
+  }
+  if (host === "localhost" || /\.(localhost|local|internal)$/.test(host)) {
+    throw refuse();
+  }
+
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw refuse();
+  }
+}
+
+const PRIVATE_IPV4: [string, number][] = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+];
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split(".").reduce((n, part) => n * 256 + Number(part), 0);
+}
+
+function isPrivateIPv4(ip: string): boolean {
+  const n = ipv4ToNumber(ip);
+  return PRIVATE_IPV4.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(n / size) === Math.floor(ipv4ToNumber(base) / size);
+  });
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null if malformed */
+function ipv6Groups(ip: string): number[] | null {
+  let address = ip.toLowerCase().split("%")[0];
+
+  // A trailing dotted IPv4 part (::ffff:127.0.0.1) becomes two groups
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (isIP(dotted[2]) !== 4) return null;
+    const n = ipv4ToNumber(dotted[2]);
+    address = `${dotted[1]}${Math.floor(n / 65536).toString(16)}:${(n % 65536).toString(16)}`;
+  }
+
+  const [head, tail, extra] = address.split("::");
+  if (extra !== undefined) return null;
+  const left = head ? head.split(":") : [];
+  const right = tail ? tail.split(":") : [];
+  const missing = 8 - left.length - right.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...left, ...Array(tail === undefined ? 0 : missing).fill("0"), ...right].map(
+    (group) => parseInt(group, 16)
+  );
+  return groups.every((g) => Number.isInteger(g) && g >= 0 && g <= 0xffff) ? groups : null;
+}
+
+/** Loopback, private, link-local, multicast and reserved IPv4/IPv6 addresses */
+export function isPrivateAddress(ip: string): boolean {
+  const version = isIP(ip);
+  if (version === 4) return isPrivateIPv4(ip);
+  if (version !== 6) return true;
+
+  const groups = ipv6Groups(ip);
+  if (!groups) return true;
+
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64
+  // (64:ff9b::a.b.c.d) addresses are checked as the IPv4 address they carry
+  const embedsIPv4 =
+    groups.slice(0, 5).every((g) => g === 0) && (groups[5] === 0xffff || groups[5] === 0)
+      ? true
+      : groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0);
+  if (embedsIPv4 && (groups[6] !== 0 || groups[7] > 1)) {
+    const ipv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(".");
+    return isPrivateIPv4(ipv4);
+  }
+
+  return (
+    groups.every((g) => g === 0) || // ::
+    (groups.slice(0, 7).every((g) => g === 0) && groups[7] === 1) || // ::1
+    (groups[0] & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+    (groups[0] & 0xffc0) === 0xfec0 || // fec0::/10 site-local
+    (groups[0] & 0xff00) === 0xff00 // ff00::/8 multicast
+  );
+}
+
+// ─────────────────────────────────────────────────────────
+// Readable text extraction (dependency-free heuristics)
+// ─────────────────────────────────────────────────────────
+
+function extractReadableText(html: string): string {
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(
+      /<(script|style|noscript|svg|iframe|template|form|nav|header|footer|aside)\b[\s\S]*?<\/\1>/gi,
+      " "
+    );
+
+  // Prefer the main content container when the page marks one up
+  const main =
+    largestMatch(body, /<article\b[^>]*>([\s\S]*?)<\/article>/gi) ||
+    largestMatch(body, /<main\b[^>]*>([\s\S]*?)<\/main>/gi) ||
+    largestMatch(body, /<body\b[^>]*>([\s\S]*?)<\/body>/gi);
+  if (main) body = main;
+
+  const text = body
+    // Keep block boundaries as line breaks
+    .replace(/<(br|\/p|\/div|\/li|\/h[1-6]|\/tr|\/section|\/blockquote)\b[^>]*>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n• ")
+    .replace(/<[^>]+>/g, " ");
+
+  return normalizeWhitespace(decodeEntities(text));
+}
+
+function largestMatch(html: string, pattern: RegExp): string | null {
+  let best: string | null = null;
+  for (const match of html.matchAll(pattern)) {
+    if (!best || match[1].length > best.length) best = match[1];
+  }
+  return best;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t\f\v\u00a0]+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+    mdash: "—",
+    ndash: "–",
+    hellip: "…",
+    rsquo: "’",
+    lsquo: "‘",
+    rdquo: "”",
+    ldquo: "“",
+  };
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      // fromCodePoint throws on anything past the Unicode range
+      return Number.isFinite(value) && value <= 0x10ffff
+        ? String.fromCodePoint(value)
+        : entity;
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+// ─────────────────────────────────────────────────────────
+// Metadata
+// ─────────────────────────────────────────────────────────
+
+function extractMetadata(html: string): {
+  title: string;
+  author?: string;
+  publishedAt?: string;
+  siteName?: string;
+  description?: string;
+} {
+  const head = html.slice(0, 200_000);
+  const jsonLd = readJsonLd(head);
+
+  const title =
+    metaContent(head, "og:title") ||
+    head.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] ||
+    jsonLd?.headline ||
+    "";
+
+  const author =
+    metaContent(head, "author") ||
+    metaContent(head, "article:author") ||
+    authorFromJsonLd(jsonLd?.author);
+
+  const publishedAt =
+    metaContent(head, "article:published_time") ||
+    metaContent(head, "date") ||
+    metaContent(head, "pubdate") ||
+    jsonLd?.datePublished ||
+    head.match(/<time\b[^>]*datetime=["']([^"']+)["']/i)?.[1];
+
+  return {
+    title: normalizeWhitespace(decodeEntities(title)),
+    author: author ? decodeEntities(author).trim() : undefined,
+    publishedAt: publishedAt || undefined,
+    siteName: metaContent(head, "og:site_name") || undefined,
+    description:
+      metaContent(head, "og:description") ||
+      metaContent(head, "description") ||
+      undefined,
+  };
+}
+
+/** Value of <meta name|property="key" content="..."> in either attribute order */
+function metaContent(html: string, key: string): string | undefined {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const patterns = [
+    new RegExp(
+      `<meta[^>]+(?:name|property)=["']${escaped}["'][^>]*content=["']([^"']*)["']`,
+      "i"
+    ),
+    new RegExp(
+      `<meta[^>]+content=["']([^"']*)["'][^>]*(?:name|property)=["']${escaped}["']`,
+      "i"
+    ),
+  ];
+  for (const pattern of patterns) {
+    const value = html.match(pattern)?.[1];
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function readJsonLd(html: string): Record<string, any> | null {
+  const pattern =
+    /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+  for (const match of html.matchAll(pattern)) {
+    try {
+      const parsed = JSON.parse(match[1]);
+      const candidates = Array.isArray(parsed)
+        ? parsed
+        : parsed["@graph"] || [parsed];
+      const article = candidates.find(
+        (c: any) => c && (c.datePublished || c.headline || c.author)
+      );
+      if (article) return article;
+    } catch {
+      // Malformed JSON-LD is common; ignore it
+    }
+  }
+  return null;
+}
+
+function authorFromJsonLd(author: any): string | undefined {
+  if (!author) return undefined;
+  if (typeof author === "string") return author;
+  if (Array.isArray(author)) {
+    return author.map(authorFromJsonLd).filter(Boolean).join(", ") || undefined;
+  }
+  return author.name;
+}
@@ -0,0 +1,440 @@
+// lib/llm-providers.ts
+//
+// Pluggable LLM provider layer for the workflow engine.
+//
+// Providers:
+//   anthropic — Claude via the Messages API            (ANTHROPIC_API_KEY)
+//   openai    — OpenAI Chat Completions                (OPENAI_API_KEY)
+//   local     — Any OpenAI-compatible endpoint, e.g.
+//               Ollama, LM Studio, vLLM                (LLM_LOCAL_BASE_URL)
+//   mock      — Deterministic, fixture-backed responses for offline runs/tests
+//
+// Selection order for a call (first match wins):
+//   step.llm → workflow.llmProvider/llmModel → LLM_PROVIDER/LLM_MODEL env
+//   → first configured of anthropic, openai, local
+//
+// Each provider exposes a "default" and a "fast" model. Cheap tasks such as
+// extraction run on the fast tier unless a model is pinned explicitly.
+
+import { readFileSync, readdirSync } from "fs";
+import { join } from "path";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+/** What the prompt is for — used for model routing and mock fixtures */
+export type LLMTask =
+  | "plan"
+  | "extract"
+  | "analyze"
+  | "aggregate"
+  | "verify"
+  | "report";
+
+export type LLMTier = "default" | "fast";
+
+export interface LLMSelection {
+  provider?: string;
+  model?: string;
+  tier?: LLMTier;
+}
+
+/** Selections ordered from most to least specific (e.g. step, workflow) */
+export type LLMSelectionChain = Array<LLMSelection | null | undefined>;
+
+export interface LLMRequest {
+  system: string;
+  user: string;
+  model: string;
+  task?: LLMTask;
+  maxTokens?: number;
+  /** Aborts the HTTP request (e.g. when the workflow is cancelled) */
+  signal?: AbortSignal;
+}
+
+/** Token counts as reported by the provider (estimated when it reports none) */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  id: string;
+  /** Whether the env has what this provider needs */
+  isConfigured(): boolean;
+  /** Model used for a tier when none is pinned */
+  modelFor(tier: LLMTier): string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+/** Tasks routed to the fast tier by default */
+const FAST_TASKS = new Set<LLMTask>(["extract", "aggregate"]);
+
+/** ~4 characters per token, for providers that report no usage */
+function estimateUsage(system: string, user: string, text: string): LLMUsage {
+  return {
+    inputTokens: Math.ceil((system.length + user.length) / 4),
+    outputTokens: Math.ceil(text.length / 4),
+    estimated: true,
+  };
+}
+
+// ─────────────────────────────────────────────────────────
+// Anthropic
+// ─────────────────────────────────────────────────────────
+
+const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+  modelFor: (tier) =>
+    tier === "fast"
+      ? process.env.ANTHROPIC_FAST_MODEL || "claude-3-5-haiku-20241022"
+      : process.env.ANTHROPIC_MODEL || "claude-sonnet-4-20250514",
+
+  async complete({ system, user, model, maxTokens = 4096, signal }) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) throw new Error("ANTHROPIC_API_KEY is not set");
+
+    const response = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        system,
+        messages: [{ role: "user", content: user }],
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const err = await response.text();
+      throw new Error(`AI API error: ${response.status} — ${err}`);
+    }
+
+    const data = await response.json();
+    const text = data.content
+      ?.filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("\n");
+
+    const usage: LLMUsage = data.usage
+      ? {
+          inputTokens:
+            (data.usage.input_tokens ?? 0) +
+            (data.usage.cache_creation_input_tokens ?? 0) +
+            (data.usage.cache_read_input_tokens ?? 0),
+          outputTokens: data.usage.output_tokens ?? 0,
+        }
+      : estimateUsage(system, user, text || "");
+
+    return { text: text || "", provider: "anthropic", model, usage };
+  },
+};
+
+// ─────────────────────────────────────────────────────────
+// OpenAI & OpenAI-compatible endpoints
+// ─────────────────────────────────────────────────────────
+
+interface OpenAICompatibleConfig {
+  id: string;
+  label: string;
+  baseUrl: () => string | undefined;
+  apiKey: () => string | undefined;
+  requiresApiKey: boolean;
+  defaultModel: () => string;
+  fastModel: () => string;
+}
+
+function createOpenAICompatibleProvider(
+  config: OpenAICompatibleConfig
+): LLMProvider {
+  return {
+    id: config.id,
+    isConfigured: () =>
+      !!config.baseUrl() && (!config.requiresApiKey || !!config.apiKey()),
+    modelFor: (tier) =>
+      tier === "fast" ? config.fastModel() : config.defaultModel(),
+
+    async complete({ system, user, model, maxTokens = 4096, signal }) {
+      const baseUrl = config.baseUrl();
+      if (!baseUrl) throw new Error(`${config.label} base URL is not set`);
+
+      const apiKey = config.apiKey();
+      if (config.requiresApiKey && !apiKey) {
+        throw new Error(`${config.label} API key is not set`);
+      }
+
+      const response = await fetch(
+        `${baseUrl.replace(/\/$/, "")}/chat/completions`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          },
+          body: JSON.stringify({
+            model,
+            messages: [
+              { role: "system", content: system },
+              { role: "user", content: user },
+            ],
+            max_tokens: maxTokens,
+          }),
+          signal,
+        }
+      );
+
+      if (!response.ok) {
+        const err = await response.text();
+        throw new Error(`${config.label} API error: ${response.status} — ${err}`);
+      }
+
+      const data = await response.json();
+      const text = data.choices?.[0]?.message?.content || "";
+      return {
+        text,
+        provider: config.id,
+        model,
+        usage: data.usage
+          ? {
+              inputTokens: data.usage.prompt_tokens ?? 0,
+              outputTokens: data.usage.completion_tokens ?? 0,
+            }
+          : estimateUsage(system, user, text),
+      };
+    },
+  };
+}
+
+const openaiProvider = createOpenAICompatibleProvider({
+  id: "openai",
+  label: "OpenAI",
+  baseUrl: () => process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+  apiKey: () => process.env.OPENAI_API_KEY,
+  requiresApiKey: true,
+  defaultModel: () => process.env.OPENAI_MODEL || "gpt-4o-mini",
+  fastModel: () => process.env.OPENAI_FAST_MODEL || "gpt-4o-mini",
+});
+
+const localProvider = createOpenAICompatibleProvider({
+  id: "local",
+  label: "Local LLM",
+  baseUrl: () => process.env.LLM_LOCAL_BASE_URL,
+  apiKey: () => process.env.LLM_LOCAL_API_KEY,
+  requiresApiKey: false,
+  defaultModel: () => process.env.LLM_LOCAL_MODEL || "llama3.1",
+  fastModel: () =>
+    process.env.LLM_LOCAL_FAST_MODEL || process.env.LLM_LOCAL_MODEL || "llama3.1",
+});
+
+// ─────────────────────────────────────────────────────────
+// Mock — deterministic, fixture-backed
+// ─────────────────────────────────────────────────────────
+
+/**
+ * A fixture answers a prompt when every given matcher applies.
+ * Files in LLM_MOCK_FIXTURES_DIR hold a JSON array of fixtures;
+ * they are checked in filename order before the built-in defaults.
+ */
+interface MockFixture {
+  task?: LLMTask;
+  /** Substring that must appear in the user prompt */
+  match?: string;
+  /** Returned verbatim if a string, JSON-encoded otherwise */
+  response: unknown;
+}
+
+let loadedFixtures: MockFixture[] | null = null;
+
+function loadFixtures(): MockFixture[] {
+  if (loadedFixtures) return loadedFixtures;
+
+  const dir = process.env.LLM_MOCK_FIXTURES_DIR;
+  loadedFixtures = [];
+  if (!dir) return loadedFixtures;
+
+  for (const file of readdirSync(dir).filter((f) => f.endsWith(".json")).sort()) {
+    const parsed = JSON.parse(readFileSync(join(dir, file), "utf8"));
+    loadedFixtures.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+  }
+
+  return loadedFixtures;
+}
+
+const DEFAULT_MOCK_RESPONSES: Record<LLMTask, unknown> = {
+  plan: {
+    title: "Mock Research Plan",
+    description: "Deterministic plan produced by the mock LLM provider",
+    steps: [
+      {
+        index: 0,
+        type: "search",
+        title: "Search the web",
+        description: "Collect background results",
+        params: { source: "google", query: "mock research query", num: 5 },
+        dependsOn: [],
+      },
+      {
+        index: 1,
+        type: "generate_report",
+        title: "Generate final report",
+        description: "Summarize collected data",
+        params: { reportFormat: "summary" },
+        dependsOn: [0],
+      },
+    ],
+  },
+  extract: {
+    extracted: [],
+    totalExtracted: 0,
+    summary: "Mock extraction — no data extracted.",
+  },
+  analyze: {
+    analysisType: "general",
+    findings: [
+      {
+        insight: "Mock finding",
+        evidence: "Produced by the mock LLM provider",
+        confidence: "low",
+      },
+    ],
+    summary: "Mock analysis summary.",
+    recommendations: [],
+  },
+  aggregate: {
+    mergeStrategy: "combine",
+    totalItems: 0,
+    aggregatedData: [],
+    summary: "Mock aggregation.",
+  },
+  verify: {
+    claims: [],
+  },
+  report: {
+    title: "Mock Report",
+    summary: "This report was generated by the mock LLM provider.",
+    sections: [
+      {
+        id: "section-1",
+        type: "text",
+        title: "Overview",
+        content: "Mock report content.",
+      },
+    ],
+  },
+};
+
+const mockProvider: LLMProvider = {
+  id: "mock",
+  isConfigured: () => true,
+  modelFor: () => "mock",
+
+  async complete({ system, user, model, task, signal }) {
+    signal?.throwIfAborted();
+
+    const fixture = loadFixtures().find(
+      (f) =>
+        (!f.task || f.task === task) && (!f.match || user.includes(f.match))
+    );
+
+    const response =
+      fixture?.response ?? (task ? DEFAULT_MOCK_RESPONSES[task] : undefined);
+
+    if (response === undefined) {
+      throw new Error(`Mock LLM has no fixture for task "${task ?? "unknown"}"`);
+    }
+
+    const text =
+      typeof response === "string" ? response : JSON.stringify(response);
+    return {
+      text,
+      provider: "mock",
+      model,
+      usage: estimateUsage(system, user, text),
+    };
+  },
+};
+
+// ─────────────────────────────────────────────────────────
+// Registry & resolution
+// ─────────────────────────────────────────────────────────
+
+const PROVIDERS: Record<string, LLMProvider> = {
+  anthropic: anthropicProvider,
+  openai: openaiProvider,
+  local: localProvider,
+  mock: mockProvider,
+};
+
+/** Auto-detection order when nothing is selected explicitly */
+const AUTO_DETECT_ORDER = ["anthropic", "openai", "local"];
+
+export const LLM_PROVIDER_IDS = Object.keys(PROVIDERS);
+
+export function getLLMProvider(id: string): LLMProvider {
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM provider "${id}". Available: ${LLM_PROVIDER_IDS.join(", ")}`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Merge selections from most to least specific and pick provider + model.
+ * Env defaults (LLM_PROVIDER, LLM_MODEL) are appended as the last level.
+ */
+export function resolveLLM(
+  task: LLMTask | undefined,
+  ...selections: LLMSelectionChain
+): { provider: LLMProvider; model: string } {
+  const chain = [
+    ...selections,
+    {
+      provider: process.env.LLM_PROVIDER || undefined,
+      model: process.env.LLM_MODEL || undefined,
+    },
+  ].filter(Boolean) as LLMSelection[];
+
+  const providerId =
+    chain.find((s) => s.provider)?.provider ??
+    AUTO_DETECT_ORDER.find((id) => PROVIDERS[id].isConfigured());
+
+  if (!providerId) {
+    throw new Error(
+      "No AI provider configured. Set ANTHROPIC_API_KEY, OPENAI_API_KEY or LLM_LOCAL_BASE_URL, or LLM_PROVIDER=mock"
+    );
+  }
+
+  const provider = getLLMProvider(providerId);
+
+  // The most specific level that pins a model (for this provider) or a tier
+  // decides; a model pinned at the same level beats its tier
+  const decisive = chain.find(
+    (s) => s.tier || (s.model && (!s.provider || s.provider === providerId))
+  );
+  const pinned =
+    decisive?.model && (!decisive.provider || decisive.provider === providerId)
+      ? decisive.model
+      : undefined;
+
+  const tier: LLMTier =
+    decisive?.tier ?? (task && FAST_TASKS.has(task) ? "fast" : "default");
+
+  return { provider, model: pinned || provider.modelFor(tier) };
+}
@@ -15,6 +15,7 @@ import { gitHubArchitectureDiagramComponent } from "@/components/generative/GitH
 // Phase 3: Workflow components (created in Steps 8-9)
 import { workflowExecutorComponent } from "@/components/generative/WorkflowExecutor";
 import { dynamicReportComponent } from "@/components/generative/DynamicReport";
+import { workflowRunDiffComponent } from "@/components/generative/WorkflowRunDiff";
 
 // Phase 4: Inline generative components (render in chat instead of requiring tab switch)
 import { calendarInlineComponent } from "@/components/generative/CalendarInline";
@@ -54,6 +55,7 @@ export const components: TamboComponent[] = [
   // Phase 3: Workflow components
   workflowExecutorComponent,
   dynamicReportComponent,
+  workflowRunDiffComponent,
 
   // Phase 4: Inline generative components (render data views directly in chat)
   calendarInlineComponent,
@@ -64,6 +66,17 @@ export const components: TamboComponent[] = [
   mapInlineComponent,
 ];
 
+/** A scored template candidate in execute_research_workflow responses */
+const templateCandidateSchema = z.object({
+  templateId: z.string(),
+  name: z.string(),
+  description: z.string(),
+  topic: z.string().describe("Topic the template would research"),
+  confidence: z.number().describe("0-1; 0.5 or more is used automatically"),
+  reasons: z.array(z.string()),
+  custom: z.boolean().describe("A template the user saved"),
+});
+
 // Client-safe tool wrappers that call API routes
 export const tools: TamboTool[] = [
   // ──────────────────────────────────────────
@@ -308,9 +321,19 @@ DO NOT add any other text or explanations.`,
 
 The workflow system:
 1. Breaks the goal into 3-8 discrete research steps
-2. Executes each step automatically (search, extract, analyze)
+2. Executes each step automatically (search, read pages, extract, analyze)
 3. Generates a structured report with findings (takes 30-60 seconds)
 
+Set draft=true when the user wants to review or edit the plan before it runs
+(e.g., "Plan research on X but let me check the queries first"). The
+WorkflowExecutor then shows an editable plan with a Start button.
+
+Goals are matched against research templates first. The response reports the template used
+(templateMatch, with the extracted topic and a 0-1 confidence) and up to two scored alternatives.
+When ambiguous is true or an alternative fits the user's intent better, say which template was used
+and offer the others; to switch, call again with that templateId, or with useTemplates=false for a
+custom AI-planned workflow.
+
 After calling this tool, ALWAYS render the WorkflowExecutor component with the returned workflowId and steps so the user can see live progress.`,
 
     tool: async (input: any) => {
@@ -349,6 +372,41 @@ After calling this tool, ALWAYS render the WorkflowExecutor component with the r
         .describe(
           "Report format: 'comparison' for side-by-side, 'analysis' for deep dive, 'timeline' for chronological, 'summary' for overview"
         ),
+      draft: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Store the plan without running it so the user can review and edit the steps first"
+        ),
+      templateId: z
+        .string()
+        .optional()
+        .describe(
+          "Use this template instead of planning: a built-in id or the id of a template the user saved with save_workflow_as_template"
+        ),
+      templateParams: z
+        .record(z.string(), z.union([z.string(), z.number()]))
+        .optional()
+        .describe("Values for a saved template's placeholders other than the topic, e.g. { num: 5 }"),
+      useTemplates: z
+        .boolean()
+        .optional()
+        .describe("Set to false to skip template matching and plan the steps with AI"),
+      promptVersion: z
+        .enum(["v1", "v2", "v3", "v4"])
+        .optional()
+        .describe("Prompt version for planning, AI steps and the report. Leave unset for the newest"),
+      budget: z
+        .object({
+          maxTokens: z.number().nullable().optional().describe("Max LLM tokens (input + output)"),
+          maxSearchCalls: z.number().nullable().optional().describe("Max search API calls"),
+          maxDurationMs: z.number().nullable().optional().describe("Max running time in milliseconds"),
+        })
+        .optional()
+        .describe(
+          "Spending caps when the user asks to limit cost or time (e.g., 'at most 20 searches'). Defaults depend on depth; null removes a cap. A run that hits a cap stops early with a partial report"
+        ),
     }),
 
     outputSchema: z.object({
@@ -357,6 +415,10 @@ After calling this tool, ALWAYS render the WorkflowExecutor component with the r
       title: z.string(),
       status: z.string(),
       totalSteps: z.number(),
+      usedTemplate: z.boolean().optional(),
+      templateMatch: templateCandidateSchema.nullable().optional(),
+      alternatives: z.array(templateCandidateSchema).optional(),
+      ambiguous: z.boolean().optional(),
       steps: z.array(
         z.object({
           index: z.number(),
@@ -453,6 +515,7 @@ If the workflow is complete and has a report, render the DynamicReport component
       title: z.string(),
       status: z.string(),
       currentStep: z.number(),
+      activeSteps: z.array(z.number()).optional(),
       totalSteps: z.number(),
       progress: z.number(),
       steps: z.array(
@@ -462,6 +525,7 @@ If the workflow is complete and has a report, render the DynamicReport component
           title: z.string(),
           status: z.string(),
           error: z.string().nullable(),
+          attempts: z.number().optional(),
         })
       ),
       reportId: z.string().nullable(),
@@ -469,4 +533,149 @@ If the workflow is complete and has a report, render the DynamicReport component
       errorMessage: z.string().nullable(),
     }),
   },
+
+  // Re-run a workflow and compare with the previous run
+  {
+    name: "rerun_workflow",
+    description: `Run a finished research workflow again with the same steps, as a new run linked to the original. Use this when:
+- The user wants fresh results for research they ran before (e.g., "Re-run my Rust web frameworks research")
+- The user asks what changed since a previous run
+- The user wants to compare prompt versions on the same research (e.g., "Run it again with the v1 prompts")
+
+After calling this tool, render the WorkflowExecutor component with the returned workflowId and steps.
+Once the new run has completed, render the WorkflowRunDiff component with the same workflowId to show
+new and removed results, metric changes (e.g. GitHub stars) and changed conclusions.`,
+
+    tool: async (input: any) => {
+      const response = await fetch(`/api/workflows/${input.workflowId}/rerun`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ draft: input.draft, promptVersion: input.promptVersion }),
+      });
+      return response.json();
+    },
+
+    inputSchema: z.object({
+      workflowId: z.string().describe("ID of the completed, failed or cancelled workflow to run again"),
+      draft: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Store the re-run without starting it so the user can edit the steps first"),
+      promptVersion: z
+        .enum(["v1", "v2", "v3", "v4"])
+        .optional()
+        .describe("Run with this prompt version instead of the original's, to compare output quality"),
+    }),
+
+    outputSchema: z.object({
+      success: z.boolean(),
+      workflowId: z.string(),
+      rerunOf: z.string(),
+      title: z.string(),
+      status: z.string(),
+      promptVersion: z.string().nullable().optional(),
+      totalSteps: z.number(),
+      steps: z.array(
+        z.object({
+          index: z.number(),
+          type: z.string(),
+          title: z.string(),
+          description: z.string().optional(),
+          status: z.string(),
+        })
+      ),
+      message: z.string(),
+    }),
+  },
+  {
+    name: "save_workflow_as_template",
+    description: `Save a draft or completed research workflow as a reusable template. The topic and result count are
+replaced by {{topic}} and {{num}} placeholders (or the parameters given), and later goals phrased like the
+original one reuse the saved steps instead of AI planning. Use this when:
+- The user wants to reuse a workflow's steps for other topics (e.g., "Save this as a template")
+- The user wants the same research structure every time
+
+Afterwards, pass the returned template id as templateId to execute_research_workflow or schedule_workflow.`,
+
+    tool: async (input: any) => {
+      const response = await fetch("/api/workflows/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      return response.json();
+    },
+
+    inputSchema: z.object({
+      workflowId: z.string().describe("ID of the draft or completed workflow to save"),
+      name: z.string().optional().describe("Template name; defaults to the workflow title"),
+      parameters: z
+        .record(z.string(), z.union([z.string(), z.number()]))
+        .optional()
+        .describe(
+          'Values in the workflow to turn into placeholders, e.g. { topic: "Rust web frameworks", num: 10 }. Omit to detect them'
+        ),
+    }),
+
+    outputSchema: z.object({
+      success: z.boolean(),
+      template: z
+        .object({
+          id: z.string(),
+          name: z.string(),
+          parameters: z.array(z.object({ name: z.string() }).passthrough()),
+        })
+        .passthrough(),
+      message: z.string(),
+    }),
+  },
+  {
+    name: "schedule_workflow",
+    description: `Run a research workflow automatically on a schedule. Each run produces a new report and is kept in the schedule's run history. Use this when:
+- The user wants recurring research (e.g., "Re-run my AI startups research every Monday", "Track Rust web frameworks monthly")
+- The user asks to automate or repeat a workflow or template
+
+Pass either workflowId (repeat an existing workflow's steps) or templateId with a goal. Times are in UTC.
+Render the WorkflowLibrary component afterwards to show the schedule.`,
+
+    tool: async (input: any) => {
+      const response = await fetch("/api/workflows/schedules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      return response.json();
+    },
+
+    inputSchema: z.object({
+      workflowId: z.string().optional().describe("ID of an existing workflow whose steps should repeat"),
+      templateId: z
+        .string()
+        .optional()
+        .describe(
+          "Template to schedule instead of an existing workflow: tech-comparison, market-research, image-research, github-deep-dive, trend-timeline or a saved template id"
+        ),
+      goal: z.string().optional().describe("Research goal, required with templateId"),
+      name: z.string().optional().describe("Schedule name; defaults to the workflow title"),
+      schedule: z.object({
+        cron: z.string().optional().describe('Five-field cron expression in UTC, e.g. "0 9 * * 1"'),
+        frequency: z.enum(["daily", "weekly", "monthly"]).optional(),
+        time: z.string().optional().describe('"HH:MM" in UTC, default "09:00"'),
+        dayOfWeek: z.number().optional().describe("0 = Sunday ... 6 = Saturday, for weekly"),
+        dayOfMonth: z.number().optional().describe("1-28, for monthly"),
+      }),
+    }),
+
+    outputSchema: z.object({
+      success: z.boolean(),
+      schedule: z.object({
+        id: z.string(),
+        name: z.string(),
+        description: z.string(),
+        nextRunAt: z.string().nullable(),
+      }).passthrough(),
+      message: z.string(),
+    }),
+  },
 ];
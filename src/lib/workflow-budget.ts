@@ -0,0 +1,166 @@
+// lib/workflow-budget.ts
+//
+// Hard caps on what a workflow may spend: LLM tokens, search API calls and
+// wall time spent running (paused or waiting for review does not count).
+//
+// A workflow's `budget` column overrides the defaults for its depth; a cap of
+// 0 or null removes it. The engine checks the caps before it launches a step
+// and before each for_each item, so steps already running finish normally.
+// Once a cap is hit the remaining steps are skipped, the workflow completes
+// with `budgetExceeded` set, and the report is written from what was
+// collected. WORKFLOW_BUDGETS=off turns the caps off.
+
+import { addUsage, emptyUsage, type UsageTotals } from "@/lib/workflow-usage";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export interface WorkflowBudget {
+  /** Input plus output tokens over all LLM calls */
+  maxTokens?: number | null;
+  /** Search API calls over all sources */
+  maxSearchCalls?: number | null;
+  /** Wall time spent running, summed across runs */
+  maxDurationMs?: number | null;
+}
+
+export type BudgetLimit = "tokens" | "search_calls" | "duration";
+
+/** Stored on the workflow when a cap stops the run */
+export interface BudgetExceeded {
+  limit: BudgetLimit;
+  used: number;
+  max: number;
+  message: string;
+  /** Steps that never ran */
+  skippedSteps: number[];
+  at: string;
+}
+
+/** Live spend of a run, shared by its steps (see StepContext.budget) */
+export interface BudgetState {
+  budget: WorkflowBudget;
+  usage: UsageTotals;
+  /** runtimeMs stored before this run started */
+  runtimeBeforeMs: number;
+  startedAt: number;
+}
+
+const MINUTE = 60_000;
+
+export const DEFAULT_BUDGETS: Record<string, Required<WorkflowBudget>> = {
+  quick: { maxTokens: 150_000, maxSearchCalls: 10, maxDurationMs: 10 * MINUTE },
+  standard: { maxTokens: 400_000, maxSearchCalls: 30, maxDurationMs: 30 * MINUTE },
+  deep: { maxTokens: 1_500_000, maxSearchCalls: 100, maxDurationMs: 90 * MINUTE },
+};
+
+export const BUDGET_KEYS: (keyof WorkflowBudget)[] = [
+  "maxTokens",
+  "maxSearchCalls",
+  "maxDurationMs",
+];
+
+// ─────────────────────────────────────────────────────────
+// Resolution
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Check a user-supplied budget; returns an error message or null.
+ * Each cap must be a non-negative number or null.
+ */
+export function validateBudget(value: unknown): string | null {
+  if (value == null) return null;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return "budget must be an object";
+  }
+  for (const [key, cap] of Object.entries(value)) {
+    if (!BUDGET_KEYS.includes(key as keyof WorkflowBudget)) {
+      return `Unknown budget field: ${key}. Allowed: ${BUDGET_KEYS.join(", ")}`;
+    }
+    if (cap !== null && (typeof cap !== "number" || !(cap >= 0))) {
+      return `budget.${key} must be a non-negative number or null`;
+    }
+  }
+  return null;
+}
+
+/** The workflow's own caps over the defaults for its depth */
+export function resolveBudget(workflow: {
+  depth: string;
+  budget?: unknown;
+}): WorkflowBudget {
+  if (process.env.WORKFLOW_BUDGETS === "off") return {};
+  const defaults = DEFAULT_BUDGETS[workflow.depth] ?? DEFAULT_BUDGETS.standard;
+  return { ...defaults, ...((workflow.budget as WorkflowBudget) ?? {}) };
+}
+
+export function createBudgetState(workflow: {
+  depth: string;
+  budget?: unknown;
+  llmCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  searchCalls: unknown;
+  runtimeMs: number;
+}): BudgetState {
+  return {
+    budget: resolveBudget(workflow),
+    usage: addUsage(emptyUsage(), {
+      llmCalls: workflow.llmCalls,
+      inputTokens: workflow.inputTokens,
+      outputTokens: workflow.outputTokens,
+      costUsd: workflow.costUsd,
+      searchCalls: (workflow.searchCalls as Record<string, number>) ?? {},
+    }),
+    runtimeBeforeMs: workflow.runtimeMs,
+    startedAt: Date.now(),
+  };
+}
+
+// ─────────────────────────────────────────────────────────
+// Checking
+// ─────────────────────────────────────────────────────────
+
+export function runtimeMs(state: BudgetState): number {
+  return state.runtimeBeforeMs + (Date.now() - state.startedAt);
+}
+
+const LIMIT_LABELS: Record<BudgetLimit, string> = {
+  tokens: "Token budget",
+  search_calls: "Search call budget",
+  duration: "Time budget",
+};
+
+function formatAmount(limit: BudgetLimit, amount: number): string {
+  if (limit === "duration") return `${Math.round(amount / 1000)}s`;
+  return amount.toLocaleString("en-US");
+}
+
+/** The first cap that has been reached, or null */
+export function checkBudget(
+  state: BudgetState
+): Omit<BudgetExceeded, "skippedSteps" | "at"> | null {
+  const { budget, usage } = state;
+  const spent: Array<[BudgetLimit, number, number | null | undefined]> = [
+    ["tokens", usage.inputTokens + usage.outputTokens, budget.maxTokens],
+    [
+      "search_calls",
+      Object.values(usage.searchCalls).reduce((sum, n) => sum + n, 0),
+      budget.maxSearchCalls,
+    ],
+    ["duration", runtimeMs(state), budget.maxDurationMs],
+  ];
+
+  for (const [limit, used, max] of spent) {
+    if (!max || used < max) continue;
+    return {
+      limit,
+      used,
+      max,
+      message: `${LIMIT_LABELS[limit]} reached (${formatAmount(limit, used)} of ${formatAmount(limit, max)})`,
+    };
+  }
+  return null;
+}
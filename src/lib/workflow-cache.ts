@@ -0,0 +1,212 @@
+// lib/workflow-cache.ts
+//
+// Content-addressed cache for step outputs.
+//
+// A step's cache key is a SHA-256 over its type, its normalized params, the
+// data it reads from earlier steps and whatever else changes its output (the
+// resolved model for AI steps, the depth for fetch_page). Retrying a failed
+// workflow or re-running a template reuses every step whose inputs did not
+// change instead of querying SerpAPI / GitHub or prompting the LLM again.
+//
+// Search results are shared by every user. AI and fetch_page steps also
+// key on the workflow's user, so one user's pages and analyses are never
+// served to another.
+//
+// Entries expire after a TTL chosen by how fast the source changes; set
+// STEP_CACHE_TTL_<SOURCE> (seconds, e.g. STEP_CACHE_TTL_GOOGLE=3600) to
+// override one, 0 to stop caching it. STEP_CACHE=off disables the cache.
+
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+import type { WorkflowStep } from "@/lib/workflow-engine";
+
+// ─────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────
+
+/** Bump to invalidate every entry when step output formats change */
+const CACHE_VERSION = 1;
+
+const HOUR = 3600;
+
+/** Seconds an output stays fresh, by search source or step type */
+const DEFAULT_TTL_SECONDS: Record<string, number> = {
+  google: 6 * HOUR,
+  github: 12 * HOUR,
+  pexels: 24 * HOUR,
+  fetch_page: 24 * HOUR,
+  extract: 7 * 24 * HOUR,
+  analyze: 7 * 24 * HOUR,
+  aggregate: 7 * 24 * HOUR,
+  verify: 6 * HOUR, // may search the web for more evidence
+};
+
+/** Steps worth caching; the others are cheap or depend on the user */
+const CACHEABLE_TYPES = new Set<WorkflowStep["type"]>([
+  "search",
+  "fetch_page",
+  "extract",
+  "analyze",
+  "aggregate",
+  "verify",
+]);
+
+/** Params that change how a step runs, not what it returns */
+const IGNORED_PARAMS = ["concurrency"];
+
+export interface StepCacheKey {
+  key: string;
+  source: string;
+  ttlSeconds: number;
+}
+
+export function isStepCacheEnabled(): boolean {
+  return process.env.STEP_CACHE !== "off";
+}
+
+/** Search source for search steps, the step type otherwise */
+export function cacheSource(step: WorkflowStep): string {
+  if (step.type !== "search") return step.type;
+  const source = step.params.source || "google";
+  return source === "web" ? "google" : source;
+}
+
+export function cacheTtlSeconds(source: string): number {
+  const override = process.env[`STEP_CACHE_TTL_${source.toUpperCase()}`];
+  if (override !== undefined && override !== "") return Number(override) || 0;
+  return DEFAULT_TTL_SECONDS[source] ?? 0;
+}
+
+// ─────────────────────────────────────────────────────────
+// Keys
+// ─────────────────────────────────────────────────────────
+
+/** Sorted keys, no undefined fields, whitespace-normalized strings */
+function normalize(value: unknown): unknown {
+  if (typeof value === "string") return value.trim().replace(/\s+/g, " ");
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((k) => (value as any)[k] !== undefined)
+        .map((k) => [k, normalize((value as any)[k])])
+    );
+  }
+  return value;
+}
+
+function hash(value: unknown): string {
+  return createHash("sha256")
+    .update(JSON.stringify(normalize(value)) ?? "null")
+    .digest("hex");
+}
+
+function normalizeParams(step: WorkflowStep): Record<string, unknown> {
+  const params: Record<string, any> = { ...step.params };
+  IGNORED_PARAMS.forEach((key) => delete params[key]);
+  if (step.type === "search") {
+    params.source = cacheSource(step);
+    if (typeof params.query === "string") params.query = params.query.toLowerCase();
+  }
+  return params;
+}
+
+/** The upstream data a step's handler reads */
+function upstreamData(step: WorkflowStep, previousResults: any[]): unknown[] {
+  if (step.type === "search") return [];
+  // Claims come from fromSteps, evidence from every other earlier step
+  if (step.type === "verify") return previousResults.map((r) => r?.data ?? null);
+
+  const { fromStep, fromSteps } = step.params;
+  if (typeof fromStep === "number") return [previousResults[fromStep]?.data ?? null];
+  if (Array.isArray(fromSteps) && fromSteps.length > 0) {
+    return fromSteps.map((idx: number) => previousResults[idx]?.data ?? null);
+  }
+  return previousResults.map((r) => r?.data ?? null);
+}
+
+/**
+ * Cache key for a step, or null when the step type is not cached (review,
+ * branch, for_each, generate_report), its source has a TTL of 0 or the
+ * cache is off. `context` holds anything else that changes the output.
+ */
+export function stepCacheKey(
+  step: WorkflowStep,
+  previousResults: any[],
+  context: Record<string, unknown> = {}
+): StepCacheKey | null {
+  if (!isStepCacheEnabled() || !CACHEABLE_TYPES.has(step.type)) return null;
+
+  const source = cacheSource(step);
+  const ttlSeconds = cacheTtlSeconds(source);
+  if (ttlSeconds <= 0) return null;
+
+  const key = hash({
+    version: CACHE_VERSION,
+    type: step.type,
+    params: normalizeParams(step),
+    inputs: hash(upstreamData(step, previousResults)),
+    context,
+  });
+
+  return { key, source, ttlSeconds };
+}
+
+// ─────────────────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────────────────
+
+/** Fresh cached output for `key`, or null. Never throws. */
+export async function readStepCache(key: string): Promise<unknown | null> {
+  try {
+    const entry = await prisma.stepCache.findUnique({ where: { key } });
+    if (!entry || entry.expiresAt <= new Date()) return null;
+
+    await prisma.stepCache.update({
+      where: { key },
+      data: { hits: { increment: 1 }, lastHitAt: new Date() },
+    });
+    return entry.output;
+  } catch (error: any) {
+    console.error("⚠️ Step cache read failed:", error.message);
+    return null;
+  }
+}
+
+/** Store a step output; a failed write only loses the cache entry */
+export async function writeStepCache(
+  cacheKey: StepCacheKey,
+  step: WorkflowStep,
+  output: unknown
+): Promise<void> {
+  if (output == null) return;
+  // An empty search is more often a quota or key problem than a real answer
+  if (step.type === "search" && (output as any).totalResults === 0) return;
+
+  const expiresAt = new Date(Date.now() + cacheKey.ttlSeconds * 1000);
+  const data = {
+    stepType: step.type,
+    source: cacheKey.source,
+    output: output as any,
+    expiresAt,
+  };
+
+  try {
+    await prisma.stepCache.upsert({
+      where: { key: cacheKey.key },
+      create: { key: cacheKey.key, ...data },
+      update: { ...data, createdAt: new Date(), hits: 0, lastHitAt: null },
+    });
+  } catch (error: any) {
+    console.error("⚠️ Step cache write failed:", error.message);
+  }
+}
+
+/** Delete expired entries; returns how many were removed */
+export async function purgeExpiredStepCache(): Promise<number> {
+  const { count } = await prisma.stepCache.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return count;
+}
@@ -0,0 +1,294 @@
+// lib/workflow-chunking.ts
+//
+// Map-reduce support for AI steps whose input does not fit in one prompt.
+//
+// Step data is flattened into items (search results, fetched pages,
+// extracted rows...), items are packed into token-budgeted chunks, the step
+// prompt runs once per chunk (map) and the partial outputs are merged
+// (reduce). When there are more partial outputs than one merge prompt
+// should take, they are merged in groups and the merged groups merged
+// again (reduceInGroups). Every chunked step records a Coverage object so
+// the UI and the report can tell how much of the input the model actually
+// saw.
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export interface ChunkOptions {
+  /** Token budget for the data in one prompt (defaults to AI_CHUNK_TOKENS) */
+  chunkTokens?: number;
+  /**
+   * Chunks processed at most; later items are skipped (AI_MAX_CHUNKS).
+   * Unset, every chunk is processed.
+   */
+  maxChunks?: number;
+}
+
+/** How much of a step's input reached the model */
+export type Coverage = {
+  totalItems: number;
+  coveredItems: number;
+  /** Items larger than a chunk, split into parts */
+  splitItems: number;
+  /** Items left out because maxChunks was reached */
+  skippedItems: number;
+  chunks: number;
+  inputTokens: number;
+  coveredTokens: number;
+  complete: boolean;
+};
+
+export const DEFAULT_CHUNK_TOKENS = Number(process.env.AI_CHUNK_TOKENS ?? 3000);
+export const DEFAULT_MAX_CHUNKS = Number(process.env.AI_MAX_CHUNKS ?? Infinity);
+export const MERGE_GROUP_SIZE = Math.max(2, Number(process.env.AI_MERGE_GROUP_SIZE ?? 8));
+export const CHUNK_CONCURRENCY = Number(process.env.AI_CHUNK_CONCURRENCY ?? 3);
+
+// ─────────────────────────────────────────────────────────
+// Sizing
+// ─────────────────────────────────────────────────────────
+
+/** Rough token count (~4 characters per token for English and JSON) */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function itemTokens(item: unknown): number {
+  return estimateTokens(JSON.stringify(item, null, 2) ?? "");
+}
+
+const LIST_KEYS = [
+  "results",
+  "pages",
+  "extracted",
+  "findings",
+  "aggregatedData",
+  "items",
+  "claims",
+];
+
+/** Name of the list field in a step's output (results, pages...), if any */
+export function stepListKey(data: any): string | undefined {
+  if (data == null || typeof data !== "object" || Array.isArray(data)) {
+    return undefined;
+  }
+  return LIST_KEYS.find((k) => Array.isArray(data[k]));
+}
+
+/** Short display name for a list item (title, name, URL...) */
+export function itemLabel(item: any, labelField?: string): string {
+  if (item == null || typeof item !== "object") return String(item);
+  const label =
+    (labelField && item[labelField]) ||
+    item.title ||
+    item.name ||
+    item.fullName ||
+    item.full_name ||
+    item.label ||
+    item.claim ||
+    item.url ||
+    item.link;
+  return typeof label === "string" && label
+    ? label
+    : JSON.stringify(item).slice(0, 120);
+}
+
+/**
+ * Split a step's output into items: the entries of its list field (search
+ * results, fetched pages, extracted rows, findings, merged or collection
+ * items), preceded by the remaining fields (query, summary...) as one
+ * context item. Anything without a list field is a single item.
+ */
+export function flattenStepData(data: any): unknown[] {
+  if (data == null) return [];
+  if (Array.isArray(data)) return data;
+  if (typeof data !== "object") return [data];
+
+  const key = stepListKey(data);
+  if (!key) return [data];
+
+  const { [key]: list, ...context } = data;
+  return Object.keys(context).length > 0 ? [context, ...list] : list;
+}
+
+// ─────────────────────────────────────────────────────────
+// Chunking
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Pack items into chunks of at most `chunkTokens`, keeping their order.
+ * An item bigger than a whole chunk is split on its longest string field
+ * (e.g. a fetched page's text) into numbered parts.
+ */
+export function chunkItems(
+  items: unknown[],
+  options: ChunkOptions = {}
+): { chunks: unknown[][]; coverage: Coverage } {
+  const budget = Math.max(200, options.chunkTokens ?? DEFAULT_CHUNK_TOKENS);
+  const maxChunks = Math.max(1, options.maxChunks ?? DEFAULT_MAX_CHUNKS);
+
+  const chunks: unknown[][] = [];
+  let current: unknown[] = [];
+  let currentTokens = 0;
+  let splitItems = 0;
+  let inputTokens = 0;
+
+  for (const item of items) {
+    const tokens = itemTokens(item);
+    inputTokens += tokens;
+
+    const parts = tokens > budget ? splitItem(item, budget) : [item];
+    if (parts.length > 1) splitItems++;
+
+    for (const part of parts) {
+      const partTokens = parts.length > 1 ? itemTokens(part) : tokens;
+      if (current.length > 0 && currentTokens + partTokens > budget) {
+        chunks.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(part);
+      currentTokens += partTokens;
+    }
+  }
+  if (current.length > 0) chunks.push(current);
+
+  const kept = chunks.slice(0, maxChunks);
+  const skipped = chunks.slice(maxChunks);
+
+  // An item split across the cut-off counts as covered only if all of it was
+  const skippedItems = new Set(skipped.flat().map(sourceOf)).size;
+  const coveredTokens = kept
+    .flat()
+    .reduce<number>((sum, part) => sum + itemTokens(part), 0);
+
+  return {
+    chunks: kept,
+    coverage: {
+      totalItems: items.length,
+      coveredItems: items.length - skippedItems,
+      splitItems,
+      skippedItems,
+      chunks: kept.length,
+      inputTokens,
+      coveredTokens: Math.min(coveredTokens, inputTokens),
+      complete: skipped.length === 0,
+    },
+  };
+}
+
+/** Parts of one item share the original object as their source */
+const partSources = new WeakMap<object, unknown>();
+
+function sourceOf(part: unknown): unknown {
+  return (typeof part === "object" && part && partSources.get(part)) || part;
+}
+
+function splitItem(item: unknown, budget: number): unknown[] {
+  const charsPerPart = budget * 4;
+
+  const field =
+    item && typeof item === "object" && !Array.isArray(item)
+      ? Object.entries(item as Record<string, unknown>)
+          .filter(([, value]) => typeof value === "string")
+          .sort(([, a], [, b]) => (b as string).length - (a as string).length)[0]
+      : undefined;
+
+  // Split the dominant string field, keeping the other fields on every part
+  const [key, value] = (field ?? []) as [string?, string?];
+  if (key && value && value.length * 2 > JSON.stringify(item).length) {
+    const overhead = itemTokens({ ...(item as object), [key]: "" }) * 4;
+    const size = Math.max(500, charsPerPart - overhead);
+    const pieces = splitText(value, size);
+    return pieces.map((piece, i) =>
+      tagPart(item, {
+        ...(item as object),
+        [key]: piece,
+        part: `${i + 1}/${pieces.length}`,
+      })
+    );
+  }
+
+  // No single large field — split the serialized item
+  const pieces = splitText(JSON.stringify(item), charsPerPart);
+  return pieces.map((piece, i) =>
+    tagPart(item, { fragment: piece, part: `${i + 1}/${pieces.length}` })
+  );
+}
+
+function tagPart(source: unknown, part: object): object {
+  partSources.set(part, source);
+  return part;
+}
+
+/** Split on paragraph or sentence boundaries where possible */
+function splitText(text: string, size: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > size) {
+    const window = rest.slice(0, size);
+    const cut = Math.max(window.lastIndexOf("\n"), window.lastIndexOf(". ") + 1);
+    const end = cut > size / 2 ? cut : size;
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end);
+  }
+  if (rest.trim()) pieces.push(rest.trim());
+
+  return pieces;
+}
+
+// ─────────────────────────────────────────────────────────
+// Reduce
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Multi-level reduce: merge the partial outputs in groups of at most
+ * `groupSize`, then merge the merged groups, until no more than `target`
+ * remain. A group of one is passed on without a merge call.
+ */
+export async function reduceInGroups<T>(
+  partials: T[],
+  merge: (group: T[], level: number) => Promise<T>,
+  { groupSize = MERGE_GROUP_SIZE, target = 1 } = {}
+): Promise<T[]> {
+  const size = Math.max(2, groupSize);
+  let level = partials;
+
+  for (let depth = 1; level.length > Math.max(1, target); depth++) {
+    const groups: T[][] = [];
+    for (let i = 0; i < level.length; i += size) {
+      groups.push(level.slice(i, i + size));
+    }
+    level = await mapWithConcurrency(groups, CHUNK_CONCURRENCY, (group) =>
+      group.length === 1 ? Promise.resolve(group[0]) : merge(group, depth)
+    );
+  }
+
+  return level;
+}
+
+// ─────────────────────────────────────────────────────────
+// Concurrency helper
+// ─────────────────────────────────────────────────────────
+
+/** Like Promise.all over `items.map(fn)`, with at most `limit` in flight */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const poolSize = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: poolSize }, worker));
+  return results;
+}
@@ -0,0 +1,262 @@
+// lib/workflow-citations.ts
+//
+// Source citations for generated reports.
+//
+// Before synthesis every result item with a URL (search results, fetched
+// pages, repos, photos, extracted rows that kept their link) becomes a
+// numbered source, and the copy of the results the report prompt sees
+// gets a matching `ref` field on each such item. The report cites those
+// numbers: `citations` on a section, `itemCitations` per list item and
+// `rowCitations` per table row (see ReportSectionSchema).
+//
+// After synthesis applyCitations() drops numbers that name no source and
+// renumbers the rest 1..n in order of first citation; those are the
+// footnote numbers DynamicReport shows. The bibliography stored in
+// Report.sourceData lists the cited sources under their footnote numbers,
+// followed by the sources that were collected but not cited.
+
+import type { ReportSection } from "@/lib/workflow-schemas";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export type ReportSource = {
+  /** Footnote number once applyCitations() has run; ref number before */
+  id: number;
+  url: string;
+  title: string;
+  /** Step whose output the source came from */
+  stepIndex: number;
+  /** Hostname, e.g. "github.com" */
+  site: string;
+  cited: boolean;
+};
+
+/** Sources numbered per report; beyond this the rest are left unnumbered */
+const MAX_SOURCES = Number(process.env.REPORT_MAX_SOURCES ?? 200);
+
+/** How deep into nested outputs (for_each items, sub-step data) to look */
+const MAX_DEPTH = 6;
+
+// ─────────────────────────────────────────────────────────
+// Collecting
+// ─────────────────────────────────────────────────────────
+
+function itemUrl(item: Record<string, any>): string | null {
+  const url = item.url || item.link;
+  return typeof url === "string" && /^https?:\/\//i.test(url) ? url : null;
+}
+
+/** Same page regardless of trailing slash, fragment or case of the host */
+function urlKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.toString().replace(/\/$/, "");
+  } catch {
+    return url;
+  }
+}
+
+function siteOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+function sourceTitle(item: Record<string, any>, url: string): string {
+  const title =
+    item.title || item.name || item.fullName || item.full_name || item.alt;
+  return typeof title === "string" && title.trim() ? title.trim() : url;
+}
+
+/** Visit every object in a step output that may be a source, in order */
+function walkItems(
+  value: unknown,
+  visit: (item: Record<string, any>) => void,
+  depth = 0
+): void {
+  if (depth > MAX_DEPTH || value == null || typeof value !== "object") return;
+  if (Array.isArray(value)) {
+    value.forEach((entry) => walkItems(entry, visit, depth + 1));
+    return;
+  }
+  visit(value as Record<string, any>);
+  Object.values(value).forEach((entry) => walkItems(entry, visit, depth + 1));
+}
+
+/**
+ * Number every distinct URL in the workflow results, in step order.
+ * `results` is the Workflow.results array ({ stepIndex, data } per step).
+ */
+export function collectSources(results: any[]): ReportSource[] {
+  const sources: ReportSource[] = [];
+  const seen = new Set<string>();
+
+  (results || []).forEach((result, index) => {
+    if (!result || result.skipped) return;
+    const stepIndex = typeof result.stepIndex === "number" ? result.stepIndex : index;
+    walkItems(result.data, (item) => {
+      const url = itemUrl(item);
+      if (!url || sources.length >= MAX_SOURCES) return;
+      const key = urlKey(url);
+      if (seen.has(key)) return;
+      seen.add(key);
+      sources.push({
+        id: sources.length + 1,
+        url,
+        title: sourceTitle(item, url),
+        stepIndex,
+        site: siteOf(url),
+        cited: false,
+      });
+    });
+  });
+
+  return sources;
+}
+
+/** A copy of the results with `ref` set on every item that is a source */
+export function annotateSources<T>(results: T, sources: ReportSource[]): T {
+  const refs = new Map(sources.map((s) => [urlKey(s.url), s.id]));
+
+  const annotate = (value: unknown, depth: number): unknown => {
+    if (depth > MAX_DEPTH || value == null || typeof value !== "object") return value;
+    if (Array.isArray(value)) return value.map((entry) => annotate(entry, depth + 1));
+
+    const copy: Record<string, unknown> = {};
+    const url = itemUrl(value as Record<string, any>);
+    const ref = url ? refs.get(urlKey(url)) : undefined;
+    if (ref !== undefined) copy.ref = ref;
+    for (const [key, entry] of Object.entries(value)) {
+      if (key === "ref" && ref !== undefined) continue;
+      copy[key] = annotate(entry, depth + 1);
+    }
+    return copy;
+  };
+
+  return annotate(results, 0) as T;
+}
+
+/** Number of the source at `url`, if it was collected */
+export function sourceRef(sources: ReportSource[], url: string): number | undefined {
+  const key = urlKey(url);
+  return sources.find((s) => urlKey(s.url) === key)?.id;
+}
+
+// ─────────────────────────────────────────────────────────
+// Applying
+// ─────────────────────────────────────────────────────────
+
+/** Inline markers like "[3]" or "[2, 5]" that models add despite the rules */
+const INLINE_MARKER = /[ \t]*\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+function takeInlineMarkers(text: string, known: Set<number>): { text: string; refs: number[] } {
+  const refs: number[] = [];
+  const stripped = text.replace(INLINE_MARKER, (marker, list: string) => {
+    const numbers = list.split(",").map((n) => Number(n.trim()));
+    if (!numbers.every((n) => known.has(n))) return marker;
+    refs.push(...numbers);
+    return "";
+  });
+  return { text: stripped, refs };
+}
+
+function refList(value: unknown): number[] {
+  return Array.isArray(value)
+    ? value.map(Number).filter((n) => Number.isInteger(n))
+    : [];
+}
+
+/**
+ * Validate and renumber the report's citations against the collected
+ * sources, and build the bibliography for Report.sourceData
+ */
+export function applyCitations(
+  sections: ReportSection[],
+  sources: ReportSource[]
+): { sections: ReportSection[]; bibliography: ReportSource[] } {
+  const known = new Set(sources.map((s) => s.id));
+  const footnotes = new Map<number, number>();
+
+  const cite = (refs: number[]): number[] => {
+    const numbers = [...new Set(refs.filter((ref) => known.has(ref)))].map((ref) => {
+      if (!footnotes.has(ref)) footnotes.set(ref, footnotes.size + 1);
+      return footnotes.get(ref)!;
+    });
+    return numbers.sort((a, b) => a - b);
+  };
+  /** Per-entry lists aligned with `count` entries; undefined when none cite */
+  const citeEach = (lists: unknown, count: number): number[][] | undefined => {
+    const each = Array.from({ length: count }, (_, i) =>
+      cite(refList(Array.isArray(lists) ? lists[i] : undefined))
+    );
+    return each.some((list) => list.length > 0) ? each : undefined;
+  };
+
+  const cited = sections.map((section): ReportSection => {
+    const own = refList(section.citations);
+
+    switch (section.type) {
+      case "text": {
+        const inline = takeInlineMarkers(section.content, known);
+        const citations = cite([...own, ...inline.refs]);
+        return {
+          ...section,
+          content: inline.text.trim() || section.content,
+          citations: citations.length > 0 ? citations : undefined,
+        };
+      }
+      case "list": {
+        const citations = cite(own);
+        const inline = section.content.items.map((item) => takeInlineMarkers(item, known));
+        const itemCitations = citeEach(
+          inline.map((entry, i) => [
+            ...refList(section.content.itemCitations?.[i]),
+            ...entry.refs,
+          ]),
+          inline.length
+        );
+        return {
+          ...section,
+          citations: citations.length > 0 ? citations : undefined,
+          content: {
+            ...section.content,
+            items: inline.map((entry, i) => entry.text.trim() || section.content.items[i]),
+            itemCitations,
+          },
+        };
+      }
+      case "table": {
+        const citations = cite(own);
+        return {
+          ...section,
+          citations: citations.length > 0 ? citations : undefined,
+          content: {
+            ...section.content,
+            rowCitations: citeEach(section.content.rowCitations, section.content.rows.length),
+          },
+        };
+      }
+      default: {
+        const citations = cite(own);
+        return { ...section, citations: citations.length > 0 ? citations : undefined };
+      }
+    }
+  });
+
+  // Cited sources first, under their footnote numbers, then the rest
+  const uncited = sources.filter((s) => !footnotes.has(s.id));
+  const bibliography = [
+    ...sources
+      .filter((s) => footnotes.has(s.id))
+      .map((s) => ({ ...s, id: footnotes.get(s.id)!, cited: true }))
+      .sort((a, b) => a.id - b.id),
+    ...uncited.map((s, i) => ({ ...s, id: footnotes.size + i + 1, cited: false })),
+  ];
+
+  return { sections: cited, bibliography };
+}
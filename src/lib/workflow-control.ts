@@ -0,0 +1,316 @@
+// lib/workflow-control.ts
+//
+// Control-flow steps for adaptive plans: "branch" and "for_each".
+//
+// branch   — tests a condition against an earlier step's output and keeps
+//            either its `then` or its `else` steps. The steps on the other
+//            side are skipped (stored as { skipped: true } results), and so
+//            is any later step that only reads skipped steps. Branch targets
+//            come after the branch and wait for its decision.
+//
+// for_each — runs a small sub-pipeline (`steps`) once per item of an earlier
+//            step's list. `{{item}}` and `{{item.field}}` placeholders in the
+//            sub-steps are filled in per item, and a sub-step's fromStep /
+//            fromSteps point at earlier sub-steps of the same item. Every
+//            sub-step run is its own WorkflowExecution row (itemIndex,
+//            subStepIndex); the engine runs them (executeForEachStep).
+
+import type { WorkflowStep } from "@/lib/workflow-engine";
+import { itemLabel, stepListKey } from "@/lib/workflow-chunking";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export const CONDITION_OPS = [
+  "lt",
+  "lte",
+  "gt",
+  "gte",
+  "eq",
+  "ne",
+  "exists",
+  "empty",
+  "contains",
+] as const;
+
+export type ConditionOp = (typeof CONDITION_OPS)[number];
+
+/** Operators that compare against `value` */
+export const VALUE_OPS: ConditionOp[] = ["lt", "lte", "gt", "gte", "eq", "ne", "contains"];
+
+/** Symbols and spellings models use for the operators */
+export const CONDITION_OP_ALIASES: Record<string, ConditionOp> = {
+  "<": "lt",
+  "<=": "lte",
+  ">": "gt",
+  ">=": "gte",
+  "=": "eq",
+  "==": "eq",
+  "===": "eq",
+  "!=": "ne",
+  "!==": "ne",
+  neq: "ne",
+  equals: "eq",
+  includes: "contains",
+};
+
+export interface BranchCondition {
+  /**
+   * Dotted path into the step output, e.g. "totalResults" or
+   * "results.0.stars". Omitted (or "count"): the number of items in the
+   * output's list (results, pages, extracted...).
+   */
+  path?: string;
+  op: ConditionOp;
+  value?: unknown;
+}
+
+/** Output of a branch step */
+export interface BranchOutcome {
+  condition: string;
+  actual: unknown;
+  matched: boolean;
+  taken: "then" | "else";
+  /** Steps skipped because they are on the other side */
+  skipped: number[];
+}
+
+/** Step types a for_each body may contain */
+export const SUB_STEP_TYPES: WorkflowStep["type"][] = [
+  "search",
+  "fetch_page",
+  "extract",
+  "analyze",
+  "aggregate",
+];
+
+export const DEFAULT_FOR_EACH_ITEMS = 5;
+
+export interface ForEachEntry {
+  /** Position in the source step's list */
+  index: number;
+  item: unknown;
+  label: string;
+}
+
+// ─────────────────────────────────────────────────────────
+// Reading step output
+// ─────────────────────────────────────────────────────────
+
+function getPath(data: any, path: string): unknown {
+  return path
+    .split(".")
+    .filter(Boolean)
+    .reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+/** The value a condition tests: an item count or a field at `path` */
+export function readConditionValue(data: any, path?: string): unknown {
+  if (!path || path === "count") {
+    if (Array.isArray(data)) return data.length;
+    const key = stepListKey(data);
+    return key ? data[key].length : 0;
+  }
+  return getPath(data, path);
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value == null || value === "" || value === 0) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "object") return Object.keys(value).length === 0;
+  return false;
+}
+
+function contains(actual: unknown, value: unknown): boolean {
+  const needle = String(value).toLowerCase();
+  if (Array.isArray(actual)) {
+    return actual.some((entry) =>
+      (typeof entry === "object" ? JSON.stringify(entry) : String(entry))
+        .toLowerCase()
+        .includes(needle)
+    );
+  }
+  return typeof actual === "string" && actual.toLowerCase().includes(needle);
+}
+
+export function evaluateCondition(
+  condition: BranchCondition,
+  data: any
+): { actual: unknown; matched: boolean } {
+  const actual = readConditionValue(data, condition.path);
+  const { value } = condition;
+  const a = Number(actual);
+  const b = Number(value);
+  const numeric = actual != null && !Number.isNaN(a) && !Number.isNaN(b);
+
+  let matched: boolean;
+  switch (condition.op) {
+    case "lt":
+      matched = numeric && a < b;
+      break;
+    case "lte":
+      matched = numeric && a <= b;
+      break;
+    case "gt":
+      matched = numeric && a > b;
+      break;
+    case "gte":
+      matched = numeric && a >= b;
+      break;
+    case "eq":
+      matched = actual === value || String(actual) === String(value);
+      break;
+    case "ne":
+      matched = !(actual === value || String(actual) === String(value));
+      break;
+    case "exists":
+      matched = actual != null;
+      break;
+    case "empty":
+      matched = isEmpty(actual);
+      break;
+    case "contains":
+      matched = contains(actual, value);
+      break;
+    default:
+      throw new Error(`Unknown condition operator: ${(condition as any).op}`);
+  }
+
+  return { actual, matched };
+}
+
+// ─────────────────────────────────────────────────────────
+// Branch
+// ─────────────────────────────────────────────────────────
+
+/** The step indices on each side of a branch step */
+export function branchTargets(step: WorkflowStep): {
+  then: number[];
+  else: number[];
+} {
+  const list = (value: unknown) =>
+    Array.isArray(value)
+      ? value.filter((idx): idx is number => typeof idx === "number")
+      : [];
+  return { then: list(step.params.then), else: list(step.params.else) };
+}
+
+/** e.g. "item count of step 1 < 5" */
+export function describeCondition(step: WorkflowStep): string {
+  const { fromStep, condition = {} } = step.params;
+  const subject =
+    !condition.path || condition.path === "count"
+      ? `item count of step ${fromStep + 1}`
+      : `step ${fromStep + 1} ${condition.path}`;
+  const symbols: Record<string, string> = {
+    lt: "<",
+    lte: "<=",
+    gt: ">",
+    gte: ">=",
+    eq: "=",
+    ne: "≠",
+  };
+  const op = symbols[condition.op] ?? condition.op;
+  return VALUE_OPS.includes(condition.op)
+    ? `${subject} ${op} ${JSON.stringify(condition.value)}`
+    : `${subject} ${op}`;
+}
+
+export function evaluateBranch(
+  step: WorkflowStep,
+  previousResults: any[]
+): BranchOutcome {
+  const { fromStep, condition } = step.params;
+  const source = previousResults[fromStep];
+  if (!source) {
+    throw new Error(`Step ${fromStep + 1} has no output to test`);
+  }
+
+  const { actual, matched } = evaluateCondition(condition, source.data);
+  const targets = branchTargets(step);
+
+  return {
+    condition: describeCondition(step),
+    actual,
+    matched,
+    taken: matched ? "then" : "else",
+    skipped: matched ? targets.else : targets.then,
+  };
+}
+
+// ─────────────────────────────────────────────────────────
+// For each
+// ─────────────────────────────────────────────────────────
+
+/** The items a for_each step loops over, capped at maxItems */
+export function forEachItems(
+  step: WorkflowStep,
+  previousResults: any[]
+): ForEachEntry[] {
+  const { fromStep, maxItems = DEFAULT_FOR_EACH_ITEMS, labelField } = step.params;
+  const data = previousResults[fromStep]?.data;
+  const key = stepListKey(data);
+  const list: unknown[] | undefined = Array.isArray(data)
+    ? data
+    : key
+      ? data[key]
+      : undefined;
+
+  if (!list) {
+    throw new Error(`Step ${fromStep + 1} has no list of items to loop over`);
+  }
+
+  return list.slice(0, maxItems).map((item, index) => ({
+    index,
+    item,
+    label: itemLabel(item, labelField),
+  }));
+}
+
+const PLACEHOLDER = /\{\{\s*item(?:\.([\w.]+))?\s*\}\}/g;
+
+function fill<T>(value: T, entry: ForEachEntry): T {
+  if (typeof value === "string") {
+    return value.replace(PLACEHOLDER, (_, path?: string) => {
+      if (!path) return entry.label;
+      const field = getPath(entry.item, path);
+      if (field == null) return "";
+      return typeof field === "object" ? JSON.stringify(field) : String(field);
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => fill(v, entry)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, fill(v, entry)])
+    ) as T;
+  }
+  return value;
+}
+
+/** The for_each body for one item, with placeholders filled in */
+export function expandSubSteps(
+  step: WorkflowStep,
+  entry: ForEachEntry
+): WorkflowStep[] {
+  const body: any[] = Array.isArray(step.params.steps) ? step.params.steps : [];
+
+  return body.map((sub, j) => {
+    if (!SUB_STEP_TYPES.includes(sub?.type)) {
+      throw new Error(`for_each cannot run a "${sub?.type}" sub-step`);
+    }
+    return {
+      index: j,
+      type: sub.type,
+      title: fill(sub.title || sub.type, entry),
+      description: fill(sub.description || "", entry),
+      params: fill(sub.params || {}, entry),
+      dependsOn: [],
+      llm: sub.llm ?? step.llm,
+      retry: sub.retry,
+      timeoutMs: sub.timeoutMs,
+    };
+  });
+}
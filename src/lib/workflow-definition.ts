@@ -0,0 +1,272 @@
+// lib/workflow-definition.ts
+//
+// Portable workflow definitions: a workflow's plan or a saved template as a
+// JSON or YAML document that can be shared or kept in git, then imported
+// again (GET .../export, POST /api/workflows/import).
+//
+// Documents carry `version`. Readers accept every version up to
+// DEFINITION_VERSION; a change to the format bumps it and adds an upgrade
+// step in readDefinition() so older files keep importing. Only the plan and
+// its settings are exported, never results, usage or ids.
+//
+//   version: 1
+//   kind: workflow            # or "template"
+//   name: Rust web frameworks Comparison
+//   goal: Compare the top 5 Rust web frameworks
+//   sources: [google, github]
+//   depth: standard
+//   outputFormat: comparison
+//   steps:
+//     - type: search
+//       title: Search GitHub for Rust web frameworks
+//       params: { source: github, query: Rust web frameworks, num: 10 }
+//   template:                 # kind: template only
+//     title: "{{topic}} Comparison"
+//     parameters: [{ name: topic }, { name: num, default: 10 }]
+//     examples: ["Compare the top 5 {topic}"]
+
+import yaml from "js-yaml";
+import { z } from "zod";
+import type { UserTemplate, Workflow } from "@/generated/prisma/client";
+import type { WorkflowStep } from "@/lib/workflow-engine";
+import { WorkflowStepSchema } from "@/lib/workflow-schemas";
+import { formatPlanIssues, validatePlan } from "@/lib/workflow-validation";
+import { validateBudget } from "@/lib/workflow-budget";
+import { LLM_PROVIDER_IDS } from "@/lib/llm-providers";
+import { PROMPT_VERSIONS, isPromptVersion } from "@/lib/workflow-prompts";
+import {
+  fillPlaceholders,
+  placeholderNames,
+  type TemplateParameter,
+} from "@/lib/workflow-user-templates";
+
+// ─────────────────────────────────────────────────────────
+// Schema
+// ─────────────────────────────────────────────────────────
+
+export const DEFINITION_VERSION = 1;
+
+export type DefinitionFormat = "json" | "yaml";
+
+/** Steps are numbered by position, so `index` may be left out */
+const DefinitionStepSchema = WorkflowStepSchema.extend({
+  index: z.coerce.number().int().nonnegative().optional(),
+});
+
+const ParameterSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z_]\w*$/, "must be a placeholder name"),
+  default: z.union([z.string(), z.number()]).nullable().optional(),
+});
+
+export const WorkflowDefinitionSchema = z.object({
+  version: z.coerce.number().int().positive(),
+  kind: z.enum(["workflow", "template"]).default("workflow"),
+  name: z.string().min(1),
+  description: z.string().nullable().optional(),
+  goal: z.string().nullable().optional(),
+  sources: z.array(z.string()).default(["google"]),
+  depth: z.enum(["quick", "standard", "deep"]).default("standard"),
+  outputFormat: z.string().default("summary"),
+  llm: z
+    .object({ provider: z.string(), model: z.string().nullable().optional() })
+    .nullable()
+    .optional(),
+  promptVersion: z.string().nullable().optional(),
+  budget: z.record(z.string(), z.number().nullable()).nullable().optional(),
+  steps: z.array(DefinitionStepSchema).min(1, "steps must not be empty"),
+  template: z
+    .object({
+      title: z.string().min(1),
+      parameters: z.array(ParameterSchema).default([]),
+      patterns: z.array(z.string()).default([]),
+      keywords: z.array(z.string()).default([]),
+      examples: z.array(z.string()).default([]),
+    })
+    .optional(),
+});
+
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+
+export interface DefinitionResult {
+  definition: WorkflowDefinition | null;
+  errors: string[];
+  warnings: string[];
+}
+
+// ─────────────────────────────────────────────────────────
+// Export
+// ─────────────────────────────────────────────────────────
+
+/** The plan fields of a step, without runtime state */
+function exportStep(step: WorkflowStep) {
+  const { index, type, title, description, params, dependsOn, llm, retry, timeoutMs } =
+    step as WorkflowStep & Record<string, any>;
+  return {
+    index,
+    type,
+    title,
+    description,
+    params,
+    dependsOn,
+    ...(llm && { llm }),
+    ...(retry && { retry }),
+    ...(timeoutMs && { timeoutMs }),
+  };
+}
+
+export function workflowToDefinition(workflow: Workflow): WorkflowDefinition {
+  return {
+    version: DEFINITION_VERSION,
+    kind: "workflow",
+    name: workflow.title,
+    description: workflow.description,
+    goal: workflow.query,
+    sources: workflow.sources,
+    depth: workflow.depth as WorkflowDefinition["depth"],
+    outputFormat: workflow.outputFormat,
+    ...(workflow.llmProvider && {
+      llm: { provider: workflow.llmProvider, model: workflow.llmModel },
+    }),
+    ...(workflow.promptVersion && { promptVersion: workflow.promptVersion }),
+    ...(workflow.budget != null && {
+      budget: workflow.budget as WorkflowDefinition["budget"],
+    }),
+    steps: ((workflow.steps as unknown as WorkflowStep[]) || []).map(exportStep),
+  };
+}
+
+export function templateToDefinition(template: UserTemplate): WorkflowDefinition {
+  return {
+    version: DEFINITION_VERSION,
+    kind: "template",
+    name: template.name,
+    description: template.description,
+    sources: template.defaultSources,
+    depth: "standard",
+    outputFormat: template.defaultFormat,
+    steps: ((template.steps as unknown as WorkflowStep[]) || []).map(exportStep),
+    template: {
+      title: template.titleTemplate,
+      parameters: (template.parameters as unknown as TemplateParameter[]) || [],
+      patterns: template.patterns,
+      keywords: template.keywords,
+      examples: template.examples,
+    },
+  };
+}
+
+export function serializeDefinition(
+  definition: WorkflowDefinition,
+  format: DefinitionFormat
+): string {
+  // Round-trip through JSON drops undefined fields js-yaml would reject
+  const plain = JSON.parse(JSON.stringify(definition));
+  return format === "yaml"
+    ? yaml.dump(plain, { lineWidth: 100, noRefs: true })
+    : JSON.stringify(plain, null, 2) + "\n";
+}
+
+/** Filename for a download, e.g. "rust-web-frameworks.workflow.yaml" */
+export function definitionFilename(
+  definition: WorkflowDefinition,
+  format: DefinitionFormat
+): string {
+  const slug =
+    definition.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "workflow";
+  return `${slug}.${definition.kind}.${format === "yaml" ? "yaml" : "json"}`;
+}
+
+// ─────────────────────────────────────────────────────────
+// Import
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Parse and validate a JSON or YAML document. JSON is valid YAML, so one
+ * parser reads both. Steps are renumbered by position and checked like any
+ * other plan; a template's steps are checked with its placeholders filled
+ * from the defaults (or sample values).
+ */
+export function readDefinition(input: string | object): DefinitionResult {
+  const fail = (...errors: string[]): DefinitionResult => ({
+    definition: null,
+    errors,
+    warnings: [],
+  });
+
+  let raw: unknown = input;
+  if (typeof input === "string") {
+    try {
+      raw = yaml.load(input, { schema: yaml.JSON_SCHEMA });
+    } catch (error: any) {
+      return fail(`Not valid JSON or YAML: ${error.reason || error.message}`);
+    }
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return fail("The document must be an object with version, name and steps");
+  }
+
+  const version = Number((raw as any).version);
+  if (!version) return fail("Missing version");
+  if (version > DEFINITION_VERSION) {
+    return fail(
+      `Unsupported definition version ${version}; this app reads up to version ${DEFINITION_VERSION}`
+    );
+  }
+
+  const parsed = WorkflowDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    return fail(
+      ...parsed.error.issues.map(
+        (issue) => `${issue.path.join(".") || "document"}: ${issue.message}`
+      )
+    );
+  }
+  const definition = parsed.data;
+  definition.steps = definition.steps.map((step, index) => ({ ...step, index }));
+
+  if (definition.kind === "template" && !definition.template) {
+    return fail("template: required when kind is template");
+  }
+  if (definition.llm?.provider && !LLM_PROVIDER_IDS.includes(definition.llm.provider)) {
+    return fail(
+      `llm.provider: unknown provider ${definition.llm.provider}. Available: ${LLM_PROVIDER_IDS.join(", ")}`
+    );
+  }
+  if (definition.promptVersion && !isPromptVersion(definition.promptVersion)) {
+    return fail(
+      `promptVersion: unknown prompt version ${definition.promptVersion}. Available: ${PROMPT_VERSIONS.join(", ")}`
+    );
+  }
+  const budgetError = validateBudget(definition.budget);
+  if (budgetError) return fail(budgetError);
+
+  let steps = definition.steps as WorkflowStep[];
+  if (definition.template) {
+    const defaults = Object.fromEntries(
+      definition.template.parameters
+        .filter((p) => p.default != null)
+        .map((p) => [p.name, p.default as string | number])
+    );
+    const samples = Object.fromEntries(
+      placeholderNames(steps).map((name) => [name, defaults[name] ?? "example"])
+    );
+    steps = fillPlaceholders(steps, samples);
+  }
+
+  const { errors, warnings } = validatePlan(steps, {
+    sources: definition.sources,
+  });
+  if (errors.length > 0) {
+    return fail(`Invalid plan: ${formatPlanIssues(errors)}`);
+  }
+
+  return {
+    definition,
+    errors: [],
+    warnings: warnings.map((w) => w.message),
+  };
+}
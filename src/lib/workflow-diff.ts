@@ -0,0 +1,366 @@
+// lib/workflow-diff.ts
+//
+// What changed between two runs of the same research, e.g. a monthly re-run
+// (POST /api/workflows/[id]/rerun) against the run it was cloned from.
+//
+// Steps are paired by index and type. For list outputs (search results,
+// pages, extracted rows, findings...) items are matched by URL or name, so
+// the diff reports new and removed items plus the numeric fields that moved
+// on the ones in both runs (GitHub stars, forks, search position...). Text
+// outputs and report sections are compared as a whole: a changed summary or
+// conclusion shows both versions.
+
+import { prisma } from "@/lib/prisma";
+import { itemLabel, stepListKey } from "@/lib/workflow-chunking";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+/** One run as the diff sees it */
+export interface RunSnapshot {
+  id: string;
+  title: string;
+  status: string;
+  createdAt: Date | string;
+  completedAt: Date | string | null;
+  /** Null = the default prompt version (lib/workflow-prompts.ts) */
+  promptVersion: string | null;
+  steps: Array<{ index: number; type: string; title: string }>;
+  results: Array<{ stepIndex: number; data: any; skipped?: boolean } | null>;
+  report: { title: string; summary: string; sections: any[] } | null;
+}
+
+export interface MetricChange {
+  field: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ItemChange {
+  label: string;
+  metrics: MetricChange[];
+}
+
+export interface TextChange {
+  before: string;
+  after: string;
+}
+
+export interface StepDiff {
+  stepIndex: number;
+  type: string;
+  title: string;
+  /** Output present in one run only (failed, skipped or not run) */
+  missing?: "before" | "after";
+  added: string[];
+  removed: string[];
+  changed: ItemChange[];
+  /** Items in both runs with no metric change */
+  unchanged: number;
+  summary: TextChange | null;
+}
+
+export interface SectionDiff {
+  title: string;
+  type: string;
+  change: "added" | "removed" | "changed";
+  /** Text sections: the whole content of each version */
+  text?: TextChange;
+  /** List, table and chart sections: entries in one version only */
+  added?: string[];
+  removed?: string[];
+}
+
+export interface ReportDiff {
+  title: TextChange | null;
+  summary: TextChange | null;
+  sections: SectionDiff[];
+}
+
+export interface RunDiff {
+  previous: RunRef;
+  current: RunRef;
+  steps: StepDiff[];
+  /** Null when either run has no report */
+  report: ReportDiff | null;
+  totals: { added: number; removed: number; changed: number; sections: number };
+}
+
+type RunRef = Pick<
+  RunSnapshot,
+  "id" | "title" | "status" | "createdAt" | "completedAt" | "promptVersion"
+>;
+
+/** Entries listed per category; the rest only count towards the totals */
+const MAX_LISTED = 50;
+
+/** Numeric fields that identify an item rather than measure it */
+const IGNORED_METRICS = new Set(["id", "index", "stepIndex"]);
+
+// ─────────────────────────────────────────────────────────
+// Items
+// ─────────────────────────────────────────────────────────
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, " ");
+}
+
+/** Identity of a list item across runs: its URL, else its name or text */
+function itemKey(item: any): string {
+  if (item == null || typeof item !== "object") return normalizeText(String(item)).toLowerCase();
+  const url = item.url || item.link;
+  if (typeof url === "string" && url) {
+    return url.toLowerCase().replace(/^https?:\/\/(www\.)?/, "").replace(/\/+$/, "");
+  }
+  const text = item.fullName || item.full_name;
+  return normalizeText(typeof text === "string" ? text : diffLabel(item)).toLowerCase();
+}
+
+/** Display name of a list item; analyze findings are named by their insight */
+function diffLabel(item: any): string {
+  return typeof item?.insight === "string" ? item.insight : itemLabel(item);
+}
+
+function metricChanges(before: any, after: any): MetricChange[] {
+  if (before == null || after == null || typeof before !== "object") return [];
+  return Object.keys(after)
+    .filter(
+      (field) =>
+        !IGNORED_METRICS.has(field) &&
+        typeof before[field] === "number" &&
+        typeof after[field] === "number" &&
+        before[field] !== after[field]
+    )
+    .map((field) => ({
+      field,
+      before: before[field],
+      after: after[field],
+      delta: after[field] - before[field],
+    }));
+}
+
+function outputSummary(data: any): string | null {
+  const summary = data?.summary ?? data?.condition;
+  return typeof summary === "string" && summary.trim() ? summary : null;
+}
+
+function diffText(before: string | null, after: string | null): TextChange | null {
+  if (before == null || after == null) return null;
+  if (normalizeText(before) === normalizeText(after)) return null;
+  return { before, after };
+}
+
+export function diffStepOutputs(before: any, after: any): Omit<StepDiff, "stepIndex" | "type" | "title"> {
+  const diff: Omit<StepDiff, "stepIndex" | "type" | "title"> = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+    summary: diffText(outputSummary(before), outputSummary(after)),
+  };
+
+  const beforeKey = stepListKey(before);
+  const afterKey = stepListKey(after);
+  const beforeItems: any[] = beforeKey ? before[beforeKey] : [];
+  const afterItems: any[] = afterKey ? after[afterKey] : [];
+
+  const previous = new Map(beforeItems.map((item) => [itemKey(item), item]));
+  const seen = new Set<string>();
+
+  for (const item of afterItems) {
+    const key = itemKey(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (!previous.has(key)) {
+      diff.added.push(diffLabel(item));
+      continue;
+    }
+    const metrics = metricChanges(previous.get(key), item);
+    if (metrics.length > 0) diff.changed.push({ label: diffLabel(item), metrics });
+    else diff.unchanged++;
+  }
+  for (const [key, item] of previous) {
+    if (!seen.has(key)) diff.removed.push(diffLabel(item));
+  }
+
+  return diff;
+}
+
+// ─────────────────────────────────────────────────────────
+// Reports
+// ─────────────────────────────────────────────────────────
+
+/** Comparable entries of a list, table or chart section */
+function sectionEntries(section: any): string[] {
+  const content = section?.content ?? {};
+  switch (section?.type) {
+    case "list":
+      return (content.items ?? []).map((item: string) => normalizeText(String(item)));
+    case "table":
+      return (content.rows ?? []).map((row: unknown[]) =>
+        row.map((cell) => normalizeText(String(cell ?? ""))).join(" | ")
+      );
+    case "chart":
+      return (content.datasets ?? []).flatMap((dataset: any) =>
+        (content.labels ?? []).map(
+          (label: string, i: number) => `${dataset.label} / ${label}: ${dataset.data?.[i]}`
+        )
+      );
+    default:
+      return [];
+  }
+}
+
+function diffSection(before: any, after: any): SectionDiff | null {
+  const base = { title: after.title as string, type: after.type as string, change: "changed" as const };
+
+  if (before.type !== after.type || after.type === "text") {
+    const text = diffText(
+      typeof before.content === "string" ? before.content : JSON.stringify(before.content),
+      typeof after.content === "string" ? after.content : JSON.stringify(after.content)
+    );
+    return text ? { ...base, text } : null;
+  }
+
+  const beforeEntries = sectionEntries(before);
+  const afterEntries = sectionEntries(after);
+  const added = afterEntries.filter((entry) => !beforeEntries.includes(entry));
+  const removed = beforeEntries.filter((entry) => !afterEntries.includes(entry));
+  if (added.length === 0 && removed.length === 0) return null;
+  return { ...base, added, removed };
+}
+
+export function diffReports(
+  before: RunSnapshot["report"],
+  after: RunSnapshot["report"]
+): ReportDiff | null {
+  if (!before || !after) return null;
+
+  const sectionKey = (section: any) => normalizeText(String(section?.title ?? "")).toLowerCase();
+  const previous = new Map((before.sections ?? []).map((s) => [sectionKey(s), s]));
+  const seen = new Set<string>();
+  const sections: SectionDiff[] = [];
+
+  for (const section of after.sections ?? []) {
+    const key = sectionKey(section);
+    seen.add(key);
+    const match = previous.get(key);
+    if (!match) {
+      sections.push({ title: section.title, type: section.type, change: "added" });
+      continue;
+    }
+    const diff = diffSection(match, section);
+    if (diff) sections.push(diff);
+  }
+  for (const [key, section] of previous) {
+    if (!seen.has(key)) {
+      sections.push({ title: section.title, type: section.type, change: "removed" });
+    }
+  }
+
+  return {
+    title: diffText(before.title, after.title),
+    summary: diffText(before.summary, after.summary),
+    sections,
+  };
+}
+
+// ─────────────────────────────────────────────────────────
+// Runs
+// ─────────────────────────────────────────────────────────
+
+function runRef(run: RunSnapshot): RunRef {
+  const { id, title, status, createdAt, completedAt, promptVersion } = run;
+  return { id, title, status, createdAt, completedAt, promptVersion };
+}
+
+function truncate<T>(list: T[]): T[] {
+  return list.slice(0, MAX_LISTED);
+}
+
+/** Compare `current` with the earlier run `previous` */
+export function diffRuns(previous: RunSnapshot, current: RunSnapshot): RunDiff {
+  const totals = { added: 0, removed: 0, changed: 0, sections: 0 };
+  const steps: StepDiff[] = [];
+
+  for (const step of current.steps) {
+    const match = previous.steps.find(
+      (s) => s.index === step.index && s.type === step.type
+    );
+    if (!match) continue;
+
+    const before = previous.results[step.index]?.data ?? null;
+    const after = current.results[step.index]?.data ?? null;
+    const head = { stepIndex: step.index, type: step.type, title: step.title };
+    if (before == null && after == null) continue;
+    if (before == null || after == null) {
+      steps.push({
+        ...head,
+        missing: before == null ? "before" : "after",
+        added: [],
+        removed: [],
+        changed: [],
+        unchanged: 0,
+        summary: null,
+      });
+      continue;
+    }
+
+    const diff = diffStepOutputs(before, after);
+    totals.added += diff.added.length;
+    totals.removed += diff.removed.length;
+    totals.changed += diff.changed.length;
+    steps.push({
+      ...head,
+      ...diff,
+      added: truncate(diff.added),
+      removed: truncate(diff.removed),
+      changed: truncate(diff.changed),
+    });
+  }
+
+  const report = diffReports(previous.report, current.report);
+  totals.sections = report?.sections.length ?? 0;
+
+  return {
+    previous: runRef(previous),
+    current: runRef(current),
+    steps,
+    report,
+    totals,
+  };
+}
+
+export async function loadRunSnapshot(workflowId: string): Promise<
+  (RunSnapshot & { userId: string; rerunOfId: string | null }) | null
+> {
+  const workflow = await prisma.workflow.findUnique({
+    where: { id: workflowId },
+    select: {
+      id: true,
+      userId: true,
+      rerunOfId: true,
+      title: true,
+      status: true,
+      createdAt: true,
+      completedAt: true,
+      promptVersion: true,
+      steps: true,
+      results: true,
+      report: { select: { title: true, summary: true, sections: true } },
+    },
+  });
+  if (!workflow) return null;
+
+  return {
+    ...workflow,
+    steps: (workflow.steps as unknown as RunSnapshot["steps"]) ?? [],
+    results: (workflow.results as unknown as RunSnapshot["results"]) ?? [],
+    report: workflow.report
+      ? { ...workflow.report, sections: (workflow.report.sections as any[]) ?? [] }
+      : null,
+  };
+}
@@ -4,10 +4,12 @@
 //
 // Responsibilities:
 // 1. planWorkflowSteps()   — AI breaks natural language goal into structured steps
-// 2. executeWorkflow()     — Runs steps sequentially, updating DB in real-time
+// 2. executeWorkflow()     — Runs steps as a DAG (parallel where dependsOn allows),
+//                            updating DB in real-time
 // 3. synthesizeReport()    — AI generates structured report from results
 //
-// Step types: search | extract | analyze | aggregate | generate_report
+// Step types: search | fetch_page | extract | analyze | aggregate | verify |
+//             review | branch | for_each | generate_report
 
 import { prisma } from "@/lib/prisma";
 
@@ -15,6 +17,105 @@ import { prisma } from "@/lib/prisma";
 import { searchWeb } from "@/lib/apis/google-serp";
 import { searchRepositories } from "@/lib/apis/github";
 import { searchPexels } from "@/lib/apis/pexels";
+import { fetchPage, type FetchedPage } from "@/lib/apis/web-page";
+import type { z } from "zod";
+import {
+  backoffDelayMs,
+  classifyError,
+  resolveRetryPolicy,
+  resolveTimeoutMs,
+  shouldRetry,
+  sleep,
+  withTimeout,
+  type RetryPolicy,
+} from "@/lib/workflow-retry";
+import type { Prisma } from "@/generated/prisma/client";
+import {
+  PlanOutputSchema,
+  ExtractOutputSchema,
+  AnalyzeOutputSchema,
+  AggregateOutputSchema,
+  VerifyOutputSchema,
+  ReportOutputSchema,
+  formatIssues,
+  type PlanOutput,
+  type ReportOutput,
+  type ValidationFailure,
+} from "@/lib/workflow-schemas";
+import {
+  CHUNK_CONCURRENCY,
+  DEFAULT_CHUNK_TOKENS,
+  MERGE_GROUP_SIZE,
+  chunkItems,
+  estimateTokens,
+  flattenStepData,
+  mapWithConcurrency,
+  reduceInGroups,
+  type ChunkOptions,
+  type Coverage,
+} from "@/lib/workflow-chunking";
+import { validatePlan, type ValidatePlanOptions } from "@/lib/workflow-validation";
+import {
+  readStepCache,
+  stepCacheKey,
+  writeStepCache,
+} from "@/lib/workflow-cache";
+import {
+  addUsage,
+  emptyUsage,
+  recordLLMCall,
+  recordSearchCall,
+  rollUpWorkflowUsage,
+  usageData,
+  type StepUsage,
+} from "@/lib/workflow-usage";
+import {
+  checkBudget,
+  createBudgetState,
+  runtimeMs,
+  type BudgetExceeded,
+  type BudgetState,
+} from "@/lib/workflow-budget";
+import { emitWorkflowEvent, previewOutput } from "@/lib/workflow-events";
+import {
+  annotateSources,
+  applyCitations,
+  collectSources,
+  type ReportSource,
+} from "@/lib/workflow-citations";
+import {
+  DEFAULT_MAX_CLAIMS,
+  applyJudgments,
+  collectClaims,
+  contestedClaimsSection,
+  countVerdicts,
+  unverifiedClaims,
+  type Claim,
+  type VerifiedClaim,
+} from "@/lib/workflow-verify";
+import { buildReviewRequest, type ReviewRequest } from "@/lib/workflow-review";
+import {
+  branchTargets,
+  evaluateBranch,
+  expandSubSteps,
+  forEachItems,
+  type BranchOutcome,
+  type ForEachEntry,
+} from "@/lib/workflow-control";
+import {
+  resolveLLM,
+  type LLMSelection,
+  type LLMSelectionChain,
+  type LLMTask,
+} from "@/lib/llm-providers";
+import {
+  resolvePrompt,
+  workflowPromptVersion,
+  type PromptInputs,
+  type PromptName,
+  type PromptVersion,
+  type RenderedPrompt,
+} from "@/lib/workflow-prompts";
 
 // ─────────────────────────────────────────────────────────
 // Types
@@ -22,11 +123,24 @@ import { searchPexels } from "@/lib/apis/pexels";
 
 export interface WorkflowStep {
   index: number;
-  type: "search" | "extract" | "analyze" | "aggregate" | "generate_report";
+  type:
+    | "search"
+    | "fetch_page"
+    | "extract"
+    | "analyze"
+    | "aggregate"
+    | "verify"
+    | "review"
+    | "branch"
+    | "for_each"
+    | "generate_report";
   title: string;
   description: string;
   params: Record<string, any>;
   dependsOn: number[]; // indices of steps this depends on
+  llm?: LLMSelection; // optional provider/model override for this step
+  retry?: Partial<RetryPolicy>; // overrides the default retry policy
+  timeoutMs?: number; // per-attempt timeout (defaults by step type)
 }
 
 interface PlanInput {
@@ -34,12 +148,11 @@ interface PlanInput {
   sources: string[];
   depth: string;
   outputFormat: string;
-}
-
-interface PlanOutput {
-  title: string;
-  description: string;
-  steps: WorkflowStep[];
+  llm?: LLMSelection;
+  /** Collects the planner's token usage (see workflow-usage.ts) */
+  usage?: StepUsage;
+  /** Prompt version to plan with (see workflow-prompts.ts) */
+  promptVersion?: PromptVersion;
 }
 
 interface SynthesizeInput {
@@ -47,97 +160,99 @@ interface SynthesizeInput {
   results: any[];
   outputFormat: string;
   customTitle?: string;
+  llm?: LLMSelectionChain;
+  /** Collects rejected AI responses (see generateValidated) */
+  validationFailures?: ValidationFailure[];
+  /** Collects token usage of the synthesis calls */
+  usage?: StepUsage;
+  /** Why the data is incomplete, e.g. the run hit its budget */
+  partialNote?: string;
+  /** Prompt version to write the report with */
+  promptVersion?: PromptVersion;
+  /** Collects the ids of the prompts used */
+  prompts?: string[];
 }
 
-interface ReportOutput {
-  title: string;
-  summary: string;
-  sections: Array<{
-    id: string;
-    type: "text" | "table" | "chart" | "list";
-    title: string;
-    content: any;
-  }>;
+/**
+ * Report plus how much of the workflow results the model saw and the
+ * bibliography its footnotes point into (see workflow-citations.ts)
+ */
+export type SynthesizedReport = ReportOutput & {
+  coverage: Coverage;
+  sources: ReportSource[];
+};
+
+/** Per-step state threaded through the step handlers */
+interface StepContext {
+  /** Rejected AI responses, recorded on the WorkflowExecution */
+  validationFailures: ValidationFailure[];
+  /** Aborted when the user cancels the workflow or the attempt times out */
+  signal: AbortSignal;
+  /** Tokens, cost and search calls, recorded on the WorkflowExecution */
+  usage: StepUsage;
+  /** Spend of the whole run; for_each checks it between items */
+  budget?: BudgetState;
+  /** Set by executeStep when the step is cacheable */
+  cacheKey?: string;
+  /** The output came from the step cache */
+  cacheHit?: boolean;
+  /** Ids of the registry prompts the step rendered, e.g. "extract@v1" */
+  prompts: string[];
 }
 
-// ─────────────────────────────────────────────────────────
-// AI Helper — Calls Claude API directly via fetch
-// ─────────────────────────────────────────────────────────
-
-async function callAI(
-  systemPrompt: string,
-  userPrompt: string
-): Promise<string> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-
-  if (!apiKey) {
-    // Fallback: If no Anthropic key, try OpenAI
-    const openaiKey = process.env.OPENAI_API_KEY;
-    if (openaiKey) {
-      return callOpenAI(systemPrompt, userPrompt, openaiKey);
-    }
-    throw new Error(
-      "No AI API key found. Set ANTHROPIC_API_KEY or OPENAI_API_KEY"
-    );
+/** Abort reason used when the worker running a workflow loses its lease */
+export class WorkflowLeaseLostError extends Error {
+  constructor() {
+    super("Worker lost its lease on the job");
+    this.name = "WorkflowLeaseLostError";
   }
+}
 
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 4096,
-      system: systemPrompt,
-      messages: [{ role: "user", content: userPrompt }],
-    }),
-  });
-
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`AI API error: ${response.status} — ${err}`);
+/** Abort reason used when a workflow is cancelled mid-run */
+export class WorkflowCancelledError extends Error {
+  constructor() {
+    super("Cancelled by user");
+    this.name = "WorkflowCancelledError";
   }
+}
 
-  const data = await response.json();
-  const text = data.content
-    ?.filter((block: any) => block.type === "text")
-    .map((block: any) => block.text)
-    .join("\n");
+// ─────────────────────────────────────────────────────────
+// AI Helper — Routes through the pluggable provider layer
+// ─────────────────────────────────────────────────────────
 
-  return text || "";
+interface CallAIOptions {
+  task: LLMTask;
+  llm?: LLMSelectionChain;
+  signal?: AbortSignal;
+  /** Receives the token counts and estimated cost of every call */
+  usage?: StepUsage;
 }
 
-async function callOpenAI(
+async function callAI(
   systemPrompt: string,
   userPrompt: string,
-  apiKey: string
+  options: CallAIOptions
 ): Promise<string> {
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      max_tokens: 4096,
-    }),
+  const { provider, model } = resolveLLM(options.task, ...(options.llm || []));
+
+  const response = await provider.complete({
+    system: systemPrompt,
+    user: userPrompt,
+    model,
+    task: options.task,
+    signal: options.signal,
   });
 
-  if (!response.ok) {
-    const err = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} — ${err}`);
-  }
+  if (options.usage) recordLLMCall(options.usage, response);
+  return response.text;
+}
 
-  const data = await response.json();
-  return data.choices?.[0]?.message?.content || "";
+/** Workflow-level provider/model selection stored on the Workflow row */
+function workflowLLM(workflow: any): LLMSelection {
+  return {
+    provider: workflow?.llmProvider || undefined,
+    model: workflow?.llmModel || undefined,
+  };
 }
 
 /** Parse JSON from AI response, stripping markdown fences */
@@ -150,12 +265,111 @@ function parseAIJson<T>(text: string): T {
   return JSON.parse(cleaned);
 }
 
+const MAX_REPAIR_ATTEMPTS = Number(process.env.AI_OUTPUT_MAX_REPAIRS ?? 2);
+
+interface GenerateOptions extends CallAIOptions {
+  /** Receives every rejected response, including ones later repaired */
+  failures?: ValidationFailure[];
+  /** Version renderPrompt() renders at (defaults to DEFAULT_PROMPT_VERSION) */
+  promptVersion?: PromptVersion;
+  /** Receives the id of every prompt rendered */
+  prompts?: string[];
+}
+
+/** Render a registry prompt (see workflow-prompts.ts) and note its id */
+function renderPrompt<N extends PromptName>(
+  name: N,
+  input: PromptInputs[N],
+  options: GenerateOptions
+): RenderedPrompt {
+  const prompt = resolvePrompt(name, options.promptVersion);
+  if (options.prompts && !options.prompts.includes(prompt.id)) {
+    options.prompts.push(prompt.id);
+  }
+  return prompt.build(input);
+}
+
+/**
+ * Call the AI and validate its JSON against a schema. Invalid output is
+ * sent back with the validation errors quoted, up to MAX_REPAIR_ATTEMPTS
+ * times, before the call fails.
+ */
+async function generateValidated<T>(
+  schema: z.ZodType<T>,
+  systemPrompt: string,
+  userPrompt: string,
+  options: GenerateOptions
+): Promise<T> {
+  const failures: ValidationFailure[] = [];
+  let prompt = userPrompt;
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+    const response = await callAI(systemPrompt, prompt, options);
+
+    let issues: string[];
+    try {
+      const parsed = schema.safeParse(parseAIJson(response));
+      if (parsed.success) {
+        failures.forEach((f) => (f.repaired = true));
+        options.failures?.push(...failures);
+        return parsed.data;
+      }
+      issues = formatIssues(parsed.error);
+    } catch (error: any) {
+      issues = [`Response is not valid JSON: ${error.message}`];
+    }
+
+    console.warn(
+      `⚠️ Invalid ${options.task} output (attempt ${attempt}): ${issues.join("; ")}`
+    );
+    failures.push({ task: options.task, attempt, issues, repaired: false });
+    prompt = buildRepairPrompt(userPrompt, response, issues);
+  }
+
+  options.failures?.push(...failures);
+  const lastIssues = failures[failures.length - 1].issues;
+  throw new Error(
+    `AI returned invalid ${options.task} output after ${failures.length} attempts: ${lastIssues
+      .slice(0, 3)
+      .join("; ")}`
+  );
+}
+
+function buildRepairPrompt(
+  originalPrompt: string,
+  badResponse: string,
+  issues: string[]
+): string {
+  return `${originalPrompt}
+
+YOUR PREVIOUS RESPONSE WAS REJECTED. It failed validation with these errors:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+PREVIOUS RESPONSE:
+${badResponse.slice(0, 4000)}
+
+Fix every error listed above. Respond with ONLY the corrected JSON, no markdown fences, no explanation.`;
+}
+
+/** Per-step chunking overrides: params.chunkTokens, params.maxChunks */
+function chunkOptions(step: WorkflowStep): ChunkOptions {
+  return {
+    chunkTokens: step.params.chunkTokens,
+    maxChunks: step.params.maxChunks,
+  };
+}
+
+/** "DATA" for a single chunk, "DATA (part 2 of 5)" otherwise */
+function chunkLabel(label: string, index: number, total: number): string {
+  return total > 1 ? `${label} (part ${index + 1} of ${total})` : label;
+}
+
 // ─────────────────────────────────────────────────────────
 // 1. WORKFLOW PLANNER — AI breaks goal into steps
 // ─────────────────────────────────────────────────────────
 
 export async function planWorkflowSteps(input: PlanInput): Promise<PlanOutput> {
-  const { goal, sources, depth, outputFormat } = input;
+  const { goal, sources, depth, outputFormat, llm } = input;
 
   const depthConfig = {
     quick: { maxResults: 5, maxSteps: 3 },
@@ -163,94 +377,136 @@ export async function planWorkflowSteps(input: PlanInput): Promise<PlanOutput> {
     deep: { maxResults: 20, maxSteps: 8 },
   }[depth] || { maxResults: 10, maxSteps: 5 };
 
-  const systemPrompt = `You are a research workflow planner for FlowSearch AI.
-Your job is to break down a research goal into discrete, executable steps.
-
-AVAILABLE STEP TYPES:
-1. "search" — Search the web, GitHub, or Pexels for information
-   params: { source: "google"|"github"|"pexels", query: string, num?: number }
-2. "extract" — Parse/extract specific data points from previous step results  
-   params: { extractionGoal: string, fields: string[], fromStep: number }
-3. "analyze" — Use AI to analyze collected data (sentiment, comparison, trends)
-   params: { analysisType: string, question: string, fromSteps: number[] }
-4. "aggregate" — Combine data from multiple previous steps into unified dataset
-   params: { fromSteps: number[], mergeStrategy: string }
-5. "generate_report" — Final step: synthesize everything into a report
-   params: { reportFormat: "${outputFormat}" }
-
-AVAILABLE SOURCES: ${JSON.stringify(sources)}
-DEPTH: ${depth} (max ${depthConfig.maxResults} results per search, max ${
-    depthConfig.maxSteps
-  } steps)
-OUTPUT FORMAT: ${outputFormat}
-
-RULES:
-- Always end with a "generate_report" step
-- Each step should have a clear, specific title
-- Use "dependsOn" to indicate which previous step indices provide input
-- Keep steps focused and atomic
-- For "search" steps, craft specific search queries (not the raw user goal)
-- Maximum ${depthConfig.maxSteps} steps total
-
-Respond with ONLY valid JSON, no markdown fences, no explanation:`;
-
-  const userPrompt = `Research goal: "${goal}"
-
-Return JSON in this exact format:
-{
-  "title": "Short workflow title (3-6 words)",
-  "description": "One sentence describing the workflow",
-  "steps": [
-    {
-      "index": 0,
-      "type": "search",
-      "title": "Step title",
-      "description": "What this step does",
-      "params": { "source": "google", "query": "specific search query", "num": ${depthConfig.maxResults} },
-      "dependsOn": []
-    }
-  ]
-}`;
-
-  const response = await callAI(systemPrompt, userPrompt);
-  const plan = parseAIJson<PlanOutput>(response);
-
-  // Validate plan
-  if (!plan.steps || !Array.isArray(plan.steps) || plan.steps.length === 0) {
-    throw new Error("AI returned invalid workflow plan: no steps");
-  }
-
-  // Ensure last step is generate_report
-  const lastStep = plan.steps[plan.steps.length - 1];
-  if (lastStep.type !== "generate_report") {
-    plan.steps.push({
-      index: plan.steps.length,
-      type: "generate_report",
-      title: "Generate final report",
-      description: `Create a ${outputFormat} report from all collected data`,
-      params: { reportFormat: outputFormat },
-      dependsOn: plan.steps.map((_, i) => i),
-    });
-  }
+  const options: GenerateOptions = {
+    task: "plan",
+    llm: [llm],
+    usage: input.usage,
+    promptVersion: input.promptVersion,
+  };
+  const prompt = renderPrompt(
+    "plan",
+    { goal, sources, depth, outputFormat, ...depthConfig },
+    options
+  );
+
+  const validation: ValidatePlanOptions = {
+    sources,
+    outputFormat,
+    maxSteps: depthConfig.maxSteps,
+    repair: true,
+  };
 
-  // Normalize indices
-  plan.steps = plan.steps.map((step, i) => ({ ...step, index: i }));
+  // Plan problems auto-repair can't fix go back to the model like schema errors
+  const planSchema = PlanOutputSchema.superRefine((candidate, ctx) => {
+    validatePlan(candidate.steps as WorkflowStep[], validation).errors.forEach(
+      (issue) =>
+        ctx.addIssue({
+          code: "custom",
+          message: issue.message,
+          path: issue.step !== undefined ? ["steps", issue.step] : ["steps"],
+        })
+    );
+  });
+
+  const plan: PlanOutput = await generateValidated(
+    planSchema,
+    prompt.system,
+    prompt.user,
+    options
+  );
+
+  // Apply the fixes for the usual planner mistakes (1-based indices,
+  // forward references, disallowed sources, missing report step)
+  const { steps, warnings } = validatePlan(
+    plan.steps as WorkflowStep[],
+    validation
+  );
+  warnings.forEach((w) => console.warn(`⚠️ Plan: ${w.message}`));
+  plan.steps = steps;
 
   return plan;
 }
 
 // ─────────────────────────────────────────────────────────
-// 2. WORKFLOW EXECUTOR — Runs steps sequentially
+// 2. WORKFLOW EXECUTOR — Runs steps as a dependency graph
 // ─────────────────────────────────────────────────────────
 
+export interface ExecuteWorkflowOptions {
+  /** Max steps running at once (defaults to WORKFLOW_CONCURRENCY or 3) */
+  concurrency?: number;
+  /**
+   * Aborted by the worker when it loses its lease on the job. In-flight
+   * steps are aborted and the run stops without writing the workflow row,
+   * which by then belongs to whichever worker reclaimed the job.
+   */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+
+/** How often a running workflow checks whether it was cancelled */
+const CANCEL_POLL_MS = Number(process.env.WORKFLOW_CANCEL_POLL_MS ?? 2000);
+
+/** Step types that read every previous result (verify takes it all as evidence) */
+const CONSUMES_ALL_PREVIOUS = new Set(["generate_report", "verify"]);
+
+/**
+ * Resolve the full set of steps a step must wait for.
+ * Combines declared `dependsOn` with the data references in params
+ * (`fromStep`, `fromSteps`) and the branch steps that list it as a target,
+ * so a plan that forgot to list a dependency still runs in a safe order.
+ * Only earlier indices are honoured.
+ */
+export function resolveStepDependencies(
+  step: WorkflowStep,
+  allSteps: WorkflowStep[]
+): number[] {
+  const deps = new Set<number>(step.dependsOn || []);
+  const { fromStep, fromSteps } = step.params || {};
+
+  if (typeof fromStep === "number") deps.add(fromStep);
+  if (Array.isArray(fromSteps)) {
+    fromSteps.forEach((idx: unknown) => {
+      if (typeof idx === "number") deps.add(idx);
+    });
+  }
+
+  const readsEverything =
+    CONSUMES_ALL_PREVIOUS.has(step.type) ||
+    ((step.type === "analyze" || step.type === "aggregate") &&
+      (!Array.isArray(fromSteps) || fromSteps.length === 0));
+
+  if (readsEverything) {
+    allSteps.forEach((s) => {
+      if (s.index < step.index) deps.add(s.index);
+    });
+  }
+
+  // Steps on either side of a branch wait for its decision
+  allSteps.forEach((s) => {
+    const { then, else: otherwise } =
+      s.type === "branch" ? branchTargets(s) : { then: [], else: [] };
+    if ([...then, ...otherwise].includes(step.index)) deps.add(s.index);
+  });
+
+  return [...deps]
+    .filter((idx) => idx >= 0 && idx < step.index)
+    .sort((a, b) => a - b);
+}
+
 export async function executeWorkflow(
   workflowId: string,
-  startFromStep: number = 0
+  startFromStep: number = 0,
+  options: ExecuteWorkflowOptions = {}
 ): Promise<void> {
-  // Mark workflow as running
-  await prisma.workflow.update({
-    where: { id: workflowId },
-    data: { status: "running" },
+  // Mark workflow as running, unless it was cancelled, paused or is
+  // waiting for a review answer while queued
+  const { count: started } = await prisma.workflow.updateMany({
+    where: {
+      id: workflowId,
+      status: { notIn: ["cancelled", "paused", "awaiting_input"] },
+    },
+    data: { status: "running", activeSteps: [] },
   });
 
   const workflow = await prisma.workflow.findUnique({
@@ -258,147 +514,784 @@ export async function executeWorkflow(
   });
 
   if (!workflow) throw new Error(`Workflow ${workflowId} not found`);
+  if (started === 0) {
+    console.log(`⏹️ Workflow ${workflowId} was not runnable (cancelled, paused or awaiting input)`);
+    return;
+  }
+  await emitWorkflowEvent(workflowId, "workflow.status", { status: "running" });
 
   const steps = workflow.steps as unknown as WorkflowStep[];
   const results = ((workflow.results as unknown as any[]) || []) as any[];
 
-  for (let i = startFromStep; i < steps.length; i++) {
-    const step = steps[i];
+  const concurrency = Math.max(
+    1,
+    options.concurrency ??
+      (Number(process.env.WORKFLOW_CONCURRENCY) || DEFAULT_CONCURRENCY)
+  );
+
+  // Build the dependency graph once up front
+  const dependencies = new Map<number, number[]>(
+    steps.map((step) => [step.index, resolveStepDependencies(step, steps)])
+  );
+
+  // Only steps with stored results count as done. A retry passes the
+  // failed step as startFromStep, but with steps running in parallel a
+  // lower index may never have run, so the index decides nothing.
+  const completed = new Set<number>(
+    steps.filter((s) => results[s.index] != null).map((s) => s.index)
+  );
+  if (startFromStep > 0) {
+    console.log(
+      `↩️ Workflow ${workflowId}: retrying from step ${startFromStep + 1}, ${completed.size}/${steps.length} steps already have results`
+    );
+  }
+  const skipped = new Set<number>(
+    steps.filter((s) => results[s.index]?.skipped).map((s) => s.index)
+  );
+  const running = new Map<number, Promise<void>>();
+  let failure = null as { stepIndex: number; message: string } | null;
+  let cancelled = false;
+  let paused = false;
+  let awaiting = null as ReviewRequest | null;
+
+  // Caps on tokens, search calls and run time (see workflow-budget.ts)
+  const budget = createBudgetState(workflow);
+  let exceeded = null as ReturnType<typeof checkBudget>;
+  let budgetExceeded = null as BudgetExceeded | null;
+
+  // Set once the worker's lease is gone; the run must not write anymore
+  const released = () => options.signal?.aborted ?? false;
+
+  // Workflow row updates are serialized so a slow write can never
+  // overwrite the results of a step that finished after it.
+  let writeChain: Promise<unknown> = Promise.resolve();
+  const updateWorkflow = (data: () => Record<string, any>) => {
+    writeChain = writeChain.then(() =>
+      released()
+        ? undefined
+        : prisma.workflow.update({ where: { id: workflowId }, data: data() })
+    );
+    return writeChain;
+  };
 
-    // Check if workflow was cancelled mid-execution
-    const currentWorkflow = await prisma.workflow.findUnique({
-      where: { id: workflowId },
-      select: { status: true },
-    });
-    if (currentWorkflow?.status === "failed") {
-      console.log(
-        `⏹️ Workflow ${workflowId} was cancelled, stopping at step ${i}`
-      );
-      return;
-    }
+  // Recomputed from the executions, so it goes through the same chain
+  const rollUpUsage = () => {
+    writeChain = writeChain.then(() =>
+      rollUpWorkflowUsage(workflowId).catch((error: any) =>
+        console.error(`⚠️ Usage roll-up failed for ${workflowId}:`, error.message)
+      )
+    );
+    return writeChain;
+  };
 
-    // Update current step pointer
-    await prisma.workflow.update({
+  const activeStepData = () => {
+    const activeSteps = [...running.keys()].sort((a, b) => a - b);
+    return {
+      activeSteps,
+      currentStep: activeSteps[0] ?? firstIncompleteStep(steps, completed),
+    };
+  };
+
+  const readStatus = async () => {
+    const current = await prisma.workflow.findUnique({
       where: { id: workflowId },
-      data: { currentStep: i },
+      select: { status: true },
     });
+    return current?.status;
+  };
 
-    // Create execution record
-    const execution = await prisma.workflowExecution.create({
+  // Aborting this signal stops in-flight searches and AI calls immediately
+  const controller = new AbortController();
+  const { signal } = controller;
+  const cancelWatcher = setInterval(async () => {
+    try {
+      if (!signal.aborted && (await readStatus()) === "cancelled") {
+        controller.abort(new WorkflowCancelledError());
+      }
+    } catch (error: any) {
+      console.error(`Cancellation check failed for ${workflowId}:`, error.message);
+    }
+  }, CANCEL_POLL_MS);
+  const release = () => controller.abort(new WorkflowLeaseLostError());
+  if (released()) release();
+  options.signal?.addEventListener("abort", release, { once: true });
+
+  // A step on the side of a branch that was not taken, or one that only
+  // reads skipped steps, completes without output
+  const skipStep = async (step: WorkflowStep, reason: string) => {
+    if (completed.has(step.index) || running.has(step.index)) return;
+    results[step.index] = { stepIndex: step.index, skipped: true, data: null };
+    completed.add(step.index);
+    skipped.add(step.index);
+
+    await prisma.workflowExecution.create({
       data: {
         workflowId,
-        stepIndex: i,
+        stepIndex: step.index,
         stepType: step.type,
         stepTitle: step.title,
         input: step.params || {},
-        status: "running",
+        status: "skipped",
+        error: reason,
+        completedAt: new Date(),
       },
     });
+    await emitWorkflowEvent(workflowId, "step.skipped", {
+      stepIndex: step.index,
+      reason,
+    });
+    console.log(`⏭️ Step ${step.index + 1} skipped: ${reason}`);
+  };
 
-    const startTime = Date.now();
-
-    try {
-      console.log(`🔄 Executing step ${i + 1}/${steps.length}: ${step.title}`);
-
-      // Execute the step based on type
-      const stepResult = await executeStep(step, results, workflow);
-
-      const durationMs = Date.now() - startTime;
-
-      // Save step result
-      results[i] = { stepIndex: i, data: stepResult };
+  const readsOnlySkipped = (step: WorkflowStep) => {
+    const deps = dependencies.get(step.index) || [];
+    return (
+      !CONSUMES_ALL_PREVIOUS.has(step.type) &&
+      deps.length > 0 &&
+      deps.every((d) => skipped.has(d))
+    );
+  };
 
-      // Update execution record
-      await prisma.workflowExecution.update({
-        where: { id: execution.id },
+  // Runs one step under its retry policy; every attempt gets its own
+  // WorkflowExecution row so the audit trail shows each try.
+  const runStep = async (step: WorkflowStep): Promise<void> => {
+    const i = step.index;
+    const policy = resolveRetryPolicy(step);
+    const timeoutMs = resolveTimeoutMs(step);
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal.aborted) return;
+      const ctx: StepContext = {
+        validationFailures: [],
+        signal,
+        usage: emptyUsage(),
+        budget,
+        prompts: [],
+      };
+
+      // Create execution record
+      const execution = await prisma.workflowExecution.create({
         data: {
-          status: "completed",
-          output: stepResult,
-          durationMs,
-          completedAt: new Date(),
+          workflowId,
+          stepIndex: i,
+          stepType: step.type,
+          stepTitle: step.title,
+          input: step.params || {},
+          status: "running",
+          attempt,
+          maxAttempts: policy.maxAttempts,
         },
       });
-
-      // Update workflow results
-      await prisma.workflow.update({
-        where: { id: workflowId },
-        data: {
-          results: results,
-          currentStep: i + 1,
-        },
+      await emitWorkflowEvent(workflowId, "step.started", {
+        stepIndex: i,
+        type: step.type,
+        title: step.title,
+        attempt,
+        maxAttempts: policy.maxAttempts,
       });
 
-      console.log(`✅ Step ${i + 1} completed in ${durationMs}ms`);
-    } catch (error: any) {
-      const durationMs = Date.now() - startTime;
-      console.error(`❌ Step ${i + 1} failed:`, error.message);
-
-      // Mark execution as failed
-      await prisma.workflowExecution.update({
-        where: { id: execution.id },
-        data: {
-          status: "failed",
+      const startTime = Date.now();
+
+      try {
+        console.log(
+          `🔄 Executing step ${i + 1}/${steps.length}: ${step.title}` +
+            (attempt > 1 ? ` (attempt ${attempt}/${policy.maxAttempts})` : "")
+        );
+
+        // Execute the step based on type
+        // The attempt's own signal also aborts when it times out
+        const stepResult = await withTimeout(
+          (attemptSignal) => {
+            ctx.signal = attemptSignal;
+            return executeStep(step, results, workflow, ctx);
+          },
+          timeoutMs,
+          signal
+        );
+
+        const durationMs = Date.now() - startTime;
+        addUsage(budget.usage, ctx.usage);
+
+        // Save step result
+        results[i] = { stepIndex: i, data: stepResult };
+        completed.add(i);
+
+        if (step.type === "branch") {
+          const outcome = stepResult as BranchOutcome;
+          console.log(`🔀 Step ${i + 1}: ${outcome.condition} → ${outcome.taken}`);
+          for (const index of outcome.skipped) {
+            if (!steps[index]) continue;
+            await skipStep(
+              steps[index],
+              `Not taken by step ${i + 1} (${outcome.condition} is ${outcome.matched})`
+            );
+          }
+        }
+
+        // Update execution record
+        await prisma.workflowExecution.update({
+          where: { id: execution.id },
+          data: {
+            status: "completed",
+            output: stepResult,
+            durationMs,
+            completedAt: new Date(),
+            validationErrors: validationErrorsData(ctx),
+            ...cacheData(ctx),
+            ...promptData(ctx, workflow),
+            ...usageData(ctx.usage),
+          },
+        });
+
+        await emitWorkflowEvent(workflowId, "step.completed", {
+          stepIndex: i,
+          durationMs,
+          attempt,
+          cached: ctx.cacheHit ?? false,
+          preview: previewOutput(stepResult),
+          tokens: ctx.usage.inputTokens + ctx.usage.outputTokens,
+          costUsd: ctx.usage.costUsd,
+        });
+
+        console.log(
+          `✅ Step ${i + 1} completed in ${durationMs}ms` +
+            (ctx.cacheHit ? " (cached)" : "")
+        );
+        return;
+      } catch (error: any) {
+        const durationMs = Date.now() - startTime;
+        addUsage(budget.usage, ctx.usage);
+
+        if (signal.aborted) {
+          const reason = signal.reason as Error | undefined;
+          await prisma.workflowExecution.update({
+            where: { id: execution.id },
+            data: {
+              status: "cancelled",
+              error: reason?.message || "Cancelled by user",
+              durationMs,
+            },
+          });
+          console.log(`⏹️ Step ${i + 1} aborted: ${reason?.message || "cancelled"}`);
+          return;
+        }
+
+        const errorClass = classifyError(error);
+        console.error(
+          `❌ Step ${i + 1} attempt ${attempt} failed${errorClass ? ` (${errorClass})` : ""}:`,
+          error.message
+        );
+
+        // Mark this attempt as failed
+        await prisma.workflowExecution.update({
+          where: { id: execution.id },
+          data: {
+            status: "failed",
+            error: error.message,
+            errorClass,
+            durationMs,
+            validationErrors: validationErrorsData(ctx),
+            ...promptData(ctx, workflow),
+            ...usageData(ctx.usage),
+          },
+        });
+
+        // Back off and retry transient errors, unless a sibling failed
+        // or the user cancelled while we were waiting
+        const willRetry = shouldRetry(error, policy, attempt) && !failure;
+        await emitWorkflowEvent(workflowId, "step.failed", {
+          stepIndex: i,
           error: error.message,
+          errorClass,
           durationMs,
-        },
-      });
+          attempt,
+          willRetry,
+        });
+        if (willRetry) {
+          const delayMs = backoffDelayMs(policy, attempt);
+          console.log(`⏳ Retrying step ${i + 1} in ${delayMs}ms`);
+          await sleep(delayMs, signal);
+          if (signal.aborted) return;
+          if (!failure) continue;
+        }
+
+        // Keep the first failure; siblings already in flight finish normally
+        failure = failure ?? {
+          stepIndex: i,
+          message:
+            attempt > 1
+              ? `${error.message} (after ${attempt} attempts)`
+              : error.message,
+        };
+        return;
+      }
+    }
+  };
 
-      // Mark workflow as failed
-      await prisma.workflow.update({
-        where: { id: workflowId },
+  // A ready review step asks the user instead of running. The run keeps
+  // going with independent steps and stops for input once they finish.
+  const requestReview = async (step: WorkflowStep) => {
+    try {
+      awaiting = buildReviewRequest(step, results);
+    } catch (error: any) {
+      failure = failure ?? { stepIndex: step.index, message: error.message };
+      return;
+    }
+
+    // A run paused while waiting asks again on resume; reuse the open record
+    const open = await prisma.workflowExecution.findFirst({
+      where: { workflowId, stepIndex: step.index, status: "awaiting_input" },
+    });
+    if (!open) {
+      await prisma.workflowExecution.create({
         data: {
-          status: "failed",
-          errorMessage: `Step ${i + 1} failed: ${error.message}`,
-          failedStep: i,
-          results: results,
+          workflowId,
+          stepIndex: step.index,
+          stepType: step.type,
+          stepTitle: step.title,
+          input: step.params || {},
+          status: "awaiting_input",
         },
       });
+    }
+    const request = awaiting;
+    await updateWorkflow(() => ({ review: request }));
+    await emitWorkflowEvent(workflowId, "review.requested", {
+      stepIndex: step.index,
+      message: request.message,
+    });
+    console.log(`✋ Step ${step.index + 1} is waiting for review: ${step.title}`);
+  };
+
+  try {
+    while (true) {
+      // Check if workflow was cancelled or paused mid-execution
+      const status = await readStatus();
+      if (status === "cancelled" && !signal.aborted) {
+        controller.abort(new WorkflowCancelledError());
+      }
+      if (signal.aborted && !cancelled) {
+        console.log(
+          released()
+            ? `⏹️ Workflow ${workflowId}: lease lost, stopping`
+            : `⏹️ Workflow ${workflowId} was cancelled, stopping`
+        );
+        cancelled = true;
+      }
+
+      // Pausing only stops new steps from starting; in-flight steps finish
+      if (status === "paused" && !paused) {
+        console.log(
+          `⏸️ Workflow ${workflowId} paused, letting ${running.size} running step(s) finish`
+        );
+        paused = true;
+      }
+
+      // A reached cap stops new steps; the running ones finish
+      if (!exceeded && !cancelled) {
+        exceeded = checkBudget(budget);
+        if (exceeded) {
+          console.log(
+            `💸 Workflow ${workflowId}: ${exceeded.message}, letting ${running.size} running step(s) finish`
+          );
+        }
+      }
+
+      // Launch every ready step, up to the concurrency limit
+      if (!failure && !cancelled && !paused && !exceeded) {
+        const readySteps = () =>
+          steps.filter(
+            (s) =>
+              !completed.has(s.index) &&
+              !running.has(s.index) &&
+              (dependencies.get(s.index) || []).every((d) => completed.has(d))
+          );
+        let ready = readySteps();
+
+        // Skipping a step can make the steps that read it ready in turn
+        let skippedNow = false;
+        while (ready.some(readsOnlySkipped)) {
+          for (const step of ready.filter(readsOnlySkipped)) {
+            await skipStep(step, "Every step it reads from was skipped");
+          }
+          skippedNow = true;
+          ready = readySteps();
+        }
+
+        // Only one review is asked at a time; the rest wait for the next run
+        const review = ready.find((s) => s.type === "review");
+        if (review && !awaiting) await requestReview(review);
+
+        const runnable = ready.filter((s) => s.type !== "review");
+        for (const step of runnable.slice(0, concurrency - running.size)) {
+          const task = runStep(step).finally(() => {
+            running.delete(step.index);
+          });
+          running.set(step.index, task);
+        }
+
+        if (skippedNow) {
+          await updateWorkflow(() => ({ results, ...activeStepData() }));
+        } else if (runnable.length > 0) {
+          await updateWorkflow(activeStepData);
+        }
+      }
+
+      if (running.size === 0) break;
 
-      return; // Stop execution on failure
+      // Wait for any in-flight step to settle, then persist progress
+      await Promise.race(running.values());
+      await updateWorkflow(() => ({
+        results,
+        ...activeStepData(),
+        runtimeMs: runtimeMs(budget),
+      }));
+      await rollUpUsage();
     }
+  } finally {
+    clearInterval(cancelWatcher);
+    options.signal?.removeEventListener("abort", release);
   }
 
-  // All steps completed — mark workflow as completed
-  await prisma.workflow.update({
-    where: { id: workflowId },
+  updateWorkflow(() => ({ runtimeMs: runtimeMs(budget) }));
+  await writeChain;
+
+  // Another worker owns the job now and resumes from the stored results
+  if (released()) return;
+
+  if (cancelled) {
+    // Keep finished results so a retry resumes where the run stopped
+    await prisma.workflow.update({
+      where: { id: workflowId },
+      data: { activeSteps: [], results },
+    });
+    return;
+  }
+
+  if (failure) {
+    const { stepIndex, message } = failure;
+
+    // Mark workflow as failed
+    await prisma.workflow.update({
+      where: { id: workflowId },
+      data: {
+        status: "failed",
+        errorMessage: `Step ${stepIndex + 1} failed: ${message}`,
+        failedStep: stepIndex,
+        currentStep: stepIndex,
+        activeSteps: [],
+        results: results,
+      },
+    });
+    await emitWorkflowEvent(workflowId, "workflow.status", {
+      status: "failed",
+      stepIndex,
+      error: message,
+      final: true,
+    });
+
+    return; // Stop execution on failure
+  }
+
+  if (exceeded) {
+    // The steps that never ran are skipped and the run completes below,
+    // so the report is written from what was collected
+    const notRun = steps.filter((s) => !completed.has(s.index));
+    for (const step of notRun) {
+      await skipStep(step, `Not run: ${exceeded.message}`);
+    }
+    budgetExceeded = {
+      ...exceeded,
+      skippedSteps: notRun.map((s) => s.index),
+      at: new Date().toISOString(),
+    };
+  }
+
+  if (paused && !budgetExceeded) {
+    // Resume picks up from the stored results (see the resume route)
+    await prisma.workflow.update({
+      where: { id: workflowId },
+      data: {
+        activeSteps: [],
+        currentStep: firstIncompleteStep(steps, completed),
+        results,
+      },
+    });
+    await emitWorkflowEvent(workflowId, "workflow.status", { status: "paused" });
+    console.log(`⏸️ Workflow ${workflowId} paused`);
+    return;
+  }
+
+  if (awaiting && !budgetExceeded) {
+    // The review route stores the answer as the step result and re-queues
+    const { stepIndex } = awaiting;
+    const { count } = await prisma.workflow.updateMany({
+      where: { id: workflowId, status: "running" },
+      data: {
+        status: "awaiting_input",
+        activeSteps: [],
+        currentStep: stepIndex,
+        results,
+      },
+    });
+    if (count > 0) {
+      await emitWorkflowEvent(workflowId, "workflow.status", {
+        status: "awaiting_input",
+        stepIndex,
+      });
+      console.log(`✋ Workflow ${workflowId} waiting for input at step ${stepIndex + 1}`);
+    }
+    return;
+  }
+
+  const unreachable = steps.filter((s) => !completed.has(s.index));
+  if (unreachable.length > 0) {
+    // Only possible with a dependency cycle or a reference to a missing step
+    const stepIndex = unreachable[0].index;
+    await prisma.workflow.update({
+      where: { id: workflowId },
+      data: {
+        status: "failed",
+        errorMessage: `Step ${stepIndex + 1} has unsatisfiable dependencies`,
+        failedStep: stepIndex,
+        currentStep: stepIndex,
+        activeSteps: [],
+        results: results,
+      },
+    });
+    await emitWorkflowEvent(workflowId, "workflow.status", {
+      status: "failed",
+      stepIndex,
+      error: `Step ${stepIndex + 1} has unsatisfiable dependencies`,
+      final: true,
+    });
+    return;
+  }
+
+  // All steps completed — mark workflow as completed (a cancel that
+  // arrived after the last step finished still wins)
+  const { count: finished } = await prisma.workflow.updateMany({
+    where: { id: workflowId, status: "running" },
     data: {
       status: "completed",
       completedAt: new Date(),
       currentStep: steps.length,
+      activeSteps: [],
+      ...(budgetExceeded && {
+        results,
+        budgetExceeded: { ...budgetExceeded },
+      }),
     },
   });
+  if (finished === 0) return;
+  await emitWorkflowEvent(workflowId, "workflow.status", {
+    status: "completed",
+    ...(budgetExceeded && { budgetExceeded: budgetExceeded.message }),
+  });
 
-  console.log(`🎉 Workflow ${workflowId} completed successfully!`);
+  if (budgetExceeded) {
+    console.log(`💸 Workflow ${workflowId} stopped early: ${budgetExceeded.message}`);
+  } else {
+    console.log(`🎉 Workflow ${workflowId} completed successfully!`);
+  }
 
   // Auto-generate report
   try {
     await autoGenerateReport(workflowId);
   } catch (error: any) {
     console.error("⚠️ Auto-report generation failed:", error.message);
+    await emitWorkflowEvent(workflowId, "report.failed", {
+      error: error.message,
+      final: true,
+    });
     // Don't fail the workflow for report generation failure
   }
 }
 
+/** Validation failures as a JSON column value (left null when there are none) */
+function validationErrorsData(ctx: StepContext) {
+  return ctx.validationFailures.length > 0
+    ? (ctx.validationFailures as unknown as Prisma.InputJsonArray)
+    : undefined;
+}
+
+/** Cache bookkeeping for the WorkflowExecution row */
+function cacheData(ctx: StepContext) {
+  return { cacheKey: ctx.cacheKey ?? null, cacheHit: ctx.cacheHit ?? false };
+}
+
+/** Prompt version and ids for the WorkflowExecution row (unset when no prompt ran) */
+function promptData(ctx: StepContext, workflow: any) {
+  return ctx.prompts.length > 0
+    ? {
+        promptVersion: workflowPromptVersion(workflow.promptVersion),
+        prompts: ctx.prompts,
+      }
+    : {};
+}
+
+function firstIncompleteStep(
+  steps: WorkflowStep[],
+  completed: Set<number>
+): number {
+  const next = steps.find((s) => !completed.has(s.index));
+  return next ? next.index : steps.length;
+}
+
+/**
+ * Prepare an interrupted run (worker crash, deploy, lost lease) for resumption.
+ * Rebuilds `results` from completed WorkflowExecution records, which may be
+ * ahead of the last persisted `results` snapshot, and marks executions that
+ * were left "running" as failed. executeWorkflow() then skips every step
+ * that already has a result.
+ */
+export async function recoverInterruptedRun(workflowId: string): Promise<void> {
+  const workflow = await prisma.workflow.findUnique({
+    where: { id: workflowId },
+    select: { results: true },
+  });
+
+  if (!workflow) throw new Error(`Workflow ${workflowId} not found`);
+
+  const results = [...(((workflow.results as unknown as any[]) || []) as any[])];
+
+  // for_each sub-step rows (itemIndex set) belong to their parent step
+  const completedExecutions = await prisma.workflowExecution.findMany({
+    where: {
+      workflowId,
+      status: { in: ["completed", "skipped"] },
+      itemIndex: null,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let restored = 0;
+  for (const execution of completedExecutions) {
+    if (results[execution.stepIndex] != null) continue;
+    if (execution.status === "skipped") {
+      results[execution.stepIndex] = {
+        stepIndex: execution.stepIndex,
+        skipped: true,
+        data: null,
+      };
+      restored++;
+    } else if (execution.output != null) {
+      results[execution.stepIndex] = {
+        stepIndex: execution.stepIndex,
+        data: execution.output,
+      };
+      restored++;
+    }
+  }
+
+  const interrupted = await prisma.workflowExecution.updateMany({
+    where: { workflowId, status: "running" },
+    data: {
+      status: "failed",
+      error: "Interrupted before the step finished",
+    },
+  });
+
+  if (restored > 0) {
+    await prisma.workflow.update({
+      where: { id: workflowId },
+      data: { results },
+    });
+  }
+
+  if (restored > 0 || interrupted.count > 0) {
+    console.log(
+      `♻️ Workflow ${workflowId}: restored ${restored} step result(s), ${interrupted.count} interrupted step(s) will re-run`
+    );
+  }
+}
+
 // ─────────────────────────────────────────────────────────
 // STEP EXECUTOR — Routes to the right handler
 // ─────────────────────────────────────────────────────────
 
+const AI_STEP_TYPES = new Set(["extract", "analyze", "aggregate", "verify"]);
+
+/**
+ * Run a step, or reuse its cached output when a step with the same type,
+ * params and upstream inputs ran recently (see workflow-cache.ts).
+ */
 async function executeStep(
   step: WorkflowStep,
   previousResults: any[],
-  workflow: any
+  workflow: any,
+  ctx: StepContext
+): Promise<any> {
+  const ai: GenerateOptions = {
+    task: "extract",
+    llm: [step.llm, workflowLLM(workflow)],
+    failures: ctx.validationFailures,
+    signal: ctx.signal,
+    usage: ctx.usage,
+    promptVersion: workflowPromptVersion(workflow.promptVersion),
+    prompts: ctx.prompts,
+  };
+
+  // Beyond params and inputs, the model, the prompt and the depth change
+  // the output. AI and fetch_page outputs are derived from the user's own
+  // data, so they are only shared between that user's workflows; search
+  // results are the same for everyone.
+  const context: Record<string, unknown> = {};
+  if (AI_STEP_TYPES.has(step.type)) {
+    const { provider, model } = resolveLLM(step.type as LLMTask, ...ai.llm!);
+    context.llm = `${provider.id}/${model}`;
+    context.prompt = resolvePrompt(step.type as PromptName, ai.promptVersion).id;
+    context.userId = workflow.userId;
+  }
+  if (step.type === "fetch_page") {
+    context.depth = workflow.depth;
+    context.userId = workflow.userId;
+  }
+
+  const cacheKey = stepCacheKey(step, previousResults, context);
+  if (cacheKey) {
+    ctx.cacheKey = cacheKey.key;
+    const cached = await readStepCache(cacheKey.key);
+    if (cached != null) {
+      ctx.cacheHit = true;
+      return cached;
+    }
+  }
+
+  const output = await runStepHandler(step, previousResults, workflow, ctx, ai);
+  if (cacheKey) await writeStepCache(cacheKey, step, output);
+  return output;
+}
+
+async function runStepHandler(
+  step: WorkflowStep,
+  previousResults: any[],
+  workflow: any,
+  ctx: StepContext,
+  ai: GenerateOptions
 ): Promise<any> {
   switch (step.type) {
     case "search":
-      return executeSearchStep(step, workflow);
+      return executeSearchStep(step, workflow, ctx);
+    case "fetch_page":
+      return executeFetchPageStep(step, previousResults, workflow, ctx.signal);
     case "extract":
-      return executeExtractStep(step, previousResults);
+      return executeExtractStep(step, previousResults, { ...ai, task: "extract" });
     case "analyze":
-      return executeAnalyzeStep(step, previousResults);
+      return executeAnalyzeStep(step, previousResults, { ...ai, task: "analyze" });
     case "aggregate":
-      return executeAggregateStep(step, previousResults);
+      return executeAggregateStep(step, previousResults, { ...ai, task: "aggregate" });
+    case "verify":
+      return executeVerifyStep(step, previousResults, workflow, ctx, { ...ai, task: "verify" });
     case "generate_report":
       return executeGenerateReportStep(step, previousResults, workflow);
+    case "review":
+      // Answered through the review route, never executed by the worker
+      throw new Error("Review steps wait for user input");
+    case "branch":
+      return evaluateBranch(step, previousResults);
+    case "for_each":
+      return executeForEachStep(step, previousResults, workflow, ctx);
     default:
       throw new Error(`Unknown step type: ${step.type}`);
   }
@@ -414,33 +1307,40 @@ async function executeStep(
  */
 async function executeSearchStep(
   step: WorkflowStep,
-  workflow: any
+  workflow: any,
+  ctx: StepContext
 ): Promise<any> {
   const { source = "google", query, num = 10 } = step.params;
+  const { signal } = ctx;
 
   let results: any[] = [];
 
   switch (source) {
     case "google":
     case "web": {
-      const webResults = await searchWeb(query, { num });
+      // Counted before the call: a failed call still uses up quota
+      recordSearchCall(ctx.usage, "google");
+      const webResults = await searchWeb(query, { num, signal });
       results = webResults || [];
       break;
     }
 
     case "github": {
+      recordSearchCall(ctx.usage, "github");
       const repos = await searchRepositories(query, {
         sort: step.params.sort || "stars",
         language: step.params.language,
         stars: step.params.stars,
         limit: num,
+        signal,
       });
       results = repos || [];
       break;
     }
 
     case "pexels": {
-      const photos = await searchPexels(query);
+      recordSearchCall(ctx.usage, "pexels");
+      const photos = await searchPexels(query, { signal });
       results = photos || [];
       break;
     }
@@ -459,11 +1359,85 @@ async function executeSearchStep(
 }
 
 /**
- * EXTRACT STEP — AI extracts specific data points from previous results
+ * FETCH_PAGE STEP — Downloads the pages behind a search step's results
+ * and keeps their readable main text, so later steps see more than snippets
+ */
+async function executeFetchPageStep(
+  step: WorkflowStep,
+  previousResults: any[],
+  workflow: any,
+  signal?: AbortSignal
+): Promise<any> {
+  const defaultMaxPages =
+    { quick: 3, standard: 5, deep: 10 }[workflow.depth as string] || 5;
+  const {
+    fromStep = 0,
+    maxPages = defaultMaxPages,
+    concurrency = 3,
+    maxChars = 8000,
+  } = step.params;
+
+  const sourceResults = previousResults[fromStep]?.data?.results;
+  if (!Array.isArray(sourceResults)) {
+    throw new Error(`No search results from step ${fromStep} to fetch pages for`);
+  }
+
+  const urls: string[] = Array.from(
+    new Set(
+      sourceResults
+        .map((r: any) => r?.url || r?.link)
+        .filter((url: unknown): url is string => typeof url === "string")
+    )
+  ).slice(0, maxPages);
+
+  if (urls.length === 0) {
+    throw new Error(`Step ${fromStep} has no result URLs to fetch`);
+  }
+
+  const failed: { url: string; error: string }[] = [];
+  const fetched = await mapWithConcurrency(urls, concurrency, async (url) => {
+    try {
+      return await fetchPage(url, { maxChars, signal });
+    } catch (error: any) {
+      failed.push({ url, error: error.message });
+      return null;
+    }
+  });
+  // Results come back in search result order
+  const pages = fetched.filter((page): page is FetchedPage => page !== null);
+
+  // Every page failing usually means a network problem — let retries handle it
+  if (pages.length === 0) {
+    throw new Error(
+      `Failed to fetch any of ${urls.length} pages: ${failed[0].error}`
+    );
+  }
+
+  return {
+    fromStep,
+    pages: pages.map((page) => ({
+      url: page.finalUrl,
+      title: page.title,
+      author: page.author,
+      publishedAt: page.publishedAt,
+      siteName: page.siteName,
+      text: page.text,
+      wordCount: page.wordCount,
+      truncated: page.truncated,
+    })),
+    failed,
+    totalFetched: pages.length,
+  };
+}
+
+/**
+ * EXTRACT STEP — AI extracts specific data points from previous results.
+ * Large inputs are chunked; rows from every chunk are concatenated.
  */
 async function executeExtractStep(
   step: WorkflowStep,
-  previousResults: any[]
+  previousResults: any[],
+  ai: GenerateOptions
 ): Promise<any> {
   const { extractionGoal, fields = [], fromStep = 0 } = step.params;
 
@@ -472,36 +1446,55 @@ async function executeExtractStep(
     throw new Error(`No data from step ${fromStep} to extract from`);
   }
 
-  const systemPrompt = `You are a data extraction assistant. Extract specific information from search results.
-Respond with ONLY valid JSON, no markdown fences.`;
-
-  const userPrompt = `Extract the following from these search results:
-
-EXTRACTION GOAL: ${extractionGoal}
-FIELDS TO EXTRACT: ${JSON.stringify(fields)}
-
-SOURCE DATA:
-${JSON.stringify(sourceData, null, 2).slice(0, 8000)}
+  const { chunks, coverage } = chunkItems(
+    flattenStepData(sourceData),
+    chunkOptions(step)
+  );
+
+  const partials = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, i) => {
+    const prompt = renderPrompt(
+      "extract",
+      {
+        extractionGoal,
+        fields,
+        label: chunkLabel("SOURCE DATA", i, chunks.length),
+        data: chunk,
+      },
+      ai
+    );
+    return generateValidated(ExtractOutputSchema, prompt.system, prompt.user, ai);
+  });
 
-Return JSON in this format:
-{
-  "extracted": [
-    { ${fields.map((f: string) => `"${f}": "value"`).join(", ")} }
-  ],
-  "totalExtracted": <number>,
-  "summary": "Brief summary of what was extracted"
-}`;
+  // Reduce — concatenate rows, dropping exact duplicates across chunks
+  const seen = new Set<string>();
+  const extracted = partials
+    .flatMap((p) => p.extracted)
+    .filter((row) => {
+      const key = JSON.stringify(row);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
 
-  const response = await callAI(systemPrompt, userPrompt);
-  return parseAIJson(response);
+  return {
+    extracted,
+    totalExtracted: extracted.length,
+    summary: partials
+      .map((p) => p.summary)
+      .filter(Boolean)
+      .join(" "),
+    coverage,
+  };
 }
 
 /**
- * ANALYZE STEP — AI analyzes collected data
+ * ANALYZE STEP — AI analyzes collected data.
+ * Large inputs are analyzed per chunk, then the partial analyses are merged.
  */
 async function executeAnalyzeStep(
   step: WorkflowStep,
-  previousResults: any[]
+  previousResults: any[],
+  ai: GenerateOptions
 ): Promise<any> {
   const { analysisType = "general", question, fromSteps = [] } = step.params;
 
@@ -511,36 +1504,44 @@ async function executeAnalyzeStep(
       ? fromSteps
           .map((idx: number) => previousResults[idx]?.data)
           .filter(Boolean)
-      : previousResults.filter(Boolean).map((r) => r.data);
+      : previousResults.map((r) => r?.data).filter(Boolean);
 
   if (dataToAnalyze.length === 0) {
     throw new Error("No data available for analysis");
   }
 
-  const systemPrompt = `You are a research analyst. Analyze the provided data and give insights.
-Analysis type: ${analysisType}
-Respond with ONLY valid JSON, no markdown fences.`;
-
-  const userPrompt = `Analyze this data:
-
-QUESTION: ${question || "Provide a comprehensive analysis"}
-ANALYSIS TYPE: ${analysisType}
+  const { chunks, coverage } = chunkItems(
+    dataToAnalyze.flatMap(flattenStepData),
+    chunkOptions(step)
+  );
+
+  const partials = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, i) => {
+    const prompt = renderPrompt(
+      "analyze",
+      {
+        analysisType,
+        question,
+        label: chunkLabel("DATA", i, chunks.length),
+        data: chunk,
+      },
+      ai
+    );
+    return generateValidated(AnalyzeOutputSchema, prompt.system, prompt.user, ai);
+  });
 
-DATA:
-${JSON.stringify(dataToAnalyze, null, 2).slice(0, 10000)}
+  if (partials.length === 1) return { ...partials[0], coverage };
 
-Return JSON in this format:
-{
-  "analysisType": "${analysisType}",
-  "findings": [
-    { "insight": "Key finding", "evidence": "Supporting data", "confidence": "high|medium|low" }
-  ],
-  "summary": "Overall analysis summary",
-  "recommendations": ["Recommendation 1", "Recommendation 2"]
-}`;
+  // Reduce — merge the per-chunk analyses into one, a group at a time
+  const [merged] = await reduceInGroups(partials, (group) => {
+    const prompt = renderPrompt(
+      "analyze_merge",
+      { analysisType, question, partials: group },
+      ai
+    );
+    return generateValidated(AnalyzeOutputSchema, prompt.system, prompt.user, ai);
+  });
 
-  const response = await callAI(systemPrompt, userPrompt);
-  return parseAIJson(response);
+  return { ...merged, coverage };
 }
 
 /**
@@ -548,7 +1549,8 @@ Return JSON in this format:
  */
 async function executeAggregateStep(
   step: WorkflowStep,
-  previousResults: any[]
+  previousResults: any[],
+  ai: GenerateOptions
 ): Promise<any> {
   const { fromSteps = [], mergeStrategy = "combine" } = step.params;
 
@@ -561,8 +1563,8 @@ async function executeAggregateStep(
           }))
           .filter((d: { stepIndex: number; data: any }) => d.data)
       : previousResults
-          .filter(Boolean)
-          .map((r, idx) => ({ stepIndex: idx, data: r.data }));
+          .map((r, idx) => ({ stepIndex: idx, data: r?.data }))
+          .filter((d) => d.data);
 
   if (dataToMerge.length === 0) {
     throw new Error("No data available for aggregation");
@@ -574,6 +1576,8 @@ async function executeAggregateStep(
     for (const source of dataToMerge) {
       if (source.data?.results) {
         allResults.push(...source.data.results);
+      } else if (source.data?.pages) {
+        allResults.push(...source.data.pages);
       } else if (source.data?.extracted) {
         allResults.push(...source.data.extracted);
       } else if (source.data?.findings) {
@@ -591,25 +1595,326 @@ async function executeAggregateStep(
     };
   }
 
-  // For complex merges, use AI
-  const systemPrompt = `You are a data aggregation assistant. Merge and organize data from multiple sources.
-Respond with ONLY valid JSON, no markdown fences.`;
+  // For complex merges, use AI — per chunk, then once more over the partials
+  const options = chunkOptions(step);
+  const { chunks, coverage } = chunkItems(
+    dataToMerge.flatMap((source: { stepIndex: number; data: any }) =>
+      flattenStepData(source.data).map((item) => ({
+        stepIndex: source.stepIndex,
+        item,
+      }))
+    ),
+    options
+  );
+
+  const mergePrompt = (label: string, data: unknown) =>
+    renderPrompt("aggregate", { mergeStrategy, label, data }, ai);
+
+  const partials = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, i) => {
+    const prompt = mergePrompt(chunkLabel("DATA SOURCES", i, chunks.length), chunk);
+    return generateValidated(AggregateOutputSchema, prompt.system, prompt.user, ai);
+  });
+
+  if (partials.length === 1) return { ...partials[0], coverage };
+
+  const combined = partials.flatMap((p) => p.aggregatedData);
+
+  // Reduce — re-merge across chunks when the partial results fit one prompt
+  if (
+    estimateTokens(JSON.stringify(combined, null, 2)) <=
+    (options.chunkTokens ?? DEFAULT_CHUNK_TOKENS)
+  ) {
+    const prompt = mergePrompt("PARTIAL RESULTS (already merged per chunk)", combined);
+    const merged = await generateValidated(
+      AggregateOutputSchema,
+      prompt.system,
+      prompt.user,
+      ai
+    );
+    return { ...merged, coverage };
+  }
+
+  return {
+    mergeStrategy,
+    totalItems: combined.length,
+    aggregatedData: combined,
+    summary: partials.map((p) => p.summary).filter(Boolean).join(" "),
+    coverage,
+  };
+}
+
+/**
+ * VERIFY STEP — Checks the claims of earlier analyze/extract steps against
+ * the sources in every other earlier step (see workflow-verify.ts). Claims
+ * nothing speaks to can get a follow-up web search and a second look.
+ */
+async function executeVerifyStep(
+  step: WorkflowStep,
+  previousResults: any[],
+  workflow: any,
+  ctx: StepContext,
+  ai: GenerateOptions
+): Promise<any> {
+  const { maxClaims = DEFAULT_MAX_CLAIMS, followUpSearches = 0 } = step.params;
+
+  // Without fromSteps, every earlier analyze and extract step makes claims
+  const fromSteps: number[] =
+    Array.isArray(step.params.fromSteps) && step.params.fromSteps.length > 0
+      ? step.params.fromSteps
+      : ((workflow.steps as WorkflowStep[]) || [])
+          .filter((s) => s.index < step.index && (s.type === "analyze" || s.type === "extract"))
+          .map((s) => s.index);
+  if (fromSteps.length === 0) {
+    throw new Error(`No analyze or extract step before step ${step.index + 1} to verify`);
+  }
+
+  const claims = collectClaims(fromSteps, previousResults, maxClaims);
+  if (claims.length === 0) {
+    const checked = fromSteps.map((i) => i + 1).join(", ");
+    throw new Error(
+      `No findings or extracted rows to verify in step${fromSteps.length > 1 ? "s" : ""} ${checked}`
+    );
+  }
+
+  const evidence = previousResults.filter(
+    (result, idx) => result && !result.skipped && !fromSteps.includes(idx)
+  );
+  let sources = collectSources(evidence);
+  const first = await judgeClaims(step, claims, evidence, sources, ai);
+  let verified = applyJudgments(unverifiedClaims(claims), first.judgments, sources);
+
+  // Follow-up — search the web for claims nothing spoke to
+  const canSearch = !workflow.sources?.length || workflow.sources.includes("google");
+  const open = verified
+    .filter((claim) => claim.evidence.length === 0)
+    .slice(0, canSearch ? followUpSearches : 0);
+  const failed: { claim: number; error: string }[] = [];
+  let searched = 0;
+
+  if (open.length > 0) {
+    const found = await mapWithConcurrency(open, 2, async (claim) => {
+      if (ctx.budget && checkBudget(ctx.budget)) return [];
+      try {
+        recordSearchCall(ctx.usage, "google");
+        searched++;
+        return (await searchWeb(claim.claim.slice(0, 200), { num: 5, signal: ctx.signal })) || [];
+      } catch (error: any) {
+        if (ctx.signal.aborted) throw error;
+        failed.push({ claim: claim.id, error: error.message });
+        return [];
+      }
+    });
+
+    const followUp = { stepIndex: step.index, data: { results: found.flat() } };
+    if (followUp.data.results.length > 0) {
+      // Earlier sources keep their numbers; new URLs are numbered after them
+      sources = collectSources([...evidence, followUp]);
+      const second = await judgeClaims(step, open, [followUp], sources, ai);
+      verified = applyJudgments(verified, second.judgments, sources);
+    }
+  }
+
+  const counts = countVerdicts(verified);
+  return {
+    claims: verified,
+    ...counts,
+    followUpSearches: searched,
+    failed,
+    summary: `${counts.supported} of ${verified.length} claims supported, ${counts.contested} contested, ${counts.unsupported} unsupported.`,
+    coverage: first.coverage,
+  };
+}
+
+/** Ask the model which numbered sources in `results` bear on each claim */
+async function judgeClaims(
+  step: WorkflowStep,
+  claims: Claim[] | VerifiedClaim[],
+  results: any[],
+  sources: ReportSource[],
+  ai: GenerateOptions
+) {
+  const { chunks, coverage } = chunkItems(
+    annotateSources(results, sources).flatMap((result: any) =>
+      flattenStepData(result.data)
+    ),
+    chunkOptions(step)
+  );
+  if (sources.length === 0) return { judgments: [], coverage };
+
+  const list = claims.map(({ id, claim }) => ({ id, claim }));
+  const partials = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, i) => {
+    const prompt = renderPrompt(
+      "verify",
+      { claims: list, label: chunkLabel("EVIDENCE", i, chunks.length), data: chunk },
+      ai
+    );
+    return generateValidated(VerifyOutputSchema, prompt.system, prompt.user, ai);
+  });
+
+  return { judgments: partials.flatMap((p) => p.claims), coverage };
+}
+
+/**
+ * FOR_EACH STEP — Runs the sub-steps once per item of an earlier step's list.
+ * An item whose sub-steps fail is reported in the output; the step only
+ * fails when every item that ran does. Items not started before the
+ * workflow's budget ran out are skipped.
+ */
+async function executeForEachStep(
+  step: WorkflowStep,
+  previousResults: any[],
+  workflow: any,
+  ctx: StepContext
+): Promise<any> {
+  const { concurrency = 2 } = step.params;
+  const entries = forEachItems(step, previousResults);
+
+  const items = await mapWithConcurrency(entries, concurrency, async (entry) => {
+    const over = ctx.budget && checkBudget(ctx.budget);
+    if (over) {
+      const { index, label, item } = entry;
+      return { index, label, item, skipped: over.message };
+    }
+
+    const local: any[] = [];
+    try {
+      for (const sub of expandSubSteps(step, entry)) {
+        const data = await runSubStep(step, sub, entry, local, workflow, ctx);
+        local[sub.index] = { stepIndex: sub.index, data };
+      }
+      const { index, label, item } = entry;
+      const data = local[local.length - 1]?.data;
+      await emitWorkflowEvent(workflow.id, "item.completed", {
+        stepIndex: step.index,
+        itemIndex: index,
+        label,
+        preview: previewOutput(data),
+      });
+      return { index, label, item, data };
+    } catch (error: any) {
+      if (ctx.signal.aborted) throw error;
+      const { index, label, item } = entry;
+      await emitWorkflowEvent(workflow.id, "item.failed", {
+        stepIndex: step.index,
+        itemIndex: index,
+        label,
+        error: error.message,
+      });
+      return { index, label, item, error: error.message as string };
+    }
+  });
+
+  const ran = items.filter((item) => !item.skipped);
+  const failed = ran.filter((item) => item.error);
+  if (failed.length > 0 && failed.length === ran.length) {
+    throw new Error(`All ${ran.length} items failed: ${failed[0].error}`);
+  }
+
+  return {
+    fromStep: step.params.fromStep,
+    totalItems: items.length,
+    failedItems: failed.length,
+    skippedItems: items.length - ran.length,
+    items,
+  };
+}
 
-  const userPrompt = `Merge this data using strategy: ${mergeStrategy}
+/**
+ * One for_each sub-step for one item, under the sub-step's retry policy.
+ * Each attempt is a WorkflowExecution row of the parent step, told apart
+ * by itemIndex and subStepIndex.
+ */
+async function runSubStep(
+  parent: WorkflowStep,
+  sub: WorkflowStep,
+  entry: ForEachEntry,
+  local: any[],
+  workflow: any,
+  ctx: StepContext
+): Promise<any> {
+  const policy = resolveRetryPolicy(sub);
+
+  for (let attempt = 1; ; attempt++) {
+    const subCtx: StepContext = {
+      validationFailures: [],
+      signal: ctx.signal,
+      usage: emptyUsage(),
+      prompts: [],
+    };
+    const execution = await prisma.workflowExecution.create({
+      data: {
+        workflowId: workflow.id,
+        stepIndex: parent.index,
+        itemIndex: entry.index,
+        subStepIndex: sub.index,
+        stepType: sub.type,
+        stepTitle: `${entry.label}: ${sub.title}`,
+        input: sub.params,
+        status: "running",
+        attempt,
+        maxAttempts: policy.maxAttempts,
+      },
+    });
 
-DATA SOURCES:
-${JSON.stringify(dataToMerge, null, 2).slice(0, 10000)}
+    const startTime = Date.now();
+    try {
+      const output = await withTimeout(
+        (attemptSignal) => {
+          subCtx.signal = attemptSignal;
+          return executeStep(sub, local, workflow, subCtx);
+        },
+        resolveTimeoutMs(sub),
+        ctx.signal
+      );
+      if (ctx.budget) addUsage(ctx.budget.usage, subCtx.usage);
+      await prisma.workflowExecution.update({
+        where: { id: execution.id },
+        data: {
+          status: "completed",
+          output,
+          durationMs: Date.now() - startTime,
+          completedAt: new Date(),
+          validationErrors: validationErrorsData(subCtx),
+          ...cacheData(subCtx),
+          ...promptData(subCtx, workflow),
+          ...usageData(subCtx.usage),
+        },
+      });
+      return output;
+    } catch (error: any) {
+      const durationMs = Date.now() - startTime;
+      if (ctx.budget) addUsage(ctx.budget.usage, subCtx.usage);
+
+      if (ctx.signal.aborted) {
+        const reason = ctx.signal.reason as Error | undefined;
+        await prisma.workflowExecution.update({
+          where: { id: execution.id },
+          data: {
+            status: "cancelled",
+            error: reason?.message || "Cancelled by user",
+            durationMs,
+          },
+        });
+        throw error;
+      }
 
-Return JSON in this format:
-{
-  "mergeStrategy": "${mergeStrategy}",
-  "totalItems": <number>,
-  "aggregatedData": [ ... merged items ... ],
-  "summary": "Brief description of merged data"
-}`;
+      await prisma.workflowExecution.update({
+        where: { id: execution.id },
+        data: {
+          status: "failed",
+          error: error.message,
+          errorClass: classifyError(error),
+          durationMs,
+          validationErrors: validationErrorsData(subCtx),
+          ...promptData(subCtx, workflow),
+          ...usageData(subCtx.usage),
+        },
+      });
 
-  const response = await callAI(systemPrompt, userPrompt);
-  return parseAIJson(response);
+      if (!shouldRetry(error, policy, attempt)) throw error;
+      await sleep(backoffDelayMs(policy, attempt), ctx.signal);
+    }
+  }
 }
 
 /**
@@ -625,7 +1930,7 @@ async function executeGenerateReportStep(
     step.params.reportFormat || workflow.outputFormat || "summary";
 
   // Collect all data from previous steps
-  const allData = previousResults.filter(Boolean).map((r) => r.data);
+  const allData = previousResults.map((r) => r?.data).filter(Boolean);
 
   return {
     readyForReport: true,
@@ -646,133 +1951,233 @@ async function autoGenerateReport(workflowId: string): Promise<void> {
 
   if (!workflow || workflow.status !== "completed") return;
 
-  const reportData = await synthesizeReport({
-    goal: workflow.query,
-    results: workflow.results as any[],
-    outputFormat: workflow.outputFormat,
-  });
+  const reportStep = (workflow.steps as unknown as WorkflowStep[]).find(
+    (s) => s.type === "generate_report"
+  );
 
-  await prisma.report.create({
+  const validationFailures: ValidationFailure[] = [];
+  const usage = emptyUsage();
+  const promptVersion = workflowPromptVersion(workflow.promptVersion);
+  const prompts: string[] = [];
+  let reportData: SynthesizedReport;
+  try {
+    reportData = await synthesizeReport({
+      goal: workflow.query,
+      results: workflow.results as any[],
+      outputFormat: workflow.outputFormat,
+      llm: [reportStep?.llm, workflowLLM(workflow)],
+      validationFailures,
+      usage,
+      partialNote: (workflow.budgetExceeded as BudgetExceeded | null)?.message,
+      promptVersion,
+      prompts,
+    });
+  } finally {
+    await recordReportSynthesis(workflowId, validationFailures, usage, {
+      promptVersion,
+      prompts,
+    });
+  }
+
+  const report = await prisma.report.create({
     data: {
       userId: workflow.userId,
       title: reportData.title,
       summary: reportData.summary,
       sections: reportData.sections,
       format: workflow.outputFormat,
+      promptVersion,
+      prompts,
       sourceData: {
         workflowId: workflow.id,
         workflowQuery: workflow.query,
         sources: workflow.sources.map((s) => ({ type: s })),
+        coverage: reportData.coverage,
+        bibliography: reportData.sources,
       },
       workflowId: workflow.id,
     },
   });
 
+  await emitWorkflowEvent(workflowId, "report.ready", {
+    reportId: report.id,
+    title: report.title,
+    final: true,
+  });
   console.log(`📄 Report auto-generated for workflow ${workflowId}`);
 }
 
+/**
+ * Attach report synthesis validation failures, token usage and prompts to
+ * the generate_report execution, then refresh the workflow's usage totals
+ */
+async function recordReportSynthesis(
+  workflowId: string,
+  failures: ValidationFailure[],
+  usage: StepUsage,
+  prompt: { promptVersion: PromptVersion; prompts: string[] }
+): Promise<void> {
+  if (failures.length === 0 && usage.llmCalls === 0) return;
+
+  const execution = await prisma.workflowExecution.findFirst({
+    where: { workflowId, stepType: "generate_report" },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!execution) return;
+
+  const existing = (execution.validationErrors as unknown as ValidationFailure[]) || [];
+  // Keep what earlier syntheses for this execution already recorded
+  const total = addUsage(
+    { ...usage, searchCalls: {} },
+    {
+      llmCalls: execution.llmCalls,
+      inputTokens: execution.inputTokens,
+      outputTokens: execution.outputTokens,
+      costUsd: execution.costUsd,
+    }
+  );
+
+  await prisma.workflowExecution.update({
+    where: { id: execution.id },
+    data: {
+      ...(failures.length > 0 && {
+        validationErrors: [...existing, ...failures] as unknown as Prisma.InputJsonArray,
+      }),
+      ...(prompt.prompts.length > 0 && {
+        promptVersion: prompt.promptVersion,
+        prompts: [...new Set([...execution.prompts, ...prompt.prompts])],
+      }),
+      ...usageData(total),
+    },
+  });
+  await rollUpWorkflowUsage(workflowId);
+}
+
 // ─────────────────────────────────────────────────────────
 // 3. REPORT SYNTHESIZER — AI generates structured report
 // ─────────────────────────────────────────────────────────
 
 export async function synthesizeReport(
   input: SynthesizeInput
-): Promise<ReportOutput> {
-  const { goal, results, outputFormat, customTitle } = input;
-
-  const formatInstructions: Record<string, string> = {
-    comparison: `Create a COMPARISON report with:
-- Executive summary comparing the items
-- A detailed comparison TABLE section (type: "table") with headers and rows
-- A CHART section (type: "chart") showing key metrics visually
-- Key differences LIST section (type: "list")
-- Final recommendation TEXT section (type: "text")`,
-
-    analysis: `Create an ANALYSIS report with:
-- Executive summary of findings
-- Detailed analysis TEXT sections for each key area
-- Supporting data TABLE (type: "table") if applicable
-- Key insights LIST (type: "list")
-- Conclusions and next steps TEXT section`,
-
-    timeline: `Create a TIMELINE report with:
-- Executive summary of the timeline
-- Chronological events TABLE (type: "table") 
-- Key milestones LIST (type: "list")
-- Trend analysis TEXT section
-- Future predictions TEXT section`,
-
-    summary: `Create a SUMMARY report with:
-- Executive summary (2-3 sentences)
-- Overview TEXT section with main findings
-- Key data TABLE (type: "table") if applicable
-- Highlights LIST (type: "list")
-- Conclusion TEXT section`,
-  };
-
-  const systemPrompt = `You are a research report generator for FlowSearch AI.
-Generate professional, well-structured research reports from collected data.
-
-SECTION TYPES (use these exact type values):
-- "text": Paragraph content — content is a string
-- "table": Tabular data — content is { "headers": string[], "rows": string[][] }
-- "chart": Chart data — content is { "chartType": "bar"|"line"|"pie", "labels": string[], "datasets": [{ "label": string, "data": number[] }] }
-- "list": List of items — content is { "items": string[] }
-
-RULES:
-- Every section must have: id (unique string), type, title, content
-- Use real data from the results, don't make up numbers
-- If data is sparse, note limitations honestly
-- Keep summaries concise (2-3 sentences)
-- Include 3-6 sections per report
-- Respond with ONLY valid JSON, no markdown fences`;
-
-  const userPrompt = `Generate a ${outputFormat} report for this research:
-
-RESEARCH GOAL: ${goal}
-${customTitle ? `CUSTOM TITLE: ${customTitle}` : ""}
-
-${formatInstructions[outputFormat] || formatInstructions.summary}
-
-COLLECTED DATA (from workflow steps):
-${JSON.stringify(results, null, 2).slice(0, 12000)}
+): Promise<SynthesizedReport> {
+  const { goal, outputFormat, customTitle } = input;
+  // Number the sources so the report can cite them
+  const sources = collectSources(input.results);
+  const collected = await condenseResults({
+    ...input,
+    results: annotateSources(input.results, sources),
+  });
 
-Return JSON in this EXACT format:
-{
-  "title": "${customTitle || "Report title based on goal"}",
-  "summary": "2-3 sentence executive summary",
-  "sections": [
+  const options: GenerateOptions = {
+    task: "report",
+    llm: input.llm,
+    failures: input.validationFailures,
+    usage: input.usage,
+    promptVersion: input.promptVersion,
+    prompts: input.prompts,
+  };
+  const prompt = renderPrompt(
+    "report",
     {
-      "id": "section-1",
-      "type": "text",
-      "title": "Section Title",
-      "content": "Section content here..."
+      goal,
+      outputFormat,
+      customTitle,
+      partialNote: input.partialNote,
+      label: collected.label,
+      data: collected.data,
     },
-    {
-      "id": "section-2",
-      "type": "table",
-      "title": "Comparison Table",
-      "content": {
-        "headers": ["Column 1", "Column 2"],
-        "rows": [["value", "value"]]
-      }
-    }
-  ]
-}`;
+    options
+  );
+
+  const report = await generateValidated(
+    ReportOutputSchema,
+    prompt.system,
+    prompt.user,
+    options
+  );
+
+  // Ensure sections have IDs; contested claims always get a section
+  const withIds = report.sections.map((section, i) => ({
+    ...section,
+    id: section.id || `section-${i + 1}`,
+  }));
+  const contested = contestedClaimsSection(input.results, sources, "contested-claims");
+  const { sections, bibliography } = applyCitations(
+    contested ? [...withIds, contested] : withIds,
+    sources
+  );
+  return {
+    ...report,
+    sections,
+    coverage: collected.coverage,
+    sources: bibliography,
+  };
+}
 
-  const response = await callAI(systemPrompt, userPrompt);
-  const report = parseAIJson<ReportOutput>(response);
+/**
+ * Map pass for report synthesis: results that fit one prompt are passed
+ * through; larger ones are condensed chunk by chunk into key facts and
+ * data points, which the report prompt then reduces into the final report.
+ */
+async function condenseResults(input: SynthesizeInput): Promise<{
+  label: string;
+  data: unknown;
+  coverage: Coverage;
+}> {
+  const items = input.results
+    .filter(Boolean)
+    .flatMap((result: any) =>
+      flattenStepData(result.data).map((item) => ({
+        stepIndex: result.stepIndex,
+        item,
+      }))
+    );
 
-  // Validate report structure
-  if (!report.title || !report.summary || !report.sections) {
-    throw new Error("AI returned invalid report structure");
+  const { chunks, coverage } = chunkItems(items);
+  if (chunks.length <= 1) {
+    return {
+      label: "COLLECTED DATA (from workflow steps)",
+      data: input.results,
+      coverage,
+    };
   }
 
-  // Ensure sections have IDs
-  report.sections = report.sections.map((section, i) => ({
-    ...section,
-    id: section.id || `section-${i + 1}`,
-  }));
+  const options: GenerateOptions = {
+    task: "extract",
+    llm: input.llm,
+    failures: input.validationFailures,
+    usage: input.usage,
+    promptVersion: input.promptVersion,
+    prompts: input.prompts,
+  };
+
+  const condense = (label: string, data: unknown) => {
+    const prompt = renderPrompt("condense", { goal: input.goal, label, data }, options);
+    return generateValidated(ExtractOutputSchema, prompt.system, prompt.user, options);
+  };
 
-  return report;
+  const parts = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, i) =>
+    condense(chunkLabel("DATA", i, chunks.length), chunk)
+  );
+
+  // Too many digests for the report prompt — condense them again in groups
+  const digests = await reduceInGroups(
+    parts,
+    (group) =>
+      condense(
+        "CONDENSED DATA (digests of consecutive parts)",
+        group.map((digest) => ({ summary: digest.summary, dataPoints: digest.extracted }))
+      ),
+    { target: MERGE_GROUP_SIZE }
+  );
+
+  return {
+    label: `COLLECTED DATA (condensed from ${chunks.length} parts of the workflow results)`,
+    data: digests.map((digest, i) => ({
+      part: i + 1,
+      summary: digest.summary,
+      dataPoints: digest.extracted,
+    })),
+    coverage,
+  };
 }
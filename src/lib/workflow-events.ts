@@ -0,0 +1,208 @@
+// lib/workflow-events.ts
+//
+// Live progress events behind GET /api/workflows/[id]/events (SSE).
+//
+// The engine runs in the worker process, so events travel through Postgres:
+// each one is a WorkflowEvent row, which lets a client that reconnects with
+// Last-Event-ID replay what it missed, followed by a NOTIFY on
+// "workflow_events" that wakes the SSE route right away. Where LISTEN is not
+// available (e.g. behind a transaction-mode pooler) the route polls the
+// table instead. The worker deletes events older than EVENT_RETENTION_MS.
+
+import { Client } from "pg";
+import { prisma } from "@/lib/prisma";
+import { itemLabel, stepListKey } from "@/lib/workflow-chunking";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export type WorkflowEventType =
+  | "workflow.status"
+  | "step.started"
+  | "step.completed"
+  | "step.failed"
+  | "step.skipped"
+  | "review.requested"
+  | "item.completed"
+  | "item.failed"
+  | "report.ready"
+  | "report.failed";
+
+export const WORKFLOW_EVENT_TYPES: WorkflowEventType[] = [
+  "workflow.status",
+  "step.started",
+  "step.completed",
+  "step.failed",
+  "step.skipped",
+  "review.requested",
+  "item.completed",
+  "item.failed",
+  "report.ready",
+  "report.failed",
+];
+
+export interface WorkflowEventRecord {
+  id: number;
+  type: string;
+  stepIndex: number | null;
+  data: Record<string, any>;
+  createdAt: Date;
+}
+
+/** A few items of a step's output, small enough to send with every event */
+export interface OutputPreview {
+  count?: number;
+  items?: string[];
+  summary?: string;
+}
+
+const CHANNEL = "workflow_events";
+
+/** Delay between table reads when LISTEN is not available */
+export const EVENT_POLL_MS = Number(process.env.WORKFLOW_EVENT_POLL_MS ?? 1000);
+
+/** Longest wait for a notification before the route checks anyway */
+const LISTEN_WAIT_MS = 15_000;
+
+export const EVENT_RETENTION_MS = 24 * 60 * 60_000;
+
+// ─────────────────────────────────────────────────────────
+// Producing
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Record an event and wake the SSE listeners. Never throws: a lost event
+ * only delays the UI until its next status fetch.
+ */
+export async function emitWorkflowEvent(
+  workflowId: string,
+  type: WorkflowEventType,
+  data: Record<string, any> = {}
+): Promise<void> {
+  try {
+    await prisma.workflowEvent.create({
+      data: {
+        workflowId,
+        type,
+        stepIndex: typeof data.stepIndex === "number" ? data.stepIndex : null,
+        data,
+      },
+    });
+    await prisma.$executeRaw`SELECT pg_notify(${CHANNEL}, ${workflowId})`;
+  } catch (error: any) {
+    console.error(`⚠️ Failed to emit ${type} for ${workflowId}:`, error.message);
+  }
+}
+
+export function previewOutput(output: any): OutputPreview | null {
+  if (output == null || typeof output !== "object") return null;
+
+  const preview: OutputPreview = {};
+  const key = stepListKey(output);
+  if (key) {
+    const list = output[key] as any[];
+    preview.count = list.length;
+    preview.items = list.slice(0, 3).map((item) => itemLabel(item).slice(0, 80));
+  }
+  const summary = output.summary ?? output.condition;
+  if (typeof summary === "string") preview.summary = summary.slice(0, 300);
+
+  return Object.keys(preview).length > 0 ? preview : null;
+}
+
+/** Delete events past the retention window; returns how many */
+export async function purgeOldWorkflowEvents(): Promise<number> {
+  const { count } = await prisma.workflowEvent.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - EVENT_RETENTION_MS) } },
+  });
+  return count;
+}
+
+// ─────────────────────────────────────────────────────────
+// Consuming
+// ─────────────────────────────────────────────────────────
+
+export async function readWorkflowEvents(
+  workflowId: string,
+  afterId: number,
+  limit = 200
+): Promise<WorkflowEventRecord[]> {
+  const events = await prisma.workflowEvent.findMany({
+    where: { workflowId, id: { gt: afterId } },
+    orderBy: { id: "asc" },
+    take: limit,
+  });
+  return events as unknown as WorkflowEventRecord[];
+}
+
+export async function latestWorkflowEventId(workflowId: string): Promise<number> {
+  const last = await prisma.workflowEvent.findFirst({
+    where: { workflowId },
+    orderBy: { id: "desc" },
+    select: { id: true },
+  });
+  return last?.id ?? 0;
+}
+
+/** Wake-up callbacks of the open streams, by workflow id */
+const waiters = new Map<string, Set<() => void>>();
+
+let listening: Promise<boolean> | null = null;
+
+/** One LISTEN connection per server process, shared by every stream */
+function ensureListener(): Promise<boolean> {
+  if (listening) return listening;
+
+  listening = (async () => {
+    const client = new Client({ connectionString: process.env.DATABASE_URL });
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error: any) {
+      console.warn("⚠️ LISTEN unavailable, workflow events fall back to polling:", error.message);
+      client.end().catch(() => {});
+      return false;
+    }
+
+    client.on("notification", (message) => {
+      waiters.get(message.payload ?? "")?.forEach((wake) => wake());
+    });
+    client.on("error", (error) => {
+      console.error("⚠️ Workflow event listener lost:", error.message);
+      listening = null;
+      client.end().catch(() => {});
+    });
+    return true;
+  })();
+
+  return listening;
+}
+
+/**
+ * Resolve when an event for the workflow may be available: on its NOTIFY,
+ * after EVENT_POLL_MS without LISTEN, or when the signal aborts.
+ */
+export async function waitForWorkflowEvent(
+  workflowId: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const timeoutMs = (await ensureListener()) ? LISTEN_WAIT_MS : EVENT_POLL_MS;
+  if (signal?.aborted) return;
+
+  await new Promise<void>((resolve) => {
+    const set = waiters.get(workflowId) ?? new Set();
+    waiters.set(workflowId, set);
+
+    const wake = () => {
+      clearTimeout(timer);
+      set.delete(wake);
+      if (set.size === 0) waiters.delete(workflowId);
+      signal?.removeEventListener("abort", wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, timeoutMs);
+    set.add(wake);
+    signal?.addEventListener("abort", wake);
+  });
+}
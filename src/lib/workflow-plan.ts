@@ -0,0 +1,199 @@
+// lib/workflow-plan.ts
+//
+// Editing operations for draft workflow plans.
+//
+// A draft workflow stores its planned `steps` without running them so the
+// user can review AI-planned queries first. Every operation here returns a
+// new, re-indexed step array and rewrites step references (`dependsOn`,
+// `params.fromStep`, `params.fromSteps`, a branch's `then` / `else`) so they
+// keep pointing at the same steps after inserts, removals and moves. Whether the edited plan can run
+// is checked separately by validatePlan (workflow-validation.ts).
+
+import type { WorkflowStep } from "@/lib/workflow-engine";
+import { WorkflowStepSchema } from "@/lib/workflow-schemas";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+/** Fields a plan edit may change on an existing step */
+export type StepChanges = Partial<
+  Pick<
+    WorkflowStep,
+    | "type"
+    | "title"
+    | "description"
+    | "params"
+    | "dependsOn"
+    | "llm"
+    | "retry"
+    | "timeoutMs"
+  >
+>;
+
+export type PlanEdit =
+  | { action: "add"; step: unknown; at?: number }
+  | { action: "remove"; index: number }
+  | { action: "move"; from: number; to: number }
+  | { action: "update"; index: number; changes: StepChanges };
+
+// ─────────────────────────────────────────────────────────
+// Reference remapping
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Re-index steps in their new order and rewrite references through
+ * `mapping` (old index → new index, or null when the step is gone).
+ */
+function remapSteps(
+  steps: WorkflowStep[],
+  mapping: (oldIndex: number) => number | null
+): WorkflowStep[] {
+  const mapIndex = (idx: unknown) =>
+    typeof idx === "number" ? mapping(idx) : null;
+
+  return steps.map((step, i) => {
+    const params = { ...step.params };
+
+    if ("fromStep" in params) {
+      const mapped = mapIndex(params.fromStep);
+      if (mapped === null) delete params.fromStep;
+      else params.fromStep = mapped;
+    }
+    for (const key of ["fromSteps", "then", "else"]) {
+      if (Array.isArray(params[key])) {
+        params[key] = params[key]
+          .map(mapIndex)
+          .filter((idx: number | null) => idx !== null);
+      }
+    }
+
+    return {
+      ...step,
+      index: i,
+      params,
+      dependsOn: (step.dependsOn || [])
+        .map(mapIndex)
+        .filter((idx): idx is number => idx !== null),
+    };
+  });
+}
+
+function assertIndex(steps: WorkflowStep[], index: number, label = "index") {
+  if (!Number.isInteger(index) || index < 0 || index >= steps.length) {
+    throw new Error(
+      `Step ${label} ${index} is out of range (0-${steps.length - 1})`
+    );
+  }
+}
+
+/** Parse a user-supplied step, filling defaults the same way as AI plans */
+function parseStep(input: unknown, index: number): WorkflowStep {
+  const parsed = WorkflowStepSchema.safeParse({
+    ...(input as object),
+    index,
+  });
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid step: ${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ")}`
+    );
+  }
+  return parsed.data as WorkflowStep;
+}
+
+// ─────────────────────────────────────────────────────────
+// Operations
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Insert a step at `at` (default: just before the final generate_report).
+ * The new step's own references use the indices of the resulting plan.
+ */
+export function addStep(
+  steps: WorkflowStep[],
+  input: unknown,
+  at?: number
+): WorkflowStep[] {
+  const last = steps[steps.length - 1];
+  const position =
+    at ?? (last?.type === "generate_report" ? steps.length - 1 : steps.length);
+
+  if (!Number.isInteger(position) || position < 0 || position > steps.length) {
+    throw new Error(`Cannot insert a step at position ${position}`);
+  }
+
+  const shifted = remapSteps(steps, (idx) => (idx >= position ? idx + 1 : idx));
+  const step = parseStep(input, position);
+
+  return [...shifted.slice(0, position), step, ...shifted.slice(position)].map(
+    (s, i) => ({ ...s, index: i })
+  );
+}
+
+/** Remove a step; references to it are dropped from the other steps */
+export function removeStep(steps: WorkflowStep[], index: number): WorkflowStep[] {
+  assertIndex(steps, index);
+
+  const remaining = steps.filter((s) => s.index !== index);
+  return remapSteps(remaining, (idx) =>
+    idx === index ? null : idx > index ? idx - 1 : idx
+  );
+}
+
+/** Move a step to a new position, keeping every reference attached */
+export function moveStep(
+  steps: WorkflowStep[],
+  from: number,
+  to: number
+): WorkflowStep[] {
+  assertIndex(steps, from, "from");
+  assertIndex(steps, to, "to");
+
+  const order = steps.map((s) => s.index);
+  const [moved] = order.splice(from, 1);
+  order.splice(to, 0, moved);
+
+  const reordered = order.map((idx) => steps[idx]);
+  return remapSteps(reordered, (idx) => order.indexOf(idx));
+}
+
+/** Apply field changes to one step; `params` replaces the whole object */
+export function updateStep(
+  steps: WorkflowStep[],
+  index: number,
+  changes: StepChanges
+): WorkflowStep[] {
+  assertIndex(steps, index);
+
+  const updated = parseStep({ ...steps[index], ...changes, index }, index);
+
+  return steps.map((s) => (s.index === index ? updated : s));
+}
+
+export function applyPlanEdit(
+  steps: WorkflowStep[],
+  edit: PlanEdit
+): WorkflowStep[] {
+  switch (edit.action) {
+    case "add":
+      return addStep(steps, edit.step, edit.at);
+    case "remove":
+      return removeStep(steps, edit.index);
+    case "move":
+      return moveStep(steps, edit.from, edit.to);
+    case "update":
+      return updateStep(steps, edit.index, edit.changes);
+    default:
+      throw new Error(`Unknown plan edit action: ${(edit as any)?.action}`);
+  }
+}
+
+/** Parse a complete replacement plan (PUT) */
+export function parsePlan(input: unknown): WorkflowStep[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new Error("steps must be a non-empty array");
+  }
+  return input.map((step, i) => parseStep(step, i));
+}
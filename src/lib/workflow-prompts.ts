@@ -1,16 +1,56 @@
 // lib/workflow-prompts.ts
 //
-// Steps 15-16: Enhanced AI prompts for better workflow planning and report synthesis.
-// These replace the inline prompts in workflow-engine.ts with higher-quality,
-// few-shot prompted versions that produce more reliable JSON output.
+// Prompt registry for the workflow engine. Every AI call in
+// workflow-engine.ts renders a named prompt ("plan", "extract", "report"...)
+// at the workflow's prompt version, so two versions can be compared on the
+// same research: re-run a workflow with another promptVersion, then diff
+// the runs (GET /api/workflows/[id]/diff).
 //
-// Usage: Import these into workflow-engine.ts to replace the systemPrompt/userPrompt strings.
+// A version registers only the prompts it changes; the others resolve to
+// the newest earlier version. The ids of the prompts a step actually used,
+// e.g. "plan@v2" or "extract@v1", are stored on its WorkflowExecution and
+// on the Report.
+//
+//   v1 — the original inline prompts of the engine
+//   v2 — few-shot planning and a section-by-section report guide
+//   v3 — reports cite the numbered sources in their data
+//   v4 — the planner can add verify steps (default)
+//
+// The "verify" prompt came with the verify step type and has one text for
+// every version, registered under v1.
+//
+// Released prompt text is never edited: append a version to PROMPT_VERSIONS
+// and register the changed prompts under it instead.
+
+// ─────────────────────────────────────────────────────────
+// Versions
+// ─────────────────────────────────────────────────────────
+
+export const PROMPT_VERSIONS = ["v1", "v2", "v3", "v4"] as const;
+
+export type PromptVersion = (typeof PROMPT_VERSIONS)[number];
+
+export function isPromptVersion(value: unknown): value is PromptVersion {
+  return PROMPT_VERSIONS.includes(value as PromptVersion);
+}
+
+/** WORKFLOW_PROMPT_VERSION, else the newest version */
+export const DEFAULT_PROMPT_VERSION: PromptVersion = isPromptVersion(
+  process.env.WORKFLOW_PROMPT_VERSION
+)
+  ? process.env.WORKFLOW_PROMPT_VERSION
+  : PROMPT_VERSIONS[PROMPT_VERSIONS.length - 1];
+
+/** The version a workflow runs with (null = DEFAULT_PROMPT_VERSION) */
+export function workflowPromptVersion(value: string | null | undefined): PromptVersion {
+  return isPromptVersion(value) ? value : DEFAULT_PROMPT_VERSION;
+}
 
 // ─────────────────────────────────────────────────────────
-// STEP 15: Enhanced Workflow Planning Prompt
+// Types
 // ─────────────────────────────────────────────────────────
 
-interface PlanPromptInput {
+export interface PlanPromptInput {
   goal: string;
   sources: string[];
   depth: string;
@@ -19,10 +59,375 @@ interface PlanPromptInput {
   maxSteps: number;
 }
 
-export function buildPlanningPrompt(input: PlanPromptInput): {
+/** `label` names the data block, e.g. "SOURCE DATA (part 2 of 5)" */
+export interface ExtractPromptInput {
+  extractionGoal: string;
+  fields: string[];
+  label: string;
+  data: unknown;
+}
+
+export interface AnalyzePromptInput {
+  analysisType: string;
+  question?: string;
+  label: string;
+  data: unknown;
+}
+
+export interface AnalyzeMergePromptInput {
+  analysisType: string;
+  question?: string;
+  partials: unknown[];
+}
+
+export interface AggregatePromptInput {
+  mergeStrategy: string;
+  label: string;
+  data: unknown;
+}
+
+export interface CondensePromptInput {
+  goal: string;
+  label: string;
+  data: unknown;
+}
+
+export interface ReportPromptInput {
+  goal: string;
+  outputFormat: string;
+  customTitle?: string;
+  /** Why the data is incomplete, e.g. the run hit its budget */
+  partialNote?: string;
+  label: string;
+  data: unknown;
+}
+
+/** `claims` are numbered; `data` is evidence whose sources carry a "ref" */
+export interface VerifyPromptInput {
+  claims: { id: number; claim: string }[];
+  label: string;
+  data: unknown;
+}
+
+export interface PromptInputs {
+  plan: PlanPromptInput;
+  extract: ExtractPromptInput;
+  analyze: AnalyzePromptInput;
+  analyze_merge: AnalyzeMergePromptInput;
+  aggregate: AggregatePromptInput;
+  condense: CondensePromptInput;
+  report: ReportPromptInput;
+  verify: VerifyPromptInput;
+}
+
+export type PromptName = keyof PromptInputs;
+
+export interface RenderedPrompt {
   system: string;
   user: string;
-} {
+}
+
+type PromptBuilder<N extends PromptName> = (input: PromptInputs[N]) => RenderedPrompt;
+
+export interface ResolvedPrompt<N extends PromptName> {
+  /** "<name>@<version>", recorded on executions and reports */
+  id: string;
+  version: PromptVersion;
+  build: PromptBuilder<N>;
+}
+
+// ─────────────────────────────────────────────────────────
+// v1 — Original engine prompts
+// ─────────────────────────────────────────────────────────
+
+function planV1(input: PlanPromptInput): RenderedPrompt {
+  const { goal, sources, depth, outputFormat, maxResults, maxSteps } = input;
+
+  const system = `You are a research workflow planner for FlowSearch AI.
+Your job is to break down a research goal into discrete, executable steps.
+
+AVAILABLE STEP TYPES:
+1. "search" — Search the web, GitHub, or Pexels for information
+   params: { source: "google"|"github"|"pexels", query: string, num?: number }
+2. "fetch_page" — Download the pages behind a google search step's results and keep their main text
+   params: { fromStep: number, maxPages?: number }
+3. "extract" — Parse/extract specific data points from previous step results
+   params: { extractionGoal: string, fields: string[], fromStep: number }
+4. "analyze" — Use AI to analyze collected data (sentiment, comparison, trends)
+   params: { analysisType: string, question: string, fromSteps: number[] }
+5. "aggregate" — Combine data from multiple previous steps into unified dataset
+   params: { fromSteps: number[], mergeStrategy: string }
+6. "review" — Pause for the user to pick items from a previous step's list
+   params: { fromStep: number, prompt: string, maxSelect?: number }
+7. "branch" — Choose which later steps run by testing a previous step's output
+   params: { fromStep: number, condition: { path?: string, op: "lt"|"lte"|"gt"|"gte"|"eq"|"ne"|"exists"|"empty"|"contains", value?: any }, then: number[], else?: number[] }
+   (no path = number of items found; steps in the side not taken are skipped)
+8. "for_each" — Run sub-steps once per item of a previous step's list
+   params: { fromStep: number, maxItems?: number, steps: [{ type, title, params }] }
+   (use "{{item}}" or "{{item.field}}" in sub-step params; a sub-step's
+   fromStep points at an earlier sub-step of the same item)
+9. "generate_report" — Final step: synthesize everything into a report
+   params: { reportFormat: "${outputFormat}" }
+
+AVAILABLE SOURCES: ${JSON.stringify(sources)}
+DEPTH: ${depth} (max ${maxResults} results per search, max ${maxSteps} steps)
+OUTPUT FORMAT: ${outputFormat}
+
+RULES:
+- Always end with a "generate_report" step
+- Each step should have a clear, specific title
+- Use "dependsOn" to indicate which previous step indices provide input
+- Keep steps focused and atomic
+- For "search" steps, craft specific search queries (not the raw user goal)
+- Add a "fetch_page" step after a google search when snippets are not enough
+  (facts, figures, dates); point the following "extract" step's fromStep at it
+- Maximum ${maxSteps} steps total
+- Only add a "review" step when the goal asks for the user to choose or
+  confirm something mid-way (e.g. "let me pick which libraries to dig into")
+- Use "branch" for fallbacks (e.g. broaden a search that found too little)
+  and "for_each" to dig into each of the top items found by a step
+
+Respond with ONLY valid JSON, no markdown fences, no explanation:`;
+
+  const user = `Research goal: "${goal}"
+
+Return JSON in this exact format:
+{
+  "title": "Short workflow title (3-6 words)",
+  "description": "One sentence describing the workflow",
+  "steps": [
+    {
+      "index": 0,
+      "type": "search",
+      "title": "Step title",
+      "description": "What this step does",
+      "params": { "source": "google", "query": "specific search query", "num": ${maxResults} },
+      "dependsOn": []
+    }
+  ]
+}`;
+
+  return { system, user };
+}
+
+function extractV1(input: ExtractPromptInput): RenderedPrompt {
+  const { extractionGoal, fields, label, data } = input;
+
+  const system = `You are a data extraction assistant. Extract specific information from search results.
+Respond with ONLY valid JSON, no markdown fences.`;
+
+  const user = `Extract the following from these search results:
+
+EXTRACTION GOAL: ${extractionGoal}
+FIELDS TO EXTRACT: ${JSON.stringify(fields)}
+
+${label}:
+${JSON.stringify(data, null, 2)}
+
+Return JSON in this format:
+{
+  "extracted": [
+    { ${fields.map((f) => `"${f}": "value"`).join(", ")} }
+  ],
+  "totalExtracted": <number>,
+  "summary": "Brief summary of what was extracted"
+}`;
+
+  return { system, user };
+}
+
+function analyzeSystemV1(analysisType: string): string {
+  return `You are a research analyst. Analyze the provided data and give insights.
+Analysis type: ${analysisType}
+Respond with ONLY valid JSON, no markdown fences.`;
+}
+
+function analyzeFormatV1(analysisType: string): string {
+  return `Return JSON in this format:
+{
+  "analysisType": "${analysisType}",
+  "findings": [
+    { "insight": "Key finding", "evidence": "Supporting data", "confidence": "high|medium|low" }
+  ],
+  "summary": "Overall analysis summary",
+  "recommendations": ["Recommendation 1", "Recommendation 2"]
+}`;
+}
+
+function analyzeV1(input: AnalyzePromptInput): RenderedPrompt {
+  const { analysisType, question, label, data } = input;
+
+  const user = `Analyze this data:
+
+QUESTION: ${question || "Provide a comprehensive analysis"}
+ANALYSIS TYPE: ${analysisType}
+
+${label}:
+${JSON.stringify(data, null, 2)}
+
+${analyzeFormatV1(analysisType)}`;
+
+  return { system: analyzeSystemV1(analysisType), user };
+}
+
+function analyzeMergeV1(input: AnalyzeMergePromptInput): RenderedPrompt {
+  const { analysisType, question, partials } = input;
+
+  const user = `These are ${partials.length} partial analyses, each of a different part of the same data set.
+Merge them into ONE analysis that answers the question for the whole data set:
+- Combine findings that say the same thing and keep their strongest evidence
+- Where partial analyses disagree, say so in the finding and lower its confidence
+- Write the summary and recommendations for the whole data set
+
+QUESTION: ${question || "Provide a comprehensive analysis"}
+ANALYSIS TYPE: ${analysisType}
+
+PARTIAL ANALYSES:
+${JSON.stringify(partials, null, 2)}
+
+${analyzeFormatV1(analysisType)}`;
+
+  return { system: analyzeSystemV1(analysisType), user };
+}
+
+function aggregateV1(input: AggregatePromptInput): RenderedPrompt {
+  const { mergeStrategy, label, data } = input;
+
+  const system = `You are a data aggregation assistant. Merge and organize data from multiple sources.
+Respond with ONLY valid JSON, no markdown fences.`;
+
+  const user = `Merge this data using strategy: ${mergeStrategy}
+
+${label}:
+${JSON.stringify(data, null, 2)}
+
+Return JSON in this format:
+{
+  "mergeStrategy": "${mergeStrategy}",
+  "totalItems": <number>,
+  "aggregatedData": [ ... merged items ... ],
+  "summary": "Brief description of merged data"
+}`;
+
+  return { system, user };
+}
+
+function condenseV1(input: CondensePromptInput): RenderedPrompt {
+  const { goal, label, data } = input;
+
+  const system = `You are a research assistant condensing raw research data for a report writer.
+Respond with ONLY valid JSON, no markdown fences.`;
+
+  const user = `Condense this part of the research data for a report on: ${goal}
+
+Keep every fact, figure, date, name and source URL that is relevant to the goal.
+Drop boilerplate, navigation text and repetition. Do not invent anything.
+
+${label}:
+${JSON.stringify(data, null, 2)}
+
+Return JSON in this format:
+{
+  "extracted": [ { "fact": "...", "value": "...", "source": "url or step" } ],
+  "totalExtracted": <number>,
+  "summary": "What this part of the data covers"
+}`;
+
+  return { system, user };
+}
+
+const formatInstructionsV1: Record<string, string> = {
+  comparison: `Create a COMPARISON report with:
+- Executive summary comparing the items
+- A detailed comparison TABLE section (type: "table") with headers and rows
+- A CHART section (type: "chart") showing key metrics visually
+- Key differences LIST section (type: "list")
+- Final recommendation TEXT section (type: "text")`,
+
+  analysis: `Create an ANALYSIS report with:
+- Executive summary of findings
+- Detailed analysis TEXT sections for each key area
+- Supporting data TABLE (type: "table") if applicable
+- Key insights LIST (type: "list")
+- Conclusions and next steps TEXT section`,
+
+  timeline: `Create a TIMELINE report with:
+- Executive summary of the timeline
+- Chronological events TABLE (type: "table")
+- Key milestones LIST (type: "list")
+- Trend analysis TEXT section
+- Future predictions TEXT section`,
+
+  summary: `Create a SUMMARY report with:
+- Executive summary (2-3 sentences)
+- Overview TEXT section with main findings
+- Key data TABLE (type: "table") if applicable
+- Highlights LIST (type: "list")
+- Conclusion TEXT section`,
+};
+
+function reportV1(input: ReportPromptInput): RenderedPrompt {
+  const { goal, outputFormat, customTitle, partialNote, label, data } = input;
+
+  const system = `You are a research report generator for FlowSearch AI.
+Generate professional, well-structured research reports from collected data.
+
+SECTION TYPES (use these exact type values):
+- "text": Paragraph content — content is a string
+- "table": Tabular data — content is { "headers": string[], "rows": string[][] }
+- "chart": Chart data — content is { "chartType": "bar"|"line"|"pie", "labels": string[], "datasets": [{ "label": string, "data": number[] }] }
+- "list": List of items — content is { "items": string[] }
+
+RULES:
+- Every section must have: id (unique string), type, title, content
+- Use real data from the results, don't make up numbers
+- If data is sparse, note limitations honestly
+- Keep summaries concise (2-3 sentences)
+- Include 3-6 sections per report
+- Respond with ONLY valid JSON, no markdown fences`;
+
+  const user = `Generate a ${outputFormat} report for this research:
+
+RESEARCH GOAL: ${goal}
+${customTitle ? `CUSTOM TITLE: ${customTitle}` : ""}
+${partialNote ? `NOTE: The research stopped early (${partialNote}) and some planned steps did not run. Say in the summary that the findings are partial.` : ""}
+
+${formatInstructionsV1[outputFormat] || formatInstructionsV1.summary}
+
+${label}:
+${JSON.stringify(data, null, 2)}
+
+Return JSON in this EXACT format:
+{
+  "title": "${customTitle || "Report title based on goal"}",
+  "summary": "2-3 sentence executive summary",
+  "sections": [
+    {
+      "id": "section-1",
+      "type": "text",
+      "title": "Section Title",
+      "content": "Section content here..."
+    },
+    {
+      "id": "section-2",
+      "type": "table",
+      "title": "Comparison Table",
+      "content": {
+        "headers": ["Column 1", "Column 2"],
+        "rows": [["value", "value"]]
+      }
+    }
+  ]
+}`;
+
+  return { system, user };
+}
+
+// ─────────────────────────────────────────────────────────
+// v2 — Few-shot planning, sectioned report guide
+// ─────────────────────────────────────────────────────────
+
+function planV2(input: PlanPromptInput): RenderedPrompt {
   const { goal, sources, depth, outputFormat, maxResults, maxSteps } = input;
 
   const system = `You are an expert research workflow planner for Tambo-Browser-(FlowSearch) AI.
@@ -40,27 +445,57 @@ export function buildPlanningPrompt(input: PlanPromptInput): {
        depth === "quick" ? 5 : depth === "deep" ? 20 : 10
      })
   
-  2. "extract" — Parse specific data from a previous step's results
+  2. "fetch_page" — Read the full pages behind a search step's results
+     params: { fromStep: number, maxPages?: number }
+     Rules:
+     - fromStep must be a "google" search step (its results carry page URLs)
+     - Use when snippets are too thin: figures, dates, specs, quotes
+     - maxPages based on depth (quick=3, standard=5, deep=10)
+     - Point the following "extract" step's fromStep at this step
+  
+  3. "extract" — Parse specific data from a previous step's results
      params: { extractionGoal: string, fields: string[], fromStep: number }
      Rules:
      - extractionGoal must be detailed and specific
      - fields array defines exact output schema
      - fromStep references the step index with source data
   
-  3. "analyze" — AI-powered analysis of collected data
+  4. "analyze" — AI-powered analysis of collected data
      params: { analysisType: string, question: string, fromSteps: number[] }
      Rules:
      - analysisType: "comparison", "sentiment", "trend", "general", "strengths_weaknesses"
      - question must be specific and answerable from the data
      - fromSteps references ALL steps needed for this analysis
   
-  4. "aggregate" — Combine data from multiple steps
+  5. "aggregate" — Combine data from multiple steps
      params: { fromSteps: number[], mergeStrategy: "combine"|"deduplicate"|"rank" }
      Rules:
-     - Use when 2+ search/extract steps produce data that needs merging
+     - Use when 2+ search/fetch_page/extract steps produce data that needs merging
      - "combine" = simple merge, "deduplicate" = remove duplicates, "rank" = AI-ranked
   
-  5. "generate_report" — ALWAYS the final step
+  6. "review" — Pause until the user picks items from a previous step's list
+     params: { fromStep: number, prompt: string, minSelect?: number, maxSelect?: number }
+     Rules:
+     - ONLY when the goal asks the user to choose or confirm something mid-way
+     - The chosen items become this step's output; point later steps at it
+  
+  7. "branch" — Decide which later steps run from a previous step's output
+     params: { fromStep: number, condition: { path?: string, op: string, value?: any }, then: number[], else?: number[] }
+     Rules:
+     - op: "lt", "lte", "gt", "gte", "eq", "ne", "exists", "empty", "contains"
+     - Without path the condition tests how many items the step found
+     - then/else list LATER step indices; the side not taken is skipped
+     - Use for fallbacks, e.g. broaden a search that found fewer than 5 results
+  
+  8. "for_each" — Repeat sub-steps for each item of a previous step's list
+     params: { fromStep: number, maxItems?: number, steps: [{ type, title, params }] }
+     Rules:
+     - Sub-steps may be search, fetch_page, extract, analyze or aggregate
+     - "{{item}}" (name) and "{{item.field}}" are filled in per item
+     - A sub-step's fromStep is the index of an earlier sub-step (0-based)
+     - Keep maxItems small (3-5); every item runs every sub-step
+  
+  9. "generate_report" — ALWAYS the final step
      params: { reportFormat: "${outputFormat}" }
      dependsOn: [all previous step indices]
   
@@ -116,33 +551,11 @@ export function buildPlanningPrompt(input: PlanPromptInput): {
   return { system, user };
 }
 
-// ─────────────────────────────────────────────────────────
-// STEP 16: Enhanced Report Synthesis Prompts
-// ─────────────────────────────────────────────────────────
-
-interface ReportPromptInput {
-  goal: string;
-  results: any[];
-  outputFormat: string;
-  customTitle?: string;
-}
-
-export function buildSynthesisPrompt(input: ReportPromptInput): {
-  system: string;
-  user: string;
-} {
-  const { goal, results, outputFormat, customTitle } = input;
-
-  // Truncate data intelligently — keep structure but limit size
-  const truncatedResults = JSON.stringify(results, null, 2);
-  const maxDataLen = 14000;
-  const dataStr =
-    truncatedResults.length > maxDataLen
-      ? truncatedResults.slice(0, maxDataLen) + "\n... [truncated]"
-      : truncatedResults;
+function reportV2(input: ReportPromptInput): RenderedPrompt {
+  const { goal, outputFormat, customTitle, partialNote, label, data } = input;
 
   const formatGuide =
-    formatInstructions[outputFormat] || formatInstructions.summary;
+    formatInstructionsV2[outputFormat] || formatInstructionsV2.summary;
 
   const system = `You are a professional research report generator for Tambo-Browser-(FlowSearch) AI.
   Create well-structured, data-driven research reports from collected workflow data.
@@ -231,27 +644,29 @@ export function buildSynthesisPrompt(input: ReportPromptInput): {
   }`;
 
   const user = `Generate a ${outputFormat} report for this research:
-  
+
   RESEARCH GOAL: ${goal}
   ${
     customTitle
       ? `TITLE: ${customTitle}`
       : "Generate an appropriate title from the goal."
   }
-  
-  COLLECTED DATA:
-  ${dataStr}
-  
+  ${
+    partialNote
+      ? `NOTE: The research stopped early (${partialNote}) and some planned steps did not run. Say in the summary that the findings are partial.`
+      : ""
+  }
+
+  ${label}:
+  ${JSON.stringify(data, null, 2)}
+
   Return ONLY the JSON object with title, summary, and sections array.`;
 
   return { system, user };
 }
 
-// ─────────────────────────────────────────────────────────
-// Format-specific instructions
-// ─────────────────────────────────────────────────────────
-
-const formatInstructions: Record<string, string> = {
+/** Format-specific instructions for reportV2 */
+const formatInstructionsV2: Record<string, string> = {
   comparison: `Create a COMPARISON report with these sections:
   1. text: Executive overview comparing the items
   2. table: Detailed comparison matrix with features/metrics as columns
@@ -280,3 +695,150 @@ const formatInstructions: Record<string, string> = {
   4. list: Top highlights and takeaways (5-7 items)
   5. text: Conclusion with optional next steps`,
 };
+
+// ─────────────────────────────────────────────────────────
+// v3 — Source citations (see workflow-citations.ts)
+// ─────────────────────────────────────────────────────────
+
+function condenseV3(input: CondensePromptInput): RenderedPrompt {
+  const { goal, label, data } = input;
+
+  const system = `You are a research assistant condensing raw research data for a report writer.
+Respond with ONLY valid JSON, no markdown fences.`;
+
+  const user = `Condense this part of the research data for a report on: ${goal}
+
+Keep every fact, figure, date and name that is relevant to the goal.
+Drop boilerplate, navigation text and repetition. Do not invent anything.
+Items with a "ref" number are numbered sources: give every data point the
+ref of the item it came from, so the report can cite it.
+
+${label}:
+${JSON.stringify(data, null, 2)}
+
+Return JSON in this format:
+{
+  "extracted": [ { "fact": "...", "value": "...", "ref": <ref number, or null> } ],
+  "totalExtracted": <number>,
+  "summary": "What this part of the data covers"
+}`;
+
+  return { system, user };
+}
+
+const CITATION_RULES = `
+
+  # CITATIONS
+  Items in the collected data that carry a "ref" number are numbered sources.
+  - Give every section a "citations" array with the ref numbers it draws on
+  - "list" sections: add "itemCitations" to content, one array of ref numbers per item, in item order
+  - "table" sections: add "rowCitations" to content, one array of ref numbers per row, in row order
+  - Cite only ref numbers that appear in the data; use [] for anything without a source
+  - Do not write ref numbers into the text itself
+
+  Example:
+  {
+    "id": "section-4",
+    "type": "list",
+    "title": "Key Takeaways",
+    "citations": [3, 7],
+    "content": {
+      "items": ["React leads in ecosystem size", "Vue offers the smoothest learning curve"],
+      "itemCitations": [[3], [7]]
+    }
+  }`;
+
+function reportV3(input: ReportPromptInput): RenderedPrompt {
+  const { system, user } = reportV2(input);
+  return { system: system + CITATION_RULES, user };
+}
+
+// ─────────────────────────────────────────────────────────
+// v4 — Verify steps in plans (see workflow-verify.ts)
+// ─────────────────────────────────────────────────────────
+
+const VERIFY_STEP_TYPE = `10. "verify" — Cross-check claims against the sources found by the other steps
+     params: { fromSteps: number[], maxClaims?: number, followUpSearches?: number }
+     Rules:
+     - fromSteps are the "analyze" or "extract" steps whose findings or rows to check
+     - Every other earlier step is evidence; place it after them, before "generate_report"
+     - Add one when the goal asks to fact-check, verify or validate, or the depth is "deep"
+     - followUpSearches (0-5) runs a google search for each claim nothing speaks to;
+       only when "google" is an available source
+  
+  `;
+
+/** The v2 planner prompt with "verify" listed after the other step types */
+function planV4(input: PlanPromptInput): RenderedPrompt {
+  const { system, user } = planV2(input);
+  const at = system.indexOf("# CONSTRAINTS");
+  if (at < 0) throw new Error("Planner prompt v2 has no # CONSTRAINTS section");
+  return { system: system.slice(0, at) + VERIFY_STEP_TYPE + system.slice(at), user };
+}
+
+// ─────────────────────────────────────────────────────────
+// Verify — one text for every version
+// ─────────────────────────────────────────────────────────
+
+function verifyV1(input: VerifyPromptInput): RenderedPrompt {
+  const { claims, label, data } = input;
+
+  const system = `You are a fact-checker. You judge numbered claims against numbered sources.
+Only use the evidence given. Do not rely on your own knowledge.
+Respond with ONLY valid JSON, no markdown fences.`;
+
+  const user = `CLAIMS:
+${claims.map((c) => `${c.id}. ${c.claim}`).join("\n")}
+
+${label} (items with a "ref" number are sources):
+${JSON.stringify(data, null, 2)}
+
+For each claim, list the sources that clearly support it or contradict it.
+A source that only mentions the topic is neither. Quote the passage that
+decides it, in at most 25 words. Leave "evidence" empty when no source speaks
+to the claim.
+
+Return JSON in this format:
+{
+  "claims": [
+    {
+      "id": <claim number>,
+      "evidence": [ { "ref": <source ref>, "stance": "supports" | "contradicts", "quote": "..." } ],
+      "note": "One sentence on what the sources say, especially where they disagree"
+    }
+  ]
+}`;
+
+  return { system, user };
+}
+
+// ─────────────────────────────────────────────────────────
+// Registry
+// ─────────────────────────────────────────────────────────
+
+const PROMPTS: {
+  [N in PromptName]: Partial<Record<PromptVersion, PromptBuilder<N>>>;
+} = {
+  plan: { v1: planV1, v2: planV2, v4: planV4 },
+  extract: { v1: extractV1 },
+  analyze: { v1: analyzeV1 },
+  analyze_merge: { v1: analyzeMergeV1 },
+  aggregate: { v1: aggregateV1 },
+  condense: { v1: condenseV1, v3: condenseV3 },
+  report: { v1: reportV1, v2: reportV2, v3: reportV3 },
+  verify: { v1: verifyV1 },
+};
+
+/** The prompt `name` at `version`, or at the newest earlier version that has one */
+export function resolvePrompt<N extends PromptName>(
+  name: N,
+  version: PromptVersion = DEFAULT_PROMPT_VERSION
+): ResolvedPrompt<N> {
+  const builders = PROMPTS[name] as Partial<Record<PromptVersion, PromptBuilder<N>>>;
+  for (let i = PROMPT_VERSIONS.indexOf(version); i >= 0; i--) {
+    const candidate = PROMPT_VERSIONS[i];
+    const build = builders[candidate];
+    if (build) return { id: `${name}@${candidate}`, version: candidate, build };
+  }
+  throw new Error(`No "${name}" prompt at or before ${version}`);
+}
@@ -0,0 +1,331 @@
+// lib/workflow-queue.ts
+//
+// Durable, Postgres-backed job queue for workflow execution.
+//
+// API routes call enqueueWorkflow() instead of starting executeWorkflow()
+// as a detached promise. A standalone worker (scripts/workflow-worker.ts,
+// `npm run worker`) claims jobs with a time-limited lease, renews the lease
+// with heartbeats while the workflow runs, and reclaims jobs whose lease
+// expired because the previous worker crashed or was redeployed.
+//
+// Claiming uses `FOR UPDATE SKIP LOCKED`, so any number of workers can
+// poll the same table without handing out a job twice.
+
+import { hostname } from "os";
+import { prisma } from "@/lib/prisma";
+import type { WorkflowJob } from "@/generated/prisma/client";
+import { executeWorkflow, recoverInterruptedRun } from "@/lib/workflow-engine";
+import { purgeExpiredStepCache } from "@/lib/workflow-cache";
+import { emitWorkflowEvent, purgeOldWorkflowEvents } from "@/lib/workflow-events";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export interface EnqueueOptions {
+  /** Failed step a retry starts from; steps with results are skipped either way */
+  startFromStep?: number;
+  /** Delivery attempts before the workflow is marked failed */
+  maxAttempts?: number;
+}
+
+export interface WorkerOptions {
+  /** Unique id for this worker, stored on claimed jobs */
+  workerId?: string;
+  /** How long a claimed job stays locked without a heartbeat */
+  leaseMs?: number;
+  /** Delay between polls when the queue is empty */
+  pollIntervalMs?: number;
+  /** Stop claiming new jobs once aborted; the current job finishes */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_LEASE_MS = 60_000;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+const RETRY_BACKOFF_MS = 15_000;
+
+/** How often an idle worker deletes expired step cache entries */
+const CACHE_PURGE_INTERVAL_MS = 60 * 60_000;
+
+// ─────────────────────────────────────────────────────────
+// Producer side — used by API routes
+// ─────────────────────────────────────────────────────────
+
+/** Queue a workflow for execution by the worker */
+export async function enqueueWorkflow(
+  workflowId: string,
+  options: EnqueueOptions = {}
+): Promise<WorkflowJob> {
+  // A workflow only ever has one live job
+  await cancelQueuedJobs(workflowId);
+
+  const job = await prisma.workflowJob.create({
+    data: {
+      workflowId,
+      startFromStep: options.startFromStep ?? 0,
+      maxAttempts: options.maxAttempts ?? 3,
+    },
+  });
+  await emitWorkflowEvent(workflowId, "workflow.status", { status: "pending" });
+  return job;
+}
+
+/** Drop jobs that have not been claimed yet (e.g. on cancel) */
+export async function cancelQueuedJobs(workflowId: string): Promise<void> {
+  await prisma.workflowJob.updateMany({
+    where: { workflowId, status: "queued" },
+    data: { status: "cancelled" },
+  });
+}
+
+// ─────────────────────────────────────────────────────────
+// Consumer side — used by the worker process
+// ─────────────────────────────────────────────────────────
+
+export function defaultWorkerId(): string {
+  return `${hostname()}:${process.pid}`;
+}
+
+/**
+ * Atomically claim the next runnable job: either a queued job whose
+ * `runAfter` has passed, or a running job whose lease has expired and that
+ * has attempts left (see failExhaustedJobs for the ones that do not).
+ */
+export async function claimNextJob(
+  workerId: string,
+  leaseMs: number = DEFAULT_LEASE_MS
+): Promise<WorkflowJob | null> {
+  const lockedUntil = new Date(Date.now() + leaseMs);
+
+  const rows = await prisma.$queryRaw<WorkflowJob[]>`
+    UPDATE "WorkflowJob"
+    SET "status" = 'running',
+        "attempts" = "attempts" + 1,
+        "lockedBy" = ${workerId},
+        "lockedUntil" = ${lockedUntil},
+        "heartbeatAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "WorkflowJob"
+      WHERE ("status" = 'queued' AND "runAfter" <= NOW())
+         OR ("status" = 'running' AND "lockedUntil" < NOW()
+             AND "attempts" < "maxAttempts")
+      ORDER BY "runAfter" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *`;
+
+  return rows[0] ?? null;
+}
+
+/** Extend the lease; returns false if another worker has taken the job */
+export async function heartbeat(
+  jobId: string,
+  workerId: string,
+  leaseMs: number = DEFAULT_LEASE_MS
+): Promise<boolean> {
+  const { count } = await prisma.workflowJob.updateMany({
+    where: { id: jobId, lockedBy: workerId, status: "running" },
+    data: {
+      lockedUntil: new Date(Date.now() + leaseMs),
+      heartbeatAt: new Date(),
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Run one claimed job to the end. Step failures are handled inside
+ * executeWorkflow() and still count as a finished job; only unexpected
+ * errors (database outage, crash in the engine itself) are retried.
+ */
+export async function processJob(
+  job: WorkflowJob,
+  workerId: string,
+  leaseMs: number = DEFAULT_LEASE_MS
+): Promise<void> {
+  // Aborted when the lease is lost, so this worker stops before another
+  // one reclaims the job and runs the same workflow
+  const lease = new AbortController();
+  const timer = setInterval(async () => {
+    if (lease.signal.aborted) return;
+    try {
+      const stillOwned = await heartbeat(job.id, workerId, leaseMs);
+      if (!stillOwned) {
+        console.warn(`⚠️ Lost lease on job ${job.id} (workflow ${job.workflowId}), stopping`);
+        lease.abort();
+      }
+    } catch (error: any) {
+      console.error(`Heartbeat failed for job ${job.id}:`, error.message);
+    }
+  }, Math.max(1_000, Math.floor(leaseMs / 3)));
+
+  try {
+    console.log(
+      `📥 Job ${job.id} claimed by ${workerId} (workflow ${job.workflowId}, attempt ${job.attempts}/${job.maxAttempts})`
+    );
+
+    // Picks up where a crashed worker left off; a no-op for fresh runs
+    await recoverInterruptedRun(job.workflowId);
+    await executeWorkflow(job.workflowId, job.startFromStep, {
+      signal: lease.signal,
+    });
+
+    await prisma.workflowJob.updateMany({
+      where: { id: job.id, lockedBy: workerId },
+      data: { status: "completed", lockedUntil: null },
+    });
+  } catch (error: any) {
+    console.error(`❌ Job ${job.id} crashed:`, error.message);
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    await prisma.workflowJob.updateMany({
+      where: { id: job.id, lockedBy: workerId },
+      data: {
+        status: exhausted ? "failed" : "queued",
+        lastError: error.message,
+        lockedBy: null,
+        lockedUntil: null,
+        runAfter: new Date(Date.now() + RETRY_BACKOFF_MS * job.attempts),
+      },
+    });
+
+    if (exhausted) {
+      await failWorkflow(
+        job.workflowId,
+        `Execution failed after ${job.attempts} attempts: ${error.message}`
+      );
+    }
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+/** Mark a workflow whose job ran out of attempts as failed */
+async function failWorkflow(workflowId: string, errorMessage: string): Promise<void> {
+  const { count } = await prisma.workflow.updateMany({
+    where: { id: workflowId, status: { in: ["pending", "running"] } },
+    data: { status: "failed", errorMessage, activeSteps: [] },
+  });
+  if (count > 0) {
+    await emitWorkflowEvent(workflowId, "workflow.status", {
+      status: "failed",
+      error: errorMessage,
+      final: true,
+    });
+  }
+}
+
+/**
+ * Fail jobs whose lease expired on their last attempt. A worker that dies
+ * outright (out of memory, killed) never reaches processJob's catch, and
+ * claimNextJob no longer reclaims these, so without this sweep the job and
+ * its workflow would stay "running" forever.
+ */
+export async function failExhaustedJobs(): Promise<number> {
+  const jobs = await prisma.workflowJob.findMany({
+    where: { status: "running", lockedUntil: { lt: new Date() } },
+    select: { id: true, workflowId: true, attempts: true, maxAttempts: true },
+  });
+
+  let failed = 0;
+  for (const job of jobs.filter((j) => j.attempts >= j.maxAttempts)) {
+    const lastError = `Worker stopped during attempt ${job.attempts} of ${job.maxAttempts}`;
+    // Conditional, so a job another worker just handled is left alone
+    const { count } = await prisma.workflowJob.updateMany({
+      where: { id: job.id, status: "running", lockedUntil: { lt: new Date() } },
+      data: { status: "failed", lastError, lockedBy: null, lockedUntil: null },
+    });
+    if (count === 0) continue;
+
+    failed++;
+    console.warn(`💀 Job ${job.id} (workflow ${job.workflowId}): ${lastError}, giving up`);
+    await failWorkflow(
+      job.workflowId,
+      `Execution failed after ${job.attempts} attempts: ${lastError}`
+    );
+  }
+
+  return failed;
+}
+
+/**
+ * Re-enqueue workflows stuck in "pending"/"running" with no live job —
+ * runs started before the queue existed, or whose job row was lost.
+ */
+export async function requeueOrphanedWorkflows(
+  staleAfterMs: number = DEFAULT_LEASE_MS
+): Promise<number> {
+  const orphans = await prisma.workflow.findMany({
+    where: {
+      status: { in: ["pending", "running"] },
+      updatedAt: { lt: new Date(Date.now() - staleAfterMs) },
+      jobs: { none: { status: { in: ["queued", "running"] } } },
+    },
+    select: { id: true },
+  });
+
+  for (const workflow of orphans) {
+    await enqueueWorkflow(workflow.id);
+    console.log(`♻️ Re-queued orphaned workflow ${workflow.id}`);
+  }
+
+  return orphans.length;
+}
+
+/** Poll for jobs until the signal aborts */
+export async function runWorker(options: WorkerOptions = {}): Promise<void> {
+  const workerId = options.workerId ?? defaultWorkerId();
+  const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+
+  console.log(`👷 Workflow worker ${workerId} started`);
+  try {
+    await requeueOrphanedWorkflows(leaseMs);
+  } catch (error: any) {
+    console.error("Failed to re-queue orphaned workflows:", error.message);
+  }
+
+  let lastCachePurge = 0;
+
+  while (!options.signal?.aborted) {
+    try {
+      await failExhaustedJobs();
+    } catch (error: any) {
+      console.error("Failed to fail exhausted jobs:", error.message);
+    }
+
+    let job: WorkflowJob | null = null;
+    try {
+      job = await claimNextJob(workerId, leaseMs);
+    } catch (error: any) {
+      console.error("Failed to claim job:", error.message);
+    }
+
+    if (job) {
+      await processJob(job, workerId, leaseMs);
+      continue;
+    }
+
+    if (Date.now() - lastCachePurge > CACHE_PURGE_INTERVAL_MS) {
+      lastCachePurge = Date.now();
+      try {
+        const purged = await purgeExpiredStepCache();
+        if (purged > 0) console.log(`🧹 Purged ${purged} expired step cache entries`);
+      } catch (error: any) {
+        console.error("Failed to purge step cache:", error.message);
+      }
+      try {
+        const purged = await purgeOldWorkflowEvents();
+        if (purged > 0) console.log(`🧹 Purged ${purged} old workflow events`);
+      } catch (error: any) {
+        console.error("Failed to purge workflow events:", error.message);
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  }
+
+  console.log(`👋 Workflow worker ${workerId} stopped`);
+}
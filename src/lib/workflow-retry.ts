@@ -0,0 +1,185 @@
+// lib/workflow-retry.ts
+//
+// Per-step retry policies and timeouts for the workflow engine.
+//
+// Every WorkflowStep may carry a `retry` policy and a `timeoutMs`. Missing
+// fields fall back to defaults for the step type. Errors are classified
+// (rate limit, server error, timeout, network, invalid output) and only the
+// classes listed in `retryOn` are retried, with exponential backoff.
+
+import type { WorkflowStep } from "@/lib/workflow-engine";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export type RetryableErrorClass =
+  | "rate_limit" // HTTP 429 from SerpAPI, GitHub or the LLM
+  | "server_error" // HTTP 5xx
+  | "timeout" // step exceeded timeoutMs
+  | "network" // connection reset, DNS failure, fetch failed
+  | "invalid_output"; // AI output still invalid after schema repair
+
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  /** Delay before the second attempt */
+  initialDelayMs: number;
+  /** Factor applied to the delay after each attempt */
+  backoffMultiplier: number;
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+  /** Error classes worth retrying; anything else fails immediately */
+  retryOn: RetryableErrorClass[];
+}
+
+// ─────────────────────────────────────────────────────────
+// Defaults
+// ─────────────────────────────────────────────────────────
+
+const TRANSIENT: RetryableErrorClass[] = [
+  "rate_limit",
+  "server_error",
+  "timeout",
+  "network",
+];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1_000,
+  backoffMultiplier: 2,
+  maxDelayMs: 30_000,
+  retryOn: TRANSIENT,
+};
+
+const DEFAULT_TIMEOUT_MS: Record<WorkflowStep["type"], number> = {
+  search: 30_000,
+  fetch_page: 60_000,
+  extract: 300_000,
+  analyze: 300_000,
+  aggregate: 300_000,
+  verify: 300_000,
+  review: 30_000, // building the request; the wait for an answer is untimed
+  branch: 10_000,
+  for_each: 900_000, // every sub-step of every item; each has its own timeout
+  generate_report: 30_000,
+};
+
+export function resolveRetryPolicy(step: WorkflowStep): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...(step.retry || {}) };
+}
+
+export function resolveTimeoutMs(step: WorkflowStep): number {
+  return step.timeoutMs ?? DEFAULT_TIMEOUT_MS[step.type] ?? 60_000;
+}
+
+// ─────────────────────────────────────────────────────────
+// Error classification
+// ─────────────────────────────────────────────────────────
+
+export class StepTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Step timed out after ${timeoutMs}ms`);
+    this.name = "StepTimeoutError";
+  }
+}
+
+/** HTTP status from Octokit errors or "... error: 429 ..." style messages */
+function httpStatusOf(error: any): number | null {
+  const status = error?.status ?? error?.response?.status;
+  if (typeof status === "number") return status;
+
+  const match = String(error?.message || "").match(/error:?\s*(\d{3})\b/i);
+  return match ? Number(match[1]) : null;
+}
+
+export function classifyError(error: any): RetryableErrorClass | null {
+  if (error instanceof StepTimeoutError) return "timeout";
+
+  const status = httpStatusOf(error);
+  if (status === 429) return "rate_limit";
+  if (status !== null && status >= 500 && status < 600) return "server_error";
+
+  const message = String(error?.message || "");
+  if (
+    /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up/i.test(
+      message
+    ) ||
+    /ECONNRESET|ETIMEDOUT|ENOTFOUND/.test(String(error?.cause?.code || ""))
+  ) {
+    return "network";
+  }
+
+  if (/^AI returned invalid/.test(message)) return "invalid_output";
+
+  return null;
+}
+
+export function shouldRetry(
+  error: any,
+  policy: RetryPolicy,
+  attempt: number
+): boolean {
+  if (attempt >= policy.maxAttempts) return false;
+  const errorClass = classifyError(error);
+  return errorClass !== null && policy.retryOn.includes(errorClass);
+}
+
+/** Delay before attempt `attempt + 1` */
+export function backoffDelayMs(policy: RetryPolicy, attempt: number): number {
+  const delay =
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+// ─────────────────────────────────────────────────────────
+// Timeout helper
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Run `work` with an AbortSignal of its own, linked to `signal`. On
+ * timeout that signal is aborted with a StepTimeoutError, so the searches
+ * and AI calls inside stop instead of running on next to the retry.
+ * Rejects as soon as the attempt times out or `signal` aborts.
+ */
+export async function withTimeout<T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) throw signal.reason;
+
+  const attempt = new AbortController();
+  const onAbort = () => attempt.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer = setTimeout(
+    () => attempt.abort(new StepTimeoutError(timeoutMs)),
+    timeoutMs
+  );
+  const aborted = new Promise<never>((_, reject) => {
+    attempt.signal.addEventListener("abort", () => reject(attempt.signal.reason), {
+      once: true,
+    });
+  });
+
+  try {
+    return await Promise.race([work(attempt.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/** Wait `ms`, resolving early if `signal` aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    if (signal?.aborted) return done();
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
@@ -0,0 +1,211 @@
+// lib/workflow-review.ts
+//
+// Human-in-the-loop "review" steps.
+//
+// When a review step becomes ready the engine builds a ReviewRequest from
+// the previous step's output (a selectable list and/or a small form), stores
+// it on the workflow and moves the workflow to "awaiting_input" once nothing
+// else is running. No worker is held while waiting: answering through
+// POST /api/workflows/[id]/review stores the step result and re-queues the
+// run, which then skips every step that already has a result.
+//
+// Form fields use the same primitive schemas as MCP elicitation requests,
+// so the UI renders them with the field components in
+// components/tambo/elicitation-ui.tsx.
+
+import type { WorkflowStep } from "@/lib/workflow-engine";
+import { itemLabel, stepListKey } from "@/lib/workflow-chunking";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+/** Elicitation-style primitive field schema */
+export type ReviewField =
+  | {
+      type: "string";
+      description?: string;
+      enum?: string[];
+      enumNames?: string[];
+      minLength?: number;
+      maxLength?: number;
+      default?: string;
+    }
+  | {
+      type: "number" | "integer";
+      description?: string;
+      minimum?: number;
+      maximum?: number;
+      default?: number;
+    }
+  | { type: "boolean"; description?: string; default?: boolean };
+
+export interface ReviewItem {
+  /** Position in the source step's list, as a string */
+  id: string;
+  label: string;
+  description?: string;
+  url?: string;
+}
+
+export interface ReviewRequest {
+  stepIndex: number;
+  stepTitle: string;
+  message: string;
+  mode: "select" | "form";
+  /** Step whose output is being reviewed (select mode) */
+  fromStep?: number;
+  items: ReviewItem[];
+  minSelect: number;
+  maxSelect?: number;
+  fields: Record<string, ReviewField>;
+  required: string[];
+  requestedAt: string;
+}
+
+export interface ReviewResponse {
+  /** "decline" passes every item through unfiltered; "cancel" stops the run */
+  action: "accept" | "decline" | "cancel";
+  /** Item ids to keep (select mode) */
+  selected?: string[];
+  /** Form field values */
+  values?: Record<string, unknown>;
+}
+
+const DEFAULT_MAX_ITEMS = 50;
+
+// ─────────────────────────────────────────────────────────
+// Building the request
+// ─────────────────────────────────────────────────────────
+
+/** Explicit mode, else a form when only fields are given, else a list */
+export function reviewMode(params: Record<string, any>): "select" | "form" {
+  if (params.mode) return params.mode;
+  const hasFields = Object.keys(params.fields || {}).length > 0;
+  return typeof params.fromStep !== "number" && hasFields ? "form" : "select";
+}
+
+function itemDescription(item: any): string | undefined {
+  const text = item?.description || item?.snippet || item?.summary;
+  return typeof text === "string" ? text.slice(0, 300) : undefined;
+}
+
+export function buildReviewRequest(
+  step: WorkflowStep,
+  previousResults: any[]
+): ReviewRequest {
+  const {
+    fromStep,
+    prompt,
+    labelField,
+    minSelect = 1,
+    maxSelect,
+    maxItems = DEFAULT_MAX_ITEMS,
+    fields = {},
+    required = [],
+  } = step.params;
+  const mode: ReviewRequest["mode"] = reviewMode(step.params);
+
+  let items: ReviewItem[] = [];
+  if (mode === "select") {
+    const data = previousResults[fromStep]?.data;
+    const key = stepListKey(data);
+    if (!key) {
+      throw new Error(`Step ${fromStep + 1} has no list of items to review`);
+    }
+    items = (data[key] as any[]).slice(0, maxItems).map((item, i) => ({
+      id: String(i),
+      label: itemLabel(item, labelField),
+      description: itemDescription(item),
+      url: item?.url || item?.link || item?.html_url || undefined,
+    }));
+  }
+
+  return {
+    stepIndex: step.index,
+    stepTitle: step.title,
+    message:
+      prompt ||
+      step.description ||
+      (mode === "select" ? "Choose the items to continue with" : step.title),
+    mode,
+    ...(typeof fromStep === "number" ? { fromStep } : {}),
+    items,
+    minSelect: mode === "select" ? Math.min(minSelect, items.length) : 0,
+    ...(maxSelect ? { maxSelect } : {}),
+    fields,
+    required,
+    requestedAt: new Date().toISOString(),
+  };
+}
+
+// ─────────────────────────────────────────────────────────
+// Applying the answer
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Turn the user's answer into the review step's output. In select mode the
+ * source step's output is kept with its list filtered to the chosen items,
+ * so downstream steps (fetch_page, extract...) read it like the original.
+ * Throws with a user-facing message when the answer is incomplete.
+ */
+export function resolveReview(
+  request: ReviewRequest,
+  previousResults: any[],
+  response: ReviewResponse
+): any {
+  const values = response.values ?? {};
+
+  if (response.action === "accept") {
+    for (const name of request.required) {
+      if (values[name] === undefined || values[name] === "") {
+        throw new Error(`Missing required field: ${name}`);
+      }
+    }
+  }
+
+  const review = {
+    action: response.action === "accept" ? "accepted" : "declined",
+    values,
+    reviewedAt: new Date().toISOString(),
+  };
+
+  if (request.mode === "form") {
+    return { values, review };
+  }
+
+  const data = previousResults[request.fromStep!]?.data;
+  const key = stepListKey(data);
+  if (!key) {
+    throw new Error(`Step ${request.fromStep} output is no longer available`);
+  }
+  const list = data[key] as any[];
+
+  let keep: number[];
+  if (response.action === "accept") {
+    const known = new Set(request.items.map((item) => item.id));
+    keep = [...new Set(response.selected ?? [])]
+      .filter((id) => known.has(id))
+      .map(Number)
+      .sort((a, b) => a - b);
+
+    if (keep.length < request.minSelect) {
+      throw new Error(`Select at least ${request.minSelect} item(s)`);
+    }
+    if (request.maxSelect && keep.length > request.maxSelect) {
+      throw new Error(`Select at most ${request.maxSelect} item(s)`);
+    }
+  } else {
+    keep = request.items.map((item) => Number(item.id));
+  }
+
+  return {
+    ...data,
+    [key]: keep.map((i) => list[i]),
+    review: {
+      ...review,
+      selectedCount: keep.length,
+      totalCount: list.length,
+    },
+  };
+}
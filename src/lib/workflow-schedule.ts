@@ -0,0 +1,393 @@
+// lib/workflow-schedule.ts
+//
+// Recurring workflows. A WorkflowSchedule holds a snapshot of the steps and
+// settings of the workflow or template it was created from, plus a 5-field
+// cron expression evaluated in UTC ("0 9 * * 1" = Mondays at 09:00). Simple
+// daily / weekly / monthly schedules are stored as cron too.
+//
+// The worker process runs runScheduler() next to the job loop: every
+// SCHEDULE_POLL_INTERVAL_MS it claims the schedules that are due by moving
+// their nextRunAt forward (a conditional update, so two workers never fire
+// the same tick) and starts a run: a new Workflow linked to the schedule
+// and, as a re-run, to the previous completed run so the two can be diffed.
+// The queue executes it like any other workflow and autoGenerateReport()
+// writes a new report per run. A tick is skipped while the schedule's
+// previous run is still active, and ticks missed while no worker was up
+// collapse into one run. WORKFLOW_SCHEDULER=off keeps a worker from firing
+// schedules.
+
+import { prisma } from "@/lib/prisma";
+import type { Prisma, WorkflowSchedule } from "@/generated/prisma/client";
+import { enqueueWorkflow } from "@/lib/workflow-queue";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+/** A schedule as accepted by the API: raw cron or a simple frequency */
+export interface ScheduleSpec {
+  cron?: string;
+  frequency?: "daily" | "weekly" | "monthly";
+  /** "HH:MM" in UTC, default "09:00" */
+  time?: string;
+  /** 0 (Sunday) – 6 for weekly schedules, default 1 (Monday) */
+  dayOfWeek?: number;
+  /** 1 – 28 for monthly schedules, default 1 */
+  dayOfMonth?: number;
+}
+
+interface CronField {
+  values: Set<number>;
+  /** True for "*" (or a step over the full range) */
+  any: boolean;
+}
+
+interface ParsedCron {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+export const SCHEDULE_POLL_INTERVAL_MS = Number(
+  process.env.SCHEDULE_POLL_INTERVAL_MS ?? 30_000
+);
+
+/** Workflow statuses that block the next tick of the same schedule */
+const ACTIVE_STATUSES = ["pending", "running", "paused", "awaiting_input"];
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// ─────────────────────────────────────────────────────────
+// Cron
+// ─────────────────────────────────────────────────────────
+
+const FIELD_RANGES: Array<[keyof ParsedCron, number, number]> = [
+  ["minute", 0, 59],
+  ["hour", 0, 23],
+  ["dayOfMonth", 1, 31],
+  ["month", 1, 12],
+  ["dayOfWeek", 0, 6],
+];
+
+function parseField(text: string, name: string, min: number, max: number): CronField {
+  const values = new Set<number>();
+  let any = false;
+
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron ${name}: ${part}`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      [from, to] = [min, max];
+      if (step === 1) any = true;
+    } else if (range.includes("-")) {
+      [from, to] = range.split("-").map(Number);
+    } else {
+      from = Number(range);
+      to = stepText === undefined ? from : max;
+    }
+    // Sunday may be written as 7
+    if (name === "dayOfWeek" && to === 7) {
+      values.add(0);
+      if (from === 7) continue;
+      to = 6;
+    }
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+      throw new Error(`Invalid cron ${name}: ${part} (allowed ${min}-${max})`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+
+  return { values, any };
+}
+
+/** Parse a 5-field cron expression; throws on invalid input */
+export function parseCron(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expression must have 5 fields (minute hour day month weekday), got ${fields.length}`
+    );
+  }
+  const parsed = {} as ParsedCron;
+  FIELD_RANGES.forEach(([name, min, max], i) => {
+    parsed[name] = parseField(fields[i], name, min, max);
+  });
+  return parsed;
+}
+
+/** Standard cron: with both day fields restricted, either may match */
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const dom = cron.dayOfMonth.values.has(date.getUTCDate());
+  const dow = cron.dayOfWeek.values.has(date.getUTCDay());
+  if (cron.dayOfMonth.any) return dow;
+  if (cron.dayOfWeek.any) return dom;
+  return dom || dow;
+}
+
+/** First time strictly after `after` (UTC, whole minutes) matching the cron */
+export function nextCronRun(expression: string, after: Date = new Date()): Date {
+  const cron = parseCron(expression);
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Four years covers every valid day/month combination (Feb 29)
+  const limit = after.getTime() + 4 * 366 * 24 * 60 * 60_000;
+  while (date.getTime() <= limit) {
+    if (!cron.month.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minute.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+  throw new Error(`Cron expression never matches: ${expression}`);
+}
+
+// ─────────────────────────────────────────────────────────
+// Specs
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Cron expression for a schedule spec; throws with a message fit for a 400
+ * response when the spec is invalid or never fires.
+ */
+export function scheduleToCron(spec: ScheduleSpec): string {
+  let cron: string;
+
+  if (spec.cron) {
+    cron = spec.cron.trim();
+  } else {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(spec.time ?? "09:00");
+    const hour = match ? Number(match[1]) : NaN;
+    const minute = match ? Number(match[2]) : NaN;
+    if (!(hour >= 0 && hour <= 23 && minute >= 0 && minute <= 59)) {
+      throw new Error(`Invalid time: ${spec.time} (expected HH:MM, UTC)`);
+    }
+
+    switch (spec.frequency) {
+      case "daily":
+        cron = `${minute} ${hour} * * *`;
+        break;
+      case "weekly": {
+        const day = spec.dayOfWeek ?? 1;
+        if (!Number.isInteger(day) || day < 0 || day > 6) {
+          throw new Error("dayOfWeek must be 0 (Sunday) to 6");
+        }
+        cron = `${minute} ${hour} * * ${day}`;
+        break;
+      }
+      case "monthly": {
+        const day = spec.dayOfMonth ?? 1;
+        // Later days would skip short months
+        if (!Number.isInteger(day) || day < 1 || day > 28) {
+          throw new Error("dayOfMonth must be 1 to 28");
+        }
+        cron = `${minute} ${hour} ${day} * *`;
+        break;
+      }
+      default:
+        throw new Error("Schedule needs a cron expression or a frequency: daily, weekly or monthly");
+    }
+  }
+
+  nextCronRun(cron);
+  return cron;
+}
+
+/** Human-readable schedule, e.g. "Weekly on Monday at 09:00 UTC" */
+export function describeCron(expression: string): string {
+  const match = /^(\d+) (\d+) (\S+) \* (\S+)$/.exec(expression.trim());
+  if (match) {
+    const [, minute, hour, dom, dow] = match;
+    const time = `${hour.padStart(2, "0")}:${minute.padStart(2, "0")} UTC`;
+    if (dom === "*" && dow === "*") return `Daily at ${time}`;
+    if (dom === "*" && /^\d$/.test(dow)) return `Weekly on ${DAY_NAMES[Number(dow) % 7]} at ${time}`;
+    if (/^\d+$/.test(dom) && dow === "*") return `Monthly on day ${dom} at ${time}`;
+  }
+  return `Cron "${expression}" (UTC)`;
+}
+
+/** Response shape shared by the schedule routes */
+export function serializeSchedule(
+  schedule: WorkflowSchedule & {
+    runs?: Array<{
+      id: string;
+      status: string;
+      createdAt: Date;
+      completedAt: Date | null;
+      report: { id: string; title: string } | null;
+    }>;
+  }
+) {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    cron: schedule.cron,
+    description: describeCron(schedule.cron),
+    enabled: schedule.enabled,
+    nextRunAt: schedule.nextRunAt,
+    lastRunAt: schedule.lastRunAt,
+    title: schedule.title,
+    query: schedule.query,
+    totalSteps: ((schedule.steps as unknown as any[]) || []).length,
+    sourceWorkflowId: schedule.sourceWorkflowId,
+    templateId: schedule.templateId,
+    createdAt: schedule.createdAt,
+    runs: schedule.runs ?? [],
+  };
+}
+
+/** Latest runs included with each schedule */
+export const SCHEDULE_RUNS_INCLUDE = {
+  runs: {
+    orderBy: { createdAt: "desc" },
+    take: 10,
+    select: {
+      id: true,
+      status: true,
+      createdAt: true,
+      completedAt: true,
+      report: { select: { id: true, title: true } },
+    },
+  },
+} satisfies Prisma.WorkflowScheduleInclude;
+
+// ─────────────────────────────────────────────────────────
+// Runs
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Create and queue a run of the schedule. Returns null (without starting
+ * anything) when its previous run is still active.
+ */
+export async function startScheduledRun(
+  schedule: WorkflowSchedule
+): Promise<{ workflowId: string } | null> {
+  const active = await prisma.workflow.findFirst({
+    where: { scheduleId: schedule.id, status: { in: ACTIVE_STATUSES } },
+    select: { id: true },
+  });
+  if (active) return null;
+
+  // Each run is a re-run of the last one, so GET /api/workflows/[id]/diff
+  // shows what changed since then
+  const previous = await prisma.workflow.findFirst({
+    where: { scheduleId: schedule.id, status: "completed" },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+
+  const steps = (schedule.steps as unknown as any[]) || [];
+  const workflow = await prisma.workflow.create({
+    data: {
+      userId: schedule.userId,
+      scheduleId: schedule.id,
+      rerunOfId: previous?.id ?? null,
+      title: schedule.title,
+      description: schedule.description,
+      query: schedule.query,
+      status: "pending",
+      currentStep: 0,
+      totalSteps: steps.length,
+      steps: schedule.steps as Prisma.InputJsonValue,
+      results: [],
+      sources: schedule.sources,
+      depth: schedule.depth,
+      outputFormat: schedule.outputFormat,
+      llmProvider: schedule.llmProvider,
+      llmModel: schedule.llmModel,
+      promptVersion: schedule.promptVersion,
+      ...(schedule.budget != null && {
+        budget: schedule.budget as Prisma.InputJsonValue,
+      }),
+    },
+  });
+
+  await prisma.workflowSchedule.update({
+    where: { id: schedule.id },
+    data: { lastRunAt: new Date() },
+  });
+  await enqueueWorkflow(workflow.id);
+  return { workflowId: workflow.id };
+}
+
+/** Start every due schedule once; returns how many runs were started */
+export async function runDueSchedules(now: Date = new Date()): Promise<number> {
+  const due = await prisma.workflowSchedule.findMany({
+    where: { enabled: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: "asc" },
+    take: 50,
+  });
+
+  let started = 0;
+  for (const schedule of due) {
+    try {
+      // Claim the tick: only the worker that moves nextRunAt starts the run
+      const { count } = await prisma.workflowSchedule.updateMany({
+        where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+        data: { nextRunAt: nextCronRun(schedule.cron, now) },
+      });
+      if (count === 0) continue;
+
+      const run = await startScheduledRun(schedule);
+      if (run) {
+        started++;
+        console.log(`⏰ Schedule "${schedule.name}" started workflow ${run.workflowId}`);
+      } else {
+        console.log(`⏭️ Schedule "${schedule.name}" skipped: previous run still active`);
+      }
+    } catch (error: any) {
+      console.error(`❌ Schedule ${schedule.id} failed to start:`, error.message);
+    }
+  }
+  return started;
+}
+
+/** Fire due schedules until the signal aborts */
+export async function runScheduler(options: { signal?: AbortSignal } = {}): Promise<void> {
+  if (process.env.WORKFLOW_SCHEDULER === "off") return;
+  console.log("⏰ Workflow scheduler started");
+
+  while (!options.signal?.aborted) {
+    try {
+      await runDueSchedules();
+    } catch (error: any) {
+      console.error("Failed to run due schedules:", error.message);
+    }
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, SCHEDULE_POLL_INTERVAL_MS);
+      options.signal?.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        { once: true }
+      );
+    });
+  }
+  console.log("⏰ Workflow scheduler stopped");
+}
@@ -0,0 +1,276 @@
+// lib/workflow-schemas.ts
+//
+// Zod schemas for every structured AI output in the workflow engine.
+// The engine validates each response against these and, on failure,
+// re-prompts the model with the validation errors (see workflow-engine.ts).
+//
+// Schemas are deliberately forgiving about shape details models get wrong
+// harmlessly (numbers as strings, missing optional fields) and strict about
+// anything downstream code or DynamicReport would trip over.
+
+import { z } from "zod";
+
+// ─────────────────────────────────────────────────────────
+// Planner
+// ─────────────────────────────────────────────────────────
+
+export const STEP_TYPES = [
+  "search",
+  "fetch_page",
+  "extract",
+  "analyze",
+  "aggregate",
+  "verify",
+  "review",
+  "branch",
+  "for_each",
+  "generate_report",
+] as const;
+
+export const WorkflowStepSchema = z.object({
+  index: z.coerce.number().int().nonnegative(),
+  type: z.enum(STEP_TYPES),
+  title: z.string().min(1),
+  description: z.string().default(""),
+  params: z.record(z.string(), z.any()).default({}),
+  dependsOn: z.array(z.coerce.number().int().nonnegative()).default([]),
+  llm: z
+    .object({
+      provider: z.string().optional(),
+      model: z.string().optional(),
+      tier: z.enum(["default", "fast"]).optional(),
+    })
+    .optional(),
+  retry: z
+    .object({
+      maxAttempts: z.coerce.number().int().positive().optional(),
+      initialDelayMs: z.coerce.number().nonnegative().optional(),
+      backoffMultiplier: z.coerce.number().positive().optional(),
+      maxDelayMs: z.coerce.number().nonnegative().optional(),
+      retryOn: z
+        .array(
+          z.enum([
+            "rate_limit",
+            "server_error",
+            "timeout",
+            "network",
+            "invalid_output",
+          ])
+        )
+        .optional(),
+    })
+    .optional(),
+  timeoutMs: z.coerce.number().int().positive().optional(),
+});
+
+export const PlanOutputSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().default(""),
+  steps: z.array(WorkflowStepSchema).min(1, "Plan must contain at least one step"),
+});
+
+export type PlanOutput = z.infer<typeof PlanOutputSchema>;
+
+// ─────────────────────────────────────────────────────────
+// Step payloads
+// ─────────────────────────────────────────────────────────
+
+export const ExtractOutputSchema = z
+  .object({
+    extracted: z.array(z.record(z.string(), z.any())),
+    totalExtracted: z.coerce.number().int().nonnegative().optional(),
+    summary: z.string().default(""),
+  })
+  .transform((out) => ({
+    ...out,
+    totalExtracted: out.totalExtracted ?? out.extracted.length,
+  }));
+
+const confidenceSchema = z
+  .string()
+  .transform((c) => c.trim().toLowerCase())
+  .pipe(z.enum(["high", "medium", "low"]));
+
+export const AnalyzeOutputSchema = z.object({
+  analysisType: z.string().default("general"),
+  findings: z.array(
+    z.object({
+      insight: z.string().min(1),
+      evidence: z.string().default(""),
+      confidence: confidenceSchema.default("medium"),
+    })
+  ),
+  summary: z.string().min(1),
+  recommendations: z.array(z.string()).default([]),
+});
+
+export const AggregateOutputSchema = z
+  .object({
+    mergeStrategy: z.string(),
+    totalItems: z.coerce.number().int().nonnegative().optional(),
+    aggregatedData: z.array(z.any()),
+    summary: z.string().default(""),
+  })
+  .transform((out) => ({
+    ...out,
+    totalItems: out.totalItems ?? out.aggregatedData.length,
+  }));
+
+/** "supports" / "contradicts"; anything else is kept as "neutral" and ignored */
+const stanceSchema = z
+  .string()
+  .transform((s) => s.trim().toLowerCase())
+  .transform((s) =>
+    s.startsWith("support") || s === "confirms"
+      ? "supports"
+      : s.startsWith("contradict") || s.startsWith("refute")
+        ? "contradicts"
+        : "neutral"
+  )
+  .pipe(z.enum(["supports", "contradicts", "neutral"]));
+
+export const VerifyOutputSchema = z.object({
+  claims: z.array(
+    z.object({
+      id: z.coerce.number().int(),
+      evidence: z
+        .array(
+          z.object({
+            ref: z.coerce.number().int(),
+            stance: stanceSchema,
+            quote: z.string().default(""),
+          })
+        )
+        .default([]),
+      note: z.string().default(""),
+    })
+  ),
+});
+
+export type ExtractOutput = z.infer<typeof ExtractOutputSchema>;
+export type AnalyzeOutput = z.infer<typeof AnalyzeOutputSchema>;
+export type AggregateOutput = z.infer<typeof AggregateOutputSchema>;
+export type VerifyOutput = z.infer<typeof VerifyOutputSchema>;
+
+// ─────────────────────────────────────────────────────────
+// Report
+// ─────────────────────────────────────────────────────────
+
+const cellSchema = z.union([z.string(), z.number(), z.boolean(), z.null()])
+  .transform((v) => (v == null ? "" : String(v)));
+
+/**
+ * Source numbers (the `ref` of items in the report data) a section, row or
+ * list item draws on; checked and renumbered by workflow-citations.ts
+ */
+const citationsSchema = z.array(z.coerce.number()).optional();
+
+export const TableContentSchema = z
+  .object({
+    headers: z.array(z.string()).min(1),
+    rows: z.array(z.array(cellSchema)),
+    rowCitations: z.array(z.array(z.coerce.number())).optional(),
+  })
+  .superRefine((table, ctx) => {
+    table.rows.forEach((row, i) => {
+      if (row.length !== table.headers.length) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["rows", i],
+          message: `Row has ${row.length} cells but there are ${table.headers.length} headers`,
+        });
+      }
+    });
+  });
+
+export const ChartContentSchema = z
+  .object({
+    chartType: z.enum(["bar", "line", "pie"]),
+    labels: z.array(z.string()).min(1),
+    datasets: z
+      .array(
+        z.object({
+          label: z.string(),
+          data: z.array(z.coerce.number()),
+        })
+      )
+      .min(1),
+  })
+  .superRefine((chart, ctx) => {
+    chart.datasets.forEach((dataset, i) => {
+      if (dataset.data.length !== chart.labels.length) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["datasets", i, "data"],
+          message: `Dataset has ${dataset.data.length} values but there are ${chart.labels.length} labels`,
+        });
+      }
+    });
+  });
+
+export const ListContentSchema = z.object({
+  items: z.array(z.string()).min(1),
+  itemCitations: z.array(z.array(z.coerce.number())).optional(),
+});
+
+export const ReportSectionSchema = z.discriminatedUnion("type", [
+  z.object({
+    id: z.string().optional(),
+    type: z.literal("text"),
+    title: z.string(),
+    citations: citationsSchema,
+    content: z.string().min(1),
+  }),
+  z.object({
+    id: z.string().optional(),
+    type: z.literal("table"),
+    title: z.string(),
+    citations: citationsSchema,
+    content: TableContentSchema,
+  }),
+  z.object({
+    id: z.string().optional(),
+    type: z.literal("chart"),
+    title: z.string(),
+    citations: citationsSchema,
+    content: ChartContentSchema,
+  }),
+  z.object({
+    id: z.string().optional(),
+    type: z.literal("list"),
+    title: z.string(),
+    citations: citationsSchema,
+    content: ListContentSchema,
+  }),
+]);
+
+export const ReportOutputSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string().min(1),
+  sections: z.array(ReportSectionSchema).min(1),
+});
+
+export type ReportSection = z.infer<typeof ReportSectionSchema> & { id: string };
+export type ReportOutput = Omit<z.infer<typeof ReportOutputSchema>, "sections"> & {
+  sections: ReportSection[];
+};
+
+// ─────────────────────────────────────────────────────────
+// Validation failure records
+// ─────────────────────────────────────────────────────────
+
+/** One rejected AI response, stored on WorkflowExecution.validationErrors */
+export interface ValidationFailure {
+  task: string;
+  attempt: number;
+  issues: string[];
+  repaired: boolean;
+}
+
+/** Flatten zod issues into "path: message" lines for prompts and logs */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.map(String).join(".");
+    return `${path || "(root)"}: ${issue.message}`;
+  });
+}
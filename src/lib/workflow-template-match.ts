@@ -0,0 +1,236 @@
+// lib/workflow-template-match.ts
+//
+// Scoring behind rankTemplates() in lib/workflow-templates.ts.
+//
+// Regex patterns only catch goals phrased the way their author expected, so
+// each template is also indexed as a few short TF-IDF documents (its name
+// and description, its keywords, and each example goal) and the goal's
+// similarity is the best cosine against any of them. IDF is computed
+// across templates, so words every template shares count for little.
+// Words are lower-cased and lightly stemmed, and longer words within one
+// edit of an indexed word count as that word, so "reviws" still finds
+// "reviews". Example goals double as patterns: "what are people saying
+// about {topic}" captures the topic directly.
+
+import type { WorkflowTemplate } from "@/lib/workflow-templates";
+
+// ─────────────────────────────────────────────────────────
+// Words
+// ─────────────────────────────────────────────────────────
+
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "for", "at",
+  "by", "with", "from", "into", "about", "as", "is", "are", "was", "were",
+  "be", "been", "do", "does", "did", "i", "me", "my", "we", "our", "you",
+  "your", "it", "its", "this", "that", "these", "those", "what", "which",
+  "who", "how", "why", "when", "where", "can", "could", "would", "should",
+  "will", "please", "some", "any", "all", "there", "their", "them", "they",
+  "so", "if", "than", "then", "up", "out", "over", "just", "also", "tell",
+  "show", "give", "want", "need", "help", "let", "us", "much", "many",
+]);
+
+/** Words shorter than this must match exactly */
+const FUZZY_MIN_LENGTH = 5;
+
+/** Light suffix stripping: "reviews" / "reviewing" / "reviewed" → "review" */
+export function stem(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith("ies") && word.length > 4) return word.slice(0, -3) + "y";
+  if (word.endsWith("ing") && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith("ed") && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith("es") && /(?:ch|sh|x|ss)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/** Content words of a text, stemmed */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\{topic\}/g, " ")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+export function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word.toLowerCase().replace(/[^a-z0-9]/g, ""));
+}
+
+/** True when a and b differ by at most one insertion, deletion or substitution */
+export function withinOneEdit(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+/** The indexed word a goal word stands for, if any */
+function resolveWord(word: string, vocabulary: Set<string>): string | null {
+  if (vocabulary.has(word)) return word;
+  if (word.length < FUZZY_MIN_LENGTH) return null;
+  for (const known of vocabulary) {
+    if (known.length >= FUZZY_MIN_LENGTH && withinOneEdit(word, known)) return known;
+  }
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────
+// TF-IDF
+// ─────────────────────────────────────────────────────────
+
+export interface TemplateIndex {
+  idf: Map<string, number>;
+  /** Per template: one unit vector per document */
+  vectors: Map<string, Map<string, number>[]>;
+  vocabulary: Set<string>;
+}
+
+function templateDocuments(template: WorkflowTemplate): string[] {
+  return [
+    `${template.name} ${template.description}`,
+    template.keywords.join(" "),
+    ...(template.examples ?? []),
+  ];
+}
+
+function templateText(template: WorkflowTemplate): string {
+  return templateDocuments(template).join(" ");
+}
+
+function normalize(vector: Map<string, number>): Map<string, number> {
+  const length = Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  if (length === 0) return vector;
+  return new Map([...vector].map(([word, w]) => [word, w / length]));
+}
+
+export function buildTemplateIndex(templates: WorkflowTemplate[]): TemplateIndex {
+  // Document frequency counts templates, not their individual documents
+  const templateTokens = templates.map((t) => new Set(tokenize(templateText(t))));
+  const vocabulary = new Set(templateTokens.flatMap((tokens) => [...tokens]));
+
+  const idf = new Map<string, number>();
+  for (const word of vocabulary) {
+    const df = templateTokens.filter((tokens) => tokens.has(word)).length;
+    idf.set(word, Math.log((templates.length + 1) / (df + 1)) + 1);
+  }
+
+  const vectors = new Map<string, Map<string, number>[]>();
+  for (const template of templates) {
+    vectors.set(
+      template.id,
+      templateDocuments(template).map((text) => {
+        const tf = new Map<string, number>();
+        tokenize(text).forEach((word) => tf.set(word, (tf.get(word) ?? 0) + 1));
+        return normalize(new Map([...tf].map(([w, n]) => [w, n * idf.get(w)!])));
+      })
+    );
+  }
+
+  return { idf, vectors, vocabulary };
+}
+
+/**
+ * Similarity (0–1) between a goal and one indexed template: the best
+ * cosine against any of its documents
+ */
+export function templateSimilarity(
+  index: TemplateIndex,
+  templateId: string,
+  goalTokens: string[]
+): number {
+  const documents = index.vectors.get(templateId);
+  if (!documents) return 0;
+
+  const tf = new Map<string, number>();
+  for (const token of goalTokens) {
+    const word = resolveWord(token, index.vocabulary);
+    if (word) tf.set(word, (tf.get(word) ?? 0) + 1);
+  }
+  if (tf.size === 0) return 0;
+
+  // Unknown words still count towards the goal's length, so a long goal
+  // that shares one word with a template scores low
+  const unknown = goalTokens.length - [...tf.values()].reduce((a, b) => a + b, 0);
+  const query = new Map([...tf].map(([w, n]) => [w, n * index.idf.get(w)!]));
+  const length = Math.sqrt(
+    [...query.values()].reduce((sum, w) => sum + w * w, 0) + unknown
+  );
+
+  let best = 0;
+  for (const vector of documents) {
+    let dot = 0;
+    for (const [word, weight] of query) dot += (weight / length) * (vector.get(word) ?? 0);
+    best = Math.max(best, dot);
+  }
+  return Math.min(1, best);
+}
+
+/** Keywords present in the goal, multi-word ones as phrases */
+export function keywordHits(goal: string, keywords: string[]): string[] {
+  const goalTokens = tokenize(goal);
+  const vocabulary = new Set(goalTokens);
+  const normalizedGoal = goal.toLowerCase();
+  return keywords.filter((keyword) => {
+    if (/\s/.test(keyword.trim())) return normalizedGoal.includes(keyword.toLowerCase());
+    const [word] = tokenize(keyword);
+    return !!word && resolveWord(word, vocabulary) !== null;
+  });
+}
+
+// ─────────────────────────────────────────────────────────
+// Topics
+// ─────────────────────────────────────────────────────────
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * An example goal as a pattern: "history of {topic}" → /\bhistory\s+of\s+(.+?)$/i.
+ * Null for examples without {topic}.
+ */
+export function examplePattern(example: string): RegExp | null {
+  const [before, after, ...rest] = example.trim().split("{topic}");
+  if (after === undefined || rest.length > 0) return null;
+  const literal = (text: string) =>
+    escapeRegExp(text.trim()).replace(/\d+/g, "\\d+").replace(/\s+/g, "\\s+");
+  const head = before.trim() ? `\\b${literal(before)}\\s+` : "^";
+  const tail = after.trim() ? `\\s+${literal(after)}` : "";
+  return new RegExp(`${head}(.+?)${tail}\\s*[?.!]*$`, "i");
+}
+
+/**
+ * Drop leading and trailing words that belong to the request rather than
+ * the topic: stop words and the template's own vocabulary.
+ * "what are people saying about Bun" → "Bun" for a template whose examples
+ * talk about what people are saying.
+ */
+export function trimTopic(text: string, template: WorkflowTemplate): string {
+  const frame = new Set(tokenize(templateText(template)));
+  const isFrame = (word: string) => {
+    if (isStopWord(word)) return true;
+    const [token] = tokenize(word);
+    return !!token && frame.has(token);
+  };
+  const words = text.trim().replace(/[?.!]+$/, "").split(/\s+/).filter(Boolean);
+  while (words.length > 1 && isFrame(words[0])) words.shift();
+  while (words.length > 1 && isFrame(words[words.length - 1])) words.pop();
+  return words.join(" ");
+}
@@ -3,8 +3,20 @@
 // Pre-built workflow templates for common research patterns.
 // These skip AI planning entirely, producing instant step definitions.
 // Pattern matching detects which template fits the user's goal.
+// Templates users save from their own workflows live in Postgres and are
+// turned into the same shape by lib/workflow-user-templates.ts.
 
 import type { WorkflowStep } from "@/lib/workflow-engine";
+import { removeStep } from "@/lib/workflow-plan";
+import { formatPlanIssues, validatePlan } from "@/lib/workflow-validation";
+import {
+  buildTemplateIndex,
+  examplePattern,
+  keywordHits,
+  templateSimilarity,
+  tokenize,
+  trimTopic,
+} from "@/lib/workflow-template-match";
 
 // ─────────────────────────────────────────────────────────
 // Types
@@ -18,6 +30,8 @@ export interface WorkflowTemplate {
   patterns: RegExp[];
   /** Keywords that boost match confidence */
   keywords: string[];
+  /** Example goals with a {topic} slot; indexed for similarity and used as patterns */
+  examples?: string[];
   /** Default sources for this template */
   defaultSources: string[];
   /** Default output format */
@@ -26,12 +40,16 @@ export interface WorkflowTemplate {
   buildSteps: (topic: string, depth: string) => WorkflowStep[];
   /** Generate title from topic */
   buildTitle: (topic: string) => string;
+  /** Saved by a user rather than built in */
+  custom?: boolean;
 }
 
-interface TemplateMatch {
+export interface TemplateMatch {
   template: WorkflowTemplate;
   topic: string;
   confidence: number;
+  /** What contributed to the confidence, e.g. ["example", "similarity"] */
+  reasons: Array<"pattern" | "example" | "keywords" | "similarity">;
 }
 
 // ─────────────────────────────────────────────────────────
@@ -44,6 +62,20 @@ const depthResults: Record<string, number> = {
   deep: 20,
 };
 
+/** Pages read in full by fetch_page steps */
+const depthPages: Record<string, number> = {
+  quick: 3,
+  standard: 5,
+  deep: 10,
+};
+
+/** Items researched one by one by for_each steps */
+const depthItems: Record<string, number> = {
+  quick: 2,
+  standard: 3,
+  deep: 5,
+};
+
 // ─────────────────────────────────────────────────────────
 // Template: Tech Comparison
 // ─────────────────────────────────────────────────────────
@@ -71,6 +103,13 @@ const techComparisonTemplate: WorkflowTemplate = {
     "library",
     "tool",
   ],
+  examples: [
+    "compare the top 5 {topic}",
+    "which {topic} should I use",
+    "best {topic} for production",
+    "pros and cons of {topic}",
+    "alternatives to {topic}",
+  ],
   defaultSources: ["google", "github"],
   defaultFormat: "comparison",
   buildTitle: (topic) => `${topic} Comparison`,
@@ -99,6 +138,15 @@ const techComparisonTemplate: WorkflowTemplate = {
       },
       {
         index: 2,
+        type: "fetch_page",
+        title: "Read top comparison articles",
+        description:
+          "Download the top articles so extraction sees full text, not snippets",
+        params: { fromStep: 0, maxPages: depthPages[depth] || 5 },
+        dependsOn: [0],
+      },
+      {
+        index: 3,
         type: "extract",
         title: "Extract key features & metrics",
         description:
@@ -114,29 +162,29 @@ const techComparisonTemplate: WorkflowTemplate = {
             "stars",
             "popularity",
           ],
-          fromStep: 0,
+          fromStep: 2,
         },
-        dependsOn: [0, 1],
+        dependsOn: [1, 2],
       },
       {
-        index: 3,
+        index: 4,
         type: "analyze",
         title: "Compare and rank options",
         description: `Analyze and rank ${topic} based on features, popularity, and community health`,
         params: {
           analysisType: "comparison",
           question: `Compare these ${topic} options. Which is best for different use cases? Rank them by popularity, features, and developer experience.`,
-          fromSteps: [1, 2],
+          fromSteps: [1, 3],
         },
-        dependsOn: [2],
+        dependsOn: [3],
       },
       {
-        index: 4,
+        index: 5,
         type: "generate_report",
         title: "Generate comparison report",
         description: `Create a detailed comparison report for ${topic}`,
         params: { reportFormat: "comparison" },
-        dependsOn: [3],
+        dependsOn: [4],
       },
     ];
   },
@@ -164,6 +212,16 @@ const marketResearchTemplate: WorkflowTemplate = {
     "pricing",
     "trend",
     "landscape",
+    "review",
+    "opinion",
+    "sentiment",
+  ],
+  examples: [
+    "what are people saying about {topic}",
+    "reviews and opinions of {topic}",
+    "who are the competitors of {topic}",
+    "pricing and market share of {topic}",
+    "is there a market for {topic}",
   ],
   defaultSources: ["google"],
   defaultFormat: "analysis",
@@ -197,6 +255,15 @@ const marketResearchTemplate: WorkflowTemplate = {
       },
       {
         index: 2,
+        type: "fetch_page",
+        title: "Read market landscape articles",
+        description:
+          "Download the top market articles for figures missing from snippets",
+        params: { fromStep: 0, maxPages: depthPages[depth] || 5 },
+        dependsOn: [0],
+      },
+      {
+        index: 3,
         type: "extract",
         title: "Extract market data",
         description: "Pull key players, pricing, market size, and growth data",
@@ -210,29 +277,29 @@ const marketResearchTemplate: WorkflowTemplate = {
             "strengths",
             "weaknesses",
           ],
-          fromStep: 0,
+          fromStep: 2,
         },
-        dependsOn: [0, 1],
+        dependsOn: [1, 2],
       },
       {
-        index: 3,
+        index: 4,
         type: "analyze",
         title: "Analyze market position & trends",
         description: `Deep analysis of ${topic} market dynamics and competitive landscape`,
         params: {
           analysisType: "market_analysis",
           question: `Analyze the ${topic} market: Who are the key players? What are the trends? Where are the opportunities? What's the competitive landscape?`,
-          fromSteps: [0, 1, 2],
+          fromSteps: [0, 1, 3],
         },
-        dependsOn: [2],
+        dependsOn: [3],
       },
       {
-        index: 4,
+        index: 5,
         type: "generate_report",
         title: "Generate market research report",
         description: `Create a comprehensive market analysis report for ${topic}`,
         params: { reportFormat: "analysis" },
-        dependsOn: [3],
+        dependsOn: [4],
       },
     ];
   },
@@ -260,6 +327,12 @@ const imageResearchTemplate: WorkflowTemplate = {
     "inspiration",
     "reference",
   ],
+  examples: [
+    "find photos of {topic}",
+    "show me pictures of {topic}",
+    "moodboard for {topic}",
+    "visual inspiration for {topic}",
+  ],
   defaultSources: ["google", "pexels"],
   defaultFormat: "summary",
   buildTitle: (topic) => `${topic} Visual Research`,
@@ -331,6 +404,12 @@ const githubDeepDiveTemplate: WorkflowTemplate = {
     "trending",
     "stars",
   ],
+  examples: [
+    "most popular open source {topic} projects",
+    "analyze the {topic} repos on github",
+    "which {topic} repositories are most active",
+    "how healthy is the {topic} open source community",
+  ],
   defaultSources: ["github", "google"],
   defaultFormat: "analysis",
   buildTitle: (topic) => `${topic} GitHub Analysis`,
@@ -347,6 +426,31 @@ const githubDeepDiveTemplate: WorkflowTemplate = {
       },
       {
         index: 1,
+        type: "branch",
+        title: "Check how many repositories were found",
+        description: "Broaden the search when the exact topic finds only a few repos",
+        params: {
+          fromStep: 0,
+          condition: { op: "lt", value: 3 },
+          then: [2],
+        },
+        dependsOn: [0],
+      },
+      {
+        index: 2,
+        type: "search",
+        title: `Broaden the ${topic} repository search`,
+        description: "Also match repository READMEs, not just names and descriptions",
+        params: {
+          source: "github",
+          query: `${topic} in:name,description,readme`,
+          sort: "stars",
+          num,
+        },
+        dependsOn: [1],
+      },
+      {
+        index: 3,
         type: "search",
         title: `Find recently updated ${topic} repos`,
         description: `Search GitHub for most recently active ${topic} projects`,
@@ -359,7 +463,7 @@ const githubDeepDiveTemplate: WorkflowTemplate = {
         dependsOn: [],
       },
       {
-        index: 2,
+        index: 4,
         type: "search",
         title: `Research ${topic} ecosystem context`,
         description: `Find articles about the ${topic} open source ecosystem`,
@@ -371,32 +475,64 @@ const githubDeepDiveTemplate: WorkflowTemplate = {
         dependsOn: [],
       },
       {
-        index: 3,
+        index: 5,
         type: "aggregate",
         title: "Combine repository data",
-        description: "Merge data from both GitHub searches",
-        params: { fromSteps: [0, 1], mergeStrategy: "combine" },
-        dependsOn: [0, 1],
+        description: "Merge data from the GitHub searches",
+        params: { fromSteps: [0, 2, 3], mergeStrategy: "combine" },
+        dependsOn: [0, 2, 3],
       },
       {
-        index: 4,
+        index: 6,
+        type: "for_each",
+        title: "Research the leading repositories",
+        description: "Find what developers say about each of the top repositories",
+        params: {
+          fromStep: 5,
+          maxItems: depthItems[depth] || 3,
+          steps: [
+            {
+              type: "search",
+              title: "Search for {{item.fullName}} reviews",
+              params: {
+                source: "google",
+                query: "{{item.fullName}} review experience alternatives",
+                num: 5,
+              },
+            },
+            {
+              type: "extract",
+              title: "Extract opinions on {{item.fullName}}",
+              params: {
+                extractionGoal:
+                  "What developers say about {{item.fullName}}: strengths, weaknesses, common use cases",
+                fields: ["strengths", "weaknesses", "useCases"],
+                fromStep: 0,
+              },
+            },
+          ],
+        },
+        dependsOn: [5],
+      },
+      {
+        index: 7,
         type: "analyze",
         title: "Analyze repository health & trends",
         description: `Analyze ${topic} repos by stars, activity, community health, and momentum`,
         params: {
           analysisType: "repository_analysis",
           question: `Analyze these ${topic} GitHub repositories. Which have the most momentum? Which are most mature? What patterns exist in the ecosystem?`,
-          fromSteps: [2, 3],
+          fromSteps: [4, 5, 6],
         },
-        dependsOn: [2, 3],
+        dependsOn: [4, 5, 6],
       },
       {
-        index: 5,
+        index: 8,
         type: "generate_report",
         title: "Generate ecosystem analysis report",
         description: `Create an analysis of the ${topic} open source ecosystem`,
         params: { reportFormat: "analysis" },
-        dependsOn: [4],
+        dependsOn: [7],
       },
     ];
   },
@@ -426,6 +562,12 @@ const trendTimelineTemplate: WorkflowTemplate = {
     "development",
     "over time",
   ],
+  examples: [
+    "history of {topic}",
+    "how has {topic} evolved",
+    "when did {topic} become popular",
+    "{topic} trends over the years",
+  ],
   defaultSources: ["google"],
   defaultFormat: "timeline",
   buildTitle: (topic) => `${topic} Timeline & Trends`,
@@ -458,35 +600,44 @@ const trendTimelineTemplate: WorkflowTemplate = {
       },
       {
         index: 2,
+        type: "fetch_page",
+        title: "Read history articles",
+        description:
+          "Download the top history articles so dates and milestones are complete",
+        params: { fromStep: 0, maxPages: depthPages[depth] || 5 },
+        dependsOn: [0],
+      },
+      {
+        index: 3,
         type: "extract",
         title: "Extract key events & milestones",
         description: `Pull out dates, events, and milestones from ${topic} history`,
         params: {
           extractionGoal: `Extract chronological events, milestones, and key dates from the history of ${topic}`,
           fields: ["date", "event", "significance", "impact"],
-          fromStep: 0,
+          fromStep: 2,
         },
-        dependsOn: [0],
+        dependsOn: [2],
       },
       {
-        index: 3,
+        index: 4,
         type: "analyze",
         title: "Analyze trends & future direction",
         description: `Analyze how ${topic} has evolved and where it's heading`,
         params: {
           analysisType: "trend_analysis",
           question: `Analyze the evolution of ${topic}. What are the major inflection points? What trends are emerging? Where is this heading?`,
-          fromSteps: [1, 2],
+          fromSteps: [1, 3],
         },
-        dependsOn: [1, 2],
+        dependsOn: [1, 3],
       },
       {
-        index: 4,
+        index: 5,
         type: "generate_report",
         title: "Generate timeline report",
         description: `Create a timeline report tracing the evolution of ${topic}`,
         params: { reportFormat: "timeline" },
-        dependsOn: [3],
+        dependsOn: [4],
       },
     ];
   },
@@ -508,15 +659,50 @@ export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
 // Template Matcher
 // ─────────────────────────────────────────────────────────
 
+/** The goal minus common instruction words, used when no pattern matched */
+export function extractTopic(goal: string): string {
+  return goal
+    .replace(
+      /^(please|can you|could you|i want to|i need to|help me)\s+/i,
+      ""
+    )
+    .replace(
+      /\b(compare|research|analyze|find|search|explore|create|generate|make)\b/gi,
+      ""
+    )
+    .replace(/\b(report|analysis|comparison|summary|for me|about)\b/gi, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Confidence from a regex pattern or example goal matching the goal */
+const PHRASE_WEIGHT = 0.45;
+/** Per keyword present, up to KEYWORD_MAX */
+const KEYWORD_WEIGHT = 0.1;
+const KEYWORD_MAX = 0.25;
+/** Times the TF-IDF similarity (0–1) */
+const SIMILARITY_WEIGHT = 0.6;
+/** Weakest candidate worth listing as an alternative */
+const MIN_CANDIDATE_CONFIDENCE = 0.2;
+
 /**
- * Try to match user's goal to a pre-built template.
- * Returns the best match with extracted topic, or null if no good match.
+ * Score the goal against every template, by default the pre-built ones,
+ * and return the best `limit` candidates, strongest first. Confidence
+ * (0–1) adds up a regex or example-goal match, keyword hits and TF-IDF
+ * similarity to the template's description and examples
+ * (lib/workflow-template-match.ts). On equal confidence the earlier
+ * template wins.
  */
-export function matchTemplate(goal: string): TemplateMatch | null {
-  const normalizedGoal = goal.trim().toLowerCase();
-  let bestMatch: TemplateMatch | null = null;
+export function rankTemplates(
+  goal: string,
+  templates: WorkflowTemplate[] = WORKFLOW_TEMPLATES,
+  limit = 3
+): TemplateMatch[] {
+  const index = buildTemplateIndex(templates);
+  const candidates: TemplateMatch[] = [];
 
-  for (const template of WORKFLOW_TEMPLATES) {
+  for (const template of templates) {
+    const reasons: TemplateMatch["reasons"] = [];
     let confidence = 0;
     let extractedTopic = "";
 
@@ -528,47 +714,88 @@ export function matchTemplate(goal: string): TemplateMatch | null {
         extractedTopic = match[2]
           ? `${match[1].trim()} vs ${match[2].trim()}`
           : match[1]?.trim() || goal;
-        confidence += 0.6;
+        reasons.push("pattern");
         break;
       }
     }
 
+    // Example goals phrased the same way
+    if (!extractedTopic) {
+      for (const example of template.examples ?? []) {
+        const match = goal.trim().match(examplePattern(example) ?? /$^/);
+        if (match?.[1]) {
+          extractedTopic = trimTopic(match[1], template);
+          reasons.push("example");
+          break;
+        }
+      }
+    }
+    if (reasons.length > 0) confidence += PHRASE_WEIGHT;
+
     // Check keyword presence (additive confidence)
-    const keywordHits = template.keywords.filter((kw) =>
-      normalizedGoal.includes(kw.toLowerCase())
+    const hits = keywordHits(goal, template.keywords);
+    if (hits.length > 0) {
+      confidence += Math.min(hits.length * KEYWORD_WEIGHT, KEYWORD_MAX);
+      reasons.push("keywords");
+    }
+
+    // Similarity of the rest of the goal to the template's vocabulary
+    const topicTokens = new Set(tokenize(extractedTopic));
+    const similarity = templateSimilarity(
+      index,
+      template.id,
+      tokenize(goal).filter((token) => !topicTokens.has(token))
     );
-    confidence += Math.min(keywordHits.length * 0.15, 0.4);
+    if (similarity > 0) {
+      confidence += similarity * SIMILARITY_WEIGHT;
+      reasons.push("similarity");
+    }
 
-    // If no topic was extracted from regex, try to extract it
+    // If no topic was extracted from a pattern, try to extract it
     if (!extractedTopic && confidence > 0) {
-      // Remove common instruction words and use what remains
-      extractedTopic = goal
-        .replace(
-          /^(please|can you|could you|i want to|i need to|help me)\s+/i,
-          ""
-        )
-        .replace(
-          /\b(compare|research|analyze|find|search|explore|create|generate|make)\b/gi,
-          ""
-        )
-        .replace(/\b(report|analysis|comparison|summary|for me|about)\b/gi, "")
-        .replace(/\s+/g, " ")
-        .trim();
+      // Remove instruction words and the template's own vocabulary
+      extractedTopic = trimTopic(extractTopic(goal) || goal, template);
     }
 
     // Only consider if we have a reasonable topic
-    if (confidence > 0.3 && extractedTopic.length > 2) {
-      if (!bestMatch || confidence > bestMatch.confidence) {
-        bestMatch = {
-          template,
-          topic: extractedTopic,
-          confidence,
-        };
-      }
+    if (confidence >= MIN_CANDIDATE_CONFIDENCE && extractedTopic.length > 2) {
+      candidates.push({
+        template,
+        topic: extractedTopic,
+        confidence: Math.round(Math.min(confidence, 1) * 100) / 100,
+        reasons,
+      });
     }
   }
 
-  return bestMatch;
+  // Stable sort keeps template order among equal scores
+  return candidates
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
+
+/** A match as reported to API clients and the chat */
+export function summarizeMatch(match: TemplateMatch) {
+  return {
+    templateId: match.template.id,
+    name: match.template.name,
+    description: match.template.description,
+    topic: match.topic,
+    confidence: match.confidence,
+    reasons: match.reasons,
+    custom: !!match.template.custom,
+  };
+}
+
+/**
+ * Best template for the goal, or null if no good match. See rankTemplates.
+ */
+export function matchTemplate(
+  goal: string,
+  templates: WorkflowTemplate[] = WORKFLOW_TEMPLATES
+): TemplateMatch | null {
+  const [best] = rankTemplates(goal, templates, 1);
+  return best && best.confidence > 0.3 ? best : null;
 }
 
 /**
@@ -598,21 +825,57 @@ export function buildFromTemplate(
     }
   }
 
-  // Filter steps to only use available sources
-  const filteredSteps = sources
-    ? steps.filter((step) => {
-        if (step.type !== "search") return true;
-        return sources.includes(step.params.source);
-      })
-    : steps;
+  // Drop searches on unavailable sources; fetch_page reads its search
+  // step's URLs, so it goes with it, and so does a branch that tests a
+  // dropped step or only chooses between dropped steps. removeStep keeps
+  // references intact.
+  const droppedIndices = new Set<number>(
+    sources
+      ? steps
+          .filter((step) => {
+            const searchStep =
+              step.type === "fetch_page" ? steps[step.params.fromStep] : step;
+            if (searchStep?.type !== "search") return false;
+            return !sources.includes(searchStep.params.source);
+          })
+          .map((step) => step.index)
+      : []
+  );
+  steps
+    .filter((step) => step.type === "branch")
+    .forEach((step) => {
+      const targets = [...(step.params.then || []), ...(step.params.else || [])];
+      if (
+        droppedIndices.has(step.params.fromStep) ||
+        targets.every((idx: number) => droppedIndices.has(idx))
+      ) {
+        droppedIndices.add(step.index);
+      }
+    });
+  const dropped = steps.filter((step) => droppedIndices.has(step.index));
+  const filteredSteps = [...dropped]
+    .reverse()
+    .reduce((acc, step) => removeStep(acc, step.index), steps);
 
-  // Re-index steps after filtering
-  const reindexed = filteredSteps.map((step, i) => ({ ...step, index: i }));
+  // Steps that read a dropped search are re-targeted by the repair pass
+  const { steps: validSteps, errors, warnings } = validatePlan(filteredSteps, {
+    sources,
+    outputFormat: outputFormat || template.defaultFormat,
+    repair: true,
+  });
+  if (errors.length > 0) {
+    throw new Error(
+      `Template "${template.id}" produced an invalid plan: ${formatPlanIssues(errors)}`
+    );
+  }
+  warnings
+    .filter((w) => w.repaired)
+    .forEach((w) => console.warn(`⚠️ Template ${template.id}: ${w.message}`));
 
   return {
     title: template.buildTitle(topic),
     description: template.description,
-    steps: reindexed,
+    steps: validSteps,
     isTemplate: true,
     templateId: template.id,
   };
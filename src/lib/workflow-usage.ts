@@ -0,0 +1,257 @@
+// lib/workflow-usage.ts
+//
+// Token, cost and search-call accounting for workflow runs.
+//
+// Every step attempt collects a StepUsage while it runs: callAI() adds the
+// token counts the provider reports (estimated from the text when it reports
+// none) and executeSearchStep() counts one call per search API hit. The
+// engine stores it on the WorkflowExecution row, and rollUpWorkflowUsage()
+// sums the rows (failed attempts and for_each sub-steps included, cache hits
+// cost nothing) plus Workflow.baseUsage, which holds what no row records: the
+// planner call and the attempts the retry route deletes. Per-user totals are
+// the sum over the user's workflows (getUserUsage).
+//
+// Costs are estimates from the price table below, in USD per million tokens.
+// LLM_PRICES overrides or extends it, e.g.
+//   LLM_PRICES='{"llama3.1":[0,0],"gpt-4o":[2.5,10]}'
+
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@/generated/prisma/client";
+import type { LLMResponse } from "@/lib/llm-providers";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export interface StepUsage {
+  /** Provider and model of the last LLM call */
+  provider?: string;
+  model?: string;
+  llmCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Search API calls by source, e.g. { google: 2, github: 1 } */
+  searchCalls: Record<string, number>;
+}
+
+export type UsageTotals = Omit<StepUsage, "provider" | "model">;
+
+export function emptyUsage(): StepUsage {
+  return {
+    llmCalls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    searchCalls: {},
+  };
+}
+
+// ─────────────────────────────────────────────────────────
+// Pricing
+// ─────────────────────────────────────────────────────────
+
+/** [input, output] USD per million tokens, matched by model id prefix */
+const DEFAULT_PRICES: Record<string, [number, number]> = {
+  "claude-opus-4": [15, 75],
+  "claude-sonnet-4": [3, 15],
+  "claude-3-7-sonnet": [3, 15],
+  "claude-3-5-sonnet": [3, 15],
+  "claude-3-5-haiku": [0.8, 4],
+  "claude-3-haiku": [0.25, 1.25],
+  "gpt-4o-mini": [0.15, 0.6],
+  "gpt-4o": [2.5, 10],
+  "gpt-4.1-nano": [0.1, 0.4],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "gpt-4.1": [2, 8],
+  "o3-mini": [1.1, 4.4],
+  "o4-mini": [1.1, 4.4],
+};
+
+/** Providers that never bill */
+const FREE_PROVIDERS = new Set(["local", "mock"]);
+
+let prices: Record<string, [number, number]> | null = null;
+
+function priceTable(): Record<string, [number, number]> {
+  if (prices) return prices;
+  prices = { ...DEFAULT_PRICES };
+  try {
+    Object.assign(prices, JSON.parse(process.env.LLM_PRICES || "{}"));
+  } catch (error: any) {
+    console.warn("⚠️ Ignoring invalid LLM_PRICES:", error.message);
+  }
+  return prices;
+}
+
+/** Price for the longest matching model prefix, if any */
+export function modelPrice(
+  provider: string,
+  model: string
+): [number, number] | undefined {
+  const table = priceTable();
+  if (table[model]) return table[model];
+  if (FREE_PROVIDERS.has(provider)) return [0, 0];
+
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+const warnedModels = new Set<string>();
+
+/** Estimated USD cost of one call; 0 (with a warning) for unpriced models */
+export function estimateCostUsd(
+  provider: string,
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  const price = modelPrice(provider, model);
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`⚠️ No price for ${provider}/${model}; counting its cost as 0`);
+    }
+    return 0;
+  }
+  return (inputTokens * price[0] + outputTokens * price[1]) / 1_000_000;
+}
+
+// ─────────────────────────────────────────────────────────
+// Recording
+// ─────────────────────────────────────────────────────────
+
+export function recordLLMCall(usage: StepUsage, response: LLMResponse): void {
+  const { inputTokens, outputTokens } = response.usage;
+  usage.provider = response.provider;
+  usage.model = response.model;
+  usage.llmCalls++;
+  usage.inputTokens += inputTokens;
+  usage.outputTokens += outputTokens;
+  usage.costUsd += estimateCostUsd(
+    response.provider,
+    response.model,
+    inputTokens,
+    outputTokens
+  );
+}
+
+export function recordSearchCall(usage: StepUsage, source: string): void {
+  usage.searchCalls[source] = (usage.searchCalls[source] ?? 0) + 1;
+}
+
+/** Add the counts in `from` into `into` */
+export function addUsage<T extends UsageTotals>(into: T, from: Partial<UsageTotals>): T {
+  into.llmCalls += from.llmCalls ?? 0;
+  into.inputTokens += from.inputTokens ?? 0;
+  into.outputTokens += from.outputTokens ?? 0;
+  into.costUsd += from.costUsd ?? 0;
+  for (const [source, count] of Object.entries(from.searchCalls ?? {})) {
+    into.searchCalls[source] = (into.searchCalls[source] ?? 0) + count;
+  }
+  return into;
+}
+
+/** Usage columns for a WorkflowExecution create/update */
+export function usageData(usage: StepUsage) {
+  return {
+    provider: usage.provider ?? null,
+    model: usage.model ?? null,
+    llmCalls: usage.llmCalls,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    costUsd: usage.costUsd,
+    searchCalls: usage.searchCalls,
+  };
+}
+
+// ─────────────────────────────────────────────────────────
+// Roll-ups
+// ─────────────────────────────────────────────────────────
+
+const USAGE_SELECT = {
+  llmCalls: true,
+  inputTokens: true,
+  outputTokens: true,
+  costUsd: true,
+  searchCalls: true,
+} as const;
+
+function sumRows(rows: Array<Partial<Record<keyof UsageTotals, any>>>): UsageTotals {
+  const totals: UsageTotals = emptyUsage();
+  rows.forEach((row) =>
+    addUsage(totals, {
+      ...row,
+      searchCalls: (row.searchCalls as Record<string, number>) ?? {},
+    })
+  );
+  return totals;
+}
+
+/**
+ * Recompute the Workflow totals from its executions and base usage.
+ * Idempotent, so it can run after every step without double counting.
+ */
+export async function rollUpWorkflowUsage(workflowId: string): Promise<UsageTotals> {
+  const [workflow, executions] = await Promise.all([
+    prisma.workflow.findUnique({
+      where: { id: workflowId },
+      select: { baseUsage: true },
+    }),
+    prisma.workflowExecution.findMany({
+      where: { workflowId },
+      select: USAGE_SELECT,
+    }),
+  ]);
+
+  const totals = sumRows(executions);
+  if (workflow?.baseUsage) addUsage(totals, workflow.baseUsage as Partial<UsageTotals>);
+
+  await prisma.workflow.update({
+    where: { id: workflowId },
+    data: totals,
+  });
+  return totals;
+}
+
+/**
+ * Move the usage of executions about to be deleted into the workflow's
+ * base usage, so the totals keep what those attempts cost.
+ */
+export async function carryOverUsage(
+  workflowId: string,
+  where: Prisma.WorkflowExecutionWhereInput
+): Promise<void> {
+  const [workflow, executions] = await Promise.all([
+    prisma.workflow.findUnique({
+      where: { id: workflowId },
+      select: { baseUsage: true },
+    }),
+    prisma.workflowExecution.findMany({
+      where: { ...where, workflowId },
+      select: USAGE_SELECT,
+    }),
+  ]);
+  if (executions.length === 0) return;
+
+  const base = sumRows(executions);
+  if (workflow?.baseUsage) addUsage(base, workflow.baseUsage as Partial<UsageTotals>);
+
+  await prisma.workflow.update({
+    where: { id: workflowId },
+    data: { baseUsage: { ...base } },
+  });
+}
+
+/** Totals over every workflow the user owns */
+export async function getUserUsage(
+  userId: string
+): Promise<UsageTotals & { workflows: number }> {
+  const workflows = await prisma.workflow.findMany({
+    where: { userId },
+    select: USAGE_SELECT,
+  });
+  return { ...sumRows(workflows), workflows: workflows.length };
+}
@@ -0,0 +1,366 @@
+// lib/workflow-user-templates.ts
+//
+// Workflow templates saved by users (the UserTemplate model). Saving a
+// workflow replaces the values that should vary between uses with {{name}}
+// placeholders: the topic in every step string and the title, "num" and any
+// other numeric parameter in the step params of the same name, and the
+// current year. Using the template fills them back in, the topic from the
+// goal and the rest from per-use values or the saved defaults.
+//
+// toWorkflowTemplate() turns a saved record into the WorkflowTemplate shape
+// of lib/workflow-templates.ts, so matchTemplate() and buildFromTemplate()
+// treat saved templates like the built-ins.
+
+import { prisma } from "@/lib/prisma";
+import type { UserTemplate } from "@/generated/prisma/client";
+import type { WorkflowStep } from "@/lib/workflow-engine";
+import {
+  WORKFLOW_TEMPLATES,
+  extractTopic,
+  matchTemplate,
+  type WorkflowTemplate,
+} from "@/lib/workflow-templates";
+import { isStopWord } from "@/lib/workflow-template-match";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export type ParameterValue = string | number;
+
+export interface TemplateParameter {
+  name: string;
+  /** Value in the workflow the template was saved from */
+  default: ParameterValue | null;
+}
+
+/** Filled from the goal rather than from parameter values */
+const TOPIC = "topic";
+
+/** Always the current year, so saved "... 2025" queries stay current */
+const YEAR = "year";
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z_]\w*)\s*\}\}/g;
+
+/** Step fields that point at other steps and are never parameters */
+const STRUCTURAL_KEYS = new Set([
+  "index",
+  "dependsOn",
+  "fromStep",
+  "fromSteps",
+  "then",
+  "else",
+]);
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "from", "into", "that", "this", "what",
+  "which", "their", "about", "top", "best", "find", "create", "report",
+]);
+
+// ─────────────────────────────────────────────────────────
+// Placeholders
+// ─────────────────────────────────────────────────────────
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Matches `text` only as a whole word, so "Bun" skips "bundle" and "2025" skips "120250" */
+function wordPattern(text: string, flags: string): RegExp {
+  return new RegExp(`(?<![\\w])${escapeRegExp(text)}(?![\\w])`, flags);
+}
+
+/** Placeholder names used anywhere in a value */
+export function placeholderNames(value: unknown): string[] {
+  const names = new Set<string>();
+  const visit = (v: unknown) => {
+    if (typeof v === "string") {
+      for (const match of v.matchAll(PLACEHOLDER)) names.add(match[1]);
+    } else if (Array.isArray(v)) {
+      v.forEach(visit);
+    } else if (v && typeof v === "object") {
+      Object.values(v).forEach(visit);
+    }
+  };
+  visit(value);
+  return [...names];
+}
+
+/**
+ * Replace placeholders with values. A string that is exactly one
+ * placeholder takes the value as is, so "{{num}}" becomes a number again.
+ * Throws on a placeholder without a value.
+ */
+export function fillPlaceholders<T>(value: T, values: Record<string, ParameterValue>): T {
+  const lookup = (name: string): ParameterValue => {
+    if (values[name] == null) throw new Error(`Missing value for {{${name}}}`);
+    return values[name];
+  };
+  const visit = (v: any): any => {
+    if (typeof v === "string") {
+      const whole = /^\{\{\s*([a-zA-Z_]\w*)\s*\}\}$/.exec(v);
+      if (whole) return lookup(whole[1]);
+      return v.replace(PLACEHOLDER, (_, name: string) => String(lookup(name)));
+    }
+    if (Array.isArray(v)) return v.map(visit);
+    if (v && typeof v === "object") {
+      return Object.fromEntries(Object.entries(v).map(([k, item]) => [k, visit(item)]));
+    }
+    return v;
+  };
+  return visit(value);
+}
+
+/**
+ * Swap parameter values for placeholders: string values wherever they
+ * appear in text as whole words (case-insensitive, longest first), numeric
+ * values only in fields named after the parameter.
+ */
+export function templatize<T>(value: T, parameters: Record<string, ParameterValue>): T {
+  const textParams = Object.entries(parameters)
+    .filter(([, v]) => typeof v === "string" && v.trim().length > 0)
+    .sort(([, a], [, b]) => String(b).length - String(a).length)
+    .map(([name, v]) => ({ name, pattern: wordPattern(String(v).trim(), "gi") }));
+
+  const visit = (v: any, key?: string): any => {
+    if (key && STRUCTURAL_KEYS.has(key)) return v;
+    if (typeof v === "number") {
+      return key && parameters[key] === v ? `{{${key}}}` : v;
+    }
+    if (typeof v === "string") {
+      return textParams.reduce((text, { name, pattern }) => text.replace(pattern, `{{${name}}}`), v);
+    }
+    if (Array.isArray(v)) return v.map((item) => visit(item));
+    if (v && typeof v === "object") {
+      return Object.fromEntries(Object.entries(v).map(([k, item]) => [k, visit(item, k)]));
+    }
+    return v;
+  };
+  return visit(value);
+}
+
+// ─────────────────────────────────────────────────────────
+// Matching
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Regex for goals phrased like the one the template was saved from, with
+ * the topic as capture group: "Compare the top 5 Rust web frameworks" →
+ * /^compare the top \d+ (.+?)$/i. Null when the topic is the whole goal,
+ * since that pattern would match anything.
+ */
+export function goalPattern(goal: string, topic: string): string | null {
+  const at = topic.trim() ? goal.search(wordPattern(topic, "i")) : -1;
+  if (at < 0) return null;
+  const before = goal.slice(0, at).trim();
+  const after = goal.slice(at + topic.length).trim();
+  if (!before && !after) return null;
+
+  const literal = (text: string) =>
+    escapeRegExp(text).replace(/\d+/g, "\\d+").replace(/\s+/g, "\\s+");
+  return `^${before ? `${literal(before)}\\s+` : ""}(.+?)${after ? `\\s+${literal(after)}` : ""}$`;
+}
+
+/**
+ * The longest run of goal words that the steps repeat, e.g. "Rust web
+ * frameworks" for a plan whose searches and titles mention it. Falls back
+ * to the goal minus instruction words.
+ */
+export function detectTopic(goal: string, steps: WorkflowStep[]): string {
+  const words = goal.trim().split(/\s+/);
+  const text = steps
+    .flatMap((s) => [s.title, s.description, s.params?.query, s.params?.question])
+    .filter((v): v is string => typeof v === "string")
+    .join("\n")
+    .toLowerCase();
+
+  for (let length = Math.min(words.length - 1, 8); length > 0; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const phrase = words.slice(start, start + length).join(" ").replace(/^\W+|\W+$/g, "");
+      const meaningful = phrase
+        .toLowerCase()
+        .split(/\W+/)
+        .some((w) => w.length > 2 && !STOP_WORDS.has(w) && !/^\d+$/.test(w));
+      const edges = phrase.split(/\s+/);
+      const framed = isStopWord(edges[0]) || isStopWord(edges[edges.length - 1]);
+      if (
+        meaningful &&
+        !framed &&
+        extractTopic(phrase) === phrase &&
+        text.includes(phrase.toLowerCase())
+      ) {
+        return phrase;
+      }
+    }
+  }
+  return extractTopic(goal);
+}
+
+/** Distinctive words of the goal outside the topic */
+export function goalKeywords(goal: string, topic: string): string[] {
+  const topicWords = new Set(topic.toLowerCase().split(/\W+/));
+  const words = goal
+    .toLowerCase()
+    .split(/\W+/)
+    .filter((w) => w.length > 3 && !/^\d+$/.test(w) && !STOP_WORDS.has(w) && !topicWords.has(w));
+  return [...new Set(words)].slice(0, 8);
+}
+
+// ─────────────────────────────────────────────────────────
+// Saving
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Template fields for a workflow. Without explicit parameters the topic is
+ * detected from the goal and "num" taken from the first search step.
+ */
+export function buildUserTemplate(
+  workflow: {
+    title: string;
+    description: string | null;
+    query: string;
+    steps: unknown;
+    sources: string[];
+    outputFormat: string;
+  },
+  options: {
+    name?: string;
+    description?: string;
+    parameters?: Record<string, ParameterValue>;
+    keywords?: string[];
+  } = {}
+) {
+  const steps = (workflow.steps as WorkflowStep[]) || [];
+  const goal = workflow.query.trim().replace(/\s+/g, " ");
+  const parameters: Record<string, ParameterValue> = options.parameters
+    ? { ...options.parameters }
+    : { [TOPIC]: detectTopic(goal, steps) };
+  if (!options.parameters) {
+    const num = steps.find((s) => s.type === "search" && typeof s.params?.num === "number");
+    if (num) parameters.num = num.params.num;
+  }
+  const topic = typeof parameters[TOPIC] === "string" ? String(parameters[TOPIC]) : "";
+  const withYear = { ...parameters, [YEAR]: String(new Date().getUTCFullYear()) };
+
+  const templatedSteps = templatize(steps, withYear);
+  const titleTemplate = templatize(workflow.title, withYear);
+  const used = new Set(placeholderNames([templatedSteps, titleTemplate]));
+  const pattern = topic ? goalPattern(goal, topic) : null;
+
+  return {
+    name: options.name?.trim() || workflow.title,
+    description: options.description?.trim() || workflow.description,
+    titleTemplate,
+    steps: JSON.parse(JSON.stringify(templatedSteps)),
+    parameters: Object.entries(parameters)
+      .filter(([name]) => used.has(name))
+      .map(([name, value]) => ({ name, default: name === TOPIC ? null : value })),
+    patterns: pattern ? [pattern] : [],
+    keywords: options.keywords ?? (topic ? goalKeywords(goal, topic) : []),
+    examples: pattern ? [goal.replace(wordPattern(topic, "i"), "{topic}")] : [],
+    defaultSources: workflow.sources,
+    defaultFormat: workflow.outputFormat,
+  };
+}
+
+// ─────────────────────────────────────────────────────────
+// Using
+// ─────────────────────────────────────────────────────────
+
+/**
+ * A saved template as a WorkflowTemplate. `values` override the saved
+ * parameter defaults; the topic passed to buildSteps fills {{topic}}.
+ */
+export function toWorkflowTemplate(
+  record: UserTemplate,
+  values: Record<string, ParameterValue> = {}
+): WorkflowTemplate {
+  const parameters = (record.parameters as unknown as TemplateParameter[]) || [];
+  const fill = <T>(value: T, topic: string): T =>
+    fillPlaceholders(value, {
+      ...Object.fromEntries(
+        parameters.filter((p) => p.default != null).map((p) => [p.name, p.default!])
+      ),
+      ...values,
+      [TOPIC]: topic,
+      [YEAR]: String(new Date().getUTCFullYear()),
+    });
+
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description || `Saved template: ${record.name}`,
+    patterns: record.patterns.flatMap((source) => {
+      try {
+        return [new RegExp(source, "i")];
+      } catch {
+        return [];
+      }
+    }),
+    keywords: record.keywords,
+    examples: record.examples,
+    defaultSources: record.defaultSources,
+    defaultFormat: record.defaultFormat,
+    // Depth only scales the built-ins; saved steps keep their own sizes
+    buildSteps: (topic) => fill(record.steps as unknown as WorkflowStep[], topic),
+    buildTitle: (topic) => fill(record.titleTemplate, topic),
+    custom: true,
+  };
+}
+
+export async function loadUserTemplates(
+  userId: string,
+  values?: Record<string, ParameterValue>
+): Promise<WorkflowTemplate[]> {
+  const records = await prisma.userTemplate.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+  return records.map((record) => toWorkflowTemplate(record, values));
+}
+
+/**
+ * A built-in template, or one of the user's saved templates, by id.
+ * Null when neither exists (or the saved one belongs to someone else).
+ */
+export async function findTemplate(
+  templateId: string,
+  userId: string,
+  values?: Record<string, ParameterValue>
+): Promise<WorkflowTemplate | null> {
+  const builtIn = WORKFLOW_TEMPLATES.find((t) => t.id === templateId);
+  if (builtIn) return builtIn;
+
+  const record = await prisma.userTemplate.findUnique({ where: { id: templateId } });
+  if (!record || record.userId !== userId) return null;
+  return toWorkflowTemplate(record, values);
+}
+
+/**
+ * Topic for a template picked by id. Saved templates take it from a goal
+ * phrased like the original one ("Compare the top 5 {{topic}}"); otherwise,
+ * as for the built-ins, the goal is the topic.
+ */
+export function templateTopic(template: WorkflowTemplate, goal: string): string {
+  return (template.custom && matchTemplate(goal, [template])?.topic) || goal;
+}
+
+/** Response shape shared by the template routes */
+export function serializeUserTemplate(record: UserTemplate) {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    titleTemplate: record.titleTemplate,
+    parameters: (record.parameters as unknown as TemplateParameter[]) || [],
+    totalSteps: ((record.steps as unknown as any[]) || []).length,
+    defaultSources: record.defaultSources,
+    defaultFormat: record.defaultFormat,
+    patterns: record.patterns,
+    keywords: record.keywords,
+    examples: record.examples,
+    sourceWorkflowId: record.sourceWorkflowId,
+    createdAt: record.createdAt,
+    custom: true,
+  };
+}
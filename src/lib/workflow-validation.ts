@@ -0,0 +1,1036 @@
+// lib/workflow-validation.ts
+//
+// Static validation of workflow plans, run before anything executes.
+//
+// Checks that step indices are sequential, that `dependsOn` / `fromStep` /
+// `fromSteps` only point at earlier steps (which also rules out cycles),
+// that search sources are allowed for the workflow, that params fit the
+// step type (including branch conditions and targets, and for_each
+// sub-steps) and that the plan ends in exactly one generate_report step.
+//
+// With `repair: true` the common AI planner mistakes are fixed in place
+// (1-based indices, numbers as strings, missing fromStep, forward
+// references, a missing or misplaced report step...). Every fix is reported
+// as a warning with `repaired: true`; whatever cannot be fixed stays an error.
+
+import type { WorkflowStep } from "@/lib/workflow-engine";
+import { moveStep, removeStep } from "@/lib/workflow-plan";
+import { reviewMode } from "@/lib/workflow-review";
+import {
+  CONDITION_OPS,
+  CONDITION_OP_ALIASES,
+  SUB_STEP_TYPES,
+  VALUE_OPS,
+  type ConditionOp,
+} from "@/lib/workflow-control";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export type PlanIssueCode =
+  | "empty_plan"
+  | "index_mismatch"
+  | "malformed_reference"
+  | "unknown_step"
+  | "forward_reference"
+  | "dependency_cycle"
+  | "missing_param"
+  | "invalid_param"
+  | "unknown_param"
+  | "unknown_source"
+  | "source_not_allowed"
+  | "bad_input_step"
+  | "invalid_branch_target"
+  | "invalid_sub_step"
+  | "missing_report"
+  | "report_not_last"
+  | "multiple_reports"
+  | "too_many_steps";
+
+export interface PlanIssue {
+  code: PlanIssueCode;
+  message: string;
+  /** Index of the offending step at the time it was checked */
+  step?: number;
+  /** The validator fixed this problem in the returned steps */
+  repaired?: boolean;
+}
+
+export interface PlanValidation {
+  valid: boolean;
+  /** The checked plan (repaired when `repair` was set) */
+  steps: WorkflowStep[];
+  errors: PlanIssue[];
+  warnings: PlanIssue[];
+}
+
+export interface ValidatePlanOptions {
+  /** Search sources the workflow may use; unchecked when omitted */
+  sources?: string[];
+  /** reportFormat for a generate_report step added by repair */
+  outputFormat?: string;
+  /** Soft limit from the workflow depth; exceeding it is a warning */
+  maxSteps?: number;
+  /** Fix common mistakes instead of only reporting them */
+  repair?: boolean;
+}
+
+// ─────────────────────────────────────────────────────────
+// Step type knowledge
+// ─────────────────────────────────────────────────────────
+
+const KNOWN_SOURCES = ["google", "web", "github", "pexels"];
+
+/** Names models use for a web search that the engine calls "google" */
+const SOURCE_ALIASES: Record<string, string> = {
+  bing: "google",
+  duckduckgo: "google",
+  internet: "google",
+  search: "google",
+  serp: "google",
+};
+
+const QUERY_ALIASES = ["q", "searchQuery", "search", "keywords", "term"];
+
+const CHUNK_PARAMS = ["chunkTokens", "maxChunks"];
+
+const KNOWN_PARAMS: Record<WorkflowStep["type"], string[]> = {
+  search: ["source", "query", "num", "sort", "language", "stars"],
+  fetch_page: ["fromStep", "maxPages", "concurrency", "maxChars"],
+  extract: ["extractionGoal", "fields", "fromStep", ...CHUNK_PARAMS],
+  analyze: ["analysisType", "question", "fromSteps", ...CHUNK_PARAMS],
+  aggregate: ["fromSteps", "mergeStrategy", ...CHUNK_PARAMS],
+  verify: ["fromSteps", "maxClaims", "followUpSearches", ...CHUNK_PARAMS],
+  review: [
+    "fromStep",
+    "prompt",
+    "mode",
+    "labelField",
+    "minSelect",
+    "maxSelect",
+    "maxItems",
+    "fields",
+    "required",
+  ],
+  branch: ["fromStep", "condition", "then", "else"],
+  for_each: ["fromStep", "steps", "maxItems", "concurrency", "labelField"],
+  generate_report: ["reportFormat", ...CHUNK_PARAMS],
+};
+
+/** Step types whose output an extract step can read */
+const EXTRACTABLE = new Set<WorkflowStep["type"]>([
+  "search",
+  "fetch_page",
+  "extract",
+  "aggregate",
+  "review",
+  "for_each",
+]);
+
+// ─────────────────────────────────────────────────────────
+// Validator
+// ─────────────────────────────────────────────────────────
+
+export function validatePlan(
+  input: WorkflowStep[],
+  options: ValidatePlanOptions = {}
+): PlanValidation {
+  const repair = options.repair ?? false;
+  const errors: PlanIssue[] = [];
+  const warnings: PlanIssue[] = [];
+
+  /** Record a problem; `fixed` turns an error into a repaired warning */
+  const report = (
+    severity: "error" | "warning",
+    code: PlanIssueCode,
+    message: string,
+    step?: WorkflowStep,
+    fixed = false
+  ) => {
+    const issue: PlanIssue = {
+      code,
+      message: step ? `${stepLabel(step)}: ${message}` : message,
+      ...(step ? { step: step.index } : {}),
+      ...(fixed ? { repaired: true } : {}),
+    };
+    (severity === "error" && !fixed ? errors : warnings).push(issue);
+  };
+
+  // Work on copies; params and dependsOn are mutated below
+  let steps: WorkflowStep[] = input.map((step) => ({
+    ...step,
+    params: { ...(step.params || {}) },
+    dependsOn: [...(step.dependsOn || [])],
+  }));
+
+  if (steps.length === 0) {
+    report("error", "empty_plan", "Plan has no steps");
+    return { valid: false, steps, errors, warnings };
+  }
+
+  // Coerce references first so index repair can shift them too
+  steps.forEach((step) => normalizeReferences(step, repair, report));
+  steps = checkIndices(steps, repair, report);
+  steps = checkReportStep(steps, options, repair, report);
+  checkCycles(steps, repair, report);
+  steps.forEach((step) => checkReferences(step, steps, repair, report));
+  steps.forEach((step) => checkParams(step, steps, options, repair, report));
+
+  if (options.maxSteps && steps.length > options.maxSteps + 1) {
+    report(
+      "warning",
+      "too_many_steps",
+      `Plan has ${steps.length} steps; the depth allows about ${options.maxSteps}`
+    );
+  }
+
+  return { valid: errors.length === 0, steps, errors, warnings };
+}
+
+/** One-line summaries, e.g. for thrown errors and logs */
+export function formatPlanIssues(issues: PlanIssue[]): string {
+  return issues.map((issue) => issue.message).join("; ");
+}
+
+type Report = (
+  severity: "error" | "warning",
+  code: PlanIssueCode,
+  message: string,
+  step?: WorkflowStep,
+  fixed?: boolean
+) => void;
+
+function stepLabel(step: WorkflowStep): string {
+  return `Step ${step.index + 1} (${step.title || step.type})`;
+}
+
+// ─────────────────────────────────────────────────────────
+// Indices
+// ─────────────────────────────────────────────────────────
+
+/**
+ * Step indices must equal their position. A plan numbered from 1 is the
+ * most common planner mistake: its references are shifted down with it.
+ */
+function checkIndices(
+  steps: WorkflowStep[],
+  repair: boolean,
+  report: Report
+): WorkflowStep[] {
+  if (steps.every((step, i) => step.index === i)) return steps;
+
+  const oneBased = steps.every((step, i) => step.index === i + 1);
+  report(
+    "error",
+    "index_mismatch",
+    oneBased
+      ? "Step indices start at 1 instead of 0"
+      : "Step indices do not match their positions",
+    undefined,
+    repair
+  );
+  if (!repair) return steps;
+
+  // Map old indices to positions when they are unambiguous
+  const unique = new Set(steps.map((s) => s.index)).size === steps.length;
+  const mapping = new Map<number, number>(
+    unique ? steps.map((s, i) => [s.index, i]) : []
+  );
+  const remap = (ref: unknown) =>
+    typeof ref === "number" && mapping.has(ref) ? mapping.get(ref)! : ref;
+
+  return steps.map((step, i) => {
+    const params = { ...step.params };
+    if ("fromStep" in params) params.fromStep = remap(params.fromStep);
+    for (const key of ["fromSteps", "then", "else"]) {
+      if (Array.isArray(params[key])) params[key] = params[key].map(remap);
+    }
+    return {
+      ...step,
+      index: i,
+      params,
+      dependsOn: step.dependsOn.map((ref) => remap(ref) as number),
+    };
+  });
+}
+
+// ─────────────────────────────────────────────────────────
+// References
+// ─────────────────────────────────────────────────────────
+
+function toIndex(value: unknown): number | null {
+  if (typeof value === "number" && Number.isInteger(value)) return value;
+  if (typeof value === "string" && /^\d+$/.test(value.trim())) {
+    return Number(value.trim());
+  }
+  return null;
+}
+
+/** Numbers as strings, a bare number for a list of steps, duplicates */
+function normalizeReferences(
+  step: WorkflowStep,
+  repair: boolean,
+  report: Report
+) {
+  const { params } = step;
+
+  if ("fromStep" in params && typeof params.fromStep !== "number") {
+    const index = toIndex(params.fromStep);
+    report(
+      "error",
+      "malformed_reference",
+      `fromStep must be a step index, got ${JSON.stringify(params.fromStep)}`,
+      step,
+      repair
+    );
+    if (repair) {
+      if (index === null) delete params.fromStep;
+      else params.fromStep = index;
+    }
+  }
+
+  for (const key of ["fromSteps", "then", "else"]) {
+    if (!(key in params)) continue;
+    const raw = params[key];
+    const list = Array.isArray(raw) ? raw : raw == null ? [] : [raw];
+    const indices = list.map(toIndex);
+    const clean = [...new Set(indices.filter((i): i is number => i !== null))];
+
+    const wellFormed =
+      Array.isArray(raw) &&
+      raw.length === clean.length &&
+      raw.every((ref, i) => ref === clean[i]);
+    if (!wellFormed) {
+      report(
+        "error",
+        "malformed_reference",
+        `${key} must be an array of step indices, got ${JSON.stringify(raw)}`,
+        step,
+        repair
+      );
+      if (repair) params[key] = clean;
+    }
+  }
+
+  const deps = [...new Set(step.dependsOn)];
+  if (deps.length !== step.dependsOn.length) {
+    // Harmless; dedupe without a warning
+    step.dependsOn = deps;
+  }
+}
+
+/**
+ * References must point at existing, earlier steps. Forward references
+ * are what make cycles possible, so dropping them also breaks any cycle.
+ */
+function checkReferences(
+  step: WorkflowStep,
+  steps: WorkflowStep[],
+  repair: boolean,
+  report: Report
+) {
+  const problem = (ref: number): PlanIssueCode | null =>
+    ref < 0 || ref >= steps.length
+      ? "unknown_step"
+      : ref >= step.index
+        ? "forward_reference"
+        : null;
+
+  const describe = (code: PlanIssueCode, field: string, ref: number) =>
+    code === "unknown_step"
+      ? `${field} references step ${ref + 1}, which does not exist`
+      : `${field} references step ${ref + 1}, which does not run before it`;
+
+  step.dependsOn = step.dependsOn.filter((ref) => {
+    const code = problem(ref);
+    if (!code) return true;
+    report("error", code, describe(code, "dependsOn", ref), step, repair);
+    return !repair;
+  });
+
+  if (Array.isArray(step.params.fromSteps)) {
+    step.params.fromSteps = step.params.fromSteps.filter((ref: number) => {
+      const code = problem(ref);
+      if (!code) return true;
+      report("error", code, describe(code, "fromSteps", ref), step, repair);
+      return !repair;
+    });
+  }
+
+  if (typeof step.params.fromStep === "number") {
+    const code = problem(step.params.fromStep);
+    if (code) {
+      report(
+        "error",
+        code,
+        describe(code, "fromStep", step.params.fromStep),
+        step,
+        // checkParams re-targets a dropped fromStep where it can
+        repair
+      );
+      if (repair) delete step.params.fromStep;
+    }
+  }
+}
+
+/** Report each dependency cycle once, e.g. "Steps 2 → 4 → 2" */
+function checkCycles(steps: WorkflowStep[], repair: boolean, report: Report) {
+  const edges = (step: WorkflowStep): number[] => {
+    const { fromStep, fromSteps } = step.params;
+    return [
+      ...step.dependsOn,
+      ...(typeof fromStep === "number" ? [fromStep] : []),
+      ...(Array.isArray(fromSteps) ? fromSteps : []),
+    ].filter((ref) => ref >= 0 && ref < steps.length);
+  };
+
+  const state = new Array<"new" | "open" | "done">(steps.length).fill("new");
+  const path: number[] = [];
+  const reported = new Set<string>();
+
+  const visit = (index: number) => {
+    state[index] = "open";
+    path.push(index);
+    for (const next of edges(steps[index])) {
+      if (state[next] === "open") {
+        // Rotated to start at its lowest step, so a cycle reached over a
+        // repeated reference (dependsOn and fromStep) is reported once
+        const members = path.slice(path.indexOf(next));
+        const start = members.indexOf(Math.min(...members));
+        const cycle = [...members.slice(start), ...members.slice(0, start)];
+        const key = cycle.join(",");
+        if (reported.has(key)) continue;
+        reported.add(key);
+
+        report(
+          "error",
+          "dependency_cycle",
+          `Steps ${[...cycle, cycle[0]].map((i) => i + 1).join(" → ")} depend on each other`,
+          undefined,
+          // Every cycle contains a forward reference, which repair drops
+          repair
+        );
+      } else if (state[next] === "new") {
+        visit(next);
+      }
+    }
+    path.pop();
+    state[index] = "done";
+  };
+
+  steps.forEach((_, i) => {
+    if (state[i] === "new") visit(i);
+  });
+}
+
+// ─────────────────────────────────────────────────────────
+// Report step
+// ─────────────────────────────────────────────────────────
+
+function checkReportStep(
+  steps: WorkflowStep[],
+  options: ValidatePlanOptions,
+  repair: boolean,
+  report: Report
+): WorkflowStep[] {
+  const reportSteps = steps.filter((s) => s.type === "generate_report");
+
+  if (reportSteps.length === 0) {
+    report(
+      "error",
+      "missing_report",
+      `The plan must end with a "generate_report" step`,
+      undefined,
+      repair
+    );
+    if (!repair) return steps;
+
+    const format = options.outputFormat || "summary";
+    return [
+      ...steps,
+      {
+        index: steps.length,
+        type: "generate_report",
+        title: "Generate final report",
+        description: `Create a ${format} report from all collected data`,
+        params: { reportFormat: format },
+        dependsOn: steps.map((_, i) => i),
+      },
+    ];
+  }
+
+  if (reportSteps.length > 1) {
+    const extra = reportSteps.slice(0, -1);
+    extra.forEach((step) =>
+      report(
+        "error",
+        "multiple_reports",
+        `Only the last "generate_report" step is kept`,
+        step,
+        repair
+      )
+    );
+    if (!repair) return steps;
+
+    // Remove from the highest index down so earlier indices stay valid
+    steps = [...extra]
+      .reverse()
+      .reduce((acc, step) => removeStep(acc, step.index), steps);
+  }
+
+  const last = steps[steps.length - 1];
+  if (last.type !== "generate_report") {
+    const reportStep = steps.find((s) => s.type === "generate_report")!;
+    report(
+      "error",
+      "report_not_last",
+      `"generate_report" must be the last step`,
+      reportStep,
+      repair
+    );
+    if (repair) steps = moveStep(steps, reportStep.index, steps.length - 1);
+  }
+
+  return steps;
+}
+
+// ─────────────────────────────────────────────────────────
+// Params by step type
+// ─────────────────────────────────────────────────────────
+
+function checkParams(
+  step: WorkflowStep,
+  steps: WorkflowStep[],
+  options: ValidatePlanOptions,
+  repair: boolean,
+  report: Report
+) {
+  const { params } = step;
+
+  // Nearest earlier step matching `accept`, for re-targeting fromStep
+  const nearest = (accept: (s: WorkflowStep) => boolean) =>
+    steps
+      .slice(0, step.index)
+      .reverse()
+      .find(accept);
+
+  switch (step.type) {
+    case "search": {
+      const alias = QUERY_ALIASES.find((key) => typeof params[key] === "string");
+      if (!params.query && alias) {
+        report(
+          "error",
+          "missing_param",
+          `query was given as "${alias}"`,
+          step,
+          repair
+        );
+        if (repair) {
+          params.query = params[alias];
+          delete params[alias];
+        }
+      }
+      if (!params.query || typeof params.query !== "string") {
+        report("error", "missing_param", "search needs a query", step);
+      }
+
+      checkSource(step, options, repair, report);
+
+      if (params.num !== undefined && typeof params.num !== "number") {
+        const num = toIndex(params.num);
+        report(
+          "error",
+          "invalid_param",
+          `num must be a number, got ${JSON.stringify(params.num)}`,
+          step,
+          repair
+        );
+        if (repair) {
+          if (num) params.num = num;
+          else delete params.num;
+        }
+      }
+      break;
+    }
+
+    case "fetch_page": {
+      // A review of a web search keeps its result URLs
+      const isWebSearch = (s?: WorkflowStep): boolean =>
+        s?.type === "review"
+          ? isWebSearch(steps[s.params.fromStep])
+          : s?.type === "search" &&
+            ["google", "web", undefined].includes(s.params.source);
+      const source =
+        typeof params.fromStep === "number" ? steps[params.fromStep] : undefined;
+
+      if (!isWebSearch(source)) {
+        const target = nearest(isWebSearch);
+        report(
+          "error",
+          typeof params.fromStep === "number" ? "bad_input_step" : "missing_param",
+          typeof params.fromStep === "number"
+            ? `fromStep must be a google search step`
+            : `fetch_page needs fromStep`,
+          step,
+          repair && !!target
+        );
+        if (repair && target) params.fromStep = target.index;
+      }
+      break;
+    }
+
+    case "extract": {
+      if (typeof params.fromStep !== "number") {
+        const target = nearest((s) => EXTRACTABLE.has(s.type));
+        report(
+          "error",
+          "missing_param",
+          "extract needs fromStep",
+          step,
+          repair && !!target
+        );
+        if (repair && target) params.fromStep = target.index;
+      } else if (steps[params.fromStep]?.type === "generate_report") {
+        report("error", "bad_input_step", "cannot extract from a report", step);
+      }
+
+      if (typeof params.fields === "string") {
+        report(
+          "error",
+          "invalid_param",
+          "fields must be an array of names",
+          step,
+          repair
+        );
+        if (repair) {
+          params.fields = params.fields
+            .split(",")
+            .map((field: string) => field.trim())
+            .filter(Boolean);
+        }
+      } else if (params.fields !== undefined && !Array.isArray(params.fields)) {
+        report("error", "invalid_param", "fields must be an array", step);
+      }
+
+      if (!params.extractionGoal) {
+        report("warning", "missing_param", "no extractionGoal given", step);
+      }
+      break;
+    }
+
+    case "analyze": {
+      if (!params.question) {
+        report("warning", "missing_param", "no question given", step);
+      }
+      break;
+    }
+
+    case "aggregate": {
+      if (Array.isArray(params.fromSteps) && params.fromSteps.length === 1) {
+        report(
+          "warning",
+          "invalid_param",
+          "aggregating a single step has nothing to merge",
+          step
+        );
+      }
+      break;
+    }
+
+    case "verify": {
+      const hasClaims = (s?: WorkflowStep) =>
+        s?.type === "analyze" || s?.type === "extract";
+      const fromSteps: number[] = Array.isArray(params.fromSteps) ? params.fromSteps : [];
+      const invalid = fromSteps.filter((idx) => !hasClaims(steps[idx]));
+
+      if (fromSteps.length === 0) {
+        const target = nearest(hasClaims);
+        report(
+          "error",
+          "missing_param",
+          "verify needs fromSteps (the analyze or extract steps whose claims it checks)",
+          step,
+          repair && !!target
+        );
+        if (repair && target) params.fromSteps = [target.index];
+      } else if (invalid.length > 0) {
+        const valid = fromSteps.filter((idx) => hasClaims(steps[idx]));
+        const target = nearest(hasClaims);
+        const fixed = valid.length > 0 ? valid : target ? [target.index] : [];
+        report(
+          "error",
+          "bad_input_step",
+          `fromSteps must be analyze or extract steps; step ${invalid.map((i) => i + 1).join(", ")} is not`,
+          step,
+          repair && fixed.length > 0
+        );
+        if (repair && fixed.length > 0) params.fromSteps = fixed;
+      }
+
+      if (
+        params.followUpSearches !== undefined &&
+        !(Number.isInteger(params.followUpSearches) && params.followUpSearches >= 0)
+      ) {
+        report(
+          "error",
+          "invalid_param",
+          `followUpSearches must be a whole number, got ${JSON.stringify(params.followUpSearches)}`,
+          step,
+          repair
+        );
+        if (repair) delete params.followUpSearches;
+      }
+      const allowed = options.sources;
+      if (
+        params.followUpSearches > 0 &&
+        allowed &&
+        allowed.length > 0 &&
+        !allowed.includes("google")
+      ) {
+        report(
+          "warning",
+          "source_not_allowed",
+          `follow-up searches use google, which is not enabled for this workflow (${allowed.join(", ")})`,
+          step
+        );
+      }
+      break;
+    }
+
+    case "review": {
+      const mode = reviewMode(params);
+      if (mode !== "select" && mode !== "form") {
+        report("error", "invalid_param", `mode must be "select" or "form"`, step);
+      } else if (mode === "select" && typeof params.fromStep !== "number") {
+        const target = nearest((s) => EXTRACTABLE.has(s.type));
+        report(
+          "error",
+          "missing_param",
+          "a select review needs fromStep",
+          step,
+          repair && !!target
+        );
+        if (repair && target) params.fromStep = target.index;
+      } else if (
+        mode === "form" &&
+        Object.keys(params.fields || {}).length === 0
+      ) {
+        report("error", "missing_param", "a form review needs fields", step);
+      }
+      break;
+    }
+
+    case "branch": {
+      if (typeof params.fromStep !== "number") {
+        const target = nearest((s) => s.type !== "branch");
+        report(
+          "error",
+          "missing_param",
+          "branch needs fromStep (the step whose output it tests)",
+          step,
+          repair && !!target
+        );
+        if (repair && target) params.fromStep = target.index;
+      }
+      checkCondition(step, repair, report);
+      checkBranchTargets(step, steps, repair, report);
+      break;
+    }
+
+    case "for_each": {
+      if (typeof params.fromStep !== "number") {
+        const target = nearest((s) => EXTRACTABLE.has(s.type));
+        report(
+          "error",
+          "missing_param",
+          "for_each needs fromStep (the step whose items it loops over)",
+          step,
+          repair && !!target
+        );
+        if (repair && target) params.fromStep = target.index;
+      }
+      if (
+        params.maxItems !== undefined &&
+        !(Number.isInteger(params.maxItems) && params.maxItems > 0)
+      ) {
+        const maxItems = toIndex(params.maxItems);
+        report(
+          "error",
+          "invalid_param",
+          `maxItems must be a positive whole number, got ${JSON.stringify(params.maxItems)}`,
+          step,
+          repair
+        );
+        if (repair) {
+          if (maxItems) params.maxItems = maxItems;
+          else delete params.maxItems;
+        }
+      }
+      checkSubSteps(step, options, repair, report);
+      break;
+    }
+
+    case "generate_report":
+      break;
+  }
+
+  const unknown = Object.keys(params).filter(
+    (key) => !KNOWN_PARAMS[step.type]?.includes(key)
+  );
+  if (unknown.length > 0) {
+    report(
+      "warning",
+      "unknown_param",
+      `unused params for ${step.type}: ${unknown.join(", ")}`,
+      step
+    );
+  }
+}
+
+// ─────────────────────────────────────────────────────────
+// Control flow
+// ─────────────────────────────────────────────────────────
+
+function checkCondition(step: WorkflowStep, repair: boolean, report: Report) {
+  const raw = step.params.condition;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    report(
+      "error",
+      "missing_param",
+      `branch needs a condition like { "op": "lt", "value": 5 }`,
+      step
+    );
+    return;
+  }
+
+  // The condition object is shared with the input plan
+  const condition = (step.params.condition = { ...raw });
+  const op = String(condition.op ?? "").trim().toLowerCase();
+  if (!CONDITION_OPS.includes(condition.op)) {
+    const fixed: ConditionOp | undefined = CONDITION_OPS.includes(op as ConditionOp)
+      ? (op as ConditionOp)
+      : CONDITION_OP_ALIASES[op];
+    report(
+      "error",
+      "invalid_param",
+      fixed
+        ? `condition op "${condition.op}" should be "${fixed}"`
+        : `condition op must be one of ${CONDITION_OPS.join(", ")}, got ${JSON.stringify(condition.op)}`,
+      step,
+      repair && !!fixed
+    );
+    if (repair && fixed) condition.op = fixed;
+  }
+
+  if (VALUE_OPS.includes(condition.op) && condition.value === undefined) {
+    report(
+      "error",
+      "missing_param",
+      `condition "${condition.op}" needs a value to compare with`,
+      step
+    );
+  }
+}
+
+/**
+ * Branch targets must be later steps (the branch decides before they run),
+ * never the report step, and on one side only.
+ */
+function checkBranchTargets(
+  step: WorkflowStep,
+  steps: WorkflowStep[],
+  repair: boolean,
+  report: Report
+) {
+  const { params } = step;
+
+  for (const side of ["then", "else"]) {
+    if (!Array.isArray(params[side])) continue;
+    params[side] = params[side].filter((ref: number) => {
+      const problem =
+        ref <= step.index
+          ? "which runs before the branch"
+          : ref >= steps.length
+            ? "which does not exist"
+            : steps[ref].type === "generate_report"
+              ? "the report step, which always runs"
+              : null;
+      if (!problem) return true;
+      report(
+        "error",
+        "invalid_branch_target",
+        `${side} lists step ${ref + 1}, ${problem}`,
+        step,
+        repair
+      );
+      return !repair;
+    });
+  }
+
+  const then: number[] = params.then ?? [];
+  const otherwise: number[] = params.else ?? [];
+  const both = then.filter((ref) => otherwise.includes(ref));
+  if (both.length > 0) {
+    report(
+      "error",
+      "invalid_branch_target",
+      `step ${both.map((ref) => ref + 1).join(", ")} is listed in both then and else`,
+      step,
+      repair
+    );
+    if (repair) params.else = otherwise.filter((ref) => !both.includes(ref));
+  }
+
+  if (then.length === 0 && (params.else ?? []).length === 0) {
+    report(
+      "error",
+      "missing_param",
+      "branch lists no steps in then or else",
+      step
+    );
+  }
+}
+
+/**
+ * A for_each body holds data steps only; their fromStep / fromSteps point
+ * at earlier sub-steps of the same item, not at plan steps.
+ */
+function checkSubSteps(
+  step: WorkflowStep,
+  options: ValidatePlanOptions,
+  repair: boolean,
+  report: Report
+) {
+  const { params } = step;
+  if (!Array.isArray(params.steps) || params.steps.length === 0) {
+    report(
+      "error",
+      "missing_param",
+      "for_each needs steps to run for each item",
+      step
+    );
+    return;
+  }
+
+  // Sub-steps are shared with the input plan
+  params.steps = params.steps.map((sub: any) => ({
+    ...sub,
+    params: { ...(sub?.params || {}) },
+  }));
+
+  params.steps.forEach((sub: any, j: number) => {
+    // Reported under the parent step, e.g. "Step 5 (Per repo › Search)"
+    const asStep = {
+      ...sub,
+      index: step.index,
+      title: `${step.title || step.type} › ${sub.title || sub.type}`,
+      dependsOn: [],
+    } as WorkflowStep;
+    const subReport: Report = (severity, code, message, _step, fixed) =>
+      report(severity, code, `sub-step ${j + 1}: ${message}`, asStep, fixed);
+
+    if (!SUB_STEP_TYPES.includes(sub.type)) {
+      subReport(
+        "error",
+        "invalid_sub_step",
+        `type "${sub.type}" cannot run inside for_each (use ${SUB_STEP_TYPES.join(", ")})`
+      );
+      return;
+    }
+
+    if (sub.type === "search") {
+      if (!sub.params.query || typeof sub.params.query !== "string") {
+        subReport("error", "missing_param", "search needs a query");
+      }
+      checkSource(asStep, options, repair, subReport);
+    }
+
+    const { fromStep, fromSteps } = sub.params;
+    const needsInput = sub.type === "fetch_page" || sub.type === "extract";
+    const badFromStep =
+      fromStep !== undefined &&
+      !(Number.isInteger(fromStep) && fromStep >= 0 && fromStep < j);
+    if (badFromStep || (needsInput && fromStep === undefined)) {
+      subReport(
+        "error",
+        fromStep === undefined ? "missing_param" : "bad_input_step",
+        "fromStep must point at an earlier sub-step of the same item",
+        undefined,
+        repair && j > 0
+      );
+      if (repair && j > 0) sub.params.fromStep = j - 1;
+    }
+    if (Array.isArray(fromSteps)) {
+      const valid = fromSteps.filter(
+        (ref: unknown) => Number.isInteger(ref) && (ref as number) < j
+      );
+      if (valid.length !== fromSteps.length) {
+        subReport(
+          "error",
+          "bad_input_step",
+          "fromSteps must only list earlier sub-steps of the same item",
+          undefined,
+          repair
+        );
+        if (repair) sub.params.fromSteps = valid;
+      }
+    }
+  });
+}
+
+function checkSource(
+  step: WorkflowStep,
+  options: ValidatePlanOptions,
+  repair: boolean,
+  report: Report
+) {
+  const { params } = step;
+  const raw = params.source;
+
+  if (raw !== undefined && typeof raw !== "string") {
+    report("error", "invalid_param", "source must be a string", step, repair);
+    if (repair) delete params.source;
+  }
+
+  if (typeof params.source === "string") {
+    const lower = params.source.toLowerCase();
+    const source = SOURCE_ALIASES[lower] ?? lower;
+    if (source !== params.source) {
+      report(
+        "error",
+        "unknown_source",
+        `source "${params.source}" should be "${source}"`,
+        step,
+        repair
+      );
+      if (repair) params.source = source;
+    }
+  }
+
+  const source = params.source ?? "google";
+  if (!KNOWN_SOURCES.includes(source)) {
+    report(
+      "error",
+      "unknown_source",
+      `unknown search source "${source}" (use ${KNOWN_SOURCES.join(", ")})`,
+      step
+    );
+    return;
+  }
+
+  const allowed = options.sources;
+  const effective = source === "web" ? "google" : source;
+  if (allowed && allowed.length > 0 && !allowed.includes(effective)) {
+    // Fall back to the workflow's first source; the query still applies
+    const fallback = allowed.find((s) => KNOWN_SOURCES.includes(s));
+    report(
+      "error",
+      "source_not_allowed",
+      `source "${source}" is not enabled for this workflow (${allowed.join(", ")})`,
+      step,
+      repair && !!fallback
+    );
+    if (repair && fallback) params.source = fallback;
+  }
+}
@@ -0,0 +1,228 @@
+// lib/workflow-verify.ts
+//
+// Claim verification for `verify` steps.
+//
+// A verify step takes the claims made by earlier analyze and extract steps
+// (their findings and extracted rows) and checks each against the rest of
+// the workflow's results. Every item there with a URL is numbered as a
+// source (see workflow-citations.ts), and the model names the numbered
+// items that support or contradict each claim. With followUpSearches set,
+// claims nothing speaks to get a web search of their own and a second look.
+//
+// The verdict follows from the evidence, not from the model:
+//   supported   — only supporting evidence
+//   contested   — at least one source contradicts it
+//   unsupported — no evidence either way
+//
+// Reports list the contested claims in a section of their own
+// (contestedClaimsSection), whatever the report model wrote.
+
+import type { ReportSection, VerifyOutput } from "@/lib/workflow-schemas";
+import { sourceRef, type ReportSource } from "@/lib/workflow-citations";
+
+// ─────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────
+
+export type ClaimVerdict = "supported" | "contested" | "unsupported";
+
+export type Claim = {
+  /** 1-based, in the order the claims were collected */
+  id: number;
+  claim: string;
+  /** Step the claim came from */
+  fromStep: number;
+  /** The analyze step's own confidence, when it gave one */
+  confidence?: string;
+};
+
+export type ClaimEvidence = {
+  url: string;
+  title: string;
+  site: string;
+  stepIndex: number;
+  stance: "supports" | "contradicts";
+  quote: string;
+};
+
+export type VerifiedClaim = Claim & {
+  verdict: ClaimVerdict;
+  evidence: ClaimEvidence[];
+  note: string;
+};
+
+export const DEFAULT_MAX_CLAIMS = 15;
+
+/** Evidence kept per claim; contradicting evidence is kept first */
+const MAX_EVIDENCE_PER_CLAIM = 5;
+
+/** Fields of an extracted row that are not part of what it claims */
+const ROW_META_FIELDS = new Set(["ref", "url", "link", "source"]);
+
+// ─────────────────────────────────────────────────────────
+// Claims
+// ─────────────────────────────────────────────────────────
+
+/** An extracted row as one sentence, e.g. "name: Axum; stars: 18000" */
+function rowClaim(row: unknown): string {
+  if (row == null || typeof row !== "object") return String(row ?? "");
+  return Object.entries(row)
+    .filter(([key, value]) => !ROW_META_FIELDS.has(key) && value != null && value !== "")
+    .map(([key, value]) => `${key}: ${typeof value === "object" ? JSON.stringify(value) : value}`)
+    .join("; ");
+}
+
+/**
+ * The claims to check: the findings of analyze steps and the rows of
+ * extract steps listed in fromSteps, in step order, at most `maxClaims`
+ */
+export function collectClaims(
+  fromSteps: number[],
+  previousResults: any[],
+  maxClaims = DEFAULT_MAX_CLAIMS
+): Claim[] {
+  const claims: Claim[] = [];
+  const add = (claim: string, fromStep: number, confidence?: string) => {
+    const text = claim.trim();
+    if (!text || claims.length >= maxClaims) return;
+    if (claims.some((c) => c.claim === text)) return;
+    claims.push({
+      id: claims.length + 1,
+      claim: text,
+      fromStep,
+      ...(confidence && { confidence }),
+    });
+  };
+
+  for (const stepIndex of fromSteps) {
+    const data = previousResults[stepIndex]?.data;
+    if (!data || previousResults[stepIndex]?.skipped) continue;
+    if (Array.isArray(data.findings)) {
+      data.findings.forEach((finding: any) =>
+        add(String(finding?.insight ?? ""), stepIndex, finding?.confidence)
+      );
+    } else if (Array.isArray(data.extracted)) {
+      data.extracted.forEach((row: unknown) => add(rowClaim(row), stepIndex));
+    }
+  }
+
+  return claims;
+}
+
+// ─────────────────────────────────────────────────────────
+// Verdicts
+// ─────────────────────────────────────────────────────────
+
+export function claimVerdict(evidence: ClaimEvidence[]): ClaimVerdict {
+  if (evidence.some((e) => e.stance === "contradicts")) return "contested";
+  return evidence.length > 0 ? "supported" : "unsupported";
+}
+
+export function unverifiedClaims(claims: Claim[]): VerifiedClaim[] {
+  return claims.map((claim) => ({
+    ...claim,
+    verdict: "unsupported",
+    evidence: [],
+    note: "",
+  }));
+}
+
+/**
+ * Add the model's judgments to the claims. Refs that name no source are
+ * dropped, as is evidence already recorded for the claim.
+ */
+export function applyJudgments(
+  claims: VerifiedClaim[],
+  judgments: VerifyOutput["claims"],
+  sources: ReportSource[]
+): VerifiedClaim[] {
+  const byId = new Map(sources.map((s) => [s.id, s]));
+
+  return claims.map((claim) => {
+    const evidence = [...claim.evidence];
+    let note = claim.note;
+
+    for (const judgment of judgments.filter((j) => j.id === claim.id)) {
+      for (const entry of judgment.evidence) {
+        const source = byId.get(entry.ref);
+        if (!source || entry.stance === "neutral") continue;
+        if (evidence.some((e) => e.url === source.url && e.stance === entry.stance)) {
+          continue;
+        }
+        evidence.push({
+          url: source.url,
+          title: source.title,
+          site: source.site,
+          stepIndex: source.stepIndex,
+          stance: entry.stance,
+          quote: entry.quote,
+        });
+      }
+      if (judgment.note) note = judgment.note;
+    }
+
+    // Contradictions are what a reader needs to see; keep them first
+    evidence.sort(
+      (a, b) => Number(b.stance === "contradicts") - Number(a.stance === "contradicts")
+    );
+    const kept = evidence.slice(0, MAX_EVIDENCE_PER_CLAIM);
+    return { ...claim, evidence: kept, note, verdict: claimVerdict(kept) };
+  });
+}
+
+export function countVerdicts(claims: VerifiedClaim[]): Record<ClaimVerdict, number> {
+  const counts: Record<ClaimVerdict, number> = {
+    supported: 0,
+    contested: 0,
+    unsupported: 0,
+  };
+  claims.forEach((claim) => counts[claim.verdict]++);
+  return counts;
+}
+
+// ─────────────────────────────────────────────────────────
+// Reports
+// ─────────────────────────────────────────────────────────
+
+/** Outputs of verify steps among the workflow results */
+function verifyOutputs(results: any[]): { claims: VerifiedClaim[] }[] {
+  return (results || [])
+    .map((result) => result?.data)
+    .filter(
+      (data) =>
+        Array.isArray(data?.claims) &&
+        data.claims.every((claim: any) => typeof claim?.verdict === "string")
+    );
+}
+
+/**
+ * A list of the contested claims, each citing the sources on both sides,
+ * or null when no verify step found any. `sources` are the report's
+ * collected sources, before applyCitations() renumbers them.
+ */
+export function contestedClaimsSection(
+  results: any[],
+  sources: ReportSource[],
+  id: string
+): ReportSection | null {
+  const contested = verifyOutputs(results)
+    .flatMap((output) => output.claims)
+    .filter((claim) => claim.verdict === "contested");
+  if (contested.length === 0) return null;
+
+  return {
+    id,
+    type: "list",
+    title: "Contested Claims",
+    content: {
+      items: contested.map((claim) =>
+        claim.note ? `${claim.claim} — ${claim.note}` : claim.claim
+      ),
+      itemCitations: contested.map((claim) =>
+        claim.evidence
+          .map((e) => sourceRef(sources, e.url))
+          .filter((ref): ref is number => ref !== undefined)
+      ),
+    },
+  };
+}